@@ -3,6 +3,7 @@
  */
 
 import dotenv from 'dotenv';
+import { randomBytes } from 'crypto';
 
 // Load environment variables BEFORE importing config
 dotenv.config({ path: '.env' });
@@ -15,6 +16,17 @@ export interface BackendConfig {
   CORS_ORIGIN: string;
   ROOM_EXPIRY_HOURS: number;
   ROOM_CAPACITY: number;
+  DISCONNECT_GRACE_SECONDS: number;
+  MESSAGE_HISTORY_LIMIT: number;
+  SESSION_SECRET: string;
+  ROOM_STORE: 'memory' | 'file';
+  ROOM_STORE_PATH: string;
+  ATTACHMENT_STORE_PATH: string;
+  ATTACHMENT_MAX_BYTES: number;
+  ATTACHMENT_ALLOWED_TYPES: string[];
+  ATTACHMENT_QUOTA_BYTES: number;
+  ATTACHMENT_UNSENT_EXPIRY_HOURS: number;
+  USER_AVATARS: 'identicon' | 'initials';
 }
 
 /**
@@ -49,6 +61,109 @@ export function loadBackendConfig(): BackendConfig {
     );
   }
 
+  const disconnectGraceSeconds = parseInt(
+    env.DISCONNECT_GRACE_SECONDS ?? '60',
+    10
+  );
+  if (isNaN(disconnectGraceSeconds) || disconnectGraceSeconds < 0) {
+    throw new Error(
+      `Invalid DISCONNECT_GRACE_SECONDS: ${env.DISCONNECT_GRACE_SECONDS}. Must be zero or a positive number.`
+    );
+  }
+
+  const messageHistoryLimit = parseInt(env.MESSAGE_HISTORY_LIMIT ?? '1000', 10);
+  if (
+    isNaN(messageHistoryLimit) ||
+    messageHistoryLimit <= 0 ||
+    messageHistoryLimit > 100000
+  ) {
+    throw new Error(
+      `Invalid MESSAGE_HISTORY_LIMIT: ${env.MESSAGE_HISTORY_LIMIT}. Must be a positive number up to 100000.`
+    );
+  }
+
+  const roomStore = env.ROOM_STORE ?? 'memory';
+  if (!['memory', 'file'].includes(roomStore)) {
+    throw new Error(
+      `Invalid ROOM_STORE: ${roomStore}. Must be memory or file.`
+    );
+  }
+  const roomStorePath = env.ROOM_STORE_PATH ?? 'data/rooms.json';
+
+  // Without a configured secret (unset or left empty by env:setup), sessions
+  // only survive until the next restart. Persisted rooms would outlive every
+  // session token issued for them, so the file store needs a fixed secret.
+  if (!env.SESSION_SECRET?.length && roomStore === 'file') {
+    throw new Error(
+      'Missing SESSION_SECRET: required when ROOM_STORE is file.'
+    );
+  }
+  const sessionSecret = env.SESSION_SECRET?.length
+    ? env.SESSION_SECRET
+    : randomBytes(32).toString('hex');
+  if (sessionSecret.length < 32) {
+    throw new Error(
+      'Invalid SESSION_SECRET: must be at least 32 characters long.'
+    );
+  }
+
+  const attachmentStorePath = env.ATTACHMENT_STORE_PATH ?? 'data/attachments';
+  const attachmentMaxBytes = parseInt(
+    env.ATTACHMENT_MAX_BYTES ?? '10485760',
+    10
+  );
+  if (
+    isNaN(attachmentMaxBytes) ||
+    attachmentMaxBytes <= 0 ||
+    attachmentMaxBytes > 104857600
+  ) {
+    throw new Error(
+      `Invalid ATTACHMENT_MAX_BYTES: ${env.ATTACHMENT_MAX_BYTES}. Must be a positive number up to 104857600 (100 MB).`
+    );
+  }
+  // Active content such as text/html or image/svg+xml is deliberately not in
+  // the defaults: attachments are served from the API origin
+  const attachmentAllowedTypes = (
+    env.ATTACHMENT_ALLOWED_TYPES ??
+    'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain'
+  )
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter(type => type.length > 0);
+  if (attachmentAllowedTypes.length === 0) {
+    throw new Error(
+      'Invalid ATTACHMENT_ALLOWED_TYPES: must list at least one MIME type.'
+    );
+  }
+
+  // Per user and room; files count until their message is deleted or, if
+  // never sent, until they expire
+  const attachmentQuotaBytes = parseInt(
+    env.ATTACHMENT_QUOTA_BYTES ?? '52428800',
+    10
+  );
+  if (isNaN(attachmentQuotaBytes) || attachmentQuotaBytes <= 0) {
+    throw new Error(
+      `Invalid ATTACHMENT_QUOTA_BYTES: ${env.ATTACHMENT_QUOTA_BYTES}. Must be a positive number.`
+    );
+  }
+  const attachmentUnsentExpiryHours = parseInt(
+    env.ATTACHMENT_UNSENT_EXPIRY_HOURS ?? '1',
+    10
+  );
+  if (isNaN(attachmentUnsentExpiryHours) || attachmentUnsentExpiryHours <= 0) {
+    throw new Error(
+      `Invalid ATTACHMENT_UNSENT_EXPIRY_HOURS: ${env.ATTACHMENT_UNSENT_EXPIRY_HOURS}. Must be a positive number.`
+    );
+  }
+
+  const userAvatars = env.USER_AVATARS ?? 'identicon';
+  if (!['identicon', 'initials'].includes(userAvatars)) {
+    throw new Error(
+      `Invalid USER_AVATARS: ${userAvatars}. Must be identicon or initials.`
+    );
+  }
+
   const backendHost = env.BACKEND_HOST ?? 'localhost';
   const frontendHost = env.FRONTEND_HOST ?? 'localhost';
   const frontendPort = env.FRONTEND_PORT ?? '5173';
@@ -66,6 +181,17 @@ export function loadBackendConfig(): BackendConfig {
     CORS_ORIGIN: corsOrigin,
     ROOM_EXPIRY_HOURS: roomExpiryHours,
     ROOM_CAPACITY: roomCapacity,
+    DISCONNECT_GRACE_SECONDS: disconnectGraceSeconds,
+    MESSAGE_HISTORY_LIMIT: messageHistoryLimit,
+    SESSION_SECRET: sessionSecret,
+    ROOM_STORE: roomStore as 'memory' | 'file',
+    ROOM_STORE_PATH: roomStorePath,
+    ATTACHMENT_STORE_PATH: attachmentStorePath,
+    ATTACHMENT_MAX_BYTES: attachmentMaxBytes,
+    ATTACHMENT_ALLOWED_TYPES: attachmentAllowedTypes,
+    ATTACHMENT_QUOTA_BYTES: attachmentQuotaBytes,
+    ATTACHMENT_UNSENT_EXPIRY_HOURS: attachmentUnsentExpiryHours,
+    USER_AVATARS: userAvatars as 'identicon' | 'initials',
   };
 }
 
@@ -5,8 +5,12 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import roomRoutes from './routes/rooms';
+import attachmentRoutes from './routes/attachments';
+import messageRoutes from './routes/messages';
 import { setupSocketHandlers } from './services/socketService';
 import { roomService } from './services/roomService';
+import { documentService } from './services/documentService';
+import { attachmentService } from './services/attachmentService';
 import { backendConfig } from './config/environment';
 import logger from './utils/logger';
 
@@ -49,17 +53,26 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api', roomRoutes);
+app.use('/api', attachmentRoutes);
+app.use('/api', messageRoutes);
 
 // Setup Socket.IO handlers
 setupSocketHandlers(io);
 
-// Setup periodic cleanup of expired rooms
+// Setup periodic cleanup of expired rooms and unsent attachments
 const cleanupInterval = setInterval(
   () => {
     const deletedCount = roomService.cleanupExpiredRooms(24);
     if (deletedCount > 0) {
       logger.info('Cleaned up expired rooms', { deletedCount });
     }
+
+    const unsentCount = attachmentService.deleteUnsentAttachments(
+      backendConfig.ATTACHMENT_UNSENT_EXPIRY_HOURS
+    );
+    if (unsentCount > 0) {
+      logger.info('Deleted unsent attachments', { unsentCount });
+    }
   },
   60 * 60 * 1000
 ); // Run every hour
@@ -99,6 +112,11 @@ httpServer.listen(PORT, () => {
     CORS_ORIGIN: backendConfig.CORS_ORIGIN,
     ROOM_CAPACITY: backendConfig.ROOM_CAPACITY,
     ROOM_EXPIRY_HOURS: backendConfig.ROOM_EXPIRY_HOURS,
+    DISCONNECT_GRACE_SECONDS: backendConfig.DISCONNECT_GRACE_SECONDS,
+    MESSAGE_HISTORY_LIMIT: backendConfig.MESSAGE_HISTORY_LIMIT,
+    ROOM_STORE: backendConfig.ROOM_STORE,
+    ATTACHMENT_MAX_BYTES: backendConfig.ATTACHMENT_MAX_BYTES,
+    ATTACHMENT_ALLOWED_TYPES: backendConfig.ATTACHMENT_ALLOWED_TYPES,
   });
 
   logger.info('WebSocket server ready');
@@ -108,6 +126,8 @@ httpServer.listen(PORT, () => {
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
   clearInterval(cleanupInterval);
+  documentService.flush();
+  roomService.flush();
   httpServer.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -117,6 +137,8 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
   clearInterval(cleanupInterval);
+  documentService.flush();
+  roomService.flush();
   httpServer.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express, { Express } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import attachmentsRouter from '../attachments';
+import { roomService } from '../../services/roomService';
+import { attachmentService } from '../../services/attachmentService';
+import { backendConfig } from '../../config/environment';
+import { createSessionToken } from '../../utils/sessionTokens';
+import { User } from '../../types';
+
+// Same middleware order as the server
+function createTestApp(): Express {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', attachmentsRouter);
+  return app;
+}
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('Attachment Routes', () => {
+  let app: Express;
+  let roomId: string;
+  let token: string;
+  let storePath: string;
+  const originalStorePath = backendConfig.ATTACHMENT_STORE_PATH;
+
+  const addUser = (id: string, nickname: string): string => {
+    const user: User = {
+      id,
+      nickname,
+      socketId: `socket-${id}`,
+      joinedAt: new Date(),
+      isOnline: true,
+    };
+    roomService.addUserToRoom(roomId, user);
+    return createSessionToken(roomId, id);
+  };
+
+  const upload = (
+    body: Buffer,
+    type = 'image/png',
+    authToken: string | null = token
+  ) => {
+    const req = request(app)
+      .post(`/api/room/${roomId}/attachments`)
+      .set('Content-Type', type)
+      .set('X-File-Name', encodeURIComponent('screen shot.png'));
+    return (
+      authToken ? req.set('Authorization', `Bearer ${authToken}`) : req
+    ).send(body);
+  };
+
+  beforeEach(() => {
+    storePath = fs.mkdtempSync(path.join(os.tmpdir(), 'kuikui-attachments-'));
+    backendConfig.ATTACHMENT_STORE_PATH = storePath;
+    app = createTestApp();
+    roomService.clearAllRoomsForTest();
+    roomId = roomService.createRoom();
+    token = addUser('user-1', 'Alice');
+  });
+
+  afterEach(() => {
+    backendConfig.ATTACHMENT_STORE_PATH = originalStorePath;
+    fs.rmSync(storePath, { recursive: true, force: true });
+  });
+
+  describe('POST /api/room/:roomId/attachments', () => {
+    it('should store the file and return its metadata', async () => {
+      const response = await upload(PNG_BYTES).expect(201);
+
+      const { attachment } = response.body;
+      expect(attachment).toMatchObject({
+        name: 'screen shot.png',
+        mimeType: 'image/png',
+        size: PNG_BYTES.length,
+        uploadedBy: 'user-1',
+      });
+      expect(roomService.getAttachment(roomId, attachment.id)).toBeDefined();
+      expect(
+        fs.readFileSync(path.join(storePath, roomId, attachment.id))
+      ).toEqual(PNG_BYTES);
+    });
+
+    it('should require a session token for a member of the room', async () => {
+      await upload(PNG_BYTES, 'image/png', null).expect(401);
+      await upload(PNG_BYTES, 'image/png', 'forged.token').expect(401);
+
+      const otherRoomToken = createSessionToken(
+        roomService.createRoom(),
+        'user-1'
+      );
+      await upload(PNG_BYTES, 'image/png', otherRoomToken).expect(401);
+    });
+
+    it('should not let viewers upload', async () => {
+      const viewerToken = addUser('user-2', 'Bob');
+      roomService.setUserRole(roomId, 'user-2', 'viewer');
+
+      await upload(PNG_BYTES, 'image/png', viewerToken).expect(403);
+    });
+
+    it('should reject types that are not allowed', async () => {
+      const response = await upload(
+        Buffer.from('<svg/>'),
+        'image/svg+xml'
+      ).expect(415);
+
+      expect(response.body.error).toBe('This file type is not allowed');
+    });
+
+    it('should reject files over the size limit', async () => {
+      const originalMax = backendConfig.ATTACHMENT_MAX_BYTES;
+      backendConfig.ATTACHMENT_MAX_BYTES = 4;
+      try {
+        await upload(PNG_BYTES).expect(413);
+      } finally {
+        backendConfig.ATTACHMENT_MAX_BYTES = originalMax;
+      }
+    });
+
+    it('should reject uploads over the quota of the user in the room', async () => {
+      const originalQuota = backendConfig.ATTACHMENT_QUOTA_BYTES;
+      backendConfig.ATTACHMENT_QUOTA_BYTES = PNG_BYTES.length * 2;
+      try {
+        await upload(PNG_BYTES).expect(201);
+        const { body: second } = await upload(PNG_BYTES).expect(201);
+
+        const response = await upload(PNG_BYTES).expect(413);
+        expect(response.body.error).toBe(
+          `You can store at most ${PNG_BYTES.length * 2} bytes of files in this room`
+        );
+
+        // Other users have their own quota, and deleting files frees it
+        await upload(PNG_BYTES, 'image/png', addUser('user-2', 'Bob')).expect(
+          201
+        );
+        attachmentService.deleteAttachments(roomId, [second.attachment.id]);
+        await upload(PNG_BYTES).expect(201);
+      } finally {
+        backendConfig.ATTACHMENT_QUOTA_BYTES = originalQuota;
+      }
+    });
+
+    it('should reject empty files', async () => {
+      await upload(Buffer.alloc(0)).expect(400);
+    });
+
+    it('should return 404 for unknown rooms', async () => {
+      await request(app)
+        .post('/api/room/does-not-exist/attachments')
+        .set('Content-Type', 'image/png')
+        .send(PNG_BYTES)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/room/:roomId/attachments/:attachmentId', () => {
+    it('should serve images inline and as a download on request', async () => {
+      const { attachment } = (await upload(PNG_BYTES).expect(201)).body;
+      const url = `/api/room/${roomId}/attachments/${attachment.id}`;
+
+      const inline = await request(app).get(url).query({ token }).expect(200);
+      expect(inline.headers['content-type']).toBe('image/png');
+      expect(inline.headers['content-disposition']).toBe(
+        "inline; filename*=UTF-8''screen%20shot.png"
+      );
+      expect(inline.headers['cross-origin-resource-policy']).toBe(
+        'cross-origin'
+      );
+      expect(inline.body).toEqual(PNG_BYTES);
+
+      const download = await request(app)
+        .get(url)
+        .query({ token, download: '1' })
+        .expect(200);
+      expect(download.headers['content-disposition']).toMatch(/^attachment;/);
+    });
+
+    it('should always download files that are not images', async () => {
+      const { attachment } = (
+        await upload(Buffer.from('notes'), 'text/plain').expect(201)
+      ).body;
+
+      const response = await request(app)
+        .get(`/api/room/${roomId}/attachments/${attachment.id}`)
+        .query({ token })
+        .expect(200);
+
+      expect(response.headers['content-disposition']).toMatch(/^attachment;/);
+    });
+
+    it('should return 404 for unknown attachments', async () => {
+      await request(app)
+        .get(`/api/room/${roomId}/attachments/unknown`)
+        .query({ token })
+        .expect(404);
+    });
+
+    it('should only serve files to members of the room', async () => {
+      const { attachment } = (await upload(PNG_BYTES).expect(201)).body;
+      const url = `/api/room/${roomId}/attachments/${attachment.id}`;
+      const bobToken = addUser('user-2', 'Bob');
+
+      await request(app).get(url).expect(401);
+      await request(app).get(url).query({ token: 'forged' }).expect(401);
+      await request(app)
+        .get(url)
+        .set('Authorization', `Bearer ${bobToken}`)
+        .expect(200);
+
+      // Access ends with membership, e.g. when kicked
+      roomService.removeUserFromRoom(roomId, 'user-2');
+      const response = await request(app)
+        .get(url)
+        .query({ token: bobToken })
+        .expect(401);
+      expect(response.body.error).toBe('Join the room to view its files');
+    });
+  });
+
+  it('should delete attachments with their message or room', async () => {
+    const first = (await upload(PNG_BYTES).expect(201)).body.attachment;
+    const second = (await upload(PNG_BYTES).expect(201)).body.attachment;
+
+    attachmentService.deleteAttachments(roomId, [first.id]);
+    expect(roomService.getAttachment(roomId, first.id)).toBeUndefined();
+    expect(fs.existsSync(path.join(storePath, roomId, first.id))).toBe(false);
+    expect(fs.existsSync(path.join(storePath, roomId, second.id))).toBe(true);
+
+    roomService.cleanupExpiredRooms(0);
+
+    expect(fs.existsSync(path.join(storePath, roomId))).toBe(false);
+  });
+
+  it('should free the files of messages trimmed from the history', async () => {
+    const originalQuota = backendConfig.ATTACHMENT_QUOTA_BYTES;
+    const historyLimit = backendConfig.MESSAGE_HISTORY_LIMIT;
+    backendConfig.ATTACHMENT_QUOTA_BYTES = PNG_BYTES.length;
+    backendConfig.MESSAGE_HISTORY_LIMIT = 1;
+    try {
+      const { attachment } = (await upload(PNG_BYTES).expect(201)).body;
+      roomService.markAttachmentsSent(roomId, [attachment.id], 'message-1');
+      roomService.addMessage(roomId, {
+        id: 'message-1',
+        userId: 'user-1',
+        nickname: 'Alice',
+        content: '',
+        timestamp: new Date(),
+        attachments: [roomService.getAttachment(roomId, attachment.id)!],
+      });
+      await upload(PNG_BYTES).expect(413);
+
+      roomService.addMessage(roomId, {
+        id: 'message-2',
+        userId: 'user-1',
+        nickname: 'Alice',
+        content: 'Newer',
+        timestamp: new Date(),
+      });
+
+      expect(roomService.getAttachment(roomId, attachment.id)).toBeUndefined();
+      expect(fs.existsSync(path.join(storePath, roomId, attachment.id))).toBe(
+        false
+      );
+      await upload(PNG_BYTES).expect(201);
+    } finally {
+      backendConfig.ATTACHMENT_QUOTA_BYTES = originalQuota;
+      backendConfig.MESSAGE_HISTORY_LIMIT = historyLimit;
+    }
+  });
+
+  it('should delete uploads that were never sent once they expire', async () => {
+    const sent = (await upload(PNG_BYTES).expect(201)).body.attachment;
+    const unsent = (await upload(PNG_BYTES).expect(201)).body.attachment;
+    const recent = (await upload(PNG_BYTES).expect(201)).body.attachment;
+    roomService.markAttachmentsSent(roomId, [sent.id], 'message-1');
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    for (const id of [sent.id, unsent.id]) {
+      roomService.getAttachment(roomId, id)!.uploadedAt = twoHoursAgo;
+    }
+
+    expect(attachmentService.deleteUnsentAttachments(1)).toBe(1);
+
+    expect(roomService.getAttachment(roomId, unsent.id)).toBeUndefined();
+    expect(fs.existsSync(path.join(storePath, roomId, unsent.id))).toBe(false);
+    expect(roomService.getAttachment(roomId, sent.id)).toBeDefined();
+    expect(roomService.getAttachment(roomId, recent.id)).toBeDefined();
+  });
+});
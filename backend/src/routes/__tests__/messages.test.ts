@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import express, { Express } from 'express';
+import messagesRouter from '../messages';
+import { roomService } from '../../services/roomService';
+import { createSessionToken } from '../../utils/sessionTokens';
+
+function createTestApp(): Express {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', messagesRouter);
+  return app;
+}
+
+describe('Message Routes', () => {
+  let app: Express;
+  let roomId: string;
+  let token: string;
+
+  const search = (query: string, authToken: string | null = token) => {
+    const req = request(app)
+      .get(`/api/room/${roomId}/messages/search`)
+      .query({ q: query });
+    return authToken ? req.set('Authorization', `Bearer ${authToken}`) : req;
+  };
+
+  beforeEach(() => {
+    app = createTestApp();
+    roomService.clearAllRoomsForTest();
+    roomId = roomService.createRoom();
+    roomService.addUserToRoom(roomId, {
+      id: 'user-1',
+      nickname: 'Alice',
+      socketId: 'socket-1',
+      joinedAt: new Date(),
+      isOnline: true,
+    });
+    token = createSessionToken(roomId, 'user-1');
+    roomService.addMessage(roomId, {
+      id: 'msg-1',
+      userId: 'user-1',
+      nickname: 'Alice',
+      content: 'The deploy link is https://example.com/deploy',
+      timestamp: new Date(),
+    });
+  });
+
+  describe('GET /api/room/:roomId/messages/search', () => {
+    it('should return matching messages with snippets', async () => {
+      const response = await search(' Deploy ').expect(200);
+
+      expect(response.body.query).toBe('Deploy');
+      expect(response.body.results).toHaveLength(1);
+      expect(response.body.results[0].message.id).toBe('msg-1');
+      expect(response.body.results[0].snippet.highlights).toContainEqual({
+        start: 4,
+        length: 6,
+      });
+    });
+
+    it('should require a session token for a member of the room', async () => {
+      await search('deploy', null).expect(401);
+      await search('deploy', 'forged.token').expect(401);
+
+      roomService.removeUserFromRoom(roomId, 'user-1');
+      await search('deploy').expect(401);
+    });
+
+    it('should reject missing and overly long queries', async () => {
+      const response = await search('  ').expect(400);
+      expect(response.body.error).toBe('Search query is required');
+
+      await search('a'.repeat(101)).expect(400);
+    });
+
+    it('should return 404 for unknown rooms', async () => {
+      await request(app)
+        .get('/api/room/does-not-exist/messages/search?q=deploy')
+        .expect(404);
+    });
+  });
+});
@@ -46,6 +46,80 @@ describe('Room Routes', () => {
       expect(response1.body.roomId).not.toBe(response2.body.roomId);
     });
 
+    it('should create a room with a name and slug', async () => {
+      const response = await request(app)
+        .post('/api/create-room')
+        .send({ name: ' Sprint 42 Retro ', slug: 'Sprint-42-Retro' })
+        .expect(201);
+
+      expect(response.body.name).toBe('Sprint 42 Retro');
+      expect(response.body.slug).toBe('sprint-42-retro');
+      expect(response.body.roomLink).toMatch(/\/room\/sprint-42-retro$/);
+      expect(roomService.getRoom(response.body.roomId)?.slug).toBe(
+        'sprint-42-retro'
+      );
+    });
+
+    it('should keep the UUID link when only a name is given', async () => {
+      const response = await request(app)
+        .post('/api/create-room')
+        .send({ name: 'Planning' })
+        .expect(201);
+
+      expect(response.body.slug).toBeUndefined();
+      expect(response.body.roomLink).toContain(response.body.roomId);
+    });
+
+    it('should reject invalid names and slugs', async () => {
+      await request(app)
+        .post('/api/create-room')
+        .send({ name: 'x'.repeat(61) })
+        .expect(400);
+
+      const response = await request(app)
+        .post('/api/create-room')
+        .send({ slug: 'no spaces allowed' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Room URL');
+    });
+
+    it('should return 409 when the slug is taken', async () => {
+      await request(app)
+        .post('/api/create-room')
+        .send({ slug: 'weekly-sync' })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/create-room')
+        .send({ slug: 'weekly-sync' })
+        .expect(409);
+
+      expect(response.body.error).toBe('This room URL is already taken');
+    });
+
+    it('should create a passcode-protected room without storing the passcode', async () => {
+      const response = await request(app)
+        .post('/api/create-room')
+        .send({ passcode: 'let-me-in' })
+        .expect(201);
+
+      expect(response.body.requiresPasscode).toBe(true);
+      const room = roomService.getRoom(response.body.roomId);
+      expect(room?.passcodeHash).toBeDefined();
+      expect(room?.passcodeHash).not.toContain('let-me-in');
+      expect(roomService.checkPasscode(response.body.roomId, 'let-me-in')).toBe(true);
+    });
+
+    it('should reject a passcode that is too short', async () => {
+      const response = await request(app)
+        .post('/api/create-room')
+        .send({ passcode: 'abc' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Passcode must be');
+    });
+
     it('should handle errors gracefully', async () => {
       vi.spyOn(roomService, 'createRoom').mockImplementation(() => {
         throw new Error('Service error');
@@ -79,9 +153,38 @@ describe('Room Routes', () => {
       expect(response.body).toHaveProperty('exists', true);
     });
 
+    it('should report passcode and lock state for existing rooms', async () => {
+      const roomId = roomService.createRoom({ passcode: '1234' });
+      roomService.setRoomLocked(roomId, true);
+
+      const response = await request(app)
+        .get(`/api/room/${roomId}/exists`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        exists: true,
+        requiresPasscode: true,
+        isLocked: true,
+      });
+    });
+
+    it('should find rooms by slug', async () => {
+      roomService.createRoom({ slug: 'design-review' });
+
+      const found = await request(app)
+        .get('/api/room/design-review/exists')
+        .expect(200);
+      const missing = await request(app)
+        .get('/api/room/unknown-review/exists')
+        .expect(200);
+
+      expect(found.body.exists).toBe(true);
+      expect(missing.body.exists).toBe(false);
+    });
+
     it('should return 400 for invalid room ID format', async () => {
       const response = await request(app)
-        .get('/api/room/invalid-id/exists')
+        .get('/api/room/invalid_id/exists')
         .expect(400);
 
       expect(response.body).toHaveProperty('error');
@@ -150,7 +253,7 @@ describe('Room Routes', () => {
 
     it('should validate room ID format before checking', async () => {
       const response = await request(app)
-        .get('/api/room/not-a-uuid/exists')
+        .get('/api/room/not_a_uuid/exists')
         .expect(400);
 
       expect(response.body.error).toContain('Invalid room ID');
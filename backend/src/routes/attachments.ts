@@ -0,0 +1,202 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import path from 'path';
+import { roomService } from '../services/roomService';
+import { attachmentService } from '../services/attachmentService';
+import { UploadAttachmentResponse } from '../types';
+import { backendConfig } from '../config/environment';
+import { authenticateRoomMember } from './roomMember';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+// Display name for an upload: no path, control characters or quotes (the
+// name ends up in a Content-Disposition header)
+function cleanFileName(raw: string | undefined): string {
+  let name = '';
+  try {
+    name = decodeURIComponent(raw ?? '');
+  } catch {
+    // Malformed percent-encoding; fall back to the default name
+  }
+
+  const cleaned = Array.from(name.split(/[\\/]/).pop() ?? '')
+    .filter(char => char.charCodeAt(0) >= 0x20 && char !== '"')
+    .join('')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH);
+  return cleaned || 'attachment';
+}
+
+// Read the request body as raw bytes, answering 413 above the configured size.
+// Built per request so the limit follows the current configuration.
+function readFile(req: Request, res: Response, next: NextFunction): void {
+  express.raw({ type: () => true, limit: backendConfig.ATTACHMENT_MAX_BYTES })(
+    req,
+    res,
+    (error?: unknown) => {
+      if (error) {
+        const status = (error as { status?: number }).status;
+        res.status(status === 413 ? 413 : 400).json({
+          error:
+            status === 413
+              ? `Files must be no larger than ${backendConfig.ATTACHMENT_MAX_BYTES} bytes`
+              : 'Could not read the uploaded file',
+        });
+        return;
+      }
+      next();
+    }
+  );
+}
+
+// POST /api/room/:roomId/attachments
+// Headers: Authorization: Bearer <session token from room-joined>,
+//          Content-Type: <file MIME type>, X-File-Name: <URI-encoded name>
+// Body: the file's bytes
+router.post(
+  '/room/:roomId/attachments',
+  (req: Request, res: Response, next: NextFunction): void => {
+    // Authenticate before accepting the upload
+    const member = authenticateRoomMember(
+      req,
+      res,
+      'Join the room before uploading files'
+    );
+    if (!member) {
+      return;
+    }
+    const { roomId, userId } = member;
+    if (!roomService.hasPermission(roomId, userId, 'chat')) {
+      res.status(403).json({ error: 'Viewers cannot upload files' });
+      return;
+    }
+
+    const mimeType = (req.get('Content-Type') ?? '')
+      .split(';')[0]
+      ?.trim()
+      .toLowerCase();
+    if (
+      !mimeType ||
+      !backendConfig.ATTACHMENT_ALLOWED_TYPES.includes(mimeType)
+    ) {
+      res.status(415).json({ error: 'This file type is not allowed' });
+      return;
+    }
+
+    res.locals.roomId = roomId;
+    res.locals.userId = userId;
+    res.locals.mimeType = mimeType;
+    next();
+  },
+  readFile,
+  (req: Request, res: Response): void => {
+    const roomId = res.locals.roomId as string;
+    try {
+      // express.json may already have consumed a JSON upload
+      const data: unknown = req.body;
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        res.status(400).json({ error: 'File content is required' });
+        return;
+      }
+
+      const quota = backendConfig.ATTACHMENT_QUOTA_BYTES;
+      const used = roomService.getUploadedBytes(
+        roomId,
+        res.locals.userId as string
+      );
+      if (used + data.length > quota) {
+        res.status(413).json({
+          error: `You can store at most ${quota} bytes of files in this room`,
+        });
+        return;
+      }
+
+      const attachment = attachmentService.save(
+        roomId,
+        {
+          name: cleanFileName(req.get('X-File-Name')),
+          mimeType: res.locals.mimeType as string,
+          data,
+        },
+        res.locals.userId as string
+      );
+      if (!attachment) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+      }
+
+      const response: UploadAttachmentResponse = { attachment };
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error uploading attachment', {
+        roomId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ error: 'Failed to upload file' });
+    }
+  }
+);
+
+// GET /api/room/:roomId/attachments/:attachmentId?token=<session token>[&download=1]
+// The token goes in the URL so links work in <img> tags; users who leave or
+// are kicked lose access with their membership
+router.get(
+  '/room/:roomId/attachments/:attachmentId',
+  (req: Request, res: Response) => {
+    const { attachmentId } = req.params;
+    // Links may use the room's slug, like the room page they appear on
+    const member = authenticateRoomMember(
+      req,
+      res,
+      'Join the room to view its files',
+      { allowQueryToken: true }
+    );
+    if (!member) {
+      return;
+    }
+    const { roomId } = member;
+    try {
+      const attachment = attachmentId
+        ? roomService.getAttachment(roomId, attachmentId)
+        : undefined;
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      // Images may be shown inline; everything else is always downloaded
+      const disposition =
+        attachment.mimeType.startsWith('image/') && req.query.download !== '1'
+          ? 'inline'
+          : 'attachment';
+      res.setHeader(
+        'Content-Disposition',
+        `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`
+      );
+      res.setHeader('Content-Type', attachment.mimeType);
+      // The frontend is served from another origin
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+      return res.sendFile(
+        path.resolve(attachmentService.getFilePath(roomId, attachment.id)),
+        (error?: Error) => {
+          if (error && !res.headersSent) {
+            res.status(404).json({ error: 'Attachment not found' });
+          }
+        }
+      );
+    } catch (error) {
+      logger.error('Error downloading attachment', {
+        roomId,
+        attachmentId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      return res.status(500).json({ error: 'Failed to download file' });
+    }
+  }
+);
+
+export default router;
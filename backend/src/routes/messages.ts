@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { roomService } from '../services/roomService';
+import { SearchMessagesResponse } from '../types';
+import { validateSearchQuery } from '../utils/validation';
+import logger from '../utils/logger';
+import { authenticateRoomMember } from './roomMember';
+
+const router = Router();
+
+// GET /api/room/:roomId/messages/search?q=<words>
+// Headers: Authorization: Bearer <session token from room-joined>
+router.get('/room/:roomId/messages/search', (req: Request, res: Response) => {
+  const member = authenticateRoomMember(
+    req,
+    res,
+    'Join the room before searching messages'
+  );
+  if (!member) {
+    return;
+  }
+
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const queryValidation = validateSearchQuery(query);
+  if (!queryValidation.isValid) {
+    res.status(400).json({ error: queryValidation.error });
+    return;
+  }
+
+  try {
+    const response: SearchMessagesResponse = {
+      query,
+      results: roomService.searchMessages(member.roomId, query),
+    };
+    res.json(response);
+  } catch (error) {
+    logger.error('Error searching messages', {
+      roomId: member.roomId,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ error: 'Failed to search messages' });
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { roomService } from '../services/roomService';
+import { verifySessionToken } from '../utils/sessionTokens';
+import { validateRoomIdOrSlug } from '../utils/validation';
+
+export interface RoomMember {
+  roomId: string;
+  userId: string;
+}
+
+/**
+ * Resolve the room of the `:roomId` param (an ID or slug) and the member
+ * holding the `Authorization: Bearer <session token from room-joined>` header,
+ * or with `allowQueryToken` a `?token=` parameter (for URLs used as <img src>
+ * or links, which can't send headers). Otherwise answers 404 for unknown
+ * rooms or 401 with `unauthorizedError`, and returns undefined.
+ */
+export function authenticateRoomMember(
+  req: Request,
+  res: Response,
+  unauthorizedError: string,
+  { allowQueryToken = false }: { allowQueryToken?: boolean } = {}
+): RoomMember | undefined {
+  const roomIdValidation = validateRoomIdOrSlug(req.params.roomId ?? '');
+  const roomId = roomIdValidation.isValid
+    ? roomService.resolveRoomId(req.params.roomId ?? '')
+    : undefined;
+  if (!roomId) {
+    res.status(404).json({ error: 'Room not found' });
+    return undefined;
+  }
+
+  const queryToken =
+    allowQueryToken && typeof req.query.token === 'string'
+      ? req.query.token
+      : undefined;
+  const token =
+    /^Bearer (.+)$/.exec(req.get('Authorization') ?? '')?.[1] ?? queryToken;
+  const userId = token ? verifySessionToken(token, roomId) : null;
+  if (!userId || !roomService.isUserInRoom(roomId, userId)) {
+    res.status(401).json({ error: unauthorizedError });
+    return undefined;
+  }
+
+  return { roomId, userId };
+}
@@ -1,23 +1,96 @@
 import { Router, Request, Response } from 'express';
 import { roomService } from '../services/roomService';
-import { CreateRoomErrorResponse } from '../types';
+import {
+  CreateRoomErrorResponse,
+  CreateRoomRequest,
+  CreateRoomResponse,
+  RoomExistsResponse,
+} from '../types';
 import { backendConfig } from '../config/environment';
-import { validateRoomId } from '../utils/validation';
+import {
+  validateRoomIdOrSlug,
+  validateRoomName,
+  validateRoomSlug,
+  validatePasscode,
+  sanitizeInput,
+} from '../utils/validation';
 import logger from '../utils/logger';
 
 const router = Router();
 
+const createRoomError = (error: string): CreateRoomErrorResponse => ({
+  roomId: '',
+  roomLink: '',
+  error,
+});
+
 // POST /api/create-room
+// Body (optional): { name?: string, slug?: string, passcode?: string }
 router.post('/create-room', (req: Request, res: Response): void => {
   try {
-    const roomId = roomService.createRoom();
+    const body: { [K in keyof CreateRoomRequest]?: unknown } =
+      typeof req.body === 'object' && req.body !== null
+        ? (req.body as Record<string, unknown>)
+        : {};
+
+    let name: string | undefined;
+    if (body.name !== undefined && body.name !== '') {
+      const rawName = typeof body.name === 'string' ? body.name : '';
+      const nameValidation = validateRoomName(rawName);
+      if (!nameValidation.isValid) {
+        res
+          .status(400)
+          .json(createRoomError(nameValidation.error ?? 'Invalid room name'));
+        return;
+      }
+      name = sanitizeInput(rawName) || undefined;
+    }
+
+    // Slugs are opt-in: rooms without one keep unguessable UUID links
+    let slug: string | undefined;
+    if (body.slug !== undefined && body.slug !== '') {
+      slug =
+        typeof body.slug === 'string' ? body.slug.trim().toLowerCase() : '';
+      const slugValidation = validateRoomSlug(slug);
+      if (!slugValidation.isValid) {
+        res
+          .status(400)
+          .json(createRoomError(slugValidation.error ?? 'Invalid room URL'));
+        return;
+      }
+      if (!roomService.isSlugAvailable(slug)) {
+        res.status(409).json(createRoomError('This room URL is already taken'));
+        return;
+      }
+    }
+
+    // Passcodes are used verbatim (no trimming) so what the creator typed is
+    // exactly what joiners must enter
+    let passcode: string | undefined;
+    if (body.passcode !== undefined && body.passcode !== '') {
+      passcode = typeof body.passcode === 'string' ? body.passcode : '';
+      const passcodeValidation = validatePasscode(passcode);
+      if (!passcodeValidation.isValid) {
+        res
+          .status(400)
+          .json(
+            createRoomError(passcodeValidation.error ?? 'Invalid passcode')
+          );
+        return;
+      }
+    }
+
+    const roomId = roomService.createRoom({ name, slug, passcode });
 
     // Use configured frontend URL
-    const roomLink = `${backendConfig.FRONTEND_URL}/room/${roomId}`;
+    const roomLink = `${backendConfig.FRONTEND_URL}/room/${slug ?? roomId}`;
 
-    const response = {
+    const response: CreateRoomResponse = {
       roomId,
       roomLink,
+      name,
+      slug,
+      requiresPasscode: passcode !== undefined,
     };
 
     res.status(201).json(response);
@@ -26,12 +99,7 @@ router.post('/create-room', (req: Request, res: Response): void => {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
     });
-    const errorResponse: CreateRoomErrorResponse = {
-      roomId: '',
-      roomLink: '',
-      error: 'Failed to create room',
-    };
-    res.status(500).json(errorResponse);
+    res.status(500).json(createRoomError('Failed to create room'));
   }
 });
 
@@ -44,15 +112,23 @@ router.get('/room/:roomId/exists', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Room ID is required' });
     }
 
-    // Validate room ID format
-    const roomIdValidation = validateRoomId(roomId);
+    // Validate room ID (or slug) format
+    const roomIdValidation = validateRoomIdOrSlug(roomId);
     if (!roomIdValidation.isValid) {
       return res.status(400).json({ error: roomIdValidation.error });
     }
 
-    const exists = roomService.roomExists(roomId);
+    const resolvedId = roomService.resolveRoomId(roomId);
+    const response: RoomExistsResponse =
+      resolvedId === undefined
+        ? { exists: false }
+        : {
+            exists: true,
+            requiresPasscode: roomService.requiresPasscode(resolvedId),
+            isLocked: roomService.isRoomLocked(resolvedId),
+          };
 
-    return res.json({ exists });
+    return res.json(response);
   } catch (error) {
     const roomIdParam = req.params.roomId;
     logger.error('Error checking room', {
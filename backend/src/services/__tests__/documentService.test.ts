@@ -0,0 +1,362 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { documentService } from '../documentService';
+import { roomService } from '../roomService';
+
+function encodeStep1(doc: Y.Doc): Uint8Array {
+  const encoder = encoding.createEncoder();
+  syncProtocol.writeSyncStep1(encoder, doc);
+  return encoding.toUint8Array(encoder);
+}
+
+// Feed server replies into a client doc the same way SocketProvider does
+function applyReplies(doc: Y.Doc, replies: Uint8Array[]): Uint8Array[] {
+  const responses: Uint8Array[] = [];
+  for (const reply of replies) {
+    const encoder = encoding.createEncoder();
+    syncProtocol.readSyncMessage(
+      decoding.createDecoder(reply),
+      encoder,
+      doc,
+      'server'
+    );
+    if (encoding.length(encoder) > 0) {
+      responses.push(encoding.toUint8Array(encoder));
+    }
+  }
+  return responses;
+}
+
+describe('DocumentService', () => {
+  let roomId: string;
+
+  beforeEach(() => {
+    roomService.clearAllRoomsForTest();
+    documentService.clearAllDocumentsForTest();
+    roomId = roomService.createRoom();
+  });
+
+  describe('getDocument', () => {
+    it('should return undefined for non-existent room', () => {
+      expect(documentService.getDocument('missing-room')).toBeUndefined();
+    });
+
+    it('should create an empty document for a new room', () => {
+      const document = documentService.getDocument(roomId);
+
+      expect(document).toBeDefined();
+      expect(document?.id).toBe(`doc-${roomId}`);
+      expect(document?.version).toBe(0);
+      expect(document?.yDoc).toBeInstanceOf(Y.Doc);
+    });
+
+    it('should restore the document from persisted room state', () => {
+      const clientDoc = new Y.Doc();
+      clientDoc.getText('t').insert(0, 'persisted');
+      documentService.applyUpdate(
+        roomId,
+        Y.encodeStateAsUpdate(clientDoc),
+        'user-1'
+      );
+
+      // Simulate a restart: live docs are gone, room state remains
+      documentService.releaseDocument(roomId);
+      const document = documentService.getDocument(roomId);
+
+      expect(document?.yDoc.getText('t').toString()).toBe('persisted');
+      expect(document?.version).toBe(1);
+      expect(document?.modifiedBy).toBe('user-1');
+    });
+  });
+
+  describe('applyUpdate', () => {
+    it('should return false for non-existent room', () => {
+      expect(
+        documentService.applyUpdate('missing-room', new Uint8Array(), 'u')
+      ).toBe(false);
+    });
+
+    it('should apply updates and persist them on the room', () => {
+      const clientDoc = new Y.Doc();
+      clientDoc.getText('t').insert(0, 'hello');
+
+      const result = documentService.applyUpdate(
+        roomId,
+        Y.encodeStateAsUpdate(clientDoc),
+        'user-1'
+      );
+
+      expect(result).toBe(true);
+      expect(
+        documentService.getDocument(roomId)?.yDoc.getText('t').toString()
+      ).toBe('hello');
+      documentService.flush();
+      expect(roomService.getRoom(roomId)?.document?.state).toBeInstanceOf(
+        Uint8Array
+      );
+    });
+
+    describe('debounced persistence', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should save a burst of updates to the room once', () => {
+        const saveDocument = vi.spyOn(roomService, 'saveDocument');
+        const clientDoc = new Y.Doc();
+
+        for (const word of ['one', 'two', 'three']) {
+          clientDoc.getText('t').insert(0, word);
+          documentService.applyUpdate(
+            roomId,
+            Y.encodeStateAsUpdate(clientDoc),
+            'user-1'
+          );
+        }
+        expect(saveDocument).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(2000);
+
+        expect(saveDocument).toHaveBeenCalledTimes(1);
+        expect(roomService.getRoom(roomId)?.document?.version).toBe(3);
+        saveDocument.mockRestore();
+      });
+    });
+
+    it('should not bump the version for duplicate updates', () => {
+      const clientDoc = new Y.Doc();
+      clientDoc.getText('t').insert(0, 'hello');
+      const update = Y.encodeStateAsUpdate(clientDoc);
+
+      documentService.applyUpdate(roomId, update, 'user-1');
+      documentService.applyUpdate(roomId, update, 'user-1');
+
+      expect(documentService.getDocument(roomId)?.version).toBe(1);
+    });
+  });
+
+  describe('handleSyncMessage', () => {
+    it('should return null for non-existent room', () => {
+      expect(
+        documentService.handleSyncMessage(
+          'missing-room',
+          encodeStep1(new Y.Doc()),
+          'u'
+        )
+      ).toBeNull();
+    });
+
+    it('should send the full document to a late joiner', () => {
+      const author = new Y.Doc();
+      author.getText('t').insert(0, 'meeting notes');
+      documentService.applyUpdate(
+        roomId,
+        Y.encodeStateAsUpdate(author),
+        'user-1'
+      );
+
+      const lateJoiner = new Y.Doc();
+      const result = documentService.handleSyncMessage(
+        roomId,
+        encodeStep1(lateJoiner),
+        'user-2'
+      );
+
+      expect(result?.replies).toHaveLength(2);
+      applyReplies(lateJoiner, result?.replies ?? []);
+      expect(lateJoiner.getText('t').toString()).toBe('meeting notes');
+    });
+
+    it('should pull state the server is missing from the client', () => {
+      const offlineClient = new Y.Doc();
+      offlineClient.getText('t').insert(0, 'offline edit');
+
+      const result = documentService.handleSyncMessage(
+        roomId,
+        encodeStep1(offlineClient),
+        'user-1'
+      );
+      // Client answers the server's step 1 with a step 2
+      const [step2] = applyReplies(offlineClient, result?.replies ?? []);
+      expect(step2).toBeDefined();
+
+      const applied = documentService.handleSyncMessage(
+        roomId,
+        step2 as Uint8Array,
+        'user-1'
+      );
+
+      expect(applied?.update).toBeDefined();
+      expect(
+        documentService.getDocument(roomId)?.yDoc.getText('t').toString()
+      ).toBe('offline edit');
+    });
+
+    it('should ignore client state from read-only users', () => {
+      const viewerDoc = new Y.Doc();
+      viewerDoc.getText('t').insert(0, 'sneaky edit');
+
+      const result = documentService.handleSyncMessage(
+        roomId,
+        encodeStep1(viewerDoc),
+        'viewer-1',
+        true
+      );
+      const [step2] = applyReplies(viewerDoc, result?.replies ?? []);
+
+      const applied = documentService.handleSyncMessage(
+        roomId,
+        step2 as Uint8Array,
+        'viewer-1',
+        true
+      );
+
+      expect(applied?.update).toBeUndefined();
+      expect(
+        documentService.getDocument(roomId)?.yDoc.getText('t').toString()
+      ).toBe('');
+    });
+
+    it('should throw on unknown message types', () => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, 99);
+
+      expect(() =>
+        documentService.handleSyncMessage(
+          roomId,
+          encoding.toUint8Array(encoder),
+          'user-1'
+        )
+      ).toThrow();
+    });
+  });
+
+  describe('version history', () => {
+    function edit(doc: Y.Doc, change: (text: Y.Text) => void): void {
+      const before = Y.encodeStateVector(doc);
+      change(doc.getText('t'));
+      documentService.applyUpdate(
+        roomId,
+        Y.encodeStateAsUpdate(doc, before),
+        'user-1'
+      );
+    }
+
+    it('should return null when saving in a non-existent room', () => {
+      expect(documentService.saveSnapshot('missing-room', 'u')).toBeNull();
+    });
+
+    it('should save versions with author, title and timestamp', () => {
+      const clientDoc = new Y.Doc();
+      edit(clientDoc, text => text.insert(0, 'draft'));
+
+      const saved = documentService.saveSnapshot(
+        roomId,
+        'user-1',
+        '  Meeting notes  '
+      );
+
+      expect(saved).toMatchObject({
+        version: 1,
+        title: 'Meeting notes',
+        modifiedBy: 'user-1',
+      });
+      expect(saved?.timestamp).toBeInstanceOf(Date);
+      expect(saved).not.toHaveProperty('state');
+      expect(documentService.listVersions(roomId)).toHaveLength(1);
+      expect(roomService.getRoom(roomId)?.document?.title).toBe(
+        'Meeting notes'
+      );
+    });
+
+    it('should not duplicate versions when nothing changed', () => {
+      const clientDoc = new Y.Doc();
+      edit(clientDoc, text => text.insert(0, 'draft'));
+
+      documentService.saveSnapshot(roomId, 'user-1');
+      documentService.saveSnapshot(roomId, 'user-2');
+      edit(clientDoc, text => text.insert(5, '!'));
+      documentService.saveSnapshot(roomId, 'user-1');
+
+      expect(documentService.listVersions(roomId).map(v => v.version)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it('should keep the state of each version for previews', () => {
+      const clientDoc = new Y.Doc();
+      edit(clientDoc, text => text.insert(0, 'first'));
+      documentService.saveSnapshot(roomId, 'user-1');
+      edit(clientDoc, text => text.insert(5, ' second'));
+
+      const preview = new Y.Doc();
+      Y.applyUpdate(
+        preview,
+        documentService.getSnapshot(roomId, 1)?.state ?? new Uint8Array()
+      );
+
+      expect(preview.getText('t').toString()).toBe('first');
+      expect(documentService.getSnapshot(roomId, 42)).toBeUndefined();
+    });
+
+    it('should restore an older version for every client', () => {
+      const clientDoc = new Y.Doc();
+      edit(clientDoc, text => text.insert(0, 'keep this'));
+      documentService.saveSnapshot(roomId, 'user-1', 'Notes');
+      edit(clientDoc, text => {
+        text.delete(0, 5);
+        text.insert(text.length, ' and that');
+      });
+      expect(clientDoc.getText('t').toString()).toBe('this and that');
+
+      const result = documentService.restoreSnapshot(roomId, 1, 'user-2');
+      Y.applyUpdate(clientDoc, result?.update ?? new Uint8Array());
+
+      expect(
+        documentService.getDocument(roomId)?.yDoc.getText('t').toString()
+      ).toBe('keep this');
+      expect(clientDoc.getText('t').toString()).toBe('keep this');
+      // Restoring is recorded as a new version rather than rewriting history
+      expect(result?.version).toMatchObject({
+        version: 3,
+        title: 'Notes',
+        modifiedBy: 'user-2',
+      });
+      expect(documentService.listVersions(roomId)).toHaveLength(2);
+    });
+
+    it('should return null when restoring an unknown version', () => {
+      expect(documentService.restoreSnapshot(roomId, 7, 'user-1')).toBeNull();
+    });
+
+    it('should only keep the most recent versions', () => {
+      const clientDoc = new Y.Doc();
+      for (let i = 0; i < 55; i++) {
+        edit(clientDoc, text => text.insert(0, 'x'));
+        documentService.saveSnapshot(roomId, 'user-1');
+      }
+
+      const versions = documentService.listVersions(roomId);
+      expect(versions).toHaveLength(50);
+      expect(versions[0]?.version).toBe(6);
+    });
+  });
+
+  describe('room cleanup', () => {
+    it('should release the live document when its room is cleaned up', () => {
+      const before = documentService.getDocument(roomId);
+
+      roomService.cleanupExpiredRooms(0);
+
+      expect(before?.yDoc.isDestroyed).toBe(true);
+      expect(documentService.getDocument(roomId)).toBeUndefined();
+    });
+  });
+});
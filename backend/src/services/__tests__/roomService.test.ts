@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { roomService } from '../../../src/services/roomService';
+import {
+  roomService,
+  MESSAGE_PAGE_SIZE,
+} from '../../../src/services/roomService';
 import { User } from '../../../src/types';
+import { backendConfig } from '../../../src/config/environment';
+import {
+  HEARTBEAT_TIMEOUT_MS,
+  IDLE_AFTER_MS,
+} from '../../../src/utils/presence';
 
 describe('RoomService', () => {
   describe('createRoom', () => {
@@ -25,6 +33,35 @@ describe('RoomService', () => {
 
       expect(roomId1).not.toBe(roomId2);
     });
+
+    it('should store the display name and slug', () => {
+      const roomId = roomService.createRoom({
+        name: 'Sprint 42 Retro',
+        slug: 'sprint-42-retro-create',
+      });
+      const room = roomService.getRoom(roomId);
+
+      expect(room?.name).toBe('Sprint 42 Retro');
+      expect(room?.slug).toBe('sprint-42-retro-create');
+    });
+  });
+
+  describe('slugs', () => {
+    it('should resolve a room by ID or slug', () => {
+      const roomId = roomService.createRoom({ slug: 'team-sync-resolve' });
+
+      expect(roomService.resolveRoomId(roomId)).toBe(roomId);
+      expect(roomService.resolveRoomId('team-sync-resolve')).toBe(roomId);
+      expect(roomService.resolveRoomId(' Team-Sync-Resolve ')).toBe(roomId);
+      expect(roomService.resolveRoomId('unknown-slug')).toBeUndefined();
+    });
+
+    it('should report slugs that are already taken', () => {
+      roomService.createRoom({ slug: 'taken-slug' });
+
+      expect(roomService.isSlugAvailable('taken-slug')).toBe(false);
+      expect(roomService.isSlugAvailable('free-slug')).toBe(true);
+    });
   });
 
   describe('getRoom', () => {
@@ -174,6 +211,25 @@ describe('RoomService', () => {
       expect(roomService.getUserInRoom(roomId, user.id)).toBeDefined();
     });
 
+    it('should give users distinct colors and avatars', () => {
+      for (const id of ['user-1', 'user-2', 'user-3']) {
+        roomService.addUserToRoom(roomId, {
+          id,
+          nickname: id,
+          socketId: `socket-${id}`,
+          joinedAt: new Date(),
+          isOnline: true,
+        });
+      }
+
+      const users = roomService.getUsersInRoom(roomId);
+      expect(new Set(users.map(user => user.color)).size).toBe(3);
+      for (const user of users) {
+        expect(user.color).toMatch(/^#[0-9A-F]{6}$/);
+        expect(user.avatar).toMatch(/^data:image\/svg\+xml,/);
+      }
+    });
+
     it('should return false if room does not exist', () => {
       const user: User = {
         id: 'user-1',
@@ -452,6 +508,123 @@ describe('RoomService', () => {
     });
   });
 
+  describe('renameUser', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+    });
+
+    it("should rename users and follow the owner's nickname", () => {
+      const createUser = (id: string, nickname: string): User => ({
+        id,
+        nickname,
+        socketId: `socket-${id}`,
+        joinedAt: new Date(),
+        isOnline: true,
+      });
+      roomService.addUserToRoom(roomId, createUser('user-1', 'Alice'));
+      roomService.addUserToRoom(roomId, createUser('user-2', 'Bob'));
+
+      expect(roomService.renameUser(roomId, 'user-1', ' Alicia ')).toBe(true);
+      expect(roomService.renameUser(roomId, 'user-2', 'Robert')).toBe(true);
+
+      expect(roomService.getUserInRoom(roomId, 'user-1')?.nickname).toBe(
+        'Alicia'
+      );
+      expect(roomService.getRoom(roomId)?.ownerNickname).toBe('Alicia');
+      expect(roomService.renameUser(roomId, 'missing', 'Carol')).toBe(false);
+    });
+
+    it("should attribute the user's past messages to the new nickname", () => {
+      roomService.addUserToRoom(roomId, {
+        id: 'user-1',
+        nickname: 'Alice',
+        socketId: 'socket-1',
+        joinedAt: new Date(),
+        isOnline: true,
+      });
+      roomService.addMessage(roomId, {
+        id: 'msg-1',
+        userId: 'user-1',
+        nickname: 'Alice',
+        content: 'Hello',
+        timestamp: new Date(),
+      });
+      roomService.addMessage(roomId, {
+        id: 'msg-2',
+        userId: 'user-2',
+        nickname: 'Bob',
+        content: 'Hi',
+        timestamp: new Date(),
+      });
+
+      roomService.renameUser(roomId, 'user-1', 'Alicia');
+
+      expect(
+        roomService.getMessages(roomId).map(message => message.nickname)
+      ).toEqual(['Alicia', 'Bob']);
+    });
+  });
+
+  describe('presence', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addUserToRoom(roomId, {
+        id: 'user-1',
+        nickname: 'Alice',
+        socketId: 'socket-1',
+        joinedAt: new Date(),
+        isOnline: true,
+      });
+    });
+
+    it('should start active and follow heartbeats', () => {
+      expect(roomService.getUserInRoom(roomId, 'user-1')?.presence).toBe(
+        'active'
+      );
+
+      const now = new Date(Date.now() + IDLE_AFTER_MS + 5000);
+      expect(
+        roomService.recordHeartbeat(roomId, 'user-1', IDLE_AFTER_MS, now)
+      ).toBe('idle');
+      expect(
+        roomService.recordHeartbeat(roomId, 'user-1', IDLE_AFTER_MS, now)
+      ).toBeUndefined();
+      expect(roomService.recordHeartbeat(roomId, 'user-1', 0, now)).toBe(
+        'active'
+      );
+      expect(
+        roomService.recordHeartbeat('missing', 'user-1', 0, now)
+      ).toBeUndefined();
+    });
+
+    it('should report users who went quiet', () => {
+      const later = new Date(Date.now() + HEARTBEAT_TIMEOUT_MS + 1000);
+
+      expect(roomService.refreshPresence(later)).toContainEqual({
+        roomId,
+        userId: 'user-1',
+        presence: 'away',
+      });
+      expect(
+        roomService
+          .refreshPresence(later)
+          .filter(change => change.roomId === roomId)
+      ).toEqual([]);
+    });
+
+    it('should mark users offline with their status', () => {
+      roomService.updateUserStatus(roomId, 'user-1', false);
+
+      expect(roomService.getUserInRoom(roomId, 'user-1')?.presence).toBe(
+        'offline'
+      );
+    });
+  });
+
   describe('isNicknameAvailableForUser', () => {
     let roomId: string;
 
@@ -557,24 +730,31 @@ describe('RoomService', () => {
       expect(result).toBe(false);
     });
 
-    it('should limit messages to 100', () => {
-      // Add 150 messages
-      for (let i = 0; i < 150; i++) {
-        const message = {
-          id: `msg-${i}`,
-          userId: 'user-1',
-          nickname: 'TestUser',
-          content: `Message ${i}`,
-          timestamp: new Date(),
-        };
-        roomService.addMessage(roomId, message);
-      }
+    it('should limit messages to MESSAGE_HISTORY_LIMIT', () => {
+      const historyLimit = backendConfig.MESSAGE_HISTORY_LIMIT;
+      backendConfig.MESSAGE_HISTORY_LIMIT = 100;
 
-      const messages = roomService.getMessages(roomId);
-      expect(messages.length).toBe(100);
-      // Should keep the last 100 messages
-      expect(messages[0]?.id).toBe('msg-50');
-      expect(messages[99]?.id).toBe('msg-149');
+      try {
+        // Add 150 messages
+        for (let i = 0; i < 150; i++) {
+          const message = {
+            id: `msg-${i}`,
+            userId: 'user-1',
+            nickname: 'TestUser',
+            content: `Message ${i}`,
+            timestamp: new Date(),
+          };
+          roomService.addMessage(roomId, message);
+        }
+
+        const messages = roomService.getMessages(roomId);
+        expect(messages.length).toBe(100);
+        // Should keep the last 100 messages
+        expect(messages[0]?.id).toBe('msg-50');
+        expect(messages[99]?.id).toBe('msg-149');
+      } finally {
+        backendConfig.MESSAGE_HISTORY_LIMIT = historyLimit;
+      }
     });
   });
 
@@ -624,6 +804,553 @@ describe('RoomService', () => {
     });
   });
 
+  describe('editMessage and deleteMessage', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addMessage(roomId, {
+        id: 'msg-1',
+        userId: 'user-1',
+        nickname: 'TestUser',
+        content: 'Helo',
+        timestamp: new Date(),
+      });
+    });
+
+    it('should update the content and mark the message edited', () => {
+      const updated = roomService.editMessage(roomId, 'msg-1', 'Hello');
+
+      expect(updated?.content).toBe('Hello');
+      expect(updated?.editedAt).toBeInstanceOf(Date);
+      expect(roomService.getMessage(roomId, 'msg-1')?.content).toBe('Hello');
+    });
+
+    it('should leave a tombstone without the content', () => {
+      const deleted = roomService.deleteMessage(roomId, 'msg-1');
+
+      expect(deleted?.deletedAt).toBeInstanceOf(Date);
+      expect(roomService.getMessages(roomId)).toHaveLength(1);
+      expect(roomService.getMessage(roomId, 'msg-1')?.content).toBe('');
+    });
+
+    it('should not edit or delete a deleted message again', () => {
+      roomService.deleteMessage(roomId, 'msg-1');
+
+      expect(roomService.editMessage(roomId, 'msg-1', 'Back')).toBeUndefined();
+      expect(roomService.deleteMessage(roomId, 'msg-1')).toBeUndefined();
+    });
+
+    it('should return undefined for unknown messages', () => {
+      expect(roomService.editMessage(roomId, 'missing', 'Hi')).toBeUndefined();
+      expect(roomService.deleteMessage(roomId, 'missing')).toBeUndefined();
+    });
+  });
+
+  describe('toggleReaction', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addMessage(roomId, {
+        id: 'msg-1',
+        userId: 'user-1',
+        nickname: 'TestUser',
+        content: 'Ship it?',
+        timestamp: new Date(),
+      });
+    });
+
+    it('should aggregate reactions per emoji', () => {
+      roomService.toggleReaction(roomId, 'msg-1', '👍', 'user-1');
+      roomService.toggleReaction(roomId, 'msg-1', '👍', 'user-2');
+      const reactions = roomService.toggleReaction(
+        roomId,
+        'msg-1',
+        '🎉',
+        'user-2'
+      );
+
+      expect(reactions).toEqual([
+        { emoji: '👍', count: 2, userIds: ['user-1', 'user-2'] },
+        { emoji: '🎉', count: 1, userIds: ['user-2'] },
+      ]);
+    });
+
+    it('should remove a reaction when toggled again', () => {
+      roomService.toggleReaction(roomId, 'msg-1', '👍', 'user-1');
+      const reactions = roomService.toggleReaction(
+        roomId,
+        'msg-1',
+        '👍',
+        'user-1'
+      );
+
+      expect(reactions).toEqual([]);
+    });
+
+    it('should include reactions in message pages', () => {
+      roomService.toggleReaction(roomId, 'msg-1', '🚀', 'user-2');
+
+      const page = roomService.getMessagePage(roomId);
+
+      expect(page.messages[0]?.reactions).toEqual([
+        { emoji: '🚀', count: 1, userIds: ['user-2'] },
+      ]);
+      // The stored message itself is left untouched
+      expect(roomService.getMessage(roomId, 'msg-1')?.reactions).toBeUndefined();
+    });
+
+    it('should drop reactions when the message is deleted', () => {
+      roomService.toggleReaction(roomId, 'msg-1', '👍', 'user-1');
+      roomService.deleteMessage(roomId, 'msg-1');
+
+      expect(roomService.getReactions(roomId, 'msg-1')).toEqual([]);
+      expect(
+        roomService.toggleReaction(roomId, 'msg-1', '👍', 'user-1')
+      ).toBeUndefined();
+    });
+  });
+
+  describe('threads', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addMessage(roomId, {
+        id: 'parent',
+        userId: 'user-1',
+        nickname: 'TestUser',
+        content: 'What went well?',
+        timestamp: new Date('2025-10-28T10:00:00Z'),
+      });
+      roomService.addMessage(roomId, {
+        id: 'reply-1',
+        userId: 'user-2',
+        nickname: 'Other',
+        content: 'Deploys',
+        timestamp: new Date('2025-10-28T10:01:00Z'),
+        parentId: 'parent',
+      });
+      roomService.addMessage(roomId, {
+        id: 'reply-2',
+        userId: 'user-3',
+        nickname: 'Third',
+        content: 'Pairing',
+        timestamp: new Date('2025-10-28T10:02:00Z'),
+        parentId: 'parent',
+      });
+    });
+
+    it('should track the reply count and last reply time on the parent', () => {
+      const parent = roomService.getMessage(roomId, 'parent');
+
+      expect(parent?.replyCount).toBe(2);
+      expect(parent?.lastReplyAt).toEqual(new Date('2025-10-28T10:02:00Z'));
+    });
+
+    it('should keep replies out of the main timeline', () => {
+      const page = roomService.getMessagePage(roomId);
+
+      expect(page.messages.map(m => m.id)).toEqual(['parent']);
+    });
+
+    it('should return the replies of a thread oldest first', () => {
+      const replies = roomService.getThread(roomId, 'parent');
+
+      expect(replies.map(m => m.id)).toEqual(['reply-1', 'reply-2']);
+      expect(roomService.getThread(roomId, 'reply-1')).toEqual([]);
+    });
+  });
+
+  describe('getMessagePage', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      for (let i = 0; i < 120; i++) {
+        roomService.addMessage(roomId, {
+          id: `msg-${i}`,
+          userId: 'user-1',
+          nickname: 'TestUser',
+          content: `Message ${i}`,
+          timestamp: new Date(),
+        });
+      }
+    });
+
+    it('should return the most recent page without a cursor', () => {
+      const page = roomService.getMessagePage(roomId);
+
+      expect(page.messages).toHaveLength(MESSAGE_PAGE_SIZE);
+      expect(page.messages[0]?.id).toBe('msg-70');
+      expect(page.messages[MESSAGE_PAGE_SIZE - 1]?.id).toBe('msg-119');
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('should return the messages before the cursor', () => {
+      const page = roomService.getMessagePage(roomId, {
+        before: 'msg-70',
+        limit: 30,
+      });
+
+      expect(page.messages[0]?.id).toBe('msg-40');
+      expect(page.messages[29]?.id).toBe('msg-69');
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('should report when the oldest message is reached', () => {
+      const page = roomService.getMessagePage(roomId, { before: 'msg-20' });
+
+      expect(page.messages).toHaveLength(20);
+      expect(page.messages[0]?.id).toBe('msg-0');
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should clamp the limit to the page size', () => {
+      const page = roomService.getMessagePage(roomId, { limit: 1000 });
+
+      expect(page.messages).toHaveLength(MESSAGE_PAGE_SIZE);
+    });
+
+    it('should return an empty page for an unknown cursor', () => {
+      const page = roomService.getMessagePage(roomId, { before: 'missing' });
+
+      expect(page).toEqual({ messages: [], hasMore: false });
+    });
+  });
+
+  describe('pinned messages and announcements', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      for (const id of ['msg-1', 'msg-2', 'msg-3']) {
+        roomService.addMessage(roomId, {
+          id,
+          userId: 'user-1',
+          nickname: 'TestUser',
+          content: `Message ${id}`,
+          timestamp: new Date(),
+        });
+      }
+    });
+
+    it('should list pinned messages, most recently pinned first', () => {
+      expect(roomService.pinMessage(roomId, 'msg-1')).toBe(true);
+      expect(roomService.pinMessage(roomId, 'msg-3')).toBe(true);
+      expect(roomService.pinMessage(roomId, 'msg-1')).toBe(true);
+
+      expect(
+        roomService.getPinnedMessages(roomId).map(message => message.id)
+      ).toEqual(['msg-3', 'msg-1']);
+      expect(roomService.getRoom(roomId)?.pinnedMessageIds).toEqual([
+        'msg-1',
+        'msg-3',
+      ]);
+    });
+
+    it('should unpin messages', () => {
+      roomService.pinMessage(roomId, 'msg-1');
+
+      expect(roomService.unpinMessage(roomId, 'msg-1')).toBe(true);
+      expect(roomService.unpinMessage(roomId, 'msg-1')).toBe(false);
+      expect(roomService.isMessagePinned(roomId, 'msg-1')).toBe(false);
+    });
+
+    it('should not pin missing or deleted messages and unpin deleted ones', () => {
+      roomService.pinMessage(roomId, 'msg-2');
+      roomService.deleteMessage(roomId, 'msg-2');
+
+      expect(roomService.getPinnedMessages(roomId)).toEqual([]);
+      expect(roomService.pinMessage(roomId, 'msg-2')).toBe(false);
+      expect(roomService.pinMessage(roomId, 'missing')).toBe(false);
+    });
+
+    it('should unpin messages dropped from the history', () => {
+      const historyLimit = backendConfig.MESSAGE_HISTORY_LIMIT;
+      backendConfig.MESSAGE_HISTORY_LIMIT = 3;
+
+      try {
+        roomService.pinMessage(roomId, 'msg-1');
+        roomService.addMessage(roomId, {
+          id: 'msg-4',
+          userId: 'user-1',
+          nickname: 'TestUser',
+          content: 'Message msg-4',
+          timestamp: new Date(),
+        });
+
+        expect(roomService.isMessagePinned(roomId, 'msg-1')).toBe(false);
+      } finally {
+        backendConfig.MESSAGE_HISTORY_LIMIT = historyLimit;
+      }
+    });
+
+    it('should set and clear the announcement', () => {
+      expect(roomService.setAnnouncement(roomId, 'Standup at 10')).toBe(true);
+      expect(roomService.getAnnouncement(roomId)).toBe('Standup at 10');
+
+      roomService.setAnnouncement(roomId, '');
+      expect(roomService.getAnnouncement(roomId)).toBeUndefined();
+      expect(roomService.setAnnouncement('missing', 'Hi')).toBe(false);
+    });
+  });
+
+  describe('read markers', () => {
+    let roomId: string;
+
+    const addMessage = (id: string, parentId?: string) =>
+      roomService.addMessage(roomId, {
+        id,
+        userId: 'user-1',
+        nickname: 'user-1',
+        content: `Message ${id}`,
+        timestamp: new Date(),
+        parentId,
+      });
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      for (const id of ['user-1', 'user-2']) {
+        roomService.addUserToRoom(roomId, {
+          id,
+          nickname: id,
+          socketId: `socket-${id}`,
+          joinedAt: new Date(),
+          isOnline: true,
+        });
+      }
+      addMessage('msg-1');
+      addMessage('msg-2');
+      addMessage('reply-1', 'msg-1');
+    });
+
+    it('should only move read markers forward', () => {
+      expect(roomService.markRead(roomId, 'user-2', 'msg-1')).toBe(true);
+      expect(roomService.markRead(roomId, 'user-2', 'msg-2')).toBe(true);
+      expect(roomService.markRead(roomId, 'user-2', 'msg-1')).toBe(false);
+      expect(roomService.markRead(roomId, 'user-2', 'msg-2')).toBe(false);
+
+      expect(roomService.getReadReceipts(roomId)).toEqual([
+        { userId: 'user-2', messageId: 'msg-2' },
+      ]);
+    });
+
+    it('should ignore thread replies, unknown messages and non-members', () => {
+      expect(roomService.markRead(roomId, 'user-2', 'reply-1')).toBe(false);
+      expect(roomService.markRead(roomId, 'user-2', 'missing')).toBe(false);
+      expect(roomService.markRead(roomId, 'stranger', 'msg-1')).toBe(false);
+      expect(roomService.getReadReceipts(roomId)).toEqual([]);
+    });
+
+    it('should forget the marker of members who leave', () => {
+      roomService.markRead(roomId, 'user-1', 'msg-2');
+      roomService.markRead(roomId, 'user-2', 'msg-2');
+
+      roomService.removeUserFromRoom(roomId, 'user-2');
+
+      expect(roomService.getReadReceipts(roomId)).toEqual([
+        { userId: 'user-1', messageId: 'msg-2' },
+      ]);
+    });
+
+    it('should keep a thread whole while a reply is within the history limit', () => {
+      const historyLimit = backendConfig.MESSAGE_HISTORY_LIMIT;
+      backendConfig.MESSAGE_HISTORY_LIMIT = 3;
+      try {
+        addMessage('msg-3');
+
+        expect(roomService.getMessage(roomId, 'msg-1')).toBeDefined();
+        expect(
+          roomService.getThread(roomId, 'msg-1').map(m => m.id)
+        ).toEqual(['reply-1']);
+      } finally {
+        backendConfig.MESSAGE_HISTORY_LIMIT = historyLimit;
+      }
+    });
+
+    it('should drop old threads and read markers with the history', () => {
+      const historyLimit = backendConfig.MESSAGE_HISTORY_LIMIT;
+      backendConfig.MESSAGE_HISTORY_LIMIT = 3;
+      try {
+        roomService.markRead(roomId, 'user-2', 'msg-2');
+        addMessage('msg-3');
+        addMessage('msg-4');
+        roomService.markRead(roomId, 'user-1', 'msg-4');
+        addMessage('msg-5');
+
+        const { messages } = roomService.getMessagePage(roomId);
+        expect(messages.map(m => m.id)).toEqual(['msg-3', 'msg-4', 'msg-5']);
+        expect(roomService.getMessage(roomId, 'reply-1')).toBeUndefined();
+        expect(roomService.getReadReceipts(roomId)).toEqual([
+          { userId: 'user-1', messageId: 'msg-4' },
+        ]);
+      } finally {
+        backendConfig.MESSAGE_HISTORY_LIMIT = historyLimit;
+      }
+    });
+  });
+
+  describe('polls', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addMessage(roomId, {
+        id: 'poll-1',
+        userId: 'user-1',
+        nickname: 'TestUser',
+        content: 'Where to?',
+        timestamp: new Date(),
+        poll: {
+          question: 'Where to?',
+          options: [
+            { id: 'pizza', text: 'Pizza', votes: 0 },
+            { id: 'sushi', text: 'Sushi', votes: 0 },
+          ],
+          multipleChoice: false,
+          anonymous: true,
+          voterCount: 0,
+        },
+      });
+    });
+
+    it('should tally votes without sending voters of anonymous polls', () => {
+      roomService.votePoll(roomId, 'poll-1', 'user-1', ['pizza']);
+      const poll = roomService.votePoll(roomId, 'poll-1', 'user-2', ['pizza']);
+
+      expect(poll?.voterCount).toBe(2);
+      expect(poll?.options[0]).toEqual({ id: 'pizza', text: 'Pizza', votes: 2 });
+      expect(
+        roomService.getMessagePage(roomId).messages[0]?.poll?.options[0]
+      ).toEqual({ id: 'pizza', text: 'Pizza', votes: 2 });
+    });
+
+    it('should stop accepting votes once closed', () => {
+      expect(roomService.closePoll(roomId, 'poll-1')?.closedAt).toBeInstanceOf(
+        Date
+      );
+
+      expect(
+        roomService.votePoll(roomId, 'poll-1', 'user-1', ['pizza'])
+      ).toBeUndefined();
+      expect(roomService.closePoll(roomId, 'poll-1')).toBeUndefined();
+    });
+
+    it('should not vote on messages without a poll', () => {
+      roomService.addMessage(roomId, {
+        id: 'msg-1',
+        userId: 'user-1',
+        nickname: 'TestUser',
+        content: 'Hello',
+        timestamp: new Date(),
+      });
+
+      expect(
+        roomService.votePoll(roomId, 'msg-1', 'user-1', [])
+      ).toBeUndefined();
+      expect(roomService.closePoll(roomId, 'missing')).toBeUndefined();
+    });
+
+    it('should drop the poll of deleted messages', () => {
+      roomService.deleteMessage(roomId, 'poll-1');
+
+      expect(roomService.getMessage(roomId, 'poll-1')?.poll).toBeUndefined();
+    });
+  });
+
+  describe('searchMessages', () => {
+    let roomId: string;
+
+    const addMessage = (id: string, content: string, parentId?: string) =>
+      roomService.addMessage(roomId, {
+        id,
+        userId: 'user-1',
+        nickname: 'TestUser',
+        content,
+        timestamp: new Date(),
+        parentId,
+      });
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      addMessage('msg-1', 'The deploy link is https://example.com/deploy');
+      addMessage('msg-2', 'Lunch at noon?');
+      addMessage('msg-3', 'Deployment finished', 'msg-1');
+    });
+
+    it('should return matches newest first, including replies', () => {
+      const results = roomService.searchMessages(roomId, 'deploy');
+
+      expect(results.map(result => result.message.id)).toEqual([
+        'msg-3',
+        'msg-1',
+      ]);
+      expect(results[0]?.snippet).toEqual({
+        text: 'Deployment finished',
+        highlights: [{ start: 0, length: 10 }],
+      });
+    });
+
+    it('should require every word of the query', () => {
+      expect(
+        roomService
+          .searchMessages(roomId, 'LINK deploy')
+          .map(result => result.message.id)
+      ).toEqual(['msg-1']);
+      expect(roomService.searchMessages(roomId, 'deploy lunch')).toEqual([]);
+    });
+
+    it('should follow edits and deletions', () => {
+      roomService.editMessage(roomId, 'msg-2', 'Dinner at eight?');
+      roomService.deleteMessage(roomId, 'msg-1');
+
+      expect(roomService.searchMessages(roomId, 'lunch')).toEqual([]);
+      expect(
+        roomService
+          .searchMessages(roomId, 'dinner')
+          .map(result => result.message.id)
+      ).toEqual(['msg-2']);
+      expect(
+        roomService
+          .searchMessages(roomId, 'deploy')
+          .map(result => result.message.id)
+      ).toEqual(['msg-3']);
+    });
+
+    it('should forget messages dropped from the history', () => {
+      const historyLimit = backendConfig.MESSAGE_HISTORY_LIMIT;
+      backendConfig.MESSAGE_HISTORY_LIMIT = 3;
+
+      try {
+        addMessage('msg-4', 'Anything else?');
+
+        expect(
+          roomService
+            .searchMessages(roomId, 'deploy')
+            .map(result => result.message.id)
+        ).toEqual(['msg-3', 'msg-1']);
+
+        addMessage('msg-5', 'Nope');
+        addMessage('msg-6', 'Bye');
+
+        expect(roomService.searchMessages(roomId, 'deploy')).toEqual([]);
+      } finally {
+        backendConfig.MESSAGE_HISTORY_LIMIT = historyLimit;
+      }
+    });
+
+    it('should limit the number of results', () => {
+      expect(roomService.searchMessages(roomId, 'deploy', 1)).toHaveLength(1);
+    });
+
+    it('should return nothing for queries without words or unknown rooms', () => {
+      expect(roomService.searchMessages(roomId, '?!')).toEqual([]);
+      expect(roomService.searchMessages('missing', 'deploy')).toEqual([]);
+    });
+  });
+
   describe('updateUserStatus', () => {
     let roomId: string;
 
@@ -649,6 +1376,22 @@ describe('RoomService', () => {
       expect(updatedUser?.isOnline).toBe(false);
     });
 
+    it('should clear editing status when going offline', () => {
+      const user: User = {
+        id: 'user-1',
+        nickname: 'TestUser',
+        socketId: 'socket-1',
+        joinedAt: new Date(),
+        isOnline: true,
+        isEditing: true,
+      };
+
+      roomService.addUserToRoom(roomId, user);
+      roomService.updateUserStatus(roomId, user.id, false);
+
+      expect(roomService.getUserInRoom(roomId, user.id)?.isEditing).toBe(false);
+    });
+
     it('should return false for non-existent room', () => {
       const result = roomService.updateUserStatus('non-existent', 'user-1', false);
 
@@ -746,6 +1489,198 @@ describe('RoomService', () => {
     });
   });
 
+  describe('roles', () => {
+    let roomId: string;
+
+    const makeUser = (id: string): User => ({
+      id,
+      nickname: id,
+      socketId: `socket-${id}`,
+      joinedAt: new Date(),
+      isOnline: true,
+    });
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addUserToRoom(roomId, makeUser('owner'));
+      roomService.addUserToRoom(roomId, makeUser('member'));
+    });
+
+    it('should make the first user owner and later users participants', () => {
+      expect(roomService.getUserRole(roomId, 'owner')).toBe('owner');
+      expect(roomService.getUserRole(roomId, 'member')).toBe('participant');
+      expect(roomService.getUserRole(roomId, 'stranger')).toBeUndefined();
+    });
+
+    it('should change a member role', () => {
+      expect(roomService.setUserRole(roomId, 'member', 'viewer')).toBe(true);
+      expect(roomService.getUserInRoom(roomId, 'member')?.role).toBe('viewer');
+    });
+
+    it("should not change the owner's role", () => {
+      expect(roomService.setUserRole(roomId, 'owner', 'viewer')).toBe(false);
+      expect(roomService.getUserRole(roomId, 'owner')).toBe('owner');
+    });
+
+    it('should check permissions by role', () => {
+      roomService.setUserRole(roomId, 'member', 'viewer');
+
+      expect(roomService.hasPermission(roomId, 'owner', 'manage-roles')).toBe(true);
+      expect(roomService.hasPermission(roomId, 'member', 'chat')).toBe(false);
+      expect(roomService.hasPermission(roomId, 'member', 'edit')).toBe(false);
+      expect(roomService.hasPermission(roomId, 'stranger', 'chat')).toBe(false);
+    });
+  });
+
+  describe('ownership', () => {
+    let roomId: string;
+
+    const makeUser = (id: string, joinedAt: string, isOnline = true): User => ({
+      id,
+      nickname: id,
+      socketId: `socket-${id}`,
+      joinedAt: new Date(joinedAt),
+      isOnline,
+    });
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.addUserToRoom(roomId, makeUser('owner', '2025-01-01T10:00:00Z'));
+      roomService.addUserToRoom(roomId, makeUser('early', '2025-01-01T10:01:00Z', false));
+      roomService.addUserToRoom(roomId, makeUser('middle', '2025-01-01T10:02:00Z'));
+      roomService.addUserToRoom(roomId, makeUser('late', '2025-01-01T10:03:00Z'));
+    });
+
+    it('should transfer ownership and keep the previous owner as moderator', () => {
+      expect(roomService.transferOwnership(roomId, 'late')).toBe(true);
+
+      const room = roomService.getRoom(roomId);
+      expect(room?.ownerId).toBe('late');
+      expect(room?.ownerNickname).toBe('late');
+      expect(roomService.getUserRole(roomId, 'late')).toBe('owner');
+      expect(roomService.getUserRole(roomId, 'owner')).toBe('moderator');
+    });
+
+    it('should not transfer ownership to a non-member', () => {
+      expect(roomService.transferOwnership(roomId, 'stranger')).toBe(false);
+      expect(roomService.getRoom(roomId)?.ownerId).toBe('owner');
+    });
+
+    it('should leave the room alone while the owner is present', () => {
+      expect(roomService.ensureOwner(roomId)).toBeUndefined();
+      expect(roomService.getRoom(roomId)?.ownerId).toBe('owner');
+    });
+
+    it('should hand an ownerless room to the longest-present online member', () => {
+      roomService.removeUserFromRoom(roomId, 'owner');
+
+      expect(roomService.ensureOwner(roomId)?.id).toBe('middle');
+      expect(roomService.getUserRole(roomId, 'middle')).toBe('owner');
+      expect(roomService.getUserRole(roomId, 'early')).toBe('participant');
+    });
+
+    it('should wait for someone to be online', () => {
+      roomService.removeUserFromRoom(roomId, 'owner');
+      roomService.updateUserStatus(roomId, 'middle', false);
+      roomService.updateUserStatus(roomId, 'late', false);
+
+      expect(roomService.ensureOwner(roomId)).toBeUndefined();
+
+      roomService.updateUserStatus(roomId, 'late', true);
+      expect(roomService.ensureOwner(roomId)?.id).toBe('late');
+    });
+  });
+
+  describe('bans', () => {
+    let roomId: string;
+
+    beforeEach(() => {
+      roomId = roomService.createRoom();
+      roomService.banUser(roomId, {
+        userId: 'troll',
+        nickname: 'Troll',
+        clientId: 'client-troll',
+        bannedBy: 'owner',
+        bannedAt: new Date(),
+        reason: 'Spam',
+      });
+    });
+
+    it('should match bans by user ID or client ID', () => {
+      expect(roomService.isBanned(roomId, 'troll')).toBe(true);
+      expect(roomService.isBanned(roomId, 'new-id', 'client-troll')).toBe(true);
+      expect(roomService.isBanned(roomId, 'new-id', 'client-other')).toBe(false);
+      expect(roomService.isBanned(roomId)).toBe(false);
+    });
+
+    it('should list bans without client IDs', () => {
+      const bans = roomService.getBans(roomId);
+
+      expect(bans).toHaveLength(1);
+      expect(bans[0]).toMatchObject({ userId: 'troll', nickname: 'Troll', reason: 'Spam' });
+      expect(bans[0]).not.toHaveProperty('clientId');
+    });
+
+    it('should replace an earlier ban for the same user', () => {
+      roomService.banUser(roomId, {
+        userId: 'troll',
+        nickname: 'Troll2',
+        bannedBy: 'owner',
+        bannedAt: new Date(),
+      });
+
+      expect(roomService.getBans(roomId).map(b => b.nickname)).toEqual(['Troll2']);
+    });
+
+    it('should remember the client ID of members only while they stay', () => {
+      roomService.addUserToRoom(roomId, {
+        id: 'user-1',
+        nickname: 'Alice',
+        socketId: 'socket-1',
+        joinedAt: new Date(),
+        isOnline: true,
+      });
+
+      expect(roomService.setClientId(roomId, 'user-1', 'client-1')).toBe(true);
+      expect(roomService.setClientId(roomId, 'missing', 'client-2')).toBe(false);
+      expect(roomService.getClientId(roomId, 'user-1')).toBe('client-1');
+
+      roomService.removeUserFromRoom(roomId, 'user-1');
+      expect(roomService.getClientId(roomId, 'user-1')).toBeUndefined();
+    });
+
+    it('should revoke a ban', () => {
+      expect(roomService.unbanUser(roomId, 'troll')).toBe(true);
+      expect(roomService.unbanUser(roomId, 'troll')).toBe(false);
+      expect(roomService.isBanned(roomId, 'troll', 'client-troll')).toBe(false);
+    });
+  });
+
+  describe('passcodes and locking', () => {
+    it('should only require a passcode when the room has one', () => {
+      const openRoom = roomService.createRoom();
+      const privateRoom = roomService.createRoom({ passcode: 'secret' });
+
+      expect(roomService.requiresPasscode(openRoom)).toBe(false);
+      expect(roomService.checkPasscode(openRoom)).toBe(true);
+      expect(roomService.requiresPasscode(privateRoom)).toBe(true);
+      expect(roomService.checkPasscode(privateRoom)).toBe(false);
+      expect(roomService.checkPasscode(privateRoom, 'wrong')).toBe(false);
+      expect(roomService.checkPasscode(privateRoom, 'secret')).toBe(true);
+    });
+
+    it('should lock and unlock a room', () => {
+      const roomId = roomService.createRoom();
+
+      expect(roomService.isRoomLocked(roomId)).toBe(false);
+      expect(roomService.setRoomLocked(roomId, true)).toBe(true);
+      expect(roomService.isRoomLocked(roomId)).toBe(true);
+      roomService.setRoomLocked(roomId, false);
+      expect(roomService.isRoomLocked(roomId)).toBe(false);
+      expect(roomService.setRoomLocked('missing', true)).toBe(false);
+    });
+  });
+
   describe('getStats', () => {
     beforeEach(() => {
       // Ensure complete isolation for stats tests
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemoryRoomStore,
+  FileRoomStore,
+  serializeRooms,
+  deserializeRooms,
+} from '../roomStore';
+import { RoomService } from '../roomService';
+import {
+  createMockRoom,
+  createMockUser,
+} from '../../../test/helpers/testHelpers';
+
+describe('RoomStore', () => {
+  describe('serializeRooms / deserializeRooms', () => {
+    it('should round-trip dates, maps and messages', () => {
+      const user = createMockUser({ id: 'user-1', nickname: 'Alice' });
+      const room = createMockRoom({
+        id: 'room-1',
+        users: new Map([[user.id, user]]),
+        messages: [
+          {
+            id: 'msg-1',
+            userId: user.id,
+            nickname: user.nickname,
+            content: 'Hello',
+            timestamp: new Date('2025-01-01T10:00:00Z'),
+          },
+        ],
+        ownerId: user.id,
+        ownerNickname: user.nickname,
+      });
+
+      const restored = deserializeRooms(serializeRooms([room]))[0];
+
+      expect(restored?.createdAt).toBeInstanceOf(Date);
+      expect(restored?.createdAt.getTime()).toBe(room.createdAt.getTime());
+      expect(restored?.users).toBeInstanceOf(Map);
+      expect(restored?.users.get('user-1')?.nickname).toBe('Alice');
+      expect(restored?.users.get('user-1')?.joinedAt).toBeInstanceOf(Date);
+      expect(restored?.messages[0]?.timestamp).toBeInstanceOf(Date);
+      expect(restored?.ownerId).toBe('user-1');
+      expect(restored?.ownerNickname).toBe('Alice');
+    });
+
+    it('should reject files that do not contain a room array', () => {
+      expect(() => deserializeRooms('{}')).toThrow();
+    });
+  });
+
+  describe('InMemoryRoomStore', () => {
+    it('should save, get and delete rooms', () => {
+      const store = new InMemoryRoomStore();
+      const room = createMockRoom({ id: 'room-1' });
+
+      store.save(room);
+      expect(store.has('room-1')).toBe(true);
+      expect(store.get('room-1')).toBe(room);
+      expect(store.size()).toBe(1);
+
+      expect(store.delete('room-1')).toBe(true);
+      expect(store.has('room-1')).toBe(false);
+    });
+  });
+
+  describe('FileRoomStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kuikui-store-'));
+      filePath = path.join(dir, 'nested', 'rooms.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should start empty when the file does not exist', () => {
+      const store = new FileRoomStore(filePath);
+
+      expect(store.size()).toBe(0);
+    });
+
+    it('should persist rooms across store instances', () => {
+      const store = new FileRoomStore(filePath);
+      const user = createMockUser({ id: 'user-1', nickname: 'Alice' });
+      store.save(
+        createMockRoom({
+          id: 'room-1',
+          users: new Map([[user.id, user]]),
+          ownerId: user.id,
+        })
+      );
+      store.flush();
+
+      const reloaded = new FileRoomStore(filePath);
+      const room = reloaded.get('room-1');
+
+      expect(room).toBeDefined();
+      expect(room?.ownerId).toBe('user-1');
+      expect(room?.users.get('user-1')?.nickname).toBe('Alice');
+    });
+
+    it('should mark restored users as offline', () => {
+      const store = new FileRoomStore(filePath);
+      const user = createMockUser({ id: 'user-1', isOnline: true });
+      store.save(createMockRoom({ users: new Map([[user.id, user]]) }));
+      store.flush();
+
+      const reloaded = new FileRoomStore(filePath);
+
+      expect(reloaded.get('test-room-id')?.users.get('user-1')?.isOnline).toBe(
+        false
+      );
+    });
+
+    it('should persist deletions', () => {
+      const store = new FileRoomStore(filePath);
+      store.save(createMockRoom({ id: 'room-1' }));
+      store.flush();
+      store.delete('room-1');
+      store.flush();
+
+      expect(new FileRoomStore(filePath).has('room-1')).toBe(false);
+    });
+
+    it('should start empty when the file is corrupt', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, 'not json', 'utf8');
+
+      expect(new FileRoomStore(filePath).size()).toBe(0);
+    });
+
+    it('should let RoomService state survive a restart', () => {
+      const service = new RoomService(new FileRoomStore(filePath));
+      const roomId = service.createRoom();
+      service.addUserToRoom(
+        roomId,
+        createMockUser({ id: 'user-1', nickname: 'Alice' })
+      );
+      service.addMessage(roomId, {
+        id: 'msg-1',
+        userId: 'user-1',
+        nickname: 'Alice',
+        content: 'Persist me',
+        timestamp: new Date(),
+      });
+      service.flush();
+
+      const restarted = new RoomService(new FileRoomStore(filePath));
+
+      expect(restarted.roomExists(roomId)).toBe(true);
+      expect(restarted.getRoom(roomId)?.ownerId).toBe('user-1');
+      expect(restarted.getMessages(roomId)[0]?.content).toBe('Persist me');
+      expect(restarted.isUserInRoom(roomId, 'user-1')).toBe(true);
+    });
+
+    it('should clean up expired rooms from the file store', () => {
+      const service = new RoomService(new FileRoomStore(filePath));
+      const roomId = service.createRoom();
+
+      expect(service.cleanupExpiredRooms(0)).toBe(1);
+      service.flush();
+
+      expect(new FileRoomStore(filePath).has(roomId)).toBe(false);
+    });
+  });
+});
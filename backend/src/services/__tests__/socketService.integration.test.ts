@@ -1,7 +1,36 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { setupSocketHandlers } from '../../services/socketService';
 import { roomService } from '../../services/roomService';
-import { SocketErrorCode } from '../../types';
+import {
+  AnnouncementChangedEvent,
+  BansListEvent,
+  ChatMessage,
+  ClientTokenEvent,
+  DocumentVersion,
+  JoinRoomResponse,
+  KickedEvent,
+  MentionedEvent,
+  MessageDeletedEvent,
+  MessageReactionsUpdatedEvent,
+  OlderMessagesEvent,
+  PinnedMessagesUpdatedEvent,
+  PollUpdatedEvent,
+  PresenceChangedEvent,
+  ReadReceiptsEvent,
+  ReplyNotificationEvent,
+  RoomLockChangedEvent,
+  RoomOwnerChangedEvent,
+  SocketError,
+  SocketErrorCode,
+  ThreadMessagesEvent,
+  ThreadReplyEvent,
+  UserRenamedEvent,
+  UserRoleChangedEvent,
+  UserStatusEvent,
+} from '../../types';
+import { backendConfig } from '../../config/environment';
+import { AWAY_AFTER_MS } from '../../utils/presence';
+import { createClientToken, verifyClientToken } from '../../utils/clientTokens';
 import {
   createTestSocketServer,
   createTestSocketClient,
@@ -10,15 +39,37 @@ import {
 } from '../../../test/helpers/socketTestHelpers';
 
 import { AddressInfo } from 'net';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+// Editor events carry binary Y.js payloads and have no shared types
+interface EditorSyncEvent {
+  message: ArrayBuffer;
+}
+
+interface DocumentUpdateEvent {
+  update: ArrayBuffer;
+  userId: string;
+}
 
 /**
  * Socket.IO integration tests
  *
  * Uses a lightweight Socket.IO server + client to validate core realtime flows:
- *  - join-room success and error paths
+ *  - join-room success and error paths (by room ID or slug)
  *  - message broadcasting to room participants
  *  - typing status propagation
  *  - nickname conflict handling
+ *  - disconnect grace period (offline, rejoin, removal)
+ *  - session tokens for restoring an identity
+ *  - role changes and read-only viewers
+ *  - kicking, banning and revoking bans
+ *  - passcode-protected and locked rooms
+ *  - ownership transfer and automatic succession
+ *  - server-held document sync for late joiners
+ *  - document version save and restore
  */
 
 describe('SocketService (integration)', () => {
@@ -76,6 +127,29 @@ describe('SocketService (integration)', () => {
     client.disconnect();
   });
 
+  it('should join a room by its slug and receive its name', async () => {
+    const roomId = roomService.createRoom({
+      name: 'Sprint 42 Retro',
+      slug: 'sprint-42-retro',
+    });
+
+    const client = createTestSocketClient(port);
+    client.connect();
+    await waitForSocketConnect(client);
+    client.emit('join-room', { roomId: 'sprint-42-retro', nickname: 'Alice' });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      client,
+      'room-joined'
+    );
+
+    expect(joined.roomId).toBe(roomId);
+    expect(joined.roomName).toBe('Sprint 42 Retro');
+    expect(joined.roomSlug).toBe('sprint-42-retro');
+    expect(roomService.isUserInRoom(roomId, joined.userId!)).toBe(true);
+
+    client.disconnect();
+  });
+
   it('should reject join for non-existent room with ROOM_NOT_FOUND', async () => {
     const client = createTestSocketClient(port);
     client.connect();
@@ -122,6 +196,846 @@ describe('SocketService (integration)', () => {
     c2.disconnect();
   });
 
+  it('should keep line breaks and code in messages', async () => {
+    const roomId = roomService.createRoom();
+
+    const c1 = createTestSocketClient(port);
+    c1.connect();
+    await waitForSocketConnect(c1);
+
+    c1.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(c1, 'room-joined');
+
+    const messagePromise = waitForSocketEvent<ChatMessage>(c1, 'new-message');
+    c1.emit('send-message', {
+      content: 'Try this:\r\n```\nif (a < b) {\n  swap();   \n}\n```',
+    });
+
+    const msg = await messagePromise;
+    expect(msg.content).toBe('Try this:\n```\nif (a < b) {\n  swap();\n}\n```');
+
+    c1.disconnect();
+  });
+
+  it('should let authors edit and delete their messages and moderators delete any', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined');
+
+    const newMessage = waitForSocketEvent<ChatMessage>(owner, 'new-message');
+    member.emit('send-message', { content: 'My pasword is hunter2' });
+    const message = await newMessage;
+
+    // Only the author may edit
+    owner.emit('edit-message', { messageId: message.id, content: 'Nope' });
+    const editError = await waitForSocketEvent<SocketError>(owner, 'error');
+    expect(editError.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    const updatedPromise = waitForSocketEvent<ChatMessage>(
+      owner,
+      'message-updated'
+    );
+    member.emit('edit-message', {
+      messageId: message.id,
+      content: 'My password is\n**hunter2**  ',
+    });
+    const updated = await updatedPromise;
+    expect(updated.id).toBe(message.id);
+    expect(updated.content).toBe('My password is\n**hunter2**');
+    expect(updated.editedAt).toBeTruthy();
+
+    // The owner can delete someone else's message
+    const deletedPromise = waitForSocketEvent<MessageDeletedEvent>(
+      member,
+      'message-deleted'
+    );
+    owner.emit('delete-message', { messageId: message.id });
+    const deleted = await deletedPromise;
+    expect(deleted.messageId).toBe(message.id);
+    expect(deleted.deletedAt).toBeTruthy();
+    expect(roomService.getMessage(roomId, message.id)?.content).toBe('');
+
+    // Tombstones can't be edited or deleted again
+    member.emit('edit-message', { messageId: message.id, content: 'Back' });
+    const goneError = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(goneError.code).toBe(SocketErrorCode.MESSAGE_NOT_FOUND);
+
+    owner.disconnect();
+    member.disconnect();
+  });
+
+  it("should keep participants from deleting other users' messages", async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined');
+
+    const newMessage = waitForSocketEvent<ChatMessage>(member, 'new-message');
+    owner.emit('send-message', { content: 'Agenda is up' });
+    const message = await newMessage;
+
+    member.emit('delete-message', { messageId: message.id });
+    const error = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(error.code).toBe(SocketErrorCode.UNAUTHORIZED);
+    expect(roomService.getMessage(roomId, message.id)?.content).toBe(
+      'Agenda is up'
+    );
+
+    owner.disconnect();
+    member.disconnect();
+  });
+
+  it('should post thread replies outside the timeline and notify the parent author', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(alice, 'room-joined');
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+    const newMessage = waitForSocketEvent<ChatMessage>(bob, 'new-message');
+    alice.emit('send-message', { content: 'What should we stop doing?' });
+    const parent = await newMessage;
+
+    let timelineReplies = 0;
+    alice.on('new-message', () => timelineReplies++);
+    const replyPromise = waitForSocketEvent<ThreadReplyEvent>(
+      alice,
+      'thread-reply'
+    );
+    const notificationPromise = waitForSocketEvent<ReplyNotificationEvent>(
+      alice,
+      'reply-notification'
+    );
+    bob.emit('send-message', { content: 'Long standups', parentId: parent.id });
+
+    const reply = await replyPromise;
+    expect(reply.message.parentId).toBe(parent.id);
+    expect(reply.replyCount).toBe(1);
+    expect(await notificationPromise).toEqual({
+      parentId: parent.id,
+      messageId: reply.message.id,
+      nickname: 'Bob',
+    });
+    expect(timelineReplies).toBe(0);
+
+    bob.emit('load-thread', { parentId: parent.id });
+    const thread = await waitForSocketEvent<ThreadMessagesEvent>(
+      bob,
+      'thread-messages'
+    );
+    expect(thread.parentId).toBe(parent.id);
+    expect(thread.messages.map(m => m.content)).toEqual(['Long standups']);
+
+    // Threads are one level deep
+    bob.emit('send-message', {
+      content: 'Nested?',
+      parentId: reply.message.id,
+    });
+    const error = await waitForSocketEvent<SocketError>(bob, 'error');
+    expect(error.code).toBe(SocketErrorCode.VALIDATION);
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('should send messages with attachments uploaded by the sender', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    alice.connect();
+    await waitForSocketConnect(alice);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId: aliceId } = await waitForSocketEvent<JoinRoomResponse>(
+      alice,
+      'room-joined'
+    );
+
+    const attachment = {
+      id: 'attachment-1',
+      name: 'screenshot.png',
+      mimeType: 'image/png',
+      size: 1024,
+      uploadedBy: aliceId!,
+      uploadedAt: new Date(),
+    };
+    roomService.addAttachment(roomId, attachment);
+    roomService.addAttachment(roomId, {
+      ...attachment,
+      id: 'attachment-2',
+      uploadedBy: 'someone-else',
+    });
+
+    // Text is optional next to attachments
+    const messagePromise = waitForSocketEvent<ChatMessage>(
+      alice,
+      'new-message'
+    );
+    alice.emit('send-message', {
+      content: '',
+      attachmentIds: ['attachment-1'],
+    });
+    const message = await messagePromise;
+    expect(message.content).toBe('');
+    expect(message.attachments).toEqual([
+      {
+        ...attachment,
+        uploadedAt: attachment.uploadedAt.toISOString(),
+        messageId: message.id,
+      },
+    ]);
+
+    // Other users' uploads can't be referenced
+    alice.emit('send-message', {
+      content: 'Look',
+      attachmentIds: ['attachment-2'],
+    });
+    const error = await waitForSocketEvent<SocketError>(alice, 'error');
+    expect(error.code).toBe(SocketErrorCode.VALIDATION);
+    expect(error.message).toBe('Attachment not found');
+
+    // Nor can an upload be sent twice, as deleting one message deletes it
+    alice.emit('send-message', {
+      content: 'Again',
+      attachmentIds: ['attachment-1'],
+    });
+    const reuseError = await waitForSocketEvent<SocketError>(alice, 'error');
+    expect(reuseError.code).toBe(SocketErrorCode.VALIDATION);
+    expect(reuseError.message).toBe('Attachment has already been sent');
+
+    // Deleting the message deletes its attachments
+    const deletedPromise = waitForSocketEvent<MessageDeletedEvent>(
+      alice,
+      'message-deleted'
+    );
+    alice.emit('delete-message', { messageId: message.id });
+    await deletedPromise;
+    expect(roomService.getAttachment(roomId, 'attachment-1')).toBeUndefined();
+    expect(
+      roomService.getMessage(roomId, message.id)?.attachments
+    ).toBeUndefined();
+
+    alice.disconnect();
+  });
+
+  it('should store mention ranges and notify only the mentioned user', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId: aliceId } = await waitForSocketEvent<JoinRoomResponse>(
+      alice,
+      'room-joined'
+    );
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+    let aliceMentions = 0;
+    alice.on('mentioned', () => aliceMentions++);
+
+    // Mentioning yourself doesn't notify
+    const ownMessages = Promise.all([
+      waitForSocketEvent<ChatMessage>(alice, 'new-message'),
+      waitForSocketEvent<ChatMessage>(bob, 'new-message'),
+    ]);
+    alice.emit('send-message', { content: 'note to self @Alice' });
+    await ownMessages;
+
+    const mentionedPromise = waitForSocketEvent<MentionedEvent>(
+      alice,
+      'mentioned'
+    );
+    const broadcastPromise = waitForSocketEvent<ChatMessage>(
+      bob,
+      'new-message'
+    );
+    bob.emit('send-message', { content: '@alice can you take notes?' });
+
+    const { message } = await mentionedPromise;
+    expect(message.mentions).toEqual([
+      { userId: aliceId, start: 0, length: 6 },
+    ]);
+    expect((await broadcastPromise).mentions).toEqual(message.mentions);
+    // Events arrive in order, so a self-mention would have been counted first
+    expect(aliceMentions).toBe(1);
+
+    // Actions notify like any other message
+    const actionMentionPromise = waitForSocketEvent<MentionedEvent>(
+      alice,
+      'mentioned'
+    );
+    bob.emit('run-command', { command: 'me', args: 'waves at @alice' });
+    const { message: action } = await actionMentionPromise;
+    expect(action.kind).toBe('action');
+    expect(action.mentions).toEqual([{ userId: aliceId, start: 9, length: 6 }]);
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('should notify only the users newly mentioned by an edit', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    const carol = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    carol.connect();
+    await Promise.all([
+      waitForSocketConnect(alice),
+      waitForSocketConnect(bob),
+      waitForSocketConnect(carol),
+    ]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(alice, 'room-joined');
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+    carol.emit('join-room', { roomId, nickname: 'Carol' });
+    const { userId: carolId } = await waitForSocketEvent<JoinRoomResponse>(
+      carol,
+      'room-joined'
+    );
+
+    let aliceMentions = 0;
+    alice.on('mentioned', () => aliceMentions++);
+
+    const firstMention = waitForSocketEvent<MentionedEvent>(alice, 'mentioned');
+    bob.emit('send-message', { content: '@alice lunch?' });
+    const { message } = await firstMention;
+
+    const carolMention = waitForSocketEvent<MentionedEvent>(carol, 'mentioned');
+    bob.emit('edit-message', {
+      messageId: message.id,
+      content: '@alice @carol lunch?',
+    });
+    const { message: edited } = await carolMention;
+    expect(edited.content).toBe('@alice @carol lunch?');
+    expect(edited.mentions).toContainEqual({
+      userId: carolId,
+      start: 7,
+      length: 6,
+    });
+
+    // Events arrive in order, so a repeat mention would be counted by now
+    const barrier = waitForSocketEvent<ChatMessage>(alice, 'new-message');
+    bob.emit('send-message', { content: 'anyone?' });
+    await barrier;
+    expect(aliceMentions).toBe(1);
+
+    alice.disconnect();
+    bob.disconnect();
+    carol.disconnect();
+  });
+
+  it('should toggle reactions and include them when joining', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    alice.connect();
+    await waitForSocketConnect(alice);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(alice, 'room-joined');
+
+    const newMessage = waitForSocketEvent<ChatMessage>(alice, 'new-message');
+    alice.emit('send-message', { content: 'Pizza for lunch?' });
+    const message = await newMessage;
+
+    const updatedPromise = waitForSocketEvent<MessageReactionsUpdatedEvent>(
+      alice,
+      'message-reactions-updated'
+    );
+    alice.emit('react-message', { messageId: message.id, emoji: '👍' });
+    const updated = await updatedPromise;
+    expect(updated.messageId).toBe(message.id);
+    expect(updated.reactions).toEqual([
+      { emoji: '👍', count: 1, userIds: [expect.any(String)] },
+    ]);
+
+    alice.emit('react-message', { messageId: message.id, emoji: '🍕' });
+    const error = await waitForSocketEvent<SocketError>(alice, 'error');
+    expect(error.code).toBe(SocketErrorCode.VALIDATION);
+
+    const bob = createTestSocketClient(port);
+    bob.connect();
+    await waitForSocketConnect(bob);
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      bob,
+      'room-joined'
+    );
+    expect(joined.messages[0]?.reactions?.[0]).toMatchObject({
+      emoji: '👍',
+      count: 1,
+    });
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('should let moderators pin messages and set an announcement for everyone', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined');
+
+    const newMessage = waitForSocketEvent<ChatMessage>(owner, 'new-message');
+    owner.emit('send-message', {
+      content: 'Agenda: https://example.com/agenda',
+    });
+    const message = await newMessage;
+
+    member.emit('pin-message', { messageId: message.id });
+    const denied = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(denied.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    const pinnedPromise = waitForSocketEvent<PinnedMessagesUpdatedEvent>(
+      member,
+      'pinned-messages-updated'
+    );
+    owner.emit('pin-message', { messageId: message.id });
+    expect((await pinnedPromise).pinnedMessages.map(m => m.id)).toEqual([
+      message.id,
+    ]);
+
+    const announcementPromise = waitForSocketEvent<AnnouncementChangedEvent>(
+      member,
+      'announcement-changed'
+    );
+    owner.emit('set-announcement', { announcement: '  Standup at 10:00  ' });
+    expect(await announcementPromise).toEqual({
+      announcement: 'Standup at 10:00',
+      setBy: expect.any(String),
+    });
+
+    const latecomer = createTestSocketClient(port);
+    latecomer.connect();
+    await waitForSocketConnect(latecomer);
+    latecomer.emit('join-room', { roomId, nickname: 'Carol' });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      latecomer,
+      'room-joined'
+    );
+    expect(joined.pinnedMessages?.[0]?.content).toBe(
+      'Agenda: https://example.com/agenda'
+    );
+    expect(joined.announcement).toBe('Standup at 10:00');
+
+    // Deleting a pinned message unpins it
+    const unpinnedPromise = waitForSocketEvent<PinnedMessagesUpdatedEvent>(
+      latecomer,
+      'pinned-messages-updated'
+    );
+    owner.emit('delete-message', { messageId: message.id });
+    expect((await unpinnedPromise).pinnedMessages).toEqual([]);
+
+    owner.disconnect();
+    member.disconnect();
+    latecomer.disconnect();
+  });
+
+  it('should create polls, tally votes and let the creator close them', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(alice, 'room-joined');
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    const bobJoined = await waitForSocketEvent<JoinRoomResponse>(
+      bob,
+      'room-joined'
+    );
+
+    alice.emit('create-poll', { question: 'Lunch?', options: ['Pizza'] });
+    expect(
+      (await waitForSocketEvent<SocketError>(alice, 'error')).message
+    ).toBe('Polls need 2-10 options');
+
+    const newMessage = waitForSocketEvent<ChatMessage>(bob, 'new-message');
+    alice.emit('create-poll', {
+      question: 'Lunch?',
+      options: ['Pizza', 'Sushi'],
+    });
+    const message = await newMessage;
+    expect(message.content).toBe('Lunch?');
+    expect(message.poll).toMatchObject({
+      question: 'Lunch?',
+      multipleChoice: false,
+      anonymous: false,
+      voterCount: 0,
+    });
+    const [pizza, sushi] = message.poll!.options;
+
+    bob.emit('vote-poll', {
+      messageId: message.id,
+      optionIds: [pizza!.id, sushi!.id],
+    });
+    expect((await waitForSocketEvent<SocketError>(bob, 'error')).message).toBe(
+      'This poll allows only one choice'
+    );
+
+    const updated = waitForSocketEvent<PollUpdatedEvent>(alice, 'poll-updated');
+    bob.emit('vote-poll', { messageId: message.id, optionIds: [sushi!.id] });
+    const { poll } = await updated;
+    expect(poll.options[1]).toEqual({
+      id: sushi!.id,
+      text: 'Sushi',
+      votes: 1,
+      voterIds: [bobJoined.userId],
+    });
+
+    bob.emit('close-poll', { messageId: message.id });
+    expect((await waitForSocketEvent<SocketError>(bob, 'error')).code).toBe(
+      SocketErrorCode.UNAUTHORIZED
+    );
+
+    const closed = waitForSocketEvent<PollUpdatedEvent>(bob, 'poll-updated');
+    alice.emit('close-poll', { messageId: message.id });
+    expect((await closed).poll.closedAt).toBeDefined();
+
+    bob.emit('vote-poll', { messageId: message.id, optionIds: [pizza!.id] });
+    expect((await waitForSocketEvent<SocketError>(bob, 'error')).message).toBe(
+      'This poll is closed'
+    );
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('should broadcast presence changes from heartbeats', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    const aliceJoined = await waitForSocketEvent<JoinRoomResponse>(
+      alice,
+      'room-joined'
+    );
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    const bobJoined = await waitForSocketEvent<JoinRoomResponse>(
+      bob,
+      'room-joined'
+    );
+    expect(
+      bobJoined.users.find(user => user.id === aliceJoined.userId)?.presence
+    ).toBe('active');
+
+    alice.emit('presence-heartbeat', { idleMs: -1 });
+    expect(
+      (await waitForSocketEvent<SocketError>(alice, 'error')).message
+    ).toBe('Invalid presence-heartbeat payload');
+
+    // Pretend Alice joined long ago and hasn't touched anything since
+    const user = roomService.getUserInRoom(roomId, aliceJoined.userId!);
+    user!.lastActivity = new Date(Date.now() - AWAY_AFTER_MS);
+
+    let changed = waitForSocketEvent<PresenceChangedEvent>(
+      bob,
+      'presence-changed'
+    );
+    alice.emit('presence-heartbeat', { idleMs: AWAY_AFTER_MS });
+    expect(await changed).toEqual({
+      userId: aliceJoined.userId,
+      presence: 'away',
+    });
+
+    changed = waitForSocketEvent<PresenceChangedEvent>(bob, 'presence-changed');
+    alice.emit('presence-heartbeat', { idleMs: 0 });
+    expect((await changed).presence).toBe('active');
+
+    changed = waitForSocketEvent<PresenceChangedEvent>(bob, 'presence-changed');
+    alice.disconnect();
+    expect(await changed).toEqual({
+      userId: aliceJoined.userId,
+      presence: 'offline',
+    });
+
+    bob.disconnect();
+  });
+
+  it('should change nicknames and re-attribute past messages', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    const aliceJoined = await waitForSocketEvent<JoinRoomResponse>(
+      alice,
+      'room-joined'
+    );
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+    const sent = waitForSocketEvent<ChatMessage>(bob, 'new-message');
+    alice.emit('send-message', { content: 'Hello' });
+    await sent;
+
+    alice.emit('change-nickname', { nickname: 42 });
+    expect(
+      (await waitForSocketEvent<SocketError>(alice, 'error')).message
+    ).toBe('Invalid change-nickname payload');
+
+    alice.emit('change-nickname', { nickname: '   ' });
+    expect((await waitForSocketEvent<SocketError>(alice, 'error')).code).toBe(
+      SocketErrorCode.VALIDATION
+    );
+
+    alice.emit('change-nickname', { nickname: 'BOB' });
+    expect((await waitForSocketEvent<SocketError>(alice, 'error')).code).toBe(
+      SocketErrorCode.NICKNAME_TAKEN
+    );
+
+    const renamed = waitForSocketEvent<UserRenamedEvent>(bob, 'user-renamed');
+    alice.emit('change-nickname', { nickname: 'Alicia' });
+    expect(await renamed).toEqual({
+      userId: aliceJoined.userId,
+      nickname: 'Alicia',
+    });
+
+    const room = roomService.getRoom(roomId);
+    expect(room?.users.get(aliceJoined.userId!)?.nickname).toBe('Alicia');
+    expect(room?.ownerNickname).toBe('Alicia');
+    expect(room?.messages[0]?.nickname).toBe('Alicia');
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('should run slash commands with their own checks', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    const aliceJoined = await waitForSocketEvent<JoinRoomResponse>(
+      alice,
+      'room-joined'
+    );
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+    alice.emit('run-command', { command: 'dance', args: '' });
+    expect(
+      (await waitForSocketEvent<SocketError>(alice, 'error')).message
+    ).toBe('Unknown command');
+
+    const action = waitForSocketEvent<ChatMessage>(bob, 'new-message');
+    alice.emit('run-command', { command: 'me', args: 'waves' });
+    expect(await action).toMatchObject({
+      nickname: 'Alice',
+      content: 'waves',
+      kind: 'action',
+    });
+
+    bob.emit('run-command', { command: 'nick', args: 'alice' });
+    expect((await waitForSocketEvent<SocketError>(bob, 'error')).code).toBe(
+      SocketErrorCode.NICKNAME_TAKEN
+    );
+
+    const renamed = waitForSocketEvent<UserRenamedEvent>(bob, 'user-renamed');
+    alice.emit('run-command', { command: 'NICK', args: 'Alicia' });
+    expect(await renamed).toEqual({
+      userId: aliceJoined.userId,
+      nickname: 'Alicia',
+    });
+    expect(roomService.getRoom(roomId)?.ownerNickname).toBe('Alicia');
+
+    bob.emit('run-command', { command: 'topic', args: 'Ship it' });
+    expect((await waitForSocketEvent<SocketError>(bob, 'error')).code).toBe(
+      SocketErrorCode.UNAUTHORIZED
+    );
+
+    const topic = waitForSocketEvent<AnnouncementChangedEvent>(
+      bob,
+      'announcement-changed'
+    );
+    alice.emit('run-command', { command: 'topic', args: 'Ship it' });
+    expect((await topic).announcement).toBe('Ship it');
+
+    const poll = waitForSocketEvent<ChatMessage>(bob, 'new-message');
+    bob.emit('run-command', {
+      command: 'poll',
+      args: 'Lunch? | Pizza | Sushi',
+    });
+    expect((await poll).poll?.options).toHaveLength(2);
+
+    bob.emit('run-command', { command: 'timer', args: 'soon' });
+    expect(
+      (await waitForSocketEvent<SocketError>(bob, 'error')).message
+    ).toMatch(/^Usage: \/timer/);
+
+    const started = waitForSocketEvent<ChatMessage>(alice, 'new-message');
+    bob.emit('run-command', { command: 'timer', args: '1s Tea' });
+    expect((await started).content).toBe('started a 1s timer: Tea');
+    const finished = await waitForSocketEvent<ChatMessage>(
+      alice,
+      'new-message',
+      3000
+    );
+    expect(finished).toMatchObject({
+      nickname: 'Bob',
+      content: '1s timer finished: Tea',
+      kind: 'notice',
+    });
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('should broadcast read receipts and restore them on rejoin', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(alice, 'room-joined');
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    const bobJoined = await waitForSocketEvent<JoinRoomResponse>(
+      bob,
+      'room-joined'
+    );
+    expect(bobJoined.readReceipts).toEqual([]);
+
+    const newMessage = waitForSocketEvent<ChatMessage>(bob, 'new-message');
+    alice.emit('send-message', { content: 'Did everyone see this?' });
+    const message = await newMessage;
+
+    bob.emit('mark-read', { messageId: 'missing' });
+    expect((await waitForSocketEvent<SocketError>(bob, 'error')).code).toBe(
+      SocketErrorCode.MESSAGE_NOT_FOUND
+    );
+
+    const receiptsPromise = waitForSocketEvent<ReadReceiptsEvent>(
+      alice,
+      'read-receipts'
+    );
+    bob.emit('mark-read', { messageId: message.id });
+    expect((await receiptsPromise).receipts).toEqual([
+      { userId: bobJoined.userId, messageId: message.id },
+    ]);
+
+    bob.disconnect();
+    const rejoining = createTestSocketClient(port);
+    rejoining.connect();
+    await waitForSocketConnect(rejoining);
+    rejoining.emit('join-room', {
+      roomId,
+      nickname: 'Bob',
+      sessionToken: bobJoined.sessionToken,
+    });
+    const rejoined = await waitForSocketEvent<JoinRoomResponse>(
+      rejoining,
+      'room-joined'
+    );
+    expect(rejoined.readReceipts).toEqual([
+      { userId: bobJoined.userId, messageId: message.id },
+    ]);
+
+    alice.disconnect();
+    rejoining.disconnect();
+  });
+
+  it('should send the latest page of history and load older messages on request', async () => {
+    const roomId = roomService.createRoom();
+    for (let i = 0; i < 70; i++) {
+      roomService.addMessage(roomId, {
+        id: `msg-${i}`,
+        userId: 'someone',
+        nickname: 'Someone',
+        content: `Message ${i}`,
+        timestamp: new Date(),
+      });
+    }
+
+    const client = createTestSocketClient(port);
+    client.connect();
+    await waitForSocketConnect(client);
+    client.emit('join-room', { roomId, nickname: 'Alice' });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      client,
+      'room-joined'
+    );
+
+    expect(joined.messages).toHaveLength(50);
+    expect(joined.messages[0]?.id).toBe('msg-20');
+    expect(joined.hasMoreMessages).toBe(true);
+
+    client.emit('load-older-messages', { before: 'msg-20' });
+    const older = await waitForSocketEvent<OlderMessagesEvent>(
+      client,
+      'older-messages'
+    );
+
+    expect(older.before).toBe('msg-20');
+    expect(older.messages.map(m => m.id)).toEqual(
+      Array.from({ length: 20 }, (_, i) => `msg-${i}`)
+    );
+    expect(older.hasMore).toBe(false);
+
+    client.emit('load-older-messages', { before: 42 });
+    const error = await waitForSocketEvent<SocketError>(client, 'error');
+    expect(error.code).toBe(SocketErrorCode.VALIDATION);
+
+    client.disconnect();
+  });
+
   it('should propagate typing status to other users', async () => {
     const roomId = roomService.createRoom();
 
@@ -170,4 +1084,911 @@ describe('SocketService (integration)', () => {
     c1.disconnect();
     c2.disconnect();
   });
+
+  it('should keep a disconnected user as offline until they rejoin', async () => {
+    const roomId = roomService.createRoom();
+
+    const alice = createTestSocketClient(port);
+    const bob = createTestSocketClient(port);
+    alice.connect();
+    bob.connect();
+    await Promise.all([waitForSocketConnect(alice), waitForSocketConnect(bob)]);
+    alice.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId, sessionToken } = await waitForSocketEvent<JoinRoomResponse>(
+      alice,
+      'room-joined'
+    );
+    bob.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+    const offlinePromise = waitForSocketEvent<UserStatusEvent>(
+      bob,
+      'user-status-changed'
+    );
+    alice.disconnect();
+    expect(await offlinePromise).toEqual({ userId, isOnline: false });
+    expect(roomService.getUserInRoom(roomId, userId!)?.isOnline).toBe(false);
+
+    // The offline user's nickname stays reserved
+    const impostor = createTestSocketClient(port);
+    impostor.connect();
+    await waitForSocketConnect(impostor);
+    impostor.emit('join-room', { roomId, nickname: 'alice' });
+    const error = await waitForSocketEvent<SocketError>(impostor, 'error');
+    expect(error.code).toBe(SocketErrorCode.NICKNAME_TAKEN);
+
+    const returning = createTestSocketClient(port);
+    returning.connect();
+    await waitForSocketConnect(returning);
+    const onlinePromise = waitForSocketEvent<UserStatusEvent>(
+      bob,
+      'user-status-changed'
+    );
+    returning.emit('join-room', { roomId, nickname: 'Alice', sessionToken });
+    const rejoined = await waitForSocketEvent<JoinRoomResponse>(
+      returning,
+      'room-joined'
+    );
+
+    expect(rejoined.userId).toBe(userId);
+    expect(rejoined.ownerId).toBe(userId);
+    expect(await onlinePromise).toEqual({ userId, isOnline: true });
+
+    impostor.disconnect();
+    returning.disconnect();
+    bob.disconnect();
+  });
+
+  it('should not restore an identity from a bare userId', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    owner.connect();
+    await waitForSocketConnect(owner);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId: ownerId } = await waitForSocketEvent<JoinRoomResponse>(
+      owner,
+      'room-joined'
+    );
+
+    const attacker = createTestSocketClient(port);
+    attacker.connect();
+    await waitForSocketConnect(attacker);
+    attacker.emit('join-room', {
+      roomId,
+      nickname: 'Mallory',
+      userId: ownerId,
+    });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      attacker,
+      'room-joined'
+    );
+
+    expect(joined.userId).not.toBe(ownerId);
+    expect(joined.ownerId).toBe(ownerId);
+
+    owner.disconnect();
+    attacker.disconnect();
+  });
+
+  it('should reject a session token from another room with INVALID_SESSION', async () => {
+    const firstRoomId = roomService.createRoom();
+    const secondRoomId = roomService.createRoom();
+
+    const client = createTestSocketClient(port);
+    client.connect();
+    await waitForSocketConnect(client);
+    client.emit('join-room', { roomId: firstRoomId, nickname: 'Alice' });
+    const { sessionToken } = await waitForSocketEvent<JoinRoomResponse>(
+      client,
+      'room-joined'
+    );
+    expect(typeof sessionToken).toBe('string');
+
+    client.emit('join-room', {
+      roomId: secondRoomId,
+      nickname: 'Alice',
+      sessionToken,
+    });
+    const error = await waitForSocketEvent<SocketError>(client, 'error');
+
+    expect(error.code).toBe(SocketErrorCode.INVALID_SESSION);
+
+    client.disconnect();
+  });
+
+  it('should not let the session of a removed user exceed the room capacity', async () => {
+    const capacity = backendConfig.ROOM_CAPACITY;
+    backendConfig.ROOM_CAPACITY = 1;
+
+    try {
+      const roomId = roomService.createRoom();
+
+      const alice = createTestSocketClient(port);
+      alice.connect();
+      await waitForSocketConnect(alice);
+      alice.emit('join-room', { roomId, nickname: 'Alice' });
+      const { userId, sessionToken } =
+        await waitForSocketEvent<JoinRoomResponse>(alice, 'room-joined');
+      alice.disconnect();
+      roomService.removeUserFromRoom(roomId, userId!);
+
+      const bob = createTestSocketClient(port);
+      bob.connect();
+      await waitForSocketConnect(bob);
+      bob.emit('join-room', { roomId, nickname: 'Bob' });
+      await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+      const returning = createTestSocketClient(port);
+      returning.connect();
+      await waitForSocketConnect(returning);
+      returning.emit('join-room', { roomId, nickname: 'Alice', sessionToken });
+      const error = await waitForSocketEvent<SocketError>(returning, 'error');
+
+      expect(error.code).toBe(SocketErrorCode.ROOM_FULL);
+      expect(roomService.getUsersInRoom(roomId)).toHaveLength(1);
+
+      bob.disconnect();
+      returning.disconnect();
+    } finally {
+      backendConfig.ROOM_CAPACITY = capacity;
+    }
+  });
+
+  it('should remove a disconnected user once the grace period expires', async () => {
+    const graceSeconds = backendConfig.DISCONNECT_GRACE_SECONDS;
+    backendConfig.DISCONNECT_GRACE_SECONDS = 0.05;
+
+    try {
+      const roomId = roomService.createRoom();
+
+      const alice = createTestSocketClient(port);
+      const bob = createTestSocketClient(port);
+      alice.connect();
+      bob.connect();
+      await Promise.all([
+        waitForSocketConnect(alice),
+        waitForSocketConnect(bob),
+      ]);
+      alice.emit('join-room', { roomId, nickname: 'Alice' });
+      const { userId } = await waitForSocketEvent<JoinRoomResponse>(
+        alice,
+        'room-joined'
+      );
+      bob.emit('join-room', { roomId, nickname: 'Bob' });
+      await waitForSocketEvent<JoinRoomResponse>(bob, 'room-joined');
+
+      const leftPromise = waitForSocketEvent<string>(bob, 'user-left');
+      alice.disconnect();
+
+      expect(await leftPromise).toBe(userId);
+      expect(roomService.isUserInRoom(roomId, userId!)).toBe(false);
+
+      bob.disconnect();
+    } finally {
+      backendConfig.DISCONNECT_GRACE_SECONDS = graceSeconds;
+    }
+  });
+
+  it('should remove offline users loaded from the store once the grace period expires', async () => {
+    const graceSeconds = backendConfig.DISCONNECT_GRACE_SECONDS;
+    backendConfig.DISCONNECT_GRACE_SECONDS = 0.05;
+    // Handlers attached after a restart, when the store has just loaded
+    const restarted = createTestSocketServer();
+
+    try {
+      const roomId = roomService.createRoom();
+      roomService.addUserToRoom(roomId, {
+        id: 'stored-user',
+        nickname: 'Alice',
+        socketId: 'old-socket',
+        joinedAt: new Date(),
+        isOnline: false,
+      });
+
+      setupSocketHandlers(restarted.io);
+      expect(roomService.isUserInRoom(roomId, 'stored-user')).toBe(true);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(roomService.isUserInRoom(roomId, 'stored-user')).toBe(false);
+    } finally {
+      backendConfig.DISCONNECT_GRACE_SECONDS = graceSeconds;
+      await new Promise<void>(resolve => restarted.io.close(() => resolve()));
+    }
+  });
+
+  it('should let the owner make a participant a read-only viewer', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    const { userId: memberId, users } =
+      await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined');
+    expect(users.find(u => u.id === memberId)?.role).toBe('participant');
+
+    const changedPromise = waitForSocketEvent<UserRoleChangedEvent>(
+      member,
+      'user-role-changed'
+    );
+    owner.emit('set-user-role', { userId: memberId, role: 'viewer' });
+    expect(await changedPromise).toEqual({ userId: memberId, role: 'viewer' });
+
+    member.emit('send-message', { content: 'Hello?' });
+    const messageError = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(messageError.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    const doc = new Y.Doc();
+    doc.getText('t').insert(0, 'nope');
+    member.emit('editor:document-update', {
+      update: Y.encodeStateAsUpdate(doc),
+    });
+    const editError = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(editError.code).toBe(SocketErrorCode.UNAUTHORIZED);
+    expect(roomService.getMessages(roomId)).toHaveLength(0);
+
+    // Nor can they show a caret or typing to others
+    const relayed: string[] = [];
+    for (const event of [
+      'editor:awareness-update',
+      'editor:activity',
+      'editor:cursor-update',
+      'editor:selection-update',
+    ]) {
+      owner.on(event, () => relayed.push(event));
+    }
+    member.emit('editor:awareness-update', { awareness: new Uint8Array([1]) });
+    member.emit('editor:activity', { kind: 'typing' });
+    member.emit('editor:cursor-update', { position: { from: 0, to: 0 } });
+    member.emit('editor:selection-update', { selection: { from: 0, to: 1 } });
+    // Handled in order, so anything relayed would arrive before this
+    const renamedPromise = waitForSocketEvent<UserRenamedEvent>(
+      owner,
+      'user-renamed'
+    );
+    member.emit('change-nickname', { nickname: 'Robert' });
+    await renamedPromise;
+    expect(relayed).toEqual([]);
+
+    owner.disconnect();
+    member.disconnect();
+  });
+
+  it('should only let the owner change roles', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId: ownerId } = await waitForSocketEvent<JoinRoomResponse>(
+      owner,
+      'room-joined'
+    );
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    const { userId: memberId } = await waitForSocketEvent<JoinRoomResponse>(
+      member,
+      'room-joined'
+    );
+
+    member.emit('set-user-role', { userId: ownerId, role: 'viewer' });
+    const error = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(error.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    owner.emit('set-user-role', { userId: memberId, role: 'owner' });
+    const invalid = await waitForSocketEvent<SocketError>(owner, 'error');
+    expect(invalid.code).toBe(SocketErrorCode.VALIDATION);
+    expect(roomService.getUserRole(roomId, ownerId!)).toBe('owner');
+
+    owner.disconnect();
+    member.disconnect();
+  });
+
+  it('should kick a user out of the room with a reason', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    const { userId: memberId } = await waitForSocketEvent<JoinRoomResponse>(
+      member,
+      'room-joined'
+    );
+
+    const kickedPromise = waitForSocketEvent<KickedEvent>(member, 'kicked');
+    const leftPromise = waitForSocketEvent<string>(owner, 'user-left');
+    owner.emit('kick-user', { userId: memberId, reason: 'Off topic' });
+
+    expect(await kickedPromise).toEqual({ reason: 'Off topic', banned: false });
+    expect(await leftPromise).toBe(memberId);
+    expect(roomService.isUserInRoom(roomId, memberId!)).toBe(false);
+
+    // The kicked connection no longer acts in the room
+    member.emit('send-message', { content: 'Still here?' });
+    const error = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(error.code).toBe(SocketErrorCode.NOT_IN_ROOM);
+
+    // A kick is not a ban
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    expect(
+      (await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined'))
+        .success
+    ).toBe(true);
+
+    owner.disconnect();
+    member.disconnect();
+  });
+
+  it('should refuse a banned user rejoining under a new nickname', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const intruder = createTestSocketClient(port);
+    owner.connect();
+    intruder.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(intruder),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    intruder.emit('join-room', { roomId, nickname: 'Troll' });
+    const { userId: intruderId } = await waitForSocketEvent<JoinRoomResponse>(
+      intruder,
+      'room-joined'
+    );
+
+    const kickedPromise = waitForSocketEvent<KickedEvent>(intruder, 'kicked');
+    const bansPromise = waitForSocketEvent<BansListEvent>(owner, 'bans');
+    owner.emit('ban-user', { userId: intruderId, reason: 'Spam' });
+
+    expect(await kickedPromise).toEqual({ reason: 'Spam', banned: true });
+    const { bans } = await bansPromise;
+    expect(bans).toHaveLength(1);
+    expect(bans[0]).toMatchObject({
+      userId: intruderId,
+      nickname: 'Troll',
+      reason: 'Spam',
+    });
+    expect(bans[0]).not.toHaveProperty('clientId');
+
+    intruder.emit('join-room', { roomId, nickname: 'TotallyNew' });
+    const refused = await waitForSocketEvent<SocketError>(intruder, 'error');
+    expect(refused.code).toBe(SocketErrorCode.BANNED);
+
+    // Other clients are unaffected
+    const guest = createTestSocketClient(port);
+    guest.connect();
+    await waitForSocketConnect(guest);
+    guest.emit('join-room', { roomId, nickname: 'Carol' });
+    expect(
+      (await waitForSocketEvent<JoinRoomResponse>(guest, 'room-joined')).success
+    ).toBe(true);
+
+    const updatedPromise = waitForSocketEvent<BansListEvent>(owner, 'bans');
+    owner.emit('unban-user', { userId: intruderId });
+    expect((await updatedPromise).bans).toEqual([]);
+
+    intruder.emit('join-room', { roomId, nickname: 'TotallyNew' });
+    expect(
+      (await waitForSocketEvent<JoinRoomResponse>(intruder, 'room-joined'))
+        .success
+    ).toBe(true);
+
+    owner.disconnect();
+    intruder.disconnect();
+    guest.disconnect();
+  });
+
+  it('should issue a client token to browsers connecting without one', async () => {
+    const client = createTestSocketClient(port);
+    const issuedPromise = waitForSocketEvent<ClientTokenEvent>(
+      client,
+      'client-token'
+    );
+    client.connect();
+
+    const { clientToken } = await issuedPromise;
+    expect(verifyClientToken(clientToken)).toBeTruthy();
+
+    client.disconnect();
+  });
+
+  it('should ban the browser rather than everyone at its address', async () => {
+    const roomId = roomService.createRoom();
+    const { clientToken: intruderToken } = createClientToken();
+    const { clientToken: neighbourToken } = createClientToken();
+
+    const owner = createTestSocketClient(port);
+    const intruder = createTestSocketClient(port, {
+      auth: { clientToken: intruderToken },
+    });
+    owner.connect();
+    intruder.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(intruder),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    intruder.emit('join-room', { roomId, nickname: 'Troll' });
+    const { userId: intruderId } = await waitForSocketEvent<JoinRoomResponse>(
+      intruder,
+      'room-joined'
+    );
+
+    const kickedPromise = waitForSocketEvent<KickedEvent>(intruder, 'kicked');
+    owner.emit('ban-user', { userId: intruderId });
+    await kickedPromise;
+    intruder.disconnect();
+
+    // Both clients connect from the same address with the same user agent
+    const returning = createTestSocketClient(port, {
+      auth: { clientToken: intruderToken },
+    });
+    const neighbour = createTestSocketClient(port, {
+      auth: { clientToken: neighbourToken },
+    });
+    returning.connect();
+    neighbour.connect();
+    await Promise.all([
+      waitForSocketConnect(returning),
+      waitForSocketConnect(neighbour),
+    ]);
+
+    returning.emit('join-room', { roomId, nickname: 'TotallyNew' });
+    const refused = await waitForSocketEvent<SocketError>(returning, 'error');
+    expect(refused.code).toBe(SocketErrorCode.BANNED);
+
+    neighbour.emit('join-room', { roomId, nickname: 'Carol' });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      neighbour,
+      'room-joined'
+    );
+    expect(joined.success).toBe(true);
+
+    owner.disconnect();
+    returning.disconnect();
+    neighbour.disconnect();
+  });
+
+  it('should keep moderators from removing the owner or non-moderators from removing anyone', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const mod = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    mod.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(mod),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId: ownerId } = await waitForSocketEvent<JoinRoomResponse>(
+      owner,
+      'room-joined'
+    );
+    mod.emit('join-room', { roomId, nickname: 'Bob' });
+    const { userId: modId } = await waitForSocketEvent<JoinRoomResponse>(
+      mod,
+      'room-joined'
+    );
+    member.emit('join-room', { roomId, nickname: 'Carol' });
+    await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined');
+
+    const promoted = waitForSocketEvent<UserRoleChangedEvent>(
+      mod,
+      'user-role-changed'
+    );
+    owner.emit('set-user-role', { userId: modId, role: 'moderator' });
+    await promoted;
+
+    mod.emit('kick-user', { userId: ownerId });
+    const modError = await waitForSocketEvent<SocketError>(mod, 'error');
+    expect(modError.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    member.emit('ban-user', { userId: modId });
+    const memberError = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(memberError.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    member.emit('list-bans');
+    const listError = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(listError.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    expect(roomService.getUsersInRoom(roomId)).toHaveLength(3);
+    expect(roomService.getBans(roomId)).toEqual([]);
+
+    owner.disconnect();
+    mod.disconnect();
+    member.disconnect();
+  });
+
+  it('should lock out passcode guessing across reconnects', async () => {
+    const roomId = roomService.createRoom({ passcode: 'let-me-in' });
+
+    // A fresh connection for every guess, as a script would do to get
+    // around the per-socket join limit
+    const attempt = async (passcode: string): Promise<SocketError> => {
+      const client = createTestSocketClient(port);
+      client.connect();
+      await waitForSocketConnect(client);
+      client.emit('join-room', { roomId, nickname: 'Mallory', passcode });
+      const error = await waitForSocketEvent<SocketError>(client, 'error');
+      client.disconnect();
+      return error;
+    };
+
+    for (let i = 0; i < 5; i++) {
+      expect((await attempt(`guess-${i}`)).code).toBe(
+        SocketErrorCode.INVALID_PASSCODE
+      );
+    }
+
+    const lockedOut = await attempt('let-me-in');
+    expect(lockedOut.code).toBe(SocketErrorCode.RATE_LIMITED);
+    expect(lockedOut.message).toBe(
+      'Too many incorrect passcodes. Please wait before trying again.'
+    );
+  });
+
+  it('should require the passcode from new users', async () => {
+    const roomId = roomService.createRoom({ passcode: 'let-me-in' });
+
+    const client = createTestSocketClient(port);
+    client.connect();
+    await waitForSocketConnect(client);
+
+    client.emit('join-room', { roomId, nickname: 'Alice' });
+    const missing = await waitForSocketEvent<SocketError>(client, 'error');
+    expect(missing.code).toBe(SocketErrorCode.INVALID_PASSCODE);
+    expect(missing.message).toBe('This room requires a passcode');
+
+    client.emit('join-room', { roomId, nickname: 'Alice', passcode: 'nope' });
+    const wrong = await waitForSocketEvent<SocketError>(client, 'error');
+    expect(wrong.code).toBe(SocketErrorCode.INVALID_PASSCODE);
+    expect(wrong.message).toBe('Incorrect passcode');
+
+    client.emit('join-room', {
+      roomId,
+      nickname: 'Alice',
+      passcode: 'let-me-in',
+    });
+    const joined = await waitForSocketEvent<JoinRoomResponse>(
+      client,
+      'room-joined'
+    );
+    expect(joined.success).toBe(true);
+    expect(joined.requiresPasscode).toBe(true);
+
+    // Members restoring their session don't need it again
+    client.emit('join-room', {
+      roomId,
+      nickname: 'Alice',
+      sessionToken: joined.sessionToken,
+    });
+    expect(
+      (await waitForSocketEvent<JoinRoomResponse>(client, 'room-joined'))
+        .success
+    ).toBe(true);
+
+    client.disconnect();
+  });
+
+  it('should let the owner lock the room against new users', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    const latecomer = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    latecomer.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+      waitForSocketConnect(latecomer),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(member, 'room-joined');
+
+    member.emit('set-room-locked', { isLocked: true });
+    const denied = await waitForSocketEvent<SocketError>(member, 'error');
+    expect(denied.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    const lockedPromise = waitForSocketEvent<RoomLockChangedEvent>(
+      member,
+      'room-lock-changed'
+    );
+    owner.emit('set-room-locked', { isLocked: true });
+    expect(await lockedPromise).toEqual({ isLocked: true });
+
+    latecomer.emit('join-room', { roomId, nickname: 'Carol' });
+    const refused = await waitForSocketEvent<SocketError>(latecomer, 'error');
+    expect(refused.code).toBe(SocketErrorCode.ROOM_LOCKED);
+
+    const unlockedPromise = waitForSocketEvent<RoomLockChangedEvent>(
+      owner,
+      'room-lock-changed'
+    );
+    owner.emit('set-room-locked', { isLocked: false });
+    await unlockedPromise;
+    latecomer.emit('join-room', { roomId, nickname: 'Carol' });
+    expect(
+      (await waitForSocketEvent<JoinRoomResponse>(latecomer, 'room-joined'))
+        .success
+    ).toBe(true);
+
+    owner.disconnect();
+    member.disconnect();
+    latecomer.disconnect();
+  });
+
+  it('should let the owner transfer ownership', async () => {
+    const roomId = roomService.createRoom();
+
+    const owner = createTestSocketClient(port);
+    const member = createTestSocketClient(port);
+    owner.connect();
+    member.connect();
+    await Promise.all([
+      waitForSocketConnect(owner),
+      waitForSocketConnect(member),
+    ]);
+    owner.emit('join-room', { roomId, nickname: 'Alice' });
+    const { userId: ownerId } = await waitForSocketEvent<JoinRoomResponse>(
+      owner,
+      'room-joined'
+    );
+    member.emit('join-room', { roomId, nickname: 'Bob' });
+    const { userId: memberId } = await waitForSocketEvent<JoinRoomResponse>(
+      member,
+      'room-joined'
+    );
+
+    const demotedPromise = waitForSocketEvent<UserRoleChangedEvent>(
+      member,
+      'user-role-changed'
+    );
+    const ownerChangedPromise = waitForSocketEvent<RoomOwnerChangedEvent>(
+      member,
+      'room-owner-changed'
+    );
+    owner.emit('transfer-ownership', { userId: memberId });
+
+    expect(await demotedPromise).toEqual({
+      userId: ownerId,
+      role: 'moderator',
+    });
+    expect(await ownerChangedPromise).toEqual({
+      ownerId: memberId,
+      ownerNickname: 'Bob',
+    });
+
+    // The previous owner can no longer act as owner
+    owner.emit('transfer-ownership', { userId: ownerId });
+    const error = await waitForSocketEvent<SocketError>(owner, 'error');
+    expect(error.code).toBe(SocketErrorCode.UNAUTHORIZED);
+
+    owner.disconnect();
+    member.disconnect();
+  });
+
+  it('should hand the room to the longest-present online member when the owner leaves', async () => {
+    const graceSeconds = backendConfig.DISCONNECT_GRACE_SECONDS;
+    backendConfig.DISCONNECT_GRACE_SECONDS = 0.05;
+    try {
+      const roomId = roomService.createRoom();
+
+      const owner = createTestSocketClient(port);
+      const first = createTestSocketClient(port);
+      const second = createTestSocketClient(port);
+      owner.connect();
+      first.connect();
+      second.connect();
+      await Promise.all([
+        waitForSocketConnect(owner),
+        waitForSocketConnect(first),
+        waitForSocketConnect(second),
+      ]);
+      owner.emit('join-room', { roomId, nickname: 'Alice' });
+      await waitForSocketEvent<JoinRoomResponse>(owner, 'room-joined');
+      first.emit('join-room', { roomId, nickname: 'Bob' });
+      const { userId: firstId } = await waitForSocketEvent<JoinRoomResponse>(
+        first,
+        'room-joined'
+      );
+      second.emit('join-room', { roomId, nickname: 'Carol' });
+      await waitForSocketEvent<JoinRoomResponse>(second, 'room-joined');
+
+      const ownerChangedPromise = waitForSocketEvent<RoomOwnerChangedEvent>(
+        second,
+        'room-owner-changed'
+      );
+      owner.disconnect();
+
+      expect(await ownerChangedPromise).toEqual({
+        ownerId: firstId,
+        ownerNickname: 'Bob',
+      });
+      expect(roomService.getUserRole(roomId, firstId!)).toBe('owner');
+
+      first.disconnect();
+      second.disconnect();
+    } finally {
+      backendConfig.DISCONNECT_GRACE_SECONDS = graceSeconds;
+    }
+  });
+
+  it('should sync the server document to a user joining after others left', async () => {
+    const roomId = roomService.createRoom();
+
+    const author = createTestSocketClient(port);
+    author.connect();
+    await waitForSocketConnect(author);
+    author.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(author, 'room-joined');
+
+    const authorDoc = new Y.Doc();
+    authorDoc.getText('t').insert(0, 'agenda');
+    author.emit('editor:document-update', {
+      update: Y.encodeStateAsUpdate(authorDoc),
+    });
+    // Give the server a moment to apply the update, then leave
+    await new Promise(resolve => setTimeout(resolve, 50));
+    author.disconnect();
+
+    const lateJoiner = createTestSocketClient(port);
+    lateJoiner.connect();
+    await waitForSocketConnect(lateJoiner);
+    lateJoiner.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(lateJoiner, 'room-joined');
+
+    const lateDoc = new Y.Doc();
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeSyncStep1(encoder, lateDoc);
+    const replyPromise = waitForSocketEvent<EditorSyncEvent>(
+      lateJoiner,
+      'editor:sync'
+    );
+    lateJoiner.emit('editor:sync', { message: encoding.toUint8Array(encoder) });
+
+    const reply = await replyPromise;
+    syncProtocol.readSyncMessage(
+      decoding.createDecoder(new Uint8Array(reply.message)),
+      encoding.createEncoder(),
+      lateDoc,
+      'server'
+    );
+    expect(lateDoc.getText('t').toString()).toBe('agenda');
+
+    lateJoiner.disconnect();
+  });
+
+  it('should reject malformed document updates with VALIDATION', async () => {
+    const roomId = roomService.createRoom();
+
+    const client = createTestSocketClient(port);
+    client.connect();
+    await waitForSocketConnect(client);
+    client.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(client, 'room-joined');
+
+    client.emit('editor:document-update', { update: 'not-binary' });
+    const error = await waitForSocketEvent<SocketError>(client, 'error');
+
+    expect(error.code).toBe(SocketErrorCode.VALIDATION);
+
+    client.disconnect();
+  });
+
+  it('should save a document version and restore it for the whole room', async () => {
+    const roomId = roomService.createRoom();
+
+    const c1 = createTestSocketClient(port);
+    const c2 = createTestSocketClient(port);
+    c1.connect();
+    c2.connect();
+    await Promise.all([waitForSocketConnect(c1), waitForSocketConnect(c2)]);
+    c1.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(c1, 'room-joined');
+    c2.emit('join-room', { roomId, nickname: 'Bob' });
+    await waitForSocketEvent<JoinRoomResponse>(c2, 'room-joined');
+
+    const doc = new Y.Doc();
+    doc.getText('t').insert(0, 'v1');
+    c1.emit('editor:document-update', { update: Y.encodeStateAsUpdate(doc) });
+    await waitForSocketEvent<DocumentUpdateEvent>(c2, 'editor:document-update');
+
+    const savedPromise = waitForSocketEvent<DocumentVersion>(
+      c2,
+      'editor:document-save'
+    );
+    c1.emit('editor:document-save', { title: 'Notes' });
+    const saved = await savedPromise;
+    expect(saved).toMatchObject({
+      version: 1,
+      title: 'Notes',
+      modifiedBy: expect.any(String),
+      modifiedByNickname: 'Alice',
+    });
+
+    const before = Y.encodeStateVector(doc);
+    doc.getText('t').insert(2, ' draft');
+    c1.emit('editor:document-update', {
+      update: Y.encodeStateAsUpdate(doc, before),
+    });
+    await waitForSocketEvent<DocumentUpdateEvent>(c2, 'editor:document-update');
+
+    const versionsPromise = waitForSocketEvent<{ versions: DocumentVersion[] }>(
+      c1,
+      'editor:versions'
+    );
+    c1.emit('editor:list-versions');
+    const { versions } = await versionsPromise;
+    expect(versions).toHaveLength(1);
+
+    const updatePromise = waitForSocketEvent<DocumentUpdateEvent>(
+      c1,
+      'editor:document-update'
+    );
+    const restoredPromise = waitForSocketEvent<DocumentVersion>(
+      c2,
+      'editor:version-restored'
+    );
+    c2.emit('editor:restore-version', { version: 1 });
+
+    const { update } = await updatePromise;
+    Y.applyUpdate(doc, new Uint8Array(update));
+    expect(doc.getText('t').toString()).toBe('v1');
+    expect(await restoredPromise).toMatchObject({
+      restoredVersion: 1,
+      modifiedByNickname: 'Bob',
+    });
+
+    c1.disconnect();
+    c2.disconnect();
+  });
+
+  it('should reject restoring an unknown document version', async () => {
+    const roomId = roomService.createRoom();
+
+    const client = createTestSocketClient(port);
+    client.connect();
+    await waitForSocketConnect(client);
+    client.emit('join-room', { roomId, nickname: 'Alice' });
+    await waitForSocketEvent<JoinRoomResponse>(client, 'room-joined');
+
+    client.emit('editor:restore-version', { version: 99 });
+    const error = await waitForSocketEvent<SocketError>(client, 'error');
+
+    expect(error.code).toBe(SocketErrorCode.VALIDATION);
+
+    client.disconnect();
+  });
 });
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment } from '../types';
+import { backendConfig } from '../config/environment';
+import { roomService } from './roomService';
+import logger from '../utils/logger';
+
+/**
+ * Stores chat attachments on local disk, one directory per room under
+ * ATTACHMENT_STORE_PATH. Metadata lives on the room (see
+ * RoomService.addAttachment) so it is persisted with the rest of the room;
+ * file names on disk are the server-generated attachment IDs only.
+ *
+ * Callers validate size and type against BackendConfig before saving.
+ */
+export class AttachmentService {
+  private roomDir(roomId: string): string {
+    return path.join(backendConfig.ATTACHMENT_STORE_PATH, roomId);
+  }
+
+  save(
+    roomId: string,
+    file: { name: string; mimeType: string; data: Buffer },
+    uploadedBy: string
+  ): Attachment | undefined {
+    if (!roomService.roomExists(roomId)) {
+      return undefined;
+    }
+
+    const attachment: Attachment = {
+      id: uuidv4(),
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.data.length,
+      uploadedBy,
+      uploadedAt: new Date(),
+    };
+
+    fs.mkdirSync(this.roomDir(roomId), { recursive: true });
+    fs.writeFileSync(this.getFilePath(roomId, attachment.id), file.data);
+    roomService.addAttachment(roomId, attachment);
+    logger.info('Attachment stored', {
+      roomId,
+      attachmentId: attachment.id,
+      size: attachment.size,
+    });
+    return attachment;
+  }
+
+  getFilePath(roomId: string, attachmentId: string): string {
+    return path.join(this.roomDir(roomId), attachmentId);
+  }
+
+  // Remove files, e.g. those of a deleted message
+  deleteAttachments(roomId: string, attachmentIds: string[]): void {
+    for (const attachmentId of attachmentIds) {
+      if (roomService.removeAttachment(roomId, attachmentId)) {
+        fs.rmSync(this.getFilePath(roomId, attachmentId), { force: true });
+      }
+    }
+  }
+
+  // Remove uploads never sent in a message (to be called periodically)
+  deleteUnsentAttachments(expiryHours: number): number {
+    const before = new Date(Date.now() - expiryHours * 60 * 60 * 1000);
+    const unsent = roomService.getUnsentAttachments(before);
+    for (const { roomId, attachmentId } of unsent) {
+      this.deleteAttachments(roomId, [attachmentId]);
+    }
+    return unsent.length;
+  }
+
+  deleteRoomAttachments(roomId: string): void {
+    try {
+      fs.rmSync(this.roomDir(roomId), { recursive: true, force: true });
+    } catch (error) {
+      logger.error('Failed to delete room attachments', {
+        roomId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export const attachmentService = new AttachmentService();
+
+// Delete the files once their room has been cleaned up
+roomService.onRoomDeleted(roomId =>
+  attachmentService.deleteRoomAttachments(roomId)
+);
+
+// Messages trimmed from the history can no longer be deleted, so their files
+// go with them
+roomService.onAttachmentsDropped((roomId, attachmentIds) =>
+  attachmentService.deleteAttachments(roomId, attachmentIds)
+);
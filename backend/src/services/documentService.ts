@@ -0,0 +1,388 @@
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { DocumentSnapshot, DocumentVersion, EditorDocument } from '../types';
+import { roomService } from './roomService';
+import logger from '../utils/logger';
+
+// Server-side view of a room's document with the Y.js doc materialized
+export interface LiveDocument extends EditorDocument {
+  yDoc: Y.Doc;
+}
+
+export interface SyncResult {
+  // Sync protocol messages to send back to the requesting client
+  replies: Uint8Array[];
+  // Update that was applied to the document and should reach the rest of the room
+  update?: Uint8Array;
+}
+
+export interface RestoreResult {
+  // Update that turns the current document back into the restored version
+  update: Uint8Array;
+  // Version saved for the restored state
+  version: DocumentVersion;
+}
+
+const MAX_TITLE_LENGTH = 100;
+
+// Each save encodes the whole document, so edits are written to the room at
+// most this often instead of on every keystroke
+const PERSIST_DELAY_MS = 2000;
+
+// Origin used to find the edits to revert while restoring a version
+const RESTORE_ORIGIN = 'restore';
+
+function toVersion(snapshot: DocumentSnapshot): DocumentVersion {
+  return {
+    version: snapshot.version,
+    title: snapshot.title,
+    modifiedBy: snapshot.modifiedBy,
+    modifiedByNickname: snapshot.modifiedByNickname,
+    timestamp: snapshot.timestamp,
+  };
+}
+
+/**
+ * Holds the authoritative Y.js document for each room.
+ *
+ * Every incoming update is applied here before being relayed, so clients
+ * joining an otherwise empty room still receive the full document through
+ * the y-protocols sync handshake.
+ */
+export class DocumentService {
+  private readonly documents = new Map<string, LiveDocument>();
+  // Pending debounced saves, keyed by room ID
+  private readonly persistTimers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Get (or lazily load) the live document for a room
+   */
+  getDocument(roomId: string): LiveDocument | undefined {
+    const existing = this.documents.get(roomId);
+    if (existing) {
+      return existing;
+    }
+
+    const room = roomService.getRoom(roomId);
+    if (!room) {
+      return undefined;
+    }
+
+    const yDoc = new Y.Doc();
+    const stored = room.document;
+    if (stored) {
+      Y.applyUpdate(yDoc, stored.state);
+    }
+
+    const document: LiveDocument = {
+      id: stored?.id ?? `doc-${roomId}`,
+      title: stored?.title ?? 'Untitled document',
+      content: null, // ProseMirror JSON is derived on the clients
+      yDoc,
+      lastModified: stored?.lastModified ?? room.createdAt,
+      modifiedBy: stored?.modifiedBy ?? '',
+      version: stored?.version ?? 0,
+      autoSaveEnabled: stored?.autoSaveEnabled ?? true,
+    };
+    this.documents.set(roomId, document);
+    return document;
+  }
+
+  /**
+   * Apply an incremental update from a client.
+   * Returns false if the room does not exist; throws on malformed updates.
+   */
+  applyUpdate(roomId: string, update: Uint8Array, userId: string): boolean {
+    const document = this.getDocument(roomId);
+    if (!document) {
+      return false;
+    }
+
+    if (this.applyAndTrack(document.yDoc, update)) {
+      this.markModified(roomId, document, userId);
+    }
+    return true;
+  }
+
+  /**
+   * Handle a y-protocols sync message from a client.
+   *
+   * A client's step 1 (its state vector) is answered with step 2 (the diff it
+   * is missing) followed by the server's own step 1, so the client sends back
+   * anything the server lacks (e.g. edits made while offline).
+   * With readOnly, the client is still brought up to date but its updates
+   * are ignored. Returns null if the room does not exist; throws on
+   * malformed messages.
+   */
+  handleSyncMessage(
+    roomId: string,
+    message: Uint8Array,
+    userId: string,
+    readOnly = false
+  ): SyncResult | null {
+    const document = this.getDocument(roomId);
+    if (!document) {
+      return null;
+    }
+
+    const decoder = decoding.createDecoder(message);
+    const messageType = decoding.readVarUint(decoder);
+
+    switch (messageType) {
+      case syncProtocol.messageYjsSyncStep1: {
+        const encoder = encoding.createEncoder();
+        syncProtocol.readSyncStep1(decoder, encoder, document.yDoc);
+        return {
+          replies: [
+            encoding.toUint8Array(encoder),
+            this.encodeSyncStep1(document.yDoc),
+          ],
+        };
+      }
+      case syncProtocol.messageYjsSyncStep2:
+      case syncProtocol.messageYjsUpdate: {
+        const update = decoding.readVarUint8Array(decoder);
+        if (readOnly || !this.applyAndTrack(document.yDoc, update)) {
+          return { replies: [] };
+        }
+        this.markModified(roomId, document, userId);
+        return { replies: [], update };
+      }
+      default:
+        throw new Error(`Unknown sync message type: ${messageType}`);
+    }
+  }
+
+  /**
+   * Store the current document as a new version in the room's history.
+   * Saving an unchanged document returns the latest version instead of
+   * adding a duplicate. Returns null if the room does not exist.
+   */
+  saveSnapshot(
+    roomId: string,
+    userId: string,
+    title?: string
+  ): DocumentVersion | null {
+    const document = this.getDocument(roomId);
+    if (!document) {
+      return null;
+    }
+
+    const nextTitle = title?.trim().slice(0, MAX_TITLE_LENGTH);
+    if (nextTitle && nextTitle !== document.title) {
+      document.title = nextTitle;
+      this.persist(roomId, document);
+    } else if (this.persistTimers.has(roomId)) {
+      this.persist(roomId, document);
+    }
+
+    const snapshots = roomService.getDocumentSnapshots(roomId);
+    const latest = snapshots[snapshots.length - 1];
+    if (
+      latest &&
+      latest.version === document.version &&
+      latest.title === document.title
+    ) {
+      return toVersion(latest);
+    }
+
+    const snapshot: DocumentSnapshot = {
+      version: document.version,
+      title: document.title,
+      modifiedBy: userId,
+      modifiedByNickname:
+        roomService.getUserInRoom(roomId, userId)?.nickname ?? '',
+      timestamp: new Date(),
+      state: Y.encodeStateAsUpdate(document.yDoc),
+    };
+    roomService.addDocumentSnapshot(roomId, snapshot);
+
+    logger.info('Document version saved', {
+      roomId,
+      userId,
+      version: snapshot.version,
+    });
+    return toVersion(snapshot);
+  }
+
+  listVersions(roomId: string): DocumentVersion[] {
+    return roomService.getDocumentSnapshots(roomId).map(toVersion);
+  }
+
+  getSnapshot(roomId: string, version: number): DocumentSnapshot | undefined {
+    return roomService
+      .getDocumentSnapshots(roomId)
+      .find(snapshot => snapshot.version === version);
+  }
+
+  /**
+   * Bring the live document back to a saved version.
+   *
+   * Restoring is an ordinary edit on top of the current state (it undoes
+   * everything since the snapshot), so connected clients converge by applying
+   * the returned update and nothing after the snapshot is lost from history.
+   * Returns null if the room or version does not exist.
+   */
+  restoreSnapshot(
+    roomId: string,
+    version: number,
+    userId: string
+  ): RestoreResult | null {
+    const document = this.getDocument(roomId);
+    const snapshot = this.getSnapshot(roomId, version);
+    if (!document || !snapshot) {
+      return null;
+    }
+
+    // Replay everything since the snapshot onto a copy of it, then undo
+    // those changes; the resulting diff is the revert to apply
+    const restored = new Y.Doc({ gc: false });
+    try {
+      Y.applyUpdate(restored, snapshot.state);
+      const undoManager = new Y.UndoManager(restored, {
+        trackedOrigins: new Set([RESTORE_ORIGIN]),
+      });
+      Y.applyUpdate(
+        restored,
+        Y.encodeStateAsUpdate(document.yDoc, Y.encodeStateVector(restored)),
+        RESTORE_ORIGIN
+      );
+      undoManager.undo();
+      undoManager.destroy();
+
+      const update = Y.encodeStateAsUpdate(
+        restored,
+        Y.encodeStateVector(document.yDoc)
+      );
+      if (this.applyAndTrack(document.yDoc, update)) {
+        this.markModified(roomId, document, userId);
+      }
+
+      const saved = this.saveSnapshot(roomId, userId, snapshot.title);
+      if (!saved) {
+        return null;
+      }
+
+      logger.info('Document version restored', {
+        roomId,
+        userId,
+        restoredVersion: version,
+        version: saved.version,
+      });
+      return { update, version: saved };
+    } finally {
+      restored.destroy();
+    }
+  }
+
+  /**
+   * Write out edits still waiting for their debounced save (e.g. on shutdown)
+   */
+  flush(): void {
+    for (const roomId of Array.from(this.persistTimers.keys())) {
+      const document = this.documents.get(roomId);
+      if (document) {
+        this.persist(roomId, document);
+      }
+    }
+  }
+
+  /**
+   * Drop the in-memory document for a room, saving any pending edits first
+   */
+  releaseDocument(roomId: string): void {
+    const document = this.documents.get(roomId);
+    if (document) {
+      if (this.persistTimers.has(roomId)) {
+        this.persist(roomId, document);
+      }
+      document.yDoc.destroy();
+      this.documents.delete(roomId);
+    }
+  }
+
+  // Test-only utility to reset live documents between tests
+  clearAllDocumentsForTest(): void {
+    if (process.env.NODE_ENV === 'test') {
+      for (const roomId of Array.from(this.documents.keys())) {
+        this.releaseDocument(roomId);
+      }
+    }
+  }
+
+  private encodeSyncStep1(yDoc: Y.Doc): Uint8Array {
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeSyncStep1(encoder, yDoc);
+    return encoding.toUint8Array(encoder);
+  }
+
+  // Returns whether the update actually changed the document
+  private applyAndTrack(yDoc: Y.Doc, update: Uint8Array): boolean {
+    let changed = false;
+    const onUpdate = () => {
+      changed = true;
+    };
+    yDoc.on('update', onUpdate);
+    try {
+      Y.applyUpdate(yDoc, update);
+    } finally {
+      yDoc.off('update', onUpdate);
+    }
+    return changed;
+  }
+
+  private markModified(
+    roomId: string,
+    document: LiveDocument,
+    userId: string
+  ): void {
+    document.lastModified = new Date();
+    document.modifiedBy = userId;
+    document.version++;
+    this.schedulePersist(roomId, document);
+
+    logger.debug('Document updated', {
+      roomId,
+      userId,
+      version: document.version,
+    });
+  }
+
+  private schedulePersist(roomId: string, document: LiveDocument): void {
+    if (this.persistTimers.has(roomId)) {
+      return;
+    }
+    const timer = setTimeout(
+      () => this.persist(roomId, document),
+      PERSIST_DELAY_MS
+    );
+    // Never keep the process alive just to save a document
+    timer.unref();
+    this.persistTimers.set(roomId, timer);
+  }
+
+  private persist(roomId: string, document: LiveDocument): void {
+    const timer = this.persistTimers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.persistTimers.delete(roomId);
+    }
+
+    roomService.saveDocument(roomId, {
+      id: document.id,
+      title: document.title,
+      lastModified: document.lastModified,
+      modifiedBy: document.modifiedBy,
+      version: document.version,
+      autoSaveEnabled: document.autoSaveEnabled,
+      state: Y.encodeStateAsUpdate(document.yDoc),
+    });
+  }
+}
+
+export const documentService = new DocumentService();
+
+// Free live documents once their room has been cleaned up
+roomService.onRoomDeleted(roomId => documentService.releaseDocument(roomId));
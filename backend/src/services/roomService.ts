@@ -1,37 +1,177 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Room, User, ChatMessage } from '../types';
+import {
+  Room,
+  User,
+  ChatMessage,
+  StoredDocument,
+  DocumentSnapshot,
+  UserRole,
+  AssignableRole,
+  RoomBan,
+  BanInfo,
+  MessageReaction,
+  MessageMention,
+  Attachment,
+  MessageSearchResult,
+  ReadReceipt,
+  Poll,
+  PresenceStatus,
+} from '../types';
 import { backendConfig } from '../config/environment';
 import logger from '../utils/logger';
+import { RoomStore, createRoomStore } from './roomStore';
+import { RoomAction, roleCan } from '../utils/permissions';
+import { hashPasscode, verifyPasscode } from '../utils/passcodes';
+import { applyVote, isPollOpen, toClientPoll } from '../utils/polls';
+import { createIdenticon, pickUserColor } from '../utils/userAppearance';
+import { derivePresence } from '../utils/presence';
+import {
+  MessageSearchIndex,
+  buildSnippet,
+  getQueryTerms,
+} from '../utils/messageSearch';
 
-class RoomService {
-  private readonly rooms = new Map<string, Room>();
+type RoomDeletedListener = (roomId: string) => void;
+type AttachmentsDroppedListener = (
+  roomId: string,
+  attachmentIds: string[]
+) => void;
 
-  createRoom(): string {
+// Oldest document versions are dropped beyond this many per room
+const MAX_DOCUMENT_SNAPSHOTS = 50;
+
+// Chat history is sent to clients in pages of at most this many messages
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Owners and moderators can pin at most this many messages per room
+export const MAX_PINNED_MESSAGES = 20;
+
+// Chat search returns at most this many (most recent) matches
+export const SEARCH_RESULT_LIMIT = 50;
+
+export interface MessagePage {
+  messages: ChatMessage[]; // Oldest first
+  hasMore: boolean; // Whether older messages remain before this page
+}
+
+export class RoomService {
+  private readonly roomDeletedListeners: RoomDeletedListener[] = [];
+  private readonly attachmentsDroppedListeners: AttachmentsDroppedListener[] =
+    [];
+  // Chat search indexes by room ID, built on first use from the stored history
+  private readonly searchIndexes = new Map<string, MessageSearchIndex>();
+
+  constructor(private readonly store: RoomStore) {}
+
+  /**
+   * Register a callback for rooms removed by cleanup, so services holding
+   * per-room resources (documents, files) can release them
+   */
+  onRoomDeleted(listener: RoomDeletedListener): void {
+    this.roomDeletedListeners.push(listener);
+  }
+
+  /**
+   * Register a callback for attachments of messages dropped from the history,
+   * so their files can be deleted like those of a deleted message
+   */
+  onAttachmentsDropped(listener: AttachmentsDroppedListener): void {
+    this.attachmentsDroppedListeners.push(listener);
+  }
+
+  /**
+   * Create a room, optionally with a display name, slug and passcode.
+   * Callers validate all three and check isSlugAvailable first.
+   */
+  createRoom(
+    options: { name?: string; slug?: string; passcode?: string } = {}
+  ): string {
     const roomId = uuidv4();
     const room: Room = {
       id: roomId,
+      name: options.name,
+      slug: options.slug,
       createdAt: new Date(),
       lastActivity: new Date(),
       users: new Map(),
       messages: [],
       capacity: backendConfig.ROOM_CAPACITY,
+      passcodeHash: options.passcode
+        ? hashPasscode(options.passcode)
+        : undefined,
     };
 
-    this.rooms.set(roomId, room);
+    this.store.save(room);
     logger.room('created', roomId);
     return roomId;
   }
 
   getRoom(roomId: string): Room | undefined {
-    return this.rooms.get(roomId);
+    return this.store.get(roomId);
+  }
+
+  findRoomBySlug(slug: string): Room | undefined {
+    const normalized = slug.trim().toLowerCase();
+    for (const room of this.store.values()) {
+      if (room.slug === normalized) {
+        return room;
+      }
+    }
+    return undefined;
+  }
+
+  isSlugAvailable(slug: string): boolean {
+    return !this.findRoomBySlug(slug);
+  }
+
+  /**
+   * Map a room ID or slug (as found in a room link) to the room ID
+   */
+  resolveRoomId(idOrSlug: string): string | undefined {
+    const trimmed = idOrSlug.trim();
+    if (this.store.has(trimmed)) {
+      return trimmed;
+    }
+    return this.findRoomBySlug(trimmed)?.id;
   }
 
   roomExists(roomId: string): boolean {
-    return this.rooms.has(roomId);
+    return this.store.has(roomId);
+  }
+
+  requiresPasscode(roomId: string): boolean {
+    return this.store.get(roomId)?.passcodeHash !== undefined;
+  }
+
+  /**
+   * True if the room has no passcode or the given one matches
+   */
+  checkPasscode(roomId: string, passcode?: string): boolean {
+    const passcodeHash = this.store.get(roomId)?.passcodeHash;
+    if (passcodeHash === undefined) {
+      return true;
+    }
+    return passcode !== undefined && verifyPasscode(passcode, passcodeHash);
+  }
+
+  isRoomLocked(roomId: string): boolean {
+    return this.store.get(roomId)?.isLocked === true;
+  }
+
+  setRoomLocked(roomId: string, isLocked: boolean): boolean {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    room.isLocked = isLocked;
+    this.store.save(room);
+    logger.info(isLocked ? 'Room locked' : 'Room unlocked', { roomId });
+    return true;
   }
 
   isNicknameAvailable(roomId: string, nickname: string): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -53,7 +193,7 @@ class RoomService {
     nickname: string,
     excludeUserId?: string
   ): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -74,7 +214,7 @@ class RoomService {
   }
 
   isUserInRoom(roomId: string, userId: string): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -83,7 +223,7 @@ class RoomService {
   }
 
   hasCapacity(roomId: string): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -92,7 +232,7 @@ class RoomService {
   }
 
   getRoomCapacityInfo(roomId: string): { current: number; max: number } | null {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return null;
     }
@@ -104,7 +244,7 @@ class RoomService {
   }
 
   getUserInRoom(roomId: string, userId: string): User | undefined {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return undefined;
     }
@@ -118,7 +258,7 @@ class RoomService {
     nickname: string,
     socketId: string
   ): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -132,12 +272,38 @@ class RoomService {
     user.nickname = nickname.trim();
     user.socketId = socketId;
     user.isOnline = true;
+    this.assignAppearance(room, user);
+    this.resetPresence(user);
+    this.store.save(room);
 
     return true;
   }
 
+  // Callers check the nickname is valid and free. The user's past messages,
+  // thread replies included, take the new nickname.
+  renameUser(roomId: string, userId: string, nickname: string): boolean {
+    const room = this.store.get(roomId);
+    const user = room?.users.get(userId);
+    if (!room || !user) {
+      return false;
+    }
+
+    user.nickname = nickname.trim();
+    if (room.ownerId === userId) {
+      room.ownerNickname = user.nickname;
+    }
+    for (const message of room.messages) {
+      if (message.userId === userId) {
+        message.nickname = user.nickname;
+      }
+    }
+    this.store.save(room);
+    logger.info('User renamed', { roomId, userId });
+    return true;
+  }
+
   addUserToRoom(roomId: string, user: User): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -146,6 +312,7 @@ class RoomService {
     if (room.users.size === 0) {
       room.ownerId = user.id;
       room.ownerNickname = user.nickname;
+      user.role = 'owner';
       logger.info('Room owner set', {
         roomId,
         ownerId: user.id,
@@ -153,8 +320,12 @@ class RoomService {
       });
     }
 
+    user.role ??= 'participant';
+    this.assignAppearance(room, user);
+    this.resetPresence(user);
     room.users.set(user.id, user);
     room.lastActivity = new Date();
+    this.store.save(room);
     logger.info('User joined room', {
       nickname: user.nickname,
       roomId,
@@ -164,7 +335,7 @@ class RoomService {
   }
 
   removeUserFromRoom(roomId: string, userId: string): User | undefined {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return undefined;
     }
@@ -172,7 +343,10 @@ class RoomService {
     const user = room.users.get(userId);
     if (user) {
       room.users.delete(userId);
+      room.readMarkers?.delete(userId);
+      room.clientIds?.delete(userId);
       room.lastActivity = new Date();
+      this.store.save(room);
       logger.info('User left room', {
         nickname: user.nickname,
         roomId,
@@ -182,35 +356,719 @@ class RoomService {
     return user;
   }
 
+  getUserRole(roomId: string, userId: string): UserRole | undefined {
+    const user = this.getUserInRoom(roomId, userId);
+    return user ? (user.role ?? 'participant') : undefined;
+  }
+
+  /**
+   * Check whether a member's role allows an action; non-members can't do anything
+   */
+  hasPermission(roomId: string, userId: string, action: RoomAction): boolean {
+    const role = this.getUserRole(roomId, userId);
+    return role !== undefined && roleCan(role, action);
+  }
+
+  /**
+   * Change a member's role. Ownership is not assignable here, and the
+   * owner's own role can't be changed.
+   */
+  setUserRole(roomId: string, userId: string, role: AssignableRole): boolean {
+    const room = this.store.get(roomId);
+    const user = room?.users.get(userId);
+    if (!room || !user || user.role === 'owner') {
+      return false;
+    }
+
+    user.role = role;
+    this.store.save(room);
+    logger.info('User role changed', { roomId, userId, role });
+    return true;
+  }
+
+  /**
+   * Ban a user for the rest of the room's lifetime. Re-banning the same user
+   * replaces the earlier entry.
+   */
+  banUser(roomId: string, ban: RoomBan): boolean {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    const bans = (room.bans ?? []).filter(b => b.userId !== ban.userId);
+    bans.push(ban);
+    room.bans = bans;
+    this.store.save(room);
+    logger.info('User banned', {
+      roomId,
+      userId: ban.userId,
+      bannedBy: ban.bannedBy,
+    });
+    return true;
+  }
+
+  unbanUser(roomId: string, userId: string): boolean {
+    const room = this.store.get(roomId);
+    if (!room?.bans?.some(b => b.userId === userId)) {
+      return false;
+    }
+
+    room.bans = room.bans.filter(b => b.userId !== userId);
+    this.store.save(room);
+    logger.info('User unbanned', { roomId, userId });
+    return true;
+  }
+
+  /**
+   * Bans as shown to owners and moderators, without client IDs
+   */
+  getBans(roomId: string): BanInfo[] {
+    const room = this.store.get(roomId);
+    return (room?.bans ?? []).map(ban => ({
+      userId: ban.userId,
+      nickname: ban.nickname,
+      bannedBy: ban.bannedBy,
+      bannedAt: ban.bannedAt,
+      reason: ban.reason,
+    }));
+  }
+
+  /**
+   * A client is banned if either its user ID or its browser's client ID
+   * matches a ban, so a new nickname from the same browser doesn't get
+   * around it
+   */
+  isBanned(roomId: string, userId?: string, clientId?: string): boolean {
+    const room = this.store.get(roomId);
+    return (room?.bans ?? []).some(
+      ban =>
+        (userId !== undefined && ban.userId === userId) ||
+        (clientId !== undefined && ban.clientId === clientId)
+    );
+  }
+
+  /**
+   * Remember which browser a member joined from, so they can be banned by
+   * it even after going offline
+   */
+  setClientId(roomId: string, userId: string, clientId: string): boolean {
+    const room = this.store.get(roomId);
+    if (!room?.users.has(userId)) {
+      return false;
+    }
+
+    room.clientIds ??= new Map();
+    room.clientIds.set(userId, clientId);
+    this.store.save(room);
+    return true;
+  }
+
+  getClientId(roomId: string, userId: string): string | undefined {
+    return this.store.get(roomId)?.clientIds?.get(userId);
+  }
+
+  /**
+   * Hand the room to another member. The previous owner, if still in the
+   * room, stays on as a moderator.
+   */
+  transferOwnership(roomId: string, newOwnerId: string): boolean {
+    const room = this.store.get(roomId);
+    const newOwner = room?.users.get(newOwnerId);
+    if (!room || !newOwner) {
+      return false;
+    }
+
+    const previousOwner = room.ownerId
+      ? room.users.get(room.ownerId)
+      : undefined;
+    if (previousOwner && previousOwner.id !== newOwnerId) {
+      previousOwner.role = 'moderator';
+    }
+
+    room.ownerId = newOwner.id;
+    room.ownerNickname = newOwner.nickname;
+    newOwner.role = 'owner';
+    this.store.save(room);
+    logger.info('Room ownership transferred', {
+      roomId,
+      previousOwnerId: previousOwner?.id,
+      ownerId: newOwner.id,
+    });
+    return true;
+  }
+
+  /**
+   * Succession when the owner is gone: the online member who has been in the
+   * room longest takes over. Returns the new owner, or undefined if the
+   * owner is still present or nobody online could take over.
+   */
+  ensureOwner(roomId: string): User | undefined {
+    const room = this.store.get(roomId);
+    if (!room || (room.ownerId && room.users.has(room.ownerId))) {
+      return undefined;
+    }
+
+    const successor = Array.from(room.users.values())
+      .filter(user => user.isOnline)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())[0];
+    if (!successor) {
+      return undefined;
+    }
+
+    this.transferOwnership(roomId, successor.id);
+    return successor;
+  }
+
   getUsersInRoom(roomId: string): User[] {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     return room ? Array.from(room.users.values()) : [];
   }
 
   addMessage(roomId: string, message: ChatMessage): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
 
     room.messages.push(message);
     room.lastActivity = new Date();
+    this.getSearchIndex(room).add(message.id, message.content);
 
-    // Keep only last 100 messages to prevent memory issues
-    if (room.messages.length > 100) {
-      room.messages = room.messages.slice(-100);
+    if (message.parentId) {
+      const parent = room.messages.find(m => m.id === message.parentId);
+      if (parent) {
+        parent.replyCount = (parent.replyCount ?? 0) + 1;
+        parent.lastReplyAt = message.timestamp;
+      }
     }
 
+    // Bound memory (and the persisted room) by dropping the oldest messages.
+    // Threads go as a whole: one with replies among the retained messages is
+    // kept, parent included, so no reply points at a message that's gone.
+    const limit = backendConfig.MESSAGE_HISTORY_LIMIT;
+    if (room.messages.length > limit) {
+      const activeThreads = new Set(
+        room.messages
+          .slice(-limit)
+          .flatMap(m => (m.parentId ? [m.parentId] : []))
+      );
+      const droppedIds = new Set(
+        room.messages
+          .slice(0, -limit)
+          .filter(m => !activeThreads.has(m.parentId ?? m.id))
+          .map(m => m.id)
+      );
+      const droppedAttachmentIds: string[] = [];
+      for (const message of room.messages) {
+        if (droppedIds.has(message.id)) {
+          room.reactions?.delete(message.id);
+          this.searchIndexes.get(roomId)?.remove(message.id);
+          droppedAttachmentIds.push(
+            ...(message.attachments?.map(a => a.id) ?? [])
+          );
+        }
+      }
+      room.messages = room.messages.filter(m => !droppedIds.has(m.id));
+      room.pinnedMessageIds = room.pinnedMessageIds?.filter(
+        id => !droppedIds.has(id)
+      );
+      // Everything left is newer than a dropped marker, so none of it is read
+      for (const [userId, messageId] of room.readMarkers ?? []) {
+        if (droppedIds.has(messageId)) {
+          room.readMarkers?.delete(userId);
+        }
+      }
+      if (droppedAttachmentIds.length > 0) {
+        this.attachmentsDroppedListeners.forEach(listener =>
+          listener(roomId, droppedAttachmentIds)
+        );
+      }
+    }
+    this.store.save(room);
+
     return true;
   }
 
   getMessages(roomId: string): ChatMessage[] {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     return room ? room.messages : [];
   }
 
+  /**
+   * A page of the main timeline (thread replies excluded) ending just before
+   * the message with ID `before`, or the most recent page without a cursor.
+   * A cursor that is no longer retained yields an empty page.
+   */
+  getMessagePage(
+    roomId: string,
+    options: { before?: string; limit?: number } = {}
+  ): MessagePage {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return { messages: [], hasMore: false };
+    }
+
+    const messages = room.messages.filter(m => !m.parentId);
+    const limit = Math.min(
+      Math.max(options.limit ?? MESSAGE_PAGE_SIZE, 1),
+      MESSAGE_PAGE_SIZE
+    );
+
+    let end = messages.length;
+    if (options.before !== undefined) {
+      end = messages.findIndex(m => m.id === options.before);
+      if (end === -1) {
+        return { messages: [], hasMore: false };
+      }
+    }
+
+    const start = Math.max(end - limit, 0);
+    return {
+      messages: messages
+        .slice(start, end)
+        .map(message => this.toClientMessage(room, message)),
+      hasMore: start > 0,
+    };
+  }
+
+  getMessage(roomId: string, messageId: string): ChatMessage | undefined {
+    return this.getMessages(roomId).find(m => m.id === messageId);
+  }
+
+  // Replies to a top-level message, oldest first
+  getThread(roomId: string, parentId: string): ChatMessage[] {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return [];
+    }
+    return room.messages
+      .filter(m => m.parentId === parentId)
+      .map(message => this.toClientMessage(room, message));
+  }
+
+  /**
+   * Replace the content (and the mentions parsed from it) of a message.
+   * Deleted messages can't be edited. Returns the updated message, or
+   * undefined if there's nothing to edit.
+   */
+  editMessage(
+    roomId: string,
+    messageId: string,
+    content: string,
+    mentions: MessageMention[] = []
+  ): ChatMessage | undefined {
+    const room = this.store.get(roomId);
+    const message = room?.messages.find(m => m.id === messageId);
+    if (!room || !message || message.deletedAt) {
+      return undefined;
+    }
+
+    message.content = content;
+    message.mentions = mentions.length > 0 ? mentions : undefined;
+    message.editedAt = new Date();
+    this.getSearchIndex(room).add(message.id, content);
+    this.store.save(room);
+
+    return this.toClientMessage(room, message);
+  }
+
+  /**
+   * Turn a message into a tombstone: it keeps its place in history but its
+   * content is dropped, so nothing deleted is sent to clients again.
+   */
+  deleteMessage(roomId: string, messageId: string): ChatMessage | undefined {
+    const room = this.store.get(roomId);
+    const message = room?.messages.find(m => m.id === messageId);
+    if (!room || !message || message.deletedAt) {
+      return undefined;
+    }
+
+    message.content = '';
+    message.mentions = undefined;
+    message.attachments = undefined;
+    message.poll = undefined;
+    message.deletedAt = new Date();
+    room.reactions?.delete(messageId);
+    room.pinnedMessageIds = room.pinnedMessageIds?.filter(
+      id => id !== messageId
+    );
+    this.searchIndexes.get(roomId)?.remove(messageId);
+    this.store.save(room);
+
+    return message;
+  }
+
+  /**
+   * Pin a message for everyone in the room. Deleted messages can't be pinned;
+   * callers check MAX_PINNED_MESSAGES first. Pinning a pinned message again is
+   * a no-op that still succeeds.
+   */
+  pinMessage(roomId: string, messageId: string): boolean {
+    const room = this.store.get(roomId);
+    const message = room?.messages.find(m => m.id === messageId);
+    if (!room || !message || message.deletedAt) {
+      return false;
+    }
+
+    room.pinnedMessageIds ??= [];
+    if (!room.pinnedMessageIds.includes(messageId)) {
+      room.pinnedMessageIds.push(messageId);
+      this.store.save(room);
+    }
+    return true;
+  }
+
+  unpinMessage(roomId: string, messageId: string): boolean {
+    const room = this.store.get(roomId);
+    if (!room?.pinnedMessageIds?.includes(messageId)) {
+      return false;
+    }
+
+    room.pinnedMessageIds = room.pinnedMessageIds.filter(
+      id => id !== messageId
+    );
+    this.store.save(room);
+    return true;
+  }
+
+  isMessagePinned(roomId: string, messageId: string): boolean {
+    return (
+      this.store.get(roomId)?.pinnedMessageIds?.includes(messageId) === true
+    );
+  }
+
+  // Most recently pinned first
+  getPinnedMessages(roomId: string): ChatMessage[] {
+    const room = this.store.get(roomId);
+    if (!room?.pinnedMessageIds) {
+      return [];
+    }
+
+    const byId = new Map(room.messages.map(m => [m.id, m]));
+    return room.pinnedMessageIds
+      .map(id => byId.get(id))
+      .filter((message): message is ChatMessage => message !== undefined)
+      .map(message => this.toClientMessage(room, message))
+      .reverse();
+  }
+
+  // An empty announcement removes the banner
+  setAnnouncement(roomId: string, announcement: string): boolean {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    room.announcement = announcement || undefined;
+    this.store.save(room);
+    return true;
+  }
+
+  getAnnouncement(roomId: string): string | undefined {
+    return this.store.get(roomId)?.announcement;
+  }
+
+  /**
+   * Record that a member has read the main timeline up to a top-level
+   * message. Markers only move forward; returns whether this one did.
+   */
+  markRead(roomId: string, userId: string, messageId: string): boolean {
+    const room = this.store.get(roomId);
+    if (!room?.users.has(userId)) {
+      return false;
+    }
+
+    const timeline = room.messages.filter(m => !m.parentId);
+    const index = timeline.findIndex(m => m.id === messageId);
+    const current = room.readMarkers?.get(userId);
+    if (
+      index === -1 ||
+      (current !== undefined &&
+        timeline.findIndex(m => m.id === current) >= index)
+    ) {
+      return false;
+    }
+
+    room.readMarkers ??= new Map();
+    room.readMarkers.set(userId, messageId);
+    this.store.save(room);
+    return true;
+  }
+
+  // Read markers of the room's current members
+  getReadReceipts(roomId: string): ReadReceipt[] {
+    const room = this.store.get(roomId);
+    if (!room?.readMarkers) {
+      return [];
+    }
+
+    return Array.from(room.readMarkers)
+      .filter(([userId]) => room.users.has(userId))
+      .map(([userId, messageId]) => ({ userId, messageId }));
+  }
+
+  /**
+   * Messages containing every word of the query (as word prefixes), most
+   * recent first, each with a highlighted snippet. Thread replies are
+   * included; deleted messages are not.
+   */
+  searchMessages(
+    roomId: string,
+    query: string,
+    limit: number = SEARCH_RESULT_LIMIT
+  ): MessageSearchResult[] {
+    const room = this.store.get(roomId);
+    const terms = getQueryTerms(query);
+    if (!room || terms.length === 0) {
+      return [];
+    }
+
+    const matchingIds = this.getSearchIndex(room).search(terms);
+    const results: MessageSearchResult[] = [];
+    for (const message of [...room.messages].reverse()) {
+      if (results.length >= limit) {
+        break;
+      }
+      if (matchingIds.has(message.id)) {
+        results.push({
+          message: this.toClientMessage(room, message),
+          snippet: buildSnippet(message.content, terms),
+        });
+      }
+    }
+    return results;
+  }
+
+  // Users keep their color and avatar for as long as they stay in the room.
+  // Those stored before colors existed get them when they rejoin.
+  private assignAppearance(room: Room, user: User): void {
+    if (!user.color) {
+      const usedColors: string[] = [];
+      for (const other of room.users.values()) {
+        if (other.id !== user.id && other.color) {
+          usedColors.push(other.color);
+        }
+      }
+      user.color = pickUserColor(user.id, usedColors);
+    }
+    if (backendConfig.USER_AVATARS === 'identicon') {
+      user.avatar ??= createIdenticon(user.id, user.color);
+    } else {
+      delete user.avatar;
+    }
+  }
+
+  // Joining, rejoining and going offline start presence afresh
+  private resetPresence(user: User): void {
+    if (user.isOnline) {
+      const now = new Date();
+      user.lastActivity = now;
+      user.lastSeenAt = now;
+    }
+    user.presence = derivePresence(user);
+  }
+
+  private updatePresence(user: User, now: Date): PresenceStatus | undefined {
+    const presence = derivePresence(user, now);
+    if (presence === user.presence) {
+      return undefined;
+    }
+    user.presence = presence;
+    return presence;
+  }
+
+  private getSearchIndex(room: Room): MessageSearchIndex {
+    let index = this.searchIndexes.get(room.id);
+    if (!index) {
+      index = new MessageSearchIndex();
+      for (const message of room.messages) {
+        if (!message.deletedAt) {
+          index.add(message.id, message.content);
+        }
+      }
+      this.searchIndexes.set(room.id, index);
+    }
+    return index;
+  }
+
+  /**
+   * Add the user's reaction, or remove it if they already reacted with that
+   * emoji. Returns the message's reactions afterwards, or undefined when the
+   * message doesn't exist or was deleted.
+   */
+  toggleReaction(
+    roomId: string,
+    messageId: string,
+    emoji: string,
+    userId: string
+  ): MessageReaction[] | undefined {
+    const room = this.store.get(roomId);
+    const message = room?.messages.find(m => m.id === messageId);
+    if (!room || !message || message.deletedAt) {
+      return undefined;
+    }
+
+    room.reactions ??= new Map();
+    let byEmoji = room.reactions.get(messageId);
+    if (!byEmoji) {
+      byEmoji = new Map();
+      room.reactions.set(messageId, byEmoji);
+    }
+
+    const userIds = byEmoji.get(emoji) ?? new Set<string>();
+    if (userIds.has(userId)) {
+      userIds.delete(userId);
+    } else {
+      userIds.add(userId);
+    }
+
+    if (userIds.size > 0) {
+      byEmoji.set(emoji, userIds);
+    } else {
+      byEmoji.delete(emoji);
+    }
+    if (byEmoji.size === 0) {
+      room.reactions.delete(messageId);
+    }
+    this.store.save(room);
+
+    return this.getReactions(roomId, messageId);
+  }
+
+  getReactions(roomId: string, messageId: string): MessageReaction[] {
+    const byEmoji = this.store.get(roomId)?.reactions?.get(messageId);
+    if (!byEmoji) {
+      return [];
+    }
+
+    return Array.from(byEmoji, ([emoji, userIds]) => ({
+      emoji,
+      count: userIds.size,
+      userIds: Array.from(userIds),
+    }));
+  }
+
+  /**
+   * Replace a user's votes on an open poll; no option IDs retracts them.
+   * Callers check the choice is valid for the poll. Returns the poll as sent
+   * to clients, or undefined if there's no open poll to vote on.
+   */
+  votePoll(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    optionIds: string[]
+  ): Poll | undefined {
+    const room = this.store.get(roomId);
+    const poll = room?.messages.find(m => m.id === messageId)?.poll;
+    if (!room || !poll || !isPollOpen(poll)) {
+      return undefined;
+    }
+
+    applyVote(poll, userId, optionIds);
+    this.store.save(room);
+    return toClientPoll(poll);
+  }
+
+  // Close an open poll before its close time; undefined if there's none
+  closePoll(roomId: string, messageId: string): Poll | undefined {
+    const room = this.store.get(roomId);
+    const poll = room?.messages.find(m => m.id === messageId)?.poll;
+    if (!room || !poll || !isPollOpen(poll)) {
+      return undefined;
+    }
+
+    poll.closedAt = new Date();
+    this.store.save(room);
+    return toClientPoll(poll);
+  }
+
+  // Metadata of an uploaded file; attachmentService owns the file on disk
+  addAttachment(roomId: string, attachment: Attachment): boolean {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    room.attachments ??= new Map();
+    room.attachments.set(attachment.id, attachment);
+    this.store.save(room);
+    return true;
+  }
+
+  getAttachment(roomId: string, attachmentId: string): Attachment | undefined {
+    return this.store.get(roomId)?.attachments?.get(attachmentId);
+  }
+
+  // Link uploads to the message they were sent in, so none is sent twice
+  markAttachmentsSent(
+    roomId: string,
+    attachmentIds: string[],
+    messageId: string
+  ): void {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return;
+    }
+
+    for (const attachmentId of attachmentIds) {
+      const attachment = room.attachments?.get(attachmentId);
+      if (attachment) {
+        attachment.messageId = messageId;
+      }
+    }
+    this.store.save(room);
+  }
+
+  // Bytes a user has stored in a room, for ATTACHMENT_QUOTA_BYTES
+  getUploadedBytes(roomId: string, userId: string): number {
+    const attachments = this.store.get(roomId)?.attachments?.values() ?? [];
+    return Array.from(attachments)
+      .filter(attachment => attachment.uploadedBy === userId)
+      .reduce((sum, attachment) => sum + attachment.size, 0);
+  }
+
+  // Uploads across all rooms that were never sent, uploaded before `before`
+  getUnsentAttachments(
+    before: Date
+  ): { roomId: string; attachmentId: string }[] {
+    return Array.from(this.store.values()).flatMap(room =>
+      Array.from(room.attachments?.values() ?? [])
+        .filter(a => !a.messageId && a.uploadedAt < before)
+        .map(a => ({ roomId: room.id, attachmentId: a.id }))
+    );
+  }
+
+  removeAttachment(roomId: string, attachmentId: string): boolean {
+    const room = this.store.get(roomId);
+    if (!room?.attachments?.delete(attachmentId)) {
+      return false;
+    }
+
+    this.store.save(room);
+    return true;
+  }
+
+  // Copy of the message as sent to clients, with its aggregated reactions
+  // and its poll's public results
+  private toClientMessage(room: Room, message: ChatMessage): ChatMessage {
+    if (!room.reactions?.has(message.id) && !message.poll) {
+      return message;
+    }
+
+    const copy = { ...message };
+    if (room.reactions?.has(message.id)) {
+      copy.reactions = this.getReactions(room.id, message.id);
+    }
+    if (message.poll) {
+      copy.poll = toClientPoll(message.poll);
+    }
+    return copy;
+  }
+
   updateUserStatus(roomId: string, userId: string, isOnline: boolean): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -221,10 +1079,85 @@ class RoomService {
     }
 
     user.isOnline = isOnline;
+    if (!isOnline) {
+      // An offline member can't still be mid-edit
+      user.isEditing = false;
+    }
+    this.resetPresence(user);
     room.lastActivity = new Date();
+    this.store.save(room);
     return true;
   }
 
+  /**
+   * Record a presence heartbeat: the client reports how long ago the user's
+   * last input was. Returns the user's new presence if it changed.
+   */
+  recordHeartbeat(
+    roomId: string,
+    userId: string,
+    idleMs: number,
+    now: Date = new Date()
+  ): PresenceStatus | undefined {
+    const room = this.store.get(roomId);
+    const user = room?.users.get(userId);
+    if (!room || !user) {
+      return undefined;
+    }
+
+    user.lastSeenAt = now;
+    const lastInput = new Date(now.getTime() - idleMs);
+    if (!user.lastActivity || lastInput > user.lastActivity) {
+      user.lastActivity = lastInput;
+    }
+    const changed = this.updatePresence(user, now);
+    this.store.save(room);
+    return changed;
+  }
+
+  /**
+   * Re-evaluate everyone's presence, for users who went quiet since their
+   * last heartbeat. Returns the users whose presence changed.
+   */
+  refreshPresence(
+    now: Date = new Date()
+  ): { roomId: string; userId: string; presence: PresenceStatus }[] {
+    const changes: {
+      roomId: string;
+      userId: string;
+      presence: PresenceStatus;
+    }[] = [];
+    for (const room of this.store.values()) {
+      const roomChanges = changes.length;
+      for (const user of room.users.values()) {
+        const presence = this.updatePresence(user, now);
+        if (presence) {
+          changes.push({ roomId: room.id, userId: user.id, presence });
+        }
+      }
+      if (changes.length > roomChanges) {
+        this.store.save(room);
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Members who are offline and not connected, e.g. everyone in rooms loaded
+   * from a durable store after a restart
+   */
+  getOfflineUsers(): { roomId: string; userId: string }[] {
+    const offline: { roomId: string; userId: string }[] = [];
+    for (const room of this.store.values()) {
+      for (const user of room.users.values()) {
+        if (!user.isOnline) {
+          offline.push({ roomId: room.id, userId: user.id });
+        }
+      }
+    }
+    return offline;
+  }
+
   /**
    * Update user's document editing status for real-time collaboration
    */
@@ -233,7 +1166,7 @@ class RoomService {
     userId: string,
     isEditing: boolean
   ): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.store.get(roomId);
     if (!room) {
       return false;
     }
@@ -246,22 +1179,64 @@ class RoomService {
     user.isEditing = isEditing;
     user.lastActivity = new Date();
     room.lastActivity = new Date();
+    this.store.save(room);
     return true;
   }
 
+  /**
+   * Persist the room's collaborative document state
+   */
+  saveDocument(roomId: string, document: StoredDocument): boolean {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    room.document = document;
+    room.lastActivity = new Date();
+    this.store.save(room);
+    return true;
+  }
+
+  /**
+   * Append a saved document version, keeping only the most recent ones
+   */
+  addDocumentSnapshot(roomId: string, snapshot: DocumentSnapshot): boolean {
+    const room = this.store.get(roomId);
+    if (!room) {
+      return false;
+    }
+
+    const snapshots = room.documentSnapshots ?? [];
+    snapshots.push(snapshot);
+    room.documentSnapshots = snapshots.slice(-MAX_DOCUMENT_SNAPSHOTS);
+    room.lastActivity = new Date();
+    this.store.save(room);
+    return true;
+  }
+
+  getDocumentSnapshots(roomId: string): DocumentSnapshot[] {
+    const room = this.store.get(roomId);
+    return room?.documentSnapshots ?? [];
+  }
+
   // Clean up expired rooms (to be called periodically)
   cleanupExpiredRooms(expiryHours: number = 24): number {
     const now = new Date();
     const expiryTime = expiryHours * 60 * 60 * 1000; // Convert to milliseconds
     let deletedCount = 0;
 
-    for (const [roomId, room] of this.rooms.entries()) {
+    // Snapshot first so the store can be mutated while iterating
+    for (const room of Array.from(this.store.values())) {
+      const roomId = room.id;
       const timeSinceLastActivity = now.getTime() - room.lastActivity.getTime();
 
       if (timeSinceLastActivity > expiryTime || room.users.size === 0) {
-        this.rooms.delete(roomId);
+        this.store.delete(roomId);
+        this.searchIndexes.delete(roomId);
         deletedCount++;
         logger.room('deleted (expired)', roomId);
+        this.roomDeletedListeners.forEach(listener => listener(roomId));
       }
     }
 
@@ -270,8 +1245,8 @@ class RoomService {
 
   // Get room statistics
   getStats() {
-    const totalRooms = this.rooms.size;
-    const totalUsers = Array.from(this.rooms.values()).reduce(
+    const totalRooms = this.store.size();
+    const totalUsers = Array.from(this.store.values()).reduce(
       (sum, room) => sum + room.users.size,
       0
     );
@@ -279,13 +1254,19 @@ class RoomService {
     return { totalRooms, totalUsers };
   }
 
+  // Persist any buffered changes (called on shutdown)
+  flush(): void {
+    this.store.flush();
+  }
+
   // Test-only utility to hard-reset room state between tests
   // Intentionally public for ease of use in test suites
   clearAllRoomsForTest(): void {
     if (process.env.NODE_ENV === 'test') {
-      this.rooms.clear();
+      this.store.clear();
+      this.searchIndexes.clear();
     }
   }
 }
 
-export const roomService = new RoomService();
+export const roomService = new RoomService(createRoomStore(backendConfig));
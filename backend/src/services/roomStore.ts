@@ -0,0 +1,231 @@
+import fs from 'fs';
+import path from 'path';
+import { Room } from '../types';
+import { BackendConfig } from '../config/environment';
+import logger from '../utils/logger';
+
+/**
+ * Persistence boundary for room state.
+ *
+ * RoomService mutates `Room` objects in place and calls `save` afterwards so
+ * that durable implementations can write the change out. All methods are
+ * synchronous to keep RoomService (and the socket handlers using it) simple.
+ */
+export interface RoomStore {
+  get(roomId: string): Room | undefined;
+  has(roomId: string): boolean;
+  save(room: Room): void;
+  delete(roomId: string): boolean;
+  values(): IterableIterator<Room>;
+  size(): number;
+  clear(): void;
+  // Write any pending changes out immediately (e.g. on shutdown)
+  flush(): void;
+}
+
+/**
+ * Default store: rooms live only for the lifetime of the process
+ */
+export class InMemoryRoomStore implements RoomStore {
+  protected readonly rooms = new Map<string, Room>();
+
+  get(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  has(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  save(room: Room): void {
+    this.rooms.set(room.id, room);
+  }
+
+  delete(roomId: string): boolean {
+    return this.rooms.delete(roomId);
+  }
+
+  values(): IterableIterator<Room> {
+    return this.rooms.values();
+  }
+
+  size(): number {
+    return this.rooms.size;
+  }
+
+  clear(): void {
+    this.rooms.clear();
+  }
+
+  flush(): void {
+    // Nothing to persist
+  }
+}
+
+// Tagged JSON encoding so Dates, Maps and Sets nested anywhere in a Room
+// round-trip without per-field (de)serializers
+type TaggedValue =
+  | { __type: 'Date'; value: string }
+  | { __type: 'Map'; entries: [unknown, unknown][] }
+  | { __type: 'Set'; values: unknown[] }
+  | { __type: 'Uint8Array'; base64: string };
+
+function isTaggedValue(value: unknown): value is TaggedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { __type?: unknown }).__type === 'string'
+  );
+}
+
+export function serializeRooms(rooms: Room[]): string {
+  return JSON.stringify(rooms, function (this: unknown, key, value: unknown) {
+    // Date#toJSON runs before the replacer, so inspect the raw holder value
+    const raw = (this as Record<string, unknown>)[key];
+    if (raw instanceof Date) {
+      return { __type: 'Date', value: raw.toISOString() };
+    }
+    if (value instanceof Map) {
+      return { __type: 'Map', entries: Array.from(value.entries()) };
+    }
+    if (value instanceof Set) {
+      return { __type: 'Set', values: Array.from(value.values()) };
+    }
+    if (value instanceof Uint8Array) {
+      return {
+        __type: 'Uint8Array',
+        base64: Buffer.from(value).toString('base64'),
+      };
+    }
+    return value;
+  });
+}
+
+export function deserializeRooms(json: string): Room[] {
+  const parsed = JSON.parse(json, (_key, value: unknown) => {
+    if (!isTaggedValue(value)) {
+      return value;
+    }
+    switch (value.__type) {
+      case 'Date':
+        return new Date(value.value);
+      case 'Map':
+        return new Map(value.entries);
+      case 'Set':
+        return new Set(value.values);
+      case 'Uint8Array':
+        return new Uint8Array(Buffer.from(value.base64, 'base64'));
+      default:
+        return value;
+    }
+  }) as unknown;
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Room store file must contain an array of rooms');
+  }
+  return parsed as Room[];
+}
+
+/**
+ * JSON-file backed store. Rooms are kept in memory and written to disk
+ * (debounced) whenever they change, then reloaded on startup.
+ */
+export class FileRoomStore extends InMemoryRoomStore {
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly flushDelayMs: number = 1000
+  ) {
+    super();
+    this.load();
+  }
+
+  override save(room: Room): void {
+    super.save(room);
+    this.scheduleFlush();
+  }
+
+  override delete(roomId: string): boolean {
+    const deleted = super.delete(roomId);
+    if (deleted) {
+      this.scheduleFlush();
+    }
+    return deleted;
+  }
+
+  override clear(): void {
+    super.clear();
+    this.scheduleFlush();
+  }
+
+  override flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write to a temp file and rename so a crash never leaves a torn file
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        serializeRooms(Array.from(this.rooms.values())),
+        'utf8'
+      );
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error('Failed to persist rooms', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => this.flush(), this.flushDelayMs);
+    // Never keep the process alive just to write the store
+    this.flushTimer.unref();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const rooms = deserializeRooms(fs.readFileSync(this.filePath, 'utf8'));
+      for (const room of rooms) {
+        // Nobody is connected right after a restart; users can rejoin
+        // with their stored userId and pick up where they left off until
+        // the disconnect grace period runs out
+        for (const user of room.users.values()) {
+          user.isOnline = false;
+          user.isEditing = false;
+          user.presence = 'offline';
+        }
+        this.rooms.set(room.id, room);
+      }
+      logger.info('Loaded rooms from store', {
+        filePath: this.filePath,
+        roomCount: rooms.length,
+      });
+    } catch (error) {
+      logger.error('Failed to load rooms from store, starting empty', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export function createRoomStore(config: BackendConfig): RoomStore {
+  if (config.ROOM_STORE === 'file') {
+    return new FileRoomStore(path.resolve(config.ROOM_STORE_PATH));
+  }
+  return new InMemoryRoomStore();
+}
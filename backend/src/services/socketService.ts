@@ -1,27 +1,234 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
-import { roomService } from '../services/roomService';
+import { roomService, MAX_PINNED_MESSAGES } from '../services/roomService';
+import { documentService } from '../services/documentService';
+import { attachmentService } from '../services/attachmentService';
 import {
   User,
   ChatMessage,
+  Attachment,
   JoinRoomRequest,
   JoinRoomResponse,
   SocketErrorCode,
+  SetUserRoleRequest,
+  UserRoleChangedEvent,
+  UserStatusEvent,
+  ModerateUserRequest,
+  KickedEvent,
+  BansListEvent,
+  RoomLockChangedEvent,
+  RoomOwnerChangedEvent,
+  TransferOwnershipRequest,
+  LoadOlderMessagesRequest,
+  OlderMessagesEvent,
+  EditMessageRequest,
+  DeleteMessageRequest,
+  MessageDeletedEvent,
+  ReactMessageRequest,
+  MessageReactionsUpdatedEvent,
+  SendMessageRequest,
+  LoadThreadRequest,
+  ThreadMessagesEvent,
+  ThreadReplyEvent,
+  ReplyNotificationEvent,
+  MentionedEvent,
+  PinMessageRequest,
+  PinnedMessagesUpdatedEvent,
+  SetAnnouncementRequest,
+  AnnouncementChangedEvent,
+  MarkReadRequest,
+  ReadReceiptsEvent,
+  CreatePollRequest,
+  VotePollRequest,
+  ClosePollRequest,
+  PollUpdatedEvent,
+  RunCommandRequest,
+  ChangeNicknameRequest,
+  UserRenamedEvent,
+  PresenceHeartbeatRequest,
+  PresenceChangedEvent,
+  ClientTokenEvent,
 } from '../types';
 import { createSocketError, emitSocketError } from '../utils/socketErrors';
+import {
+  canModerate,
+  isAssignableRole,
+  RoomAction,
+} from '../utils/permissions';
+import { createSessionToken, verifySessionToken } from '../utils/sessionTokens';
+import { createClientToken, verifyClientToken } from '../utils/clientTokens';
+import { parseMentions } from '../utils/mentions';
+import { isPollOpen } from '../utils/polls';
+import {
+  formatDuration,
+  parsePollArgs,
+  parseTimerArgs,
+  MAX_TIMER_LABEL_LENGTH,
+} from '../utils/slashCommands';
 import logger from '../utils/logger';
+import { backendConfig } from '../config/environment';
 import {
   validateNickname,
   validateMessage,
-  validateRoomId,
+  validateModerationReason,
+  validateReaction,
+  validateAnnouncement,
+  validatePoll,
+  validateRoomIdOrSlug,
   sanitizeInput,
+  sanitizeMessage,
   RateLimiter,
+  FailureLockout,
+  VALIDATION_RULES,
 } from '../utils/validation';
 
+// Runs a slash command for the current user; `args` is trimmed
+type CommandHandler = (args: string, roomId: string, userId: string) => void;
+
+const MAX_TIMERS_PER_ROOM = 5;
+
+// How often presence is re-evaluated for users who have gone quiet
+const PRESENCE_SWEEP_MS = 15 * 1000;
+
 export function setupSocketHandlers(io: SocketIOServer) {
   // Rate limiters for different actions
   const joinRoomLimiter = new RateLimiter(5, 60000); // 5 joins per minute
   const messageLimiter = new RateLimiter(30, 60000); // 30 messages per minute
+  const reactionLimiter = new RateLimiter(60, 60000); // 60 reactions per minute
+  const renameLimiter = new RateLimiter(5, 60000); // 5 nickname changes per minute
+  const heartbeatLimiter = new RateLimiter(30, 60000); // 30 heartbeats per minute
+  // 5 wrong passcodes, then locked out for 1 minute, doubling up to 15
+  const passcodeLockout = new FailureLockout(5, 60000, 15 * 60000);
+
+  // Running /timer timeouts, keyed by room ID
+  const roomTimers = new Map<string, Set<NodeJS.Timeout>>();
+
+  // Pending removals of disconnected users, keyed by `${roomId}:${userId}`
+  const disconnectTimers = new Map<string, NodeJS.Timeout>();
+
+  const cancelPendingRemoval = (roomId: string, userId: string): void => {
+    const key = `${roomId}:${userId}`;
+    const timer = disconnectTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      disconnectTimers.delete(key);
+    }
+  };
+
+  /**
+   * Broadcast the room's current owner, preceded by the previous owner's new
+   * role when they are still in the room
+   */
+  const announceOwnerChange = (
+    roomId: string,
+    previousOwnerId?: string
+  ): void => {
+    const room = roomService.getRoom(roomId);
+    if (!room?.ownerId || room.ownerNickname === undefined) {
+      return;
+    }
+
+    const previousRole = previousOwnerId
+      ? roomService.getUserRole(roomId, previousOwnerId)
+      : undefined;
+    if (previousOwnerId && previousRole) {
+      const roleEvent: UserRoleChangedEvent = {
+        userId: previousOwnerId,
+        role: previousRole,
+      };
+      io.to(roomId).emit('user-role-changed', roleEvent);
+    }
+
+    const event: RoomOwnerChangedEvent = {
+      ownerId: room.ownerId,
+      ownerNickname: room.ownerNickname,
+    };
+    io.to(roomId).emit('room-owner-changed', event);
+  };
+
+  // Hand an ownerless room to the longest-present online member
+  const runSuccession = (roomId: string): void => {
+    const successor = roomService.ensureOwner(roomId);
+    if (successor) {
+      announceOwnerChange(roomId);
+      logger.info('Room owner succeeded automatically', {
+        roomId,
+        ownerId: successor.id,
+      });
+    }
+  };
+
+  const removeUser = (roomId: string, userId: string): void => {
+    disconnectTimers.delete(`${roomId}:${userId}`);
+    const user = roomService.removeUserFromRoom(roomId, userId);
+    if (user) {
+      io.to(roomId).emit('user-left', userId);
+      logger.info('User left room on disconnect', {
+        nickname: user.nickname,
+        roomId,
+        userId,
+      });
+      runSuccession(roomId);
+    }
+  };
+
+  // Remove the user once the grace period runs out, unless they rejoin first
+  const startRemovalTimer = (roomId: string, userId: string): void => {
+    const graceMs = backendConfig.DISCONNECT_GRACE_SECONDS * 1000;
+    if (graceMs === 0) {
+      removeUser(roomId, userId);
+      return;
+    }
+
+    cancelPendingRemoval(roomId, userId);
+    const timer = setTimeout(() => removeUser(roomId, userId), graceMs);
+    // Don't hold the process open just for pending removals
+    timer.unref();
+    disconnectTimers.set(`${roomId}:${userId}`, timer);
+  };
+
+  /**
+   * Keep a disconnected user in the room as offline so a refresh or network
+   * blip doesn't cost them their nickname or ownership; they are removed only
+   * if they haven't rejoined when the grace period runs out
+   */
+  const scheduleRemoval = (roomId: string, userId: string): void => {
+    if (backendConfig.DISCONNECT_GRACE_SECONDS === 0) {
+      removeUser(roomId, userId);
+      return;
+    }
+
+    roomService.updateUserStatus(roomId, userId, false);
+    const status: UserStatusEvent = { userId, isOnline: false };
+    io.to(roomId).emit('user-status-changed', status);
+    const presence: PresenceChangedEvent = { userId, presence: 'offline' };
+    io.to(roomId).emit('presence-changed', presence);
+    startRemovalTimer(roomId, userId);
+  };
+
+  // Rooms loaded from a durable store come back with everyone offline; give
+  // them the same grace period to rejoin as after a disconnect
+  for (const { roomId, userId } of roomService.getOfflineUsers()) {
+    startRemovalTimer(roomId, userId);
+  }
+
+  // Per-connection hooks that forget the socket's current room, so a
+  // moderator's handler can cut off a removed user's connection (keyed by
+  // socket ID)
+  const leaveRoomHooks = new Map<string, () => void>();
+
+  // Keep the ban list current for every online owner and moderator
+  const emitBansToModerators = (roomId: string): void => {
+    const event: BansListEvent = { bans: roomService.getBans(roomId) };
+    roomService
+      .getUsersInRoom(roomId)
+      .filter(
+        user =>
+          user.isOnline &&
+          roomService.hasPermission(roomId, user.id, 'moderate')
+      )
+      .forEach(user => io.to(user.socketId).emit('bans', event));
+  };
 
   io.on('connection', (socket: Socket) => {
     logger.socket('user connected', socket.id);
@@ -29,6 +236,624 @@ export function setupSocketHandlers(io: SocketIOServer) {
     let currentUserId: string | null = null;
     let currentRoomId: string | null = null;
 
+    // Identify the browser for bans; ones connecting for the first time (or
+    // with a token that doesn't verify) are issued a token to keep
+    const auth = socket.handshake.auth as { clientToken?: unknown };
+    let clientId = verifyClientToken(auth.clientToken);
+    if (!clientId) {
+      const issued = createClientToken();
+      clientId = issued.clientId;
+      const event: ClientTokenEvent = { clientToken: issued.clientToken };
+      socket.emit('client-token', event);
+    }
+
+    leaveRoomHooks.set(socket.id, () => {
+      if (currentRoomId) {
+        void socket.leave(currentRoomId);
+      }
+      currentUserId = null;
+      currentRoomId = null;
+    });
+
+    // Reject the event with UNAUTHORIZED unless the user's role allows it
+    const ensurePermission = (action: RoomAction, message: string): boolean => {
+      if (
+        currentUserId &&
+        currentRoomId &&
+        roomService.hasPermission(currentRoomId, currentUserId, action)
+      ) {
+        return true;
+      }
+      emitSocketError(
+        socket,
+        createSocketError(SocketErrorCode.UNAUTHORIZED, message)
+      );
+      return false;
+    };
+
+    // Carets, selections and activity pings are dropped without an error for
+    // viewers: their clients send them too, but they'd show edits that can't
+    // happen
+    const canShowEditorPresence = (): boolean =>
+      Boolean(
+        currentUserId &&
+          currentRoomId &&
+          roomService.hasPermission(currentRoomId, currentUserId, 'edit')
+      );
+
+    /**
+     * Shared by kick-user and ban-user: the target is removed from the room
+     * and its socket.io room and told why. A ban additionally records the
+     * user's ID and browser's client ID so they can't join again.
+     */
+    const removeFromRoom = (raw: unknown, ban: boolean): void => {
+      if (!currentUserId || !currentRoomId) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.UNAUTHORIZED,
+            `Must join room before ${ban ? 'banning' : 'kicking'} users`
+          )
+        );
+        return;
+      }
+
+      if (
+        !ensurePermission(
+          'moderate',
+          'Only the owner and moderators can remove users'
+        )
+      ) {
+        return;
+      }
+
+      const data =
+        typeof raw === 'object' && raw !== null
+          ? (raw as Partial<ModerateUserRequest>)
+          : {};
+      const reasonValidation =
+        data.reason === undefined
+          ? { isValid: true }
+          : validateModerationReason(data.reason);
+      if (typeof data.userId !== 'string' || !reasonValidation.isValid) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            reasonValidation.error ??
+              `Invalid ${ban ? 'ban-user' : 'kick-user'} payload`
+          )
+        );
+        return;
+      }
+
+      const roomId = currentRoomId;
+      const target = roomService.getUserInRoom(roomId, data.userId);
+      if (!target) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.USER_NOT_FOUND,
+            'User not found in room'
+          )
+        );
+        return;
+      }
+
+      const actorRole = roomService.getUserRole(roomId, currentUserId);
+      if (
+        target.id === currentUserId ||
+        !actorRole ||
+        !canModerate(actorRole, target.role ?? 'participant')
+      ) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.UNAUTHORIZED,
+            'You cannot remove this user'
+          )
+        );
+        return;
+      }
+
+      const reason = data.reason ? sanitizeInput(data.reason) : '';
+      const targetSocket = io.sockets.sockets.get(target.socketId);
+
+      if (ban) {
+        roomService.banUser(roomId, {
+          userId: target.id,
+          nickname: target.nickname,
+          clientId: roomService.getClientId(roomId, target.id),
+          bannedBy: currentUserId,
+          bannedAt: new Date(),
+          reason: reason || undefined,
+        });
+      }
+
+      cancelPendingRemoval(roomId, target.id);
+      roomService.removeUserFromRoom(roomId, target.id);
+      if (targetSocket) {
+        const kicked: KickedEvent = {
+          reason: reason || undefined,
+          banned: ban,
+        };
+        targetSocket.emit('kicked', kicked);
+      }
+      leaveRoomHooks.get(target.socketId)?.();
+      io.to(roomId).emit('user-left', target.id);
+
+      if (ban) {
+        emitBansToModerators(roomId);
+      }
+
+      logger.info(ban ? 'User banned from room' : 'User kicked from room', {
+        roomId,
+        userId: target.id,
+        nickname: target.nickname,
+        by: currentUserId,
+      });
+    };
+
+    const emitPinnedMessages = (roomId: string): void => {
+      const event: PinnedMessagesUpdatedEvent = {
+        pinnedMessages: roomService.getPinnedMessages(roomId),
+      };
+      io.to(roomId).emit('pinned-messages-updated', event);
+    };
+
+    // Shared by pin-message and unpin-message (owners and moderators only)
+    const setMessagePinned = (raw: unknown, pinned: boolean): void => {
+      const eventName = pinned ? 'pin-message' : 'unpin-message';
+      if (!currentUserId || !currentRoomId) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.UNAUTHORIZED,
+            `Must join room before ${pinned ? 'pinning' : 'unpinning'} messages`
+          )
+        );
+        return;
+      }
+
+      if (
+        !ensurePermission(
+          'manage-chat',
+          'Only the owner and moderators can pin messages'
+        )
+      ) {
+        return;
+      }
+
+      const data =
+        typeof raw === 'object' && raw !== null
+          ? (raw as Partial<PinMessageRequest>)
+          : {};
+      if (typeof data.messageId !== 'string') {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            `Invalid ${eventName} payload`
+          )
+        );
+        return;
+      }
+
+      const roomId = currentRoomId;
+      if (pinned) {
+        const message = roomService.getMessage(roomId, data.messageId);
+        if (!message || message.deletedAt) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Message not found'
+            )
+          );
+          return;
+        }
+        if (
+          !roomService.isMessagePinned(roomId, data.messageId) &&
+          roomService.getPinnedMessages(roomId).length >= MAX_PINNED_MESSAGES
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              `Rooms can have at most ${MAX_PINNED_MESSAGES} pinned messages`
+            )
+          );
+          return;
+        }
+      }
+
+      const changed = pinned
+        ? roomService.pinMessage(roomId, data.messageId)
+        : roomService.unpinMessage(roomId, data.messageId);
+      if (changed) {
+        emitPinnedMessages(roomId);
+        logger.info(pinned ? 'Message pinned' : 'Message unpinned', {
+          roomId,
+          messageId: data.messageId,
+          by: currentUserId,
+        });
+      }
+    };
+
+    // Mentioned users also get a targeted event, e.g. for notifications;
+    // edits skip the users the message already mentioned
+    const notifyMentioned = (
+      roomId: string,
+      message: ChatMessage,
+      alreadyMentionedIds: ReadonlySet<string> = new Set()
+    ): void => {
+      const mentionedIds = new Set(message.mentions?.map(m => m.userId));
+      const mentionedEvent: MentionedEvent = { message };
+      roomService
+        .getUsersInRoom(roomId)
+        .filter(
+          u =>
+            u.isOnline &&
+            u.id !== message.userId &&
+            mentionedIds.has(u.id) &&
+            !alreadyMentionedIds.has(u.id)
+        )
+        .forEach(u => io.to(u.socketId).emit('mentioned', mentionedEvent));
+    };
+
+    const postMessage = (roomId: string, message: ChatMessage): void => {
+      roomService.addMessage(roomId, message);
+      io.to(roomId).emit('new-message', message);
+      notifyMentioned(roomId, message);
+    };
+
+    // Shared by create-poll and /poll; the caller has checked the payload
+    const createPoll = (
+      roomId: string,
+      userId: string,
+      request: CreatePollRequest
+    ): void => {
+      if (!ensurePermission('chat', 'Viewers cannot create polls')) {
+        return;
+      }
+
+      // Options are single lines of text
+      const question = sanitizeMessage(request.question).trim();
+      const options = request.options.map(option =>
+        sanitizeMessage(option).replace(/\s+/g, ' ').trim()
+      );
+      const pollValidation = validatePoll(question, options);
+      if (!pollValidation.isValid) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            pollValidation.error ?? 'Invalid poll'
+          )
+        );
+        return;
+      }
+
+      const closesAt =
+        request.closesAt !== undefined ? new Date(request.closesAt) : undefined;
+      if (
+        closesAt &&
+        (isNaN(closesAt.getTime()) || closesAt.getTime() <= Date.now())
+      ) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            'Polls must close in the future'
+          )
+        );
+        return;
+      }
+
+      const user = roomService.getUserInRoom(roomId, userId);
+      if (!user) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.USER_NOT_FOUND,
+            'User not found in room'
+          )
+        );
+        return;
+      }
+
+      const message: ChatMessage = {
+        id: uuidv4(),
+        userId,
+        nickname: user.nickname,
+        content: question,
+        timestamp: new Date(),
+        poll: {
+          question,
+          options: options.map(text => ({ id: uuidv4(), text, votes: 0 })),
+          multipleChoice: request.multipleChoice === true,
+          anonymous: request.anonymous === true,
+          closesAt,
+          voterCount: 0,
+        },
+      };
+      postMessage(roomId, message);
+
+      logger.info('Poll created', {
+        roomId,
+        userId,
+        messageId: message.id,
+      });
+    };
+
+    // Shared by set-announcement and /topic; callers check the permission
+    const changeAnnouncement = (
+      roomId: string,
+      userId: string,
+      text: string
+    ): void => {
+      const validation = validateAnnouncement(text);
+      if (!validation.isValid) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            validation.error ?? 'Invalid announcement'
+          )
+        );
+        return;
+      }
+
+      const announcement = sanitizeMessage(text).trim();
+      roomService.setAnnouncement(roomId, announcement);
+      const event: AnnouncementChangedEvent = {
+        announcement: announcement || undefined,
+        setBy: userId,
+      };
+      io.to(roomId).emit('announcement-changed', event);
+
+      logger.info('Room announcement changed', {
+        roomId,
+        cleared: !announcement,
+        by: userId,
+      });
+    };
+
+    // Shared by change-nickname and /nick. The user's past messages follow
+    // the new nickname; clients match them by user ID.
+    const changeNickname = (
+      roomId: string,
+      userId: string,
+      requested: string
+    ): void => {
+      if (!renameLimiter.isAllowed(socket.id)) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.RATE_LIMITED,
+            'Too many nickname changes. Please wait before trying again.'
+          )
+        );
+        return;
+      }
+
+      const validation = validateNickname(requested);
+      if (!validation.isValid) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            validation.error ?? 'Invalid nickname'
+          )
+        );
+        return;
+      }
+
+      const nickname = sanitizeInput(requested);
+      if (!roomService.isNicknameAvailableForUser(roomId, nickname, userId)) {
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.NICKNAME_TAKEN,
+            'This nickname is already taken in this room'
+          )
+        );
+        return;
+      }
+
+      if (roomService.renameUser(roomId, userId, nickname)) {
+        const event: UserRenamedEvent = { userId, nickname };
+        io.to(roomId).emit('user-renamed', event);
+      }
+    };
+
+    const emitUsage = (usage: string): void => {
+      emitSocketError(
+        socket,
+        createSocketError(SocketErrorCode.VALIDATION, `Usage: ${usage}`)
+      );
+    };
+
+    const emitUserNotFound = (): void => {
+      emitSocketError(
+        socket,
+        createSocketError(
+          SocketErrorCode.USER_NOT_FOUND,
+          'User not found in room'
+        )
+      );
+    };
+
+    // Slash commands typed in the chat input, by name. Each handler checks
+    // its own permissions and arguments. /clear only affects the sender's
+    // view, so it never reaches the server.
+    const commandHandlers = new Map<string, CommandHandler>([
+      [
+        'nick',
+        (args, roomId, userId) => {
+          if (!args) {
+            emitUsage('/nick <nickname>');
+            return;
+          }
+          changeNickname(roomId, userId, args);
+        },
+      ],
+      [
+        'me',
+        (args, roomId, userId) => {
+          if (!ensurePermission('chat', 'Viewers cannot send messages')) {
+            return;
+          }
+          if (!args) {
+            emitUsage('/me <action>');
+            return;
+          }
+          const validation = validateMessage(args);
+          if (!validation.isValid) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.VALIDATION,
+                validation.error ?? 'Invalid message'
+              )
+            );
+            return;
+          }
+          const user = roomService.getUserInRoom(roomId, userId);
+          if (!user) {
+            emitUserNotFound();
+            return;
+          }
+
+          const content = sanitizeMessage(args);
+          const mentions = parseMentions(
+            content,
+            roomService.getUsersInRoom(roomId)
+          );
+          postMessage(roomId, {
+            id: uuidv4(),
+            userId,
+            nickname: user.nickname,
+            content,
+            timestamp: new Date(),
+            mentions: mentions.length > 0 ? mentions : undefined,
+            kind: 'action',
+          });
+        },
+      ],
+      [
+        'poll',
+        (args, roomId, userId) => {
+          const poll = parsePollArgs(args);
+          if (!poll) {
+            emitUsage('/poll <question> | <option> | <option>');
+            return;
+          }
+          createPoll(roomId, userId, poll);
+        },
+      ],
+      [
+        'topic',
+        (args, roomId, userId) => {
+          // An empty topic removes the announcement banner
+          if (
+            ensurePermission(
+              'manage-chat',
+              'Only the owner and moderators can set the topic'
+            )
+          ) {
+            changeAnnouncement(roomId, userId, args);
+          }
+        },
+      ],
+      [
+        'timer',
+        (args, roomId, userId) => {
+          if (!ensurePermission('chat', 'Viewers cannot start timers')) {
+            return;
+          }
+          const parsed = parseTimerArgs(args);
+          if (!parsed) {
+            emitUsage('/timer <duration> [label], e.g. /timer 5m Break');
+            return;
+          }
+
+          const label = sanitizeMessage(parsed.label).trim();
+          const timers = roomTimers.get(roomId) ?? new Set<NodeJS.Timeout>();
+          if (
+            label.length > MAX_TIMER_LABEL_LENGTH ||
+            timers.size >= MAX_TIMERS_PER_ROOM
+          ) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.VALIDATION,
+                label.length > MAX_TIMER_LABEL_LENGTH
+                  ? `Timer labels must be no more than ${MAX_TIMER_LABEL_LENGTH} characters`
+                  : `Rooms can have at most ${MAX_TIMERS_PER_ROOM} timers running`
+              )
+            );
+            return;
+          }
+          const user = roomService.getUserInRoom(roomId, userId);
+          if (!user) {
+            emitUserNotFound();
+            return;
+          }
+
+          const duration = formatDuration(parsed.durationMs);
+          const suffix = label ? `: ${label}` : '';
+          postMessage(roomId, {
+            id: uuidv4(),
+            userId,
+            nickname: user.nickname,
+            content: `started a ${duration} timer${suffix}`,
+            timestamp: new Date(),
+            kind: 'action',
+          });
+
+          const timer = setTimeout(() => {
+            timers.delete(timer);
+            if (timers.size === 0) {
+              roomTimers.delete(roomId);
+            }
+            try {
+              // The room may have been deleted in the meantime
+              if (roomService.roomExists(roomId)) {
+                postMessage(roomId, {
+                  id: uuidv4(),
+                  userId,
+                  nickname: user.nickname,
+                  content: `${duration} timer finished${suffix}`,
+                  timestamp: new Date(),
+                  kind: 'notice',
+                });
+              }
+            } catch (timerError) {
+              logger.error('Error finishing timer', {
+                error:
+                  timerError instanceof Error
+                    ? timerError.message
+                    : String(timerError),
+                roomId,
+                userId,
+              });
+            }
+          }, parsed.durationMs);
+          // Don't hold the process open just for timers
+          timer.unref();
+          timers.add(timer);
+          roomTimers.set(roomId, timers);
+
+          logger.info('Timer started', {
+            roomId,
+            userId,
+            durationMs: parsed.durationMs,
+          });
+        },
+      ],
+    ]);
+
     // Handle joining a room
     socket.on('join-room', (raw: unknown) => {
       try {
@@ -62,10 +887,10 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
-        const { roomId, nickname, userId: existingUserId } = data;
+        const { roomId: roomRef, nickname, sessionToken } = data;
 
-        // Validate room ID
-        const roomIdValidation = validateRoomId(roomId);
+        // Validate room ID (links may use the room's slug instead)
+        const roomIdValidation = validateRoomIdOrSlug(roomRef);
         if (!roomIdValidation.isValid) {
           emitSocketError(
             socket,
@@ -93,7 +918,8 @@ export function setupSocketHandlers(io: SocketIOServer) {
         const sanitizedNickname = sanitizeInput(nickname);
 
         // Check if the room exists
-        if (!roomService.roomExists(roomId)) {
+        const roomId = roomService.resolveRoomId(roomRef);
+        if (!roomId) {
           emitSocketError(
             socket,
             createSocketError(SocketErrorCode.ROOM_NOT_FOUND, 'Room not found')
@@ -101,6 +927,97 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
+        // Only restore an identity the server issued for this room
+        let existingUserId: string | undefined;
+        if (sessionToken !== undefined) {
+          existingUserId =
+            typeof sessionToken === 'string'
+              ? (verifySessionToken(sessionToken, roomId) ?? undefined)
+              : undefined;
+          if (!existingUserId) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.INVALID_SESSION,
+                'Your session is no longer valid. Please join again.'
+              )
+            );
+            return;
+          }
+        }
+
+        // Bans match the user ID and, for anyone who isn't already a
+        // member, the browser's client ID, so a fresh nickname doesn't help
+        const isMember =
+          existingUserId !== undefined &&
+          roomService.isUserInRoom(roomId, existingUserId);
+        if (
+          roomService.isBanned(
+            roomId,
+            existingUserId,
+            isMember ? undefined : clientId
+          )
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.BANNED,
+              'You have been banned from this room'
+            )
+          );
+          return;
+        }
+
+        // Locks and passcodes only keep out new users; members coming back
+        // (e.g. after a refresh) got in already
+        if (!isMember) {
+          if (roomService.isRoomLocked(roomId)) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.ROOM_LOCKED,
+                'This room is locked. No new users can join.'
+              )
+            );
+            return;
+          }
+
+          // Wrong passcodes count per address and room, so reconnecting
+          // doesn't reset them; a locked out address doesn't even get its
+          // passcode hashed. Behind a reverse proxy, everyone it forwards
+          // shares the proxy's address and so the lockout.
+          const passcodeKey = `${roomId}:${socket.handshake.address}`;
+          if (passcodeLockout.isLockedOut(passcodeKey)) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.RATE_LIMITED,
+                'Too many incorrect passcodes. Please wait before trying again.'
+              )
+            );
+            return;
+          }
+
+          const passcode =
+            typeof data.passcode === 'string' ? data.passcode : undefined;
+          if (!roomService.checkPasscode(roomId, passcode)) {
+            if (passcode !== undefined) {
+              passcodeLockout.recordFailure(passcodeKey);
+            }
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.INVALID_PASSCODE,
+                passcode === undefined
+                  ? 'This room requires a passcode'
+                  : 'Incorrect passcode'
+              )
+            );
+            return;
+          }
+          passcodeLockout.recordSuccess(passcodeKey);
+        }
+
         // Handle returning user with existing userId
         if (
           existingUserId &&
@@ -130,9 +1047,11 @@ export function setupSocketHandlers(io: SocketIOServer) {
               return;
             }
 
-            // For returning users, use the server's saved nickname instead of client's
-            // This prevents unexpected nickname changes since we don't provide rename UI
+            // For returning users, use the server's saved nickname instead of
+            // the client's: it follows renames made from any other tab
             const serverNickname = existingUser.nickname;
+            const wasOffline = !existingUser.isOnline;
+            cancelPendingRemoval(roomId, existingUserId);
 
             // Update existing user's socket ID (keep server's nickname)
             roomService.updateUserInRoom(
@@ -141,28 +1060,55 @@ export function setupSocketHandlers(io: SocketIOServer) {
               serverNickname,
               socket.id
             );
+            roomService.setClientId(roomId, existingUserId, clientId);
             void socket.join(roomId);
 
             // IMPORTANT: mark this socket's current user + room so later events (send-message, typing, disconnect)
             currentUserId = existingUserId;
             currentRoomId = roomId;
 
+            // Everyone may have been offline when the owner left
+            runSuccession(roomId);
+
             // Send current room state to returning user
             const users = roomService.getUsersInRoom(roomId);
-            const messages = roomService.getMessages(roomId);
+            const history = roomService.getMessagePage(roomId);
             const room = roomService.getRoom(roomId);
             const capacityInfo = roomService.getRoomCapacityInfo(roomId);
             const response: JoinRoomResponse = {
               success: true,
               users,
-              messages,
+              messages: history.messages,
+              hasMoreMessages: history.hasMore,
               userId: existingUserId,
+              sessionToken: createSessionToken(roomId, existingUserId),
+              roomId,
+              roomName: room?.name,
+              roomSlug: room?.slug,
               ownerId: room?.ownerId,
               ownerNickname: room?.ownerNickname,
+              requiresPasscode: roomService.requiresPasscode(roomId),
+              isLocked: roomService.isRoomLocked(roomId),
+              pinnedMessages: roomService.getPinnedMessages(roomId),
+              announcement: roomService.getAnnouncement(roomId),
+              readReceipts: roomService.getReadReceipts(roomId),
               capacity: capacityInfo ?? undefined,
             };
             socket.emit('room-joined', response);
 
+            if (wasOffline) {
+              const status: UserStatusEvent = {
+                userId: existingUserId,
+                isOnline: true,
+              };
+              socket.to(roomId).emit('user-status-changed', status);
+            }
+            const presence: PresenceChangedEvent = {
+              userId: existingUserId,
+              presence: 'active',
+            };
+            socket.to(roomId).emit('presence-changed', presence);
+
             logger.info(
               `User ${serverNickname} (${existingUserId}) rejoined room ${roomId}${
                 nickname !== serverNickname
@@ -186,8 +1132,9 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
-        // Check if room has capacity for new user (only for truly new users)
-        if (!existingUserId && !roomService.hasCapacity(roomId)) {
+        // Check if room has capacity for new user; a valid session of someone
+        // no longer in the room (e.g. past the grace period) needs a seat too
+        if (!isMember && !roomService.hasCapacity(roomId)) {
           const capacityInfo = roomService.getRoomCapacityInfo(roomId);
           emitSocketError(
             socket,
@@ -224,14 +1171,17 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
+        roomService.setClientId(roomId, userId, clientId);
+
         // Join socket room
         void socket.join(roomId);
         currentUserId = userId;
         currentRoomId = roomId;
+        runSuccession(roomId);
 
         // Get current room state
         const users = roomService.getUsersInRoom(roomId);
-        const messages = roomService.getMessages(roomId);
+        const history = roomService.getMessagePage(roomId);
         const room = roomService.getRoom(roomId);
 
         // Send response to the joining user
@@ -239,10 +1189,20 @@ export function setupSocketHandlers(io: SocketIOServer) {
         const response: JoinRoomResponse = {
           success: true,
           users,
-          messages,
+          messages: history.messages,
+          hasMoreMessages: history.hasMore,
           userId, // Include the userId in the response
+          sessionToken: createSessionToken(roomId, userId),
+          roomId,
+          roomName: room?.name,
+          roomSlug: room?.slug,
           ownerId: room?.ownerId,
           ownerNickname: room?.ownerNickname,
+          requiresPasscode: roomService.requiresPasscode(roomId),
+          isLocked: roomService.isRoomLocked(roomId),
+          pinnedMessages: roomService.getPinnedMessages(roomId),
+          announcement: roomService.getAnnouncement(roomId),
+          readReceipts: roomService.getReadReceipts(roomId),
           capacity: capacityInfo ?? undefined,
         };
         socket.emit('room-joined', response);
@@ -277,9 +1237,15 @@ export function setupSocketHandlers(io: SocketIOServer) {
       try {
         const data =
           typeof raw === 'object' && raw !== null
-            ? (raw as { content?: string })
+            ? (raw as Partial<SendMessageRequest>)
             : {};
-        if (typeof data.content !== 'string') {
+        if (
+          typeof data.content !== 'string' ||
+          (data.parentId !== undefined && typeof data.parentId !== 'string') ||
+          (data.attachmentIds !== undefined &&
+            (!Array.isArray(data.attachmentIds) ||
+              !data.attachmentIds.every(id => typeof id === 'string')))
+        ) {
           emitSocketError(
             socket,
             createSocketError(
@@ -309,10 +1275,61 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
-        const { content } = data;
+        if (!ensurePermission('chat', 'Viewers cannot send messages')) {
+          return;
+        }
+
+        const { content, parentId, attachmentIds = [] } = data;
 
-        // Validate message content
-        const messageValidation = validateMessage(content);
+        // Attachments must have been uploaded to this room by the sender and
+        // not sent yet: deleting a message deletes its files
+        const uniqueAttachmentIds = Array.from(new Set(attachmentIds));
+        if (
+          uniqueAttachmentIds.length > VALIDATION_RULES.message.maxAttachments
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              `Messages can have at most ${VALIDATION_RULES.message.maxAttachments} attachments`
+            )
+          );
+          return;
+        }
+        const attachments: Attachment[] = [];
+        for (const attachmentId of uniqueAttachmentIds) {
+          const attachment = roomService.getAttachment(
+            currentRoomId,
+            attachmentId
+          );
+          if (attachment?.uploadedBy !== currentUserId) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.VALIDATION,
+                'Attachment not found'
+              )
+            );
+            return;
+          }
+          if (attachment.messageId) {
+            emitSocketError(
+              socket,
+              createSocketError(
+                SocketErrorCode.VALIDATION,
+                'Attachment has already been sent'
+              )
+            );
+            return;
+          }
+          attachments.push(attachment);
+        }
+
+        // Validate message content; it may be empty next to attachments
+        const messageValidation =
+          attachments.length > 0 && content.trim() === ''
+            ? { isValid: true }
+            : validateMessage(content);
         if (!messageValidation.isValid) {
           emitSocketError(
             socket,
@@ -324,8 +1341,8 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
-        // Sanitize message content
-        const sanitizedContent = sanitizeInput(content);
+        // Sanitize message content, keeping its Markdown intact
+        const sanitizedContent = sanitizeMessage(content);
 
         // Get user info
         const users = roomService.getUsersInRoom(currentRoomId);
@@ -341,72 +1358,1653 @@ export function setupSocketHandlers(io: SocketIOServer) {
           return;
         }
 
-        // Create message
-        const message: ChatMessage = {
-          id: uuidv4(),
-          userId: currentUserId,
-          nickname: user.nickname,
-          content: sanitizedContent,
-          timestamp: new Date(),
-        };
-
-        // Add message to room
+        // Replies go in the thread of a live top-level message
+        const parent = parentId
+          ? roomService.getMessage(currentRoomId, parentId)
+          : undefined;
+        if (parentId && (!parent || parent.deletedAt)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Thread not found'
+            )
+          );
+          return;
+        }
+        if (parent?.parentId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Replies cannot start their own thread'
+            )
+          );
+          return;
+        }
+
+        const mentions = parseMentions(sanitizedContent, users);
+
+        // Create message
+        const message: ChatMessage = {
+          id: uuidv4(),
+          userId: currentUserId,
+          nickname: user.nickname,
+          content: sanitizedContent,
+          timestamp: new Date(),
+          parentId,
+          mentions: mentions.length > 0 ? mentions : undefined,
+          attachments: attachments.length > 0 ? attachments : undefined,
+        };
+
+        // Add message to room
+        roomService.markAttachmentsSent(
+          currentRoomId,
+          attachments.map(a => a.id),
+          message.id
+        );
         roomService.addMessage(currentRoomId, message);
 
-        // Broadcast message to all users in the room
-        io.to(currentRoomId).emit('new-message', message);
+        if (parent) {
+          // Keep replies out of the main timeline
+          const event: ThreadReplyEvent = {
+            message,
+            replyCount:
+              roomService.getMessage(currentRoomId, parent.id)?.replyCount ?? 1,
+            lastReplyAt: message.timestamp,
+          };
+          io.to(currentRoomId).emit('thread-reply', event);
+
+          const parentAuthor = users.find(u => u.id === parent.userId);
+          if (parentAuthor?.isOnline && parentAuthor.id !== currentUserId) {
+            const notification: ReplyNotificationEvent = {
+              parentId: parent.id,
+              messageId: message.id,
+              nickname: user.nickname,
+            };
+            io.to(parentAuthor.socketId).emit(
+              'reply-notification',
+              notification
+            );
+          }
+        } else {
+          // Broadcast message to all users in the room
+          io.to(currentRoomId).emit('new-message', message);
+        }
+
+        notifyMentioned(currentRoomId, message);
+
+        logger.info('Message sent', {
+          roomId: currentRoomId,
+          userId: currentUserId,
+          nickname: user.nickname,
+          messageId: message.id,
+        });
+      } catch (error) {
+        logger.error('Error sending message', {
+          error: error instanceof Error ? error.message : String(error),
+          roomId: currentRoomId,
+          userId: currentUserId,
+          socketId: socket.id,
+        });
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.MESSAGE_FAILED,
+            'Failed to send message',
+            { raw: error instanceof Error ? error.message : String(error) }
+          )
+        );
+      }
+    });
+
+    socket.on('change-nickname', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before changing nickname'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<ChangeNicknameRequest>)
+            : {};
+        if (typeof data.nickname !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid change-nickname payload'
+            )
+          );
+          return;
+        }
+
+        changeNickname(currentRoomId, currentUserId, data.nickname);
+      } catch (error) {
+        logger.error('Error changing nickname', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    socket.on('run-command', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before running commands'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<RunCommandRequest>)
+            : {};
+        if (typeof data.command !== 'string' || typeof data.args !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid run-command payload'
+            )
+          );
+          return;
+        }
+
+        if (!messageLimiter.isAllowed(socket.id)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.RATE_LIMITED,
+              'Too many messages. Please slow down.'
+            )
+          );
+          return;
+        }
+
+        const handler = commandHandlers.get(data.command.toLowerCase());
+        if (!handler) {
+          emitSocketError(
+            socket,
+            createSocketError(SocketErrorCode.VALIDATION, 'Unknown command')
+          );
+          return;
+        }
+        handler(data.args.trim(), currentRoomId, currentUserId);
+      } catch (error) {
+        logger.error('Error running command', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Send all replies in one thread, for the thread panel
+    socket.on('load-thread', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before loading threads'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<LoadThreadRequest>)
+            : {};
+        if (typeof data.parentId !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid load-thread payload'
+            )
+          );
+          return;
+        }
+
+        if (!roomService.getMessage(currentRoomId, data.parentId)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Thread not found'
+            )
+          );
+          return;
+        }
+
+        const event: ThreadMessagesEvent = {
+          parentId: data.parentId,
+          messages: roomService.getThread(currentRoomId, data.parentId),
+        };
+        socket.emit('thread-messages', event);
+      } catch (error) {
+        logger.error('Error loading thread', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Authors can correct their own messages
+    socket.on('edit-message', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before editing messages'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<EditMessageRequest>)
+            : {};
+        if (
+          typeof data.messageId !== 'string' ||
+          typeof data.content !== 'string'
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid edit-message payload'
+            )
+          );
+          return;
+        }
+
+        if (!messageLimiter.isAllowed(socket.id)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.RATE_LIMITED,
+              'Too many messages. Please slow down.'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('chat', 'Viewers cannot edit messages')) {
+          return;
+        }
+
+        const existing = roomService.getMessage(currentRoomId, data.messageId);
+        if (!existing || existing.deletedAt) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Message not found'
+            )
+          );
+          return;
+        }
+        if (existing.userId !== currentUserId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'You can only edit your own messages'
+            )
+          );
+          return;
+        }
+        if (existing.poll || existing.kind === 'notice') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              existing.poll
+                ? 'Polls cannot be edited'
+                : 'Notices cannot be edited'
+            )
+          );
+          return;
+        }
+
+        const messageValidation = validateMessage(data.content);
+        if (!messageValidation.isValid) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              messageValidation.error ?? 'Invalid message'
+            )
+          );
+          return;
+        }
+
+        const content = sanitizeMessage(data.content);
+        const previouslyMentionedIds = new Set(
+          existing.mentions?.map(m => m.userId)
+        );
+        const updated = roomService.editMessage(
+          currentRoomId,
+          data.messageId,
+          content,
+          parseMentions(content, roomService.getUsersInRoom(currentRoomId))
+        );
+        if (updated) {
+          io.to(currentRoomId).emit('message-updated', updated);
+          notifyMentioned(currentRoomId, updated, previouslyMentionedIds);
+        }
+      } catch (error) {
+        logger.error('Error editing message', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Authors can delete their own messages; the owner and moderators can
+    // delete anyone's (e.g. an accidentally pasted secret)
+    socket.on('delete-message', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before deleting messages'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<DeleteMessageRequest>)
+            : {};
+        if (typeof data.messageId !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid delete-message payload'
+            )
+          );
+          return;
+        }
+
+        const existing = roomService.getMessage(currentRoomId, data.messageId);
+        if (!existing || existing.deletedAt) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Message not found'
+            )
+          );
+          return;
+        }
+
+        const isAuthor = existing.userId === currentUserId;
+        if (
+          !ensurePermission(
+            isAuthor ? 'chat' : 'moderate',
+            isAuthor
+              ? 'Viewers cannot delete messages'
+              : "Only the owner and moderators can delete other users' messages"
+          )
+        ) {
+          return;
+        }
+
+        // Read before deleting: the tombstone drops its attachments and pin
+        const attachmentIds = existing.attachments?.map(a => a.id) ?? [];
+        const wasPinned = roomService.isMessagePinned(
+          currentRoomId,
+          data.messageId
+        );
+        const deleted = roomService.deleteMessage(
+          currentRoomId,
+          data.messageId
+        );
+        if (deleted?.deletedAt) {
+          attachmentService.deleteAttachments(currentRoomId, attachmentIds);
+
+          const event: MessageDeletedEvent = {
+            messageId: deleted.id,
+            deletedAt: deleted.deletedAt,
+            deletedBy: currentUserId,
+          };
+          io.to(currentRoomId).emit('message-deleted', event);
+          if (wasPinned) {
+            emitPinnedMessages(currentRoomId);
+          }
+        }
+
+        logger.info('Message deleted', {
+          roomId: currentRoomId,
+          messageId: data.messageId,
+          by: currentUserId,
+        });
+      } catch (error) {
+        logger.error('Error deleting message', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Toggle the user's emoji reaction on a message
+    socket.on('react-message', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before reacting to messages'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<ReactMessageRequest>)
+            : {};
+        if (
+          typeof data.messageId !== 'string' ||
+          typeof data.emoji !== 'string'
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid react-message payload'
+            )
+          );
+          return;
+        }
+
+        if (!reactionLimiter.isAllowed(socket.id)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.RATE_LIMITED,
+              'Too many reactions. Please slow down.'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('chat', 'Viewers cannot react to messages')) {
+          return;
+        }
+
+        const reactionValidation = validateReaction(data.emoji);
+        if (!reactionValidation.isValid) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              reactionValidation.error ?? 'Invalid reaction'
+            )
+          );
+          return;
+        }
+
+        const reactions = roomService.toggleReaction(
+          currentRoomId,
+          data.messageId,
+          data.emoji,
+          currentUserId
+        );
+        if (!reactions) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Message not found'
+            )
+          );
+          return;
+        }
+
+        const event: MessageReactionsUpdatedEvent = {
+          messageId: data.messageId,
+          reactions,
+        };
+        io.to(currentRoomId).emit('message-reactions-updated', event);
+      } catch (error) {
+        logger.error('Error reacting to message', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Polls are chat messages whose content is the question
+    socket.on('create-poll', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before creating polls'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<CreatePollRequest>)
+            : {};
+        if (
+          typeof data.question !== 'string' ||
+          !Array.isArray(data.options) ||
+          !data.options.every(option => typeof option === 'string') ||
+          (data.multipleChoice !== undefined &&
+            typeof data.multipleChoice !== 'boolean') ||
+          (data.anonymous !== undefined &&
+            typeof data.anonymous !== 'boolean') ||
+          (data.closesAt !== undefined && typeof data.closesAt !== 'string')
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid create-poll payload'
+            )
+          );
+          return;
+        }
+
+        if (!messageLimiter.isAllowed(socket.id)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.RATE_LIMITED,
+              'Too many messages. Please slow down.'
+            )
+          );
+          return;
+        }
+
+        createPoll(currentRoomId, currentUserId, {
+          question: data.question,
+          options: data.options,
+          multipleChoice: data.multipleChoice,
+          anonymous: data.anonymous,
+          closesAt: data.closesAt,
+        });
+      } catch (error) {
+        logger.error('Error creating poll', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Votes replace the voter's previous choice
+    socket.on('vote-poll', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before voting'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<VotePollRequest>)
+            : {};
+        if (
+          typeof data.messageId !== 'string' ||
+          !Array.isArray(data.optionIds) ||
+          !data.optionIds.every(id => typeof id === 'string')
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid vote-poll payload'
+            )
+          );
+          return;
+        }
+
+        // Votes share the reactions budget
+        if (!reactionLimiter.isAllowed(socket.id)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.RATE_LIMITED,
+              'Too many votes. Please slow down.'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('chat', 'Viewers cannot vote in polls')) {
+          return;
+        }
+
+        const poll = roomService.getMessage(
+          currentRoomId,
+          data.messageId
+        )?.poll;
+        if (!poll) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Poll not found'
+            )
+          );
+          return;
+        }
+
+        const optionIds = Array.from(new Set(data.optionIds));
+        let validationError: string | undefined;
+        if (!isPollOpen(poll)) {
+          validationError = 'This poll is closed';
+        } else if (
+          !optionIds.every(id => poll.options.some(o => o.id === id))
+        ) {
+          validationError = 'Invalid poll option';
+        } else if (!poll.multipleChoice && optionIds.length > 1) {
+          validationError = 'This poll allows only one choice';
+        }
+        if (validationError) {
+          emitSocketError(
+            socket,
+            createSocketError(SocketErrorCode.VALIDATION, validationError)
+          );
+          return;
+        }
+
+        const updated = roomService.votePoll(
+          currentRoomId,
+          data.messageId,
+          currentUserId,
+          optionIds
+        );
+        if (updated) {
+          const event: PollUpdatedEvent = {
+            messageId: data.messageId,
+            poll: updated,
+          };
+          io.to(currentRoomId).emit('poll-updated', event);
+        }
+      } catch (error) {
+        logger.error('Error voting in poll', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Only the poll's creator or the room owner can close it early
+    socket.on('close-poll', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before closing polls'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<ClosePollRequest>)
+            : {};
+        if (typeof data.messageId !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid close-poll payload'
+            )
+          );
+          return;
+        }
+
+        const message = roomService.getMessage(currentRoomId, data.messageId);
+        if (!message?.poll) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Poll not found'
+            )
+          );
+          return;
+        }
+        if (
+          message.userId !== currentUserId &&
+          roomService.getUserRole(currentRoomId, currentUserId) !== 'owner'
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Only the creator or the owner can close this poll'
+            )
+          );
+          return;
+        }
+
+        const closed = roomService.closePoll(currentRoomId, message.id);
+        if (!closed) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'This poll is already closed'
+            )
+          );
+          return;
+        }
+
+        const event: PollUpdatedEvent = {
+          messageId: message.id,
+          poll: closed,
+        };
+        io.to(currentRoomId).emit('poll-updated', event);
+        logger.info('Poll closed', {
+          roomId: currentRoomId,
+          messageId: message.id,
+          by: currentUserId,
+        });
+      } catch (error) {
+        logger.error('Error closing poll', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    socket.on('pin-message', (raw: unknown) => {
+      try {
+        setMessagePinned(raw, true);
+      } catch (error) {
+        logger.error('Error pinning message', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    socket.on('unpin-message', (raw: unknown) => {
+      try {
+        setMessagePinned(raw, false);
+      } catch (error) {
+        logger.error('Error unpinning message', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Page backwards through chat history from the client's oldest message
+    socket.on('load-older-messages', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before loading messages'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<LoadOlderMessagesRequest>)
+            : {};
+        if (
+          typeof data.before !== 'string' ||
+          (data.limit !== undefined && typeof data.limit !== 'number')
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid load-older-messages payload'
+            )
+          );
+          return;
+        }
+
+        const page = roomService.getMessagePage(currentRoomId, {
+          before: data.before,
+          limit: data.limit,
+        });
+        const event: OlderMessagesEvent = {
+          before: data.before,
+          messages: page.messages,
+          hasMore: page.hasMore,
+        };
+        socket.emit('older-messages', event);
+      } catch (error) {
+        logger.error('Error loading older messages', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Advance the user's read marker; everyone sees who has read what
+    socket.on('mark-read', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before marking messages as read'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<MarkReadRequest>)
+            : {};
+        if (typeof data.messageId !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid mark-read payload'
+            )
+          );
+          return;
+        }
+
+        const message = roomService.getMessage(currentRoomId, data.messageId);
+        if (!message || message.parentId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.MESSAGE_NOT_FOUND,
+              'Message not found'
+            )
+          );
+          return;
+        }
+
+        // Markers only move forward; re-reading older messages changes nothing
+        if (roomService.markRead(currentRoomId, currentUserId, message.id)) {
+          const event: ReadReceiptsEvent = {
+            receipts: roomService.getReadReceipts(currentRoomId),
+          };
+          io.to(currentRoomId).emit('read-receipts', event);
+        }
+      } catch (error) {
+        logger.error('Error marking messages as read', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle typing status
+    socket.on('user-typing', (raw: unknown) => {
+      try {
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { isTyping?: unknown })
+            : {};
+        const isTyping =
+          typeof data.isTyping === 'boolean' ? data.isTyping : false;
+        if (
+          !currentUserId ||
+          !currentRoomId ||
+          !roomService.hasPermission(currentRoomId, currentUserId, 'chat')
+        ) {
+          return;
+        }
+
+        const users = roomService.getUsersInRoom(currentRoomId);
+        const user = users.find(u => u.id === currentUserId);
+        if (!user) {
+          return;
+        }
+
+        // Broadcast typing status to other users in the room
+        socket.to(currentRoomId).emit('user-typing-status', {
+          userId: currentUserId,
+          nickname: user.nickname,
+          isTyping,
+        });
+      } catch (error) {
+        logger.error('Error handling typing status', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Sent every PRESENCE_HEARTBEAT_MS, and straight away when an idle user
+    // comes back. Silently dropped before joining, like editing status.
+    socket.on('presence-heartbeat', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<PresenceHeartbeatRequest>)
+            : {};
+        if (
+          typeof data.idleMs !== 'number' ||
+          !Number.isFinite(data.idleMs) ||
+          data.idleMs < 0
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid presence-heartbeat payload'
+            )
+          );
+          return;
+        }
+
+        if (!heartbeatLimiter.isAllowed(socket.id)) {
+          return;
+        }
+
+        const presence = roomService.recordHeartbeat(
+          currentRoomId,
+          currentUserId,
+          data.idleMs
+        );
+        if (presence) {
+          const event: PresenceChangedEvent = {
+            userId: currentUserId,
+            presence,
+          };
+          io.to(currentRoomId).emit('presence-changed', event);
+        }
+      } catch (error) {
+        logger.error('Error handling presence heartbeat', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    /**
+     * Handle document editing status updates for real-time collaboration awareness
+     */
+    socket.on('user-editing', (raw: unknown) => {
+      try {
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { isEditing?: unknown })
+            : {};
+        const isEditing =
+          typeof data.isEditing === 'boolean' ? data.isEditing : false;
+        if (
+          !currentUserId ||
+          !currentRoomId ||
+          !roomService.hasPermission(currentRoomId, currentUserId, 'edit')
+        ) {
+          return;
+        }
+
+        const users = roomService.getUsersInRoom(currentRoomId);
+        const user = users.find(u => u.id === currentUserId);
+        if (!user) {
+          return;
+        }
+
+        roomService.updateUserEditingStatus(
+          currentRoomId,
+          currentUserId,
+          isEditing
+        );
+
+        io.to(currentRoomId).emit('user-editing-status', {
+          userId: currentUserId,
+          nickname: user.nickname,
+          isEditing,
+        });
+
+        logger.debug('User editing status updated', {
+          userId: currentUserId,
+          nickname: user.nickname,
+          roomId: currentRoomId,
+          isEditing,
+        });
+      } catch (error) {
+        logger.error('Error handling editing status', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle editor document changes (for Y.js collaboration)
+    socket.on('editor:document-update', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before updating document'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('edit', 'Viewers cannot edit the document')) {
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { update?: unknown })
+            : {};
+
+        if (!(data.update instanceof Uint8Array)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid document update payload'
+            )
+          );
+          return;
+        }
+
+        const update = new Uint8Array(data.update);
+
+        // Apply to the server's copy first so late joiners get the full doc
+        if (
+          !documentService.applyUpdate(currentRoomId, update, currentUserId)
+        ) {
+          emitSocketError(
+            socket,
+            createSocketError(SocketErrorCode.ROOM_NOT_FOUND, 'Room not found')
+          );
+          return;
+        }
+
+        // Broadcast to other users in the room (except sender)
+        socket.to(currentRoomId).emit('editor:document-update', {
+          update,
+          userId: currentUserId,
+        });
+
+        logger.info('Document update broadcasted', {
+          roomId: currentRoomId,
+          userId: currentUserId,
+          updateSize: update.length,
+        });
+      } catch (error) {
+        logger.error('Error handling document update', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            'Document update could not be applied'
+          )
+        );
+      }
+    });
+
+    // Handle y-protocols sync messages (state vector handshake on editor load)
+    socket.on('editor:sync', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before syncing document'
+            )
+          );
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { message?: unknown })
+            : {};
+
+        if (!(data.message instanceof Uint8Array)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid document sync payload'
+            )
+          );
+          return;
+        }
+
+        // Viewers receive the document but their updates are not applied
+        const result = documentService.handleSyncMessage(
+          currentRoomId,
+          new Uint8Array(data.message),
+          currentUserId,
+          !roomService.hasPermission(currentRoomId, currentUserId, 'edit')
+        );
+        if (!result) {
+          emitSocketError(
+            socket,
+            createSocketError(SocketErrorCode.ROOM_NOT_FOUND, 'Room not found')
+          );
+          return;
+        }
+
+        result.replies.forEach(message => {
+          socket.emit('editor:sync', { message });
+        });
+
+        if (result.update) {
+          socket.to(currentRoomId).emit('editor:document-update', {
+            update: result.update,
+            userId: currentUserId,
+          });
+        }
+
+        logger.debug('Document sync message handled', {
+          roomId: currentRoomId,
+          userId: currentUserId,
+          replies: result.replies.length,
+          applied: Boolean(result.update),
+        });
+      } catch (error) {
+        logger.error('Error handling document sync', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+        emitSocketError(
+          socket,
+          createSocketError(
+            SocketErrorCode.VALIDATION,
+            'Document sync message could not be handled'
+          )
+        );
+      }
+    });
+
+    // Handle editor awareness updates (cursors, selections)
+    socket.on('editor:awareness-update', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before updating awareness'
+            )
+          );
+          return;
+        }
+
+        if (!canShowEditorPresence()) {
+          return;
+        }
+
+        const data = raw as { awareness?: Uint8Array };
+
+        if (!data.awareness) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid awareness update payload'
+            )
+          );
+          return;
+        }
+
+        // Broadcast to other users in the room (except sender)
+        socket.to(currentRoomId).emit('editor:awareness-update', {
+          awareness: data.awareness,
+          userId: currentUserId,
+        });
+
+        logger.debug('Awareness update broadcasted', {
+          roomId: currentRoomId,
+          userId: currentUserId,
+        });
+      } catch (error) {
+        logger.error('Error handling awareness update', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle generic editor activity events (lightweight presence/edit pings)
+    socket.on('editor:activity', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before sending activity'
+            )
+          );
+          return;
+        }
+
+        if (!canShowEditorPresence()) {
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { kind?: string; ts?: string; userId?: string })
+            : ({} as { kind?: string; ts?: string; userId?: string });
+
+        const kind = typeof data.kind === 'string' ? data.kind : 'presence';
+        const ts =
+          typeof data.ts === 'string' ? data.ts : new Date().toISOString();
+        const userId = currentUserId || data.userId;
+
+        // Broadcast to other users in the room (except sender)
+        socket.to(currentRoomId).emit('editor:activity', { kind, ts, userId });
+        logger.debug('Activity update broadcasted', {
+          roomId: currentRoomId,
+          userId,
+          kind,
+          ts,
+        });
+      } catch (error) {
+        logger.error('Error handling activity update', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle editor operation tracking
+    socket.on('editor:operation', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before recording operations'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('edit', 'Viewers cannot edit the document')) {
+          return;
+        }
+
+        const data = raw as {
+          id?: string;
+          type?: 'insert' | 'delete' | 'format' | 'move';
+          description?: string;
+          position?: { from: number; to: number };
+          content?: string;
+          formatting?: string[];
+        };
+
+        if (!data.id || !data.type || !data.description) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid operation payload'
+            )
+          );
+          return;
+        }
+
+        // Broadcast operation to all users in the room (including sender for confirmation)
+        io.to(currentRoomId).emit('editor:operation', {
+          ...data,
+          userId: currentUserId,
+          timestamp: new Date().toISOString(),
+        });
+
+        logger.info('Editor operation recorded', {
+          roomId: currentRoomId,
+          userId: currentUserId,
+          operationType: data.type,
+          operationId: data.id,
+        });
+      } catch (error) {
+        logger.error('Error handling editor operation', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle editor document initialization
+    socket.on('editor:document-init', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before initializing document'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('edit', 'Viewers cannot edit the document')) {
+          return;
+        }
+
+        const data = raw as { documentId?: string };
+
+        // Broadcast document initialization to other users in the room
+        socket.to(currentRoomId).emit('editor:document-init', {
+          documentId: data.documentId ?? `doc-${currentRoomId}`,
+          userId: currentUserId,
+          timestamp: new Date(),
+        });
+
+        logger.socket(
+          'editor document initialized',
+          `documentId: ${data.documentId}, userId: ${currentUserId}, roomId: ${currentRoomId}`
+        );
+      } catch (error) {
+        logger.error('Error handling editor document init', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle user joining editor mode
+    socket.on('editor:user-join', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before joining editor'
+            )
+          );
+          return;
+        }
+
+        const data = raw as { documentId?: string };
+
+        // Broadcast to other users in the room
+        socket.to(currentRoomId).emit('editor:user-join', {
+          userId: currentUserId,
+          documentId: data.documentId ?? `doc-${currentRoomId}`,
+          timestamp: new Date(),
+        });
+
+        logger.socket(
+          'user joined editor',
+          `userId: ${currentUserId}, roomId: ${currentRoomId}, documentId: ${data.documentId}`
+        );
+      } catch (error) {
+        logger.error('Error handling editor user join', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle cursor position updates
+    socket.on('editor:cursor-update', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before updating cursor'
+            )
+          );
+          return;
+        }
+
+        if (!canShowEditorPresence()) {
+          return;
+        }
+
+        const data = raw as { position?: { from: number; to: number } };
+
+        // Broadcast cursor position to other users in the room
+        socket.to(currentRoomId).emit('editor:cursor-update', {
+          userId: currentUserId,
+          position: data.position,
+          timestamp: new Date(),
+        });
+      } catch (error) {
+        logger.error('Error handling cursor update', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle text selection updates
+    socket.on('editor:selection-update', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before updating selection'
+            )
+          );
+          return;
+        }
+
+        if (!canShowEditorPresence()) {
+          return;
+        }
+
+        const data = raw as { selection?: { from: number; to: number } };
+
+        // Broadcast selection to other users in the room
+        socket.to(currentRoomId).emit('editor:selection-update', {
+          userId: currentUserId,
+          selection: data.selection,
+          timestamp: new Date(),
+        });
+      } catch (error) {
+        logger.error('Error handling selection update', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // Handle operation recording for history
+    socket.on('editor:operation-record', (raw: unknown) => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before recording operations'
+            )
+          );
+          return;
+        }
+
+        if (!ensurePermission('edit', 'Viewers cannot edit the document')) {
+          return;
+        }
+
+        const data = raw as {
+          operation?: {
+            type: string;
+            position: { from: number; to: number };
+            content?: unknown;
+            metadata?: unknown;
+          };
+        };
+
+        if (!data.operation) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid operation record payload'
+            )
+          );
+          return;
+        }
 
-        logger.info('Message sent', {
-          roomId: currentRoomId,
+        // Broadcast operation to all users in the room
+        io.to(currentRoomId).emit('editor:operation-record', {
+          operationId: `op-${Date.now()}-${currentUserId}`,
+          operation: data.operation,
           userId: currentUserId,
-          nickname: user.nickname,
-          messageId: message.id,
+          timestamp: new Date(),
         });
+
+        logger.socket(
+          'editor operation recorded',
+          `operationType: ${data.operation.type}, userId: ${currentUserId}, roomId: ${currentRoomId}`
+        );
       } catch (error) {
-        logger.error('Error sending message', {
+        logger.error('Error handling operation record', {
           error: error instanceof Error ? error.message : String(error),
-          roomId: currentRoomId,
-          userId: currentUserId,
           socketId: socket.id,
+          userId: currentUserId,
+          roomId: currentRoomId,
         });
-        emitSocketError(
-          socket,
-          createSocketError(
-            SocketErrorCode.MESSAGE_FAILED,
-            'Failed to send message',
-            { raw: error instanceof Error ? error.message : String(error) }
-          )
-        );
       }
     });
 
-    // Handle typing status
-    socket.on('user-typing', (raw: unknown) => {
+    // Handle undo operations
+    socket.on('editor:operation-undo', (raw: unknown) => {
       try {
-        const data =
-          typeof raw === 'object' && raw !== null
-            ? (raw as { isTyping?: unknown })
-            : {};
-        const isTyping =
-          typeof data.isTyping === 'boolean' ? data.isTyping : false;
         if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before undo operations'
+            )
+          );
           return;
         }
 
-        const users = roomService.getUsersInRoom(currentRoomId);
-        const user = users.find(u => u.id === currentUserId);
-        if (!user) {
+        if (!ensurePermission('edit', 'Viewers cannot edit the document')) {
           return;
         }
 
-        // Broadcast typing status to other users in the room
-        socket.to(currentRoomId).emit('user-typing-status', {
+        const data = raw as { operationId?: string };
+
+        // Broadcast undo to all users in the room
+        io.to(currentRoomId).emit('editor:operation-undo', {
+          operationId: data.operationId,
           userId: currentUserId,
-          nickname: user.nickname,
-          isTyping,
+          timestamp: new Date(),
         });
+
+        logger.socket(
+          'editor operation undo',
+          `operationId: ${data.operationId}, userId: ${currentUserId}, roomId: ${currentRoomId}`
+        );
       } catch (error) {
-        logger.error('Error handling typing status', {
+        logger.error('Error handling operation undo', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -415,47 +3013,39 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    /**
-     * Handle document editing status updates for real-time collaboration awareness
-     */
-    socket.on('user-editing', (raw: unknown) => {
+    // Handle redo operations
+    socket.on('editor:operation-redo', (raw: unknown) => {
       try {
-        const data =
-          typeof raw === 'object' && raw !== null
-            ? (raw as { isEditing?: unknown })
-            : {};
-        const isEditing =
-          typeof data.isEditing === 'boolean' ? data.isEditing : false;
         if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before redo operations'
+            )
+          );
           return;
         }
 
-        const users = roomService.getUsersInRoom(currentRoomId);
-        const user = users.find(u => u.id === currentUserId);
-        if (!user) {
+        if (!ensurePermission('edit', 'Viewers cannot edit the document')) {
           return;
         }
 
-        roomService.updateUserEditingStatus(
-          currentRoomId,
-          currentUserId,
-          isEditing
-        );
+        const data = raw as { operationId?: string };
 
-        io.to(currentRoomId).emit('user-editing-status', {
+        // Broadcast redo to all users in the room
+        io.to(currentRoomId).emit('editor:operation-redo', {
+          operationId: data.operationId,
           userId: currentUserId,
-          nickname: user.nickname,
-          isEditing,
+          timestamp: new Date(),
         });
 
-        logger.debug('User editing status updated', {
-          userId: currentUserId,
-          nickname: user.nickname,
-          roomId: currentRoomId,
-          isEditing,
-        });
+        logger.socket(
+          'editor operation redo',
+          `operationId: ${data.operationId}, userId: ${currentUserId}, roomId: ${currentRoomId}`
+        );
       } catch (error) {
-        logger.error('Error handling editing status', {
+        logger.error('Error handling operation redo', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -464,47 +3054,85 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle editor document changes (for Y.js collaboration)
-    socket.on('editor:document-update', (raw: unknown) => {
+    // Handle document saves: store a version of the server document
+    socket.on('editor:document-save', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before updating document'
+              'Must join room before saving document'
             )
           );
           return;
         }
 
-        // Basic validation - Y.js will handle the actual document sync
-        const data = raw as { update?: Uint8Array };
+        if (!ensurePermission('edit', 'Viewers cannot save the document')) {
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { title?: unknown })
+            : {};
+        const title =
+          typeof data.title === 'string'
+            ? sanitizeInput(data.title)
+            : undefined;
 
-        if (!data.update) {
+        const saved = documentService.saveSnapshot(
+          currentRoomId,
+          currentUserId,
+          title
+        );
+        if (!saved) {
           emitSocketError(
             socket,
-            createSocketError(
-              SocketErrorCode.VALIDATION,
-              'Invalid document update payload'
-            )
+            createSocketError(SocketErrorCode.ROOM_NOT_FOUND, 'Room not found')
           );
           return;
         }
 
-        // Broadcast to other users in the room (except sender)
-        socket.to(currentRoomId).emit('editor:document-update', {
-          update: data.update,
-          userId: currentUserId,
+        // Broadcast save confirmation to all users in the room
+        io.to(currentRoomId).emit('editor:document-save', {
+          documentId: `doc-${currentRoomId}`,
+          ...saved,
         });
 
-        logger.info('Document update broadcasted', {
-          roomId: currentRoomId,
+        logger.socket(
+          'editor document saved',
+          `version: ${saved.version}, userId: ${currentUserId}, roomId: ${currentRoomId}`
+        );
+      } catch (error) {
+        logger.error('Error handling document save', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
           userId: currentUserId,
-          updateSize: data.update.length,
+          roomId: currentRoomId,
+        });
+      }
+    });
+
+    // List saved document versions for the room
+    socket.on('editor:list-versions', () => {
+      try {
+        if (!currentUserId || !currentRoomId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.UNAUTHORIZED,
+              'Must join room before listing document versions'
+            )
+          );
+          return;
+        }
+
+        socket.emit('editor:versions', {
+          versions: documentService.listVersions(currentRoomId),
         });
       } catch (error) {
-        logger.error('Error handling document update', {
+        logger.error('Error listing document versions', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -513,45 +3141,47 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle editor awareness updates (cursors, selections)
-    socket.on('editor:awareness-update', (raw: unknown) => {
+    // Send the state of a saved version so the client can preview it
+    socket.on('editor:preview-version', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before updating awareness'
+              'Must join room before previewing document versions'
             )
           );
           return;
         }
 
-        const data = raw as { awareness?: Uint8Array };
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { version?: unknown })
+            : {};
+        const snapshot =
+          typeof data.version === 'number'
+            ? documentService.getSnapshot(currentRoomId, data.version)
+            : undefined;
 
-        if (!data.awareness) {
+        if (!snapshot) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.VALIDATION,
-              'Invalid awareness update payload'
+              'Document version not found'
             )
           );
           return;
         }
 
-        // Broadcast to other users in the room (except sender)
-        socket.to(currentRoomId).emit('editor:awareness-update', {
-          awareness: data.awareness,
-          userId: currentUserId,
-        });
-
-        logger.debug('Awareness update broadcasted', {
-          roomId: currentRoomId,
-          userId: currentUserId,
+        socket.emit('editor:version-preview', {
+          version: snapshot.version,
+          title: snapshot.title,
+          state: snapshot.state,
         });
       } catch (error) {
-        logger.error('Error handling awareness update', {
+        logger.error('Error previewing document version', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -560,40 +3190,66 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle generic editor activity events (lightweight presence/edit pings)
-    socket.on('editor:activity', (raw: unknown) => {
+    // Restore a saved version for everyone in the room
+    socket.on('editor:restore-version', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before sending activity'
+              'Must join room before restoring document versions'
             )
           );
           return;
         }
 
+        if (
+          !ensurePermission('edit', 'Viewers cannot restore document versions')
+        ) {
+          return;
+        }
+
         const data =
           typeof raw === 'object' && raw !== null
-            ? (raw as { kind?: string; ts?: string; userId?: string })
-            : ({} as { kind?: string; ts?: string; userId?: string });
+            ? (raw as { version?: unknown })
+            : {};
+        const result =
+          typeof data.version === 'number'
+            ? documentService.restoreSnapshot(
+                currentRoomId,
+                data.version,
+                currentUserId
+              )
+            : null;
 
-        const kind = typeof data.kind === 'string' ? data.kind : 'presence';
-        const ts =
-          typeof data.ts === 'string' ? data.ts : new Date().toISOString();
-        const userId = currentUserId || data.userId;
+        if (!result) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Document version not found'
+            )
+          );
+          return;
+        }
 
-        // Broadcast to other users in the room (except sender)
-        socket.to(currentRoomId).emit('editor:activity', { kind, ts, userId });
-        logger.debug('Activity update broadcasted', {
-          roomId: currentRoomId,
-          userId,
-          kind,
-          ts,
+        // The restoring client has no local copy of the revert either
+        io.to(currentRoomId).emit('editor:document-update', {
+          update: result.update,
+          userId: currentUserId,
+        });
+        io.to(currentRoomId).emit('editor:version-restored', {
+          restoredVersion: data.version,
+          ...result.version,
         });
+
+        logger.socket(
+          'editor document version restored',
+          `version: ${String(data.version)}, userId: ${currentUserId}, roomId: ${currentRoomId}`
+        );
       } catch (error) {
-        logger.error('Error handling activity update', {
+        logger.error('Error restoring document version', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -602,55 +3258,80 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle editor operation tracking
-    socket.on('editor:operation', (raw: unknown) => {
+    // Owner promotes/demotes another member
+    socket.on('set-user-role', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before recording operations'
+              'Must join room before changing roles'
             )
           );
           return;
         }
 
-        const data = raw as {
-          id?: string;
-          type?: 'insert' | 'delete' | 'format' | 'move';
-          description?: string;
-          position?: { from: number; to: number };
-          content?: string;
-          formatting?: string[];
-        };
+        if (
+          !ensurePermission(
+            'manage-roles',
+            'Only the room owner can change roles'
+          )
+        ) {
+          return;
+        }
+
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<SetUserRoleRequest>)
+            : {};
+        if (typeof data.userId !== 'string' || !isAssignableRole(data.role)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid set-user-role payload'
+            )
+          );
+          return;
+        }
+
+        if (!roomService.isUserInRoom(currentRoomId, data.userId)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.USER_NOT_FOUND,
+              'User not found in room'
+            )
+          );
+          return;
+        }
 
-        if (!data.id || !data.type || !data.description) {
+        if (!roomService.setUserRole(currentRoomId, data.userId, data.role)) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.VALIDATION,
-              'Invalid operation payload'
+              "The owner's role cannot be changed"
             )
           );
           return;
         }
 
-        // Broadcast operation to all users in the room (including sender for confirmation)
-        io.to(currentRoomId).emit('editor:operation', {
-          ...data,
-          userId: currentUserId,
-          timestamp: new Date().toISOString(),
-        });
+        const event: UserRoleChangedEvent = {
+          userId: data.userId,
+          role: data.role,
+        };
+        io.to(currentRoomId).emit('user-role-changed', event);
 
-        logger.info('Editor operation recorded', {
+        logger.info('User role updated', {
           roomId: currentRoomId,
-          userId: currentUserId,
-          operationType: data.type,
-          operationId: data.id,
+          userId: data.userId,
+          role: data.role,
+          changedBy: currentUserId,
         });
       } catch (error) {
-        logger.error('Error handling editor operation', {
+        logger.error('Error changing user role', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -659,72 +3340,74 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle editor document initialization
-    socket.on('editor:document-init', (raw: unknown) => {
+    socket.on('transfer-ownership', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before initializing document'
+              'Must join room before transferring ownership'
             )
           );
           return;
         }
 
-        const data = raw as { documentId?: string };
+        if (
+          !ensurePermission(
+            'manage-room',
+            'Only the room owner can transfer ownership'
+          )
+        ) {
+          return;
+        }
 
-        // Broadcast document initialization to other users in the room
-        socket.to(currentRoomId).emit('editor:document-init', {
-          documentId: data.documentId ?? `doc-${currentRoomId}`,
-          userId: currentUserId,
-          timestamp: new Date(),
-        });
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<TransferOwnershipRequest>)
+            : {};
+        if (typeof data.userId !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid transfer-ownership payload'
+            )
+          );
+          return;
+        }
 
-        logger.socket(
-          'editor document initialized',
-          `documentId: ${data.documentId}, userId: ${currentUserId}, roomId: ${currentRoomId}`
-        );
-      } catch (error) {
-        logger.error('Error handling editor document init', {
-          error: error instanceof Error ? error.message : String(error),
-          socketId: socket.id,
-          userId: currentUserId,
-          roomId: currentRoomId,
-        });
-      }
-    });
+        if (data.userId === currentUserId) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'You already own this room'
+            )
+          );
+          return;
+        }
 
-    // Handle user joining editor mode
-    socket.on('editor:user-join', (raw: unknown) => {
-      try {
-        if (!currentUserId || !currentRoomId) {
+        if (!roomService.transferOwnership(currentRoomId, data.userId)) {
           emitSocketError(
             socket,
             createSocketError(
-              SocketErrorCode.UNAUTHORIZED,
-              'Must join room before joining editor'
+              SocketErrorCode.USER_NOT_FOUND,
+              'User not found in room'
             )
           );
           return;
         }
 
-        const data = raw as { documentId?: string };
+        announceOwnerChange(currentRoomId, currentUserId);
 
-        // Broadcast to other users in the room
-        socket.to(currentRoomId).emit('editor:user-join', {
-          userId: currentUserId,
-          documentId: data.documentId ?? `doc-${currentRoomId}`,
-          timestamp: new Date(),
+        logger.info('Room ownership transferred by owner', {
+          roomId: currentRoomId,
+          ownerId: data.userId,
+          previousOwnerId: currentUserId,
         });
-
-        logger.socket(
-          'user joined editor',
-          `userId: ${currentUserId}, roomId: ${currentRoomId}, documentId: ${data.documentId}`
-        );
       } catch (error) {
-        logger.error('Error handling editor user join', {
+        logger.error('Error transferring ownership', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -733,62 +3416,54 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle cursor position updates
-    socket.on('editor:cursor-update', (raw: unknown) => {
+    socket.on('set-room-locked', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before updating cursor'
+              'Must join room before locking it'
             )
           );
           return;
         }
 
-        const data = raw as { position?: { from: number; to: number } };
-
-        // Broadcast cursor position to other users in the room
-        socket.to(currentRoomId).emit('editor:cursor-update', {
-          userId: currentUserId,
-          position: data.position,
-          timestamp: new Date(),
-        });
-      } catch (error) {
-        logger.error('Error handling cursor update', {
-          error: error instanceof Error ? error.message : String(error),
-          socketId: socket.id,
-          userId: currentUserId,
-          roomId: currentRoomId,
-        });
-      }
-    });
+        if (
+          !ensurePermission(
+            'manage-room',
+            'Only the room owner can lock the room'
+          )
+        ) {
+          return;
+        }
 
-    // Handle text selection updates
-    socket.on('editor:selection-update', (raw: unknown) => {
-      try {
-        if (!currentUserId || !currentRoomId) {
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<RoomLockChangedEvent>)
+            : {};
+        if (typeof data.isLocked !== 'boolean') {
           emitSocketError(
             socket,
             createSocketError(
-              SocketErrorCode.UNAUTHORIZED,
-              'Must join room before updating selection'
+              SocketErrorCode.VALIDATION,
+              'Invalid set-room-locked payload'
             )
           );
           return;
         }
 
-        const data = raw as { selection?: { from: number; to: number } };
+        roomService.setRoomLocked(currentRoomId, data.isLocked);
+        const event: RoomLockChangedEvent = { isLocked: data.isLocked };
+        io.to(currentRoomId).emit('room-lock-changed', event);
 
-        // Broadcast selection to other users in the room
-        socket.to(currentRoomId).emit('editor:selection-update', {
-          userId: currentUserId,
-          selection: data.selection,
-          timestamp: new Date(),
+        logger.info('Room lock changed', {
+          roomId: currentRoomId,
+          isLocked: data.isLocked,
+          by: currentUserId,
         });
       } catch (error) {
-        logger.error('Error handling selection update', {
+        logger.error('Error changing room lock', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -797,54 +3472,46 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle operation recording for history
-    socket.on('editor:operation-record', (raw: unknown) => {
+    socket.on('set-announcement', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before recording operations'
+              'Must join room before setting the announcement'
             )
           );
           return;
         }
 
-        const data = raw as {
-          operation?: {
-            type: string;
-            position: { from: number; to: number };
-            content?: unknown;
-            metadata?: unknown;
-          };
-        };
+        if (
+          !ensurePermission(
+            'manage-chat',
+            'Only the owner and moderators can set the announcement'
+          )
+        ) {
+          return;
+        }
 
-        if (!data.operation) {
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as Partial<SetAnnouncementRequest>)
+            : {};
+        if (typeof data.announcement !== 'string') {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.VALIDATION,
-              'Invalid operation record payload'
+              'Invalid set-announcement payload'
             )
           );
           return;
         }
 
-        // Broadcast operation to all users in the room
-        io.to(currentRoomId).emit('editor:operation-record', {
-          operationId: `op-${Date.now()}-${currentUserId}`,
-          operation: data.operation,
-          userId: currentUserId,
-          timestamp: new Date(),
-        });
-
-        logger.socket(
-          'editor operation recorded',
-          `operationType: ${data.operation.type}, userId: ${currentUserId}, roomId: ${currentRoomId}`
-        );
+        changeAnnouncement(currentRoomId, currentUserId, data.announcement);
       } catch (error) {
-        logger.error('Error handling operation record', {
+        logger.error('Error setting announcement', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -853,35 +3520,24 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle undo operations
-    socket.on('editor:operation-undo', (raw: unknown) => {
+    socket.on('kick-user', (raw: unknown) => {
       try {
-        if (!currentUserId || !currentRoomId) {
-          emitSocketError(
-            socket,
-            createSocketError(
-              SocketErrorCode.UNAUTHORIZED,
-              'Must join room before undo operations'
-            )
-          );
-          return;
-        }
-
-        const data = raw as { operationId?: string };
-
-        // Broadcast undo to all users in the room
-        io.to(currentRoomId).emit('editor:operation-undo', {
-          operationId: data.operationId,
+        removeFromRoom(raw, false);
+      } catch (error) {
+        logger.error('Error kicking user', {
+          error: error instanceof Error ? error.message : String(error),
+          socketId: socket.id,
           userId: currentUserId,
-          timestamp: new Date(),
+          roomId: currentRoomId,
         });
+      }
+    });
 
-        logger.socket(
-          'editor operation undo',
-          `operationId: ${data.operationId}, userId: ${currentUserId}, roomId: ${currentRoomId}`
-        );
+    socket.on('ban-user', (raw: unknown) => {
+      try {
+        removeFromRoom(raw, true);
       } catch (error) {
-        logger.error('Error handling operation undo', {
+        logger.error('Error banning user', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -890,35 +3546,63 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle redo operations
-    socket.on('editor:operation-redo', (raw: unknown) => {
+    socket.on('unban-user', (raw: unknown) => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before redo operations'
+              'Must join room before managing bans'
             )
           );
           return;
         }
 
-        const data = raw as { operationId?: string };
+        if (
+          !ensurePermission(
+            'moderate',
+            'Only the owner and moderators can manage bans'
+          )
+        ) {
+          return;
+        }
 
-        // Broadcast redo to all users in the room
-        io.to(currentRoomId).emit('editor:operation-redo', {
-          operationId: data.operationId,
-          userId: currentUserId,
-          timestamp: new Date(),
-        });
+        const data =
+          typeof raw === 'object' && raw !== null
+            ? (raw as { userId?: unknown })
+            : {};
+        if (typeof data.userId !== 'string') {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.VALIDATION,
+              'Invalid unban-user payload'
+            )
+          );
+          return;
+        }
 
-        logger.socket(
-          'editor operation redo',
-          `operationId: ${data.operationId}, userId: ${currentUserId}, roomId: ${currentRoomId}`
-        );
+        if (!roomService.unbanUser(currentRoomId, data.userId)) {
+          emitSocketError(
+            socket,
+            createSocketError(
+              SocketErrorCode.USER_NOT_FOUND,
+              'No ban found for this user'
+            )
+          );
+          return;
+        }
+
+        emitBansToModerators(currentRoomId);
+
+        logger.info('User ban revoked', {
+          roomId: currentRoomId,
+          userId: data.userId,
+          by: currentUserId,
+        });
       } catch (error) {
-        logger.error('Error handling operation redo', {
+        logger.error('Error revoking ban', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -927,41 +3611,34 @@ export function setupSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle document save operations
-    socket.on('editor:document-save', (raw: unknown) => {
+    socket.on('list-bans', () => {
       try {
         if (!currentUserId || !currentRoomId) {
           emitSocketError(
             socket,
             createSocketError(
               SocketErrorCode.UNAUTHORIZED,
-              'Must join room before saving document'
+              'Must join room before listing bans'
             )
           );
           return;
         }
 
-        const data = raw as {
-          documentId?: string;
-          content?: unknown;
-          title?: string;
-        };
-
-        // Broadcast save confirmation to all users in the room
-        io.to(currentRoomId).emit('editor:document-save', {
-          documentId: data.documentId ?? `doc-${currentRoomId}`,
-          title: data.title,
-          savedBy: currentUserId,
-          timestamp: new Date(),
-          version: Date.now(), // Simple version numbering
-        });
+        if (
+          !ensurePermission(
+            'moderate',
+            'Only the owner and moderators can view bans'
+          )
+        ) {
+          return;
+        }
 
-        logger.socket(
-          'editor document saved',
-          `documentId: ${data.documentId}, userId: ${currentUserId}, roomId: ${currentRoomId}, title: ${data.title}`
-        );
+        const event: BansListEvent = {
+          bans: roomService.getBans(currentRoomId),
+        };
+        socket.emit('bans', event);
       } catch (error) {
-        logger.error('Error handling document save', {
+        logger.error('Error listing bans', {
           error: error instanceof Error ? error.message : String(error),
           socketId: socket.id,
           userId: currentUserId,
@@ -974,18 +3651,16 @@ export function setupSocketHandlers(io: SocketIOServer) {
     socket.on('disconnect', () => {
       try {
         logger.socket('user disconnected', socket.id);
+        leaveRoomHooks.delete(socket.id);
 
         if (currentUserId && currentRoomId) {
-          // Remove user from room
-          const user = roomService.removeUserFromRoom(
-            currentRoomId,
-            currentUserId
-          );
+          const user = roomService.getUserInRoom(currentRoomId, currentUserId);
 
-          if (user) {
-            // Notify other users in the room
-            socket.to(currentRoomId).emit('user-left', currentUserId);
-            logger.info('User left room on disconnect', {
+          // Skip if the user already rejoined on a newer socket (e.g. a
+          // refresh whose old connection closed late)
+          if (user && user.socketId === socket.id) {
+            scheduleRemoval(currentRoomId, currentUserId);
+            logger.info('User went offline', {
               nickname: user.nickname,
               roomId: currentRoomId,
               userId: currentUserId,
@@ -1008,5 +3683,18 @@ export function setupSocketHandlers(io: SocketIOServer) {
   setInterval(() => {
     joinRoomLimiter.cleanup();
     messageLimiter.cleanup();
+    reactionLimiter.cleanup();
+    renameLimiter.cleanup();
+    heartbeatLimiter.cleanup();
+    passcodeLockout.cleanup();
   }, 300000); // Cleanup every 5 minutes
+
+  // Users who stop sending input or heartbeats become idle, then away
+  const presenceTimer = setInterval(() => {
+    for (const { roomId, userId, presence } of roomService.refreshPresence()) {
+      const event: PresenceChangedEvent = { userId, presence };
+      io.to(roomId).emit('presence-changed', event);
+    }
+  }, PRESENCE_SWEEP_MS);
+  presenceTimer.unref();
 }
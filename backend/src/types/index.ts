@@ -1,3 +1,12 @@
+export type UserRole = 'owner' | 'moderator' | 'participant' | 'viewer';
+// Ownership is not handed out through role changes
+export type AssignableRole = Exclude<UserRole, 'owner'>;
+
+// Active users have used the app recently; idle ones have the room open but
+// haven't touched it for a while; away ones for much longer, or their
+// heartbeats stopped (e.g. a sleeping laptop)
+export type PresenceStatus = 'active' | 'idle' | 'away' | 'offline';
+
 export interface User {
   id: string;
   nickname: string;
@@ -5,31 +14,159 @@ export interface User {
   joinedAt: Date;
   isOnline: boolean;
   isEditing?: boolean;
-  lastActivity?: Date;
+  lastActivity?: Date; // Last input: heartbeats and editing report it
+  color?: string; // Hex color, distinct within the room where possible
+  avatar?: string; // Generated identicon as an SVG data URL, if enabled
+  role?: UserRole; // Assigned by RoomService when the user joins
+  presence?: PresenceStatus; // Tracked by the server, see presence-changed
+  lastSeenAt?: Date; // Last presence heartbeat
 }
 
 export interface Room {
   id: string;
+  name?: string; // Display name chosen at creation
+  slug?: string; // Human-readable alias usable in place of the ID in links
   createdAt: Date;
   lastActivity: Date;
   users: Map<string, User>;
   messages: ChatMessage[];
-  ownerId?: string; // User ID of the room creator
-  ownerNickname?: string; // Nickname of the room creator
+  ownerId?: string; // User ID of the current owner (the creator at first)
+  ownerNickname?: string; // Nickname of the current owner
   capacity: number; // Maximum number of users allowed in the room
+  passcodeHash?: string; // Salted hash; new users must present the passcode
+  isLocked?: boolean; // Owner-controlled: no new users while locked
+  document?: StoredDocument; // Persisted Y.js document state
+  documentSnapshots?: DocumentSnapshot[]; // Saved document versions, oldest first
+  bans?: RoomBan[]; // Users banned for the rest of the room's lifetime
+  reactions?: Map<string, Map<string, Set<string>>>; // Message ID -> emoji -> user IDs
+  attachments?: Map<string, Attachment>; // Metadata of uploaded files by ID
+  pinnedMessageIds?: string[]; // Most recently pinned last
+  announcement?: string; // Banner shown to everyone in the room
+  readMarkers?: Map<string, string>; // User ID -> last top-level message read
+  clientIds?: Map<string, string>; // User ID -> server-issued browser ID; never sent to clients
 }
 
+export interface RoomBan {
+  userId: string;
+  nickname: string;
+  clientId?: string; // Server-issued browser ID; never sent to clients
+  bannedBy: string; // User ID of the owner or moderator who issued the ban
+  bannedAt: Date;
+  reason?: string;
+}
+
+// What owners and moderators see when listing bans
+export type BanInfo = Omit<RoomBan, 'clientId'>;
+
 export interface ChatMessage {
   id: string;
   userId: string;
   nickname: string;
-  content: string;
+  content: string; // Empty once deleted
   timestamp: Date;
+  editedAt?: Date;
+  deletedAt?: Date; // Set on tombstones of deleted messages
+  reactions?: MessageReaction[]; // Aggregated by the server; omitted when none
+  parentId?: string; // Set on thread replies, which stay out of the main timeline
+  replyCount?: number; // Thread metadata, set on messages that have replies
+  lastReplyAt?: Date;
+  mentions?: MessageMention[]; // Parsed by the server; omitted when none
+  attachments?: Attachment[]; // Files uploaded before sending; omitted when none
+  poll?: Poll; // Set on polls, whose content is the question
+  kind?: ChatMessageKind; // Omitted on ordinary messages
+}
+
+// `action` messages come from /me and read as "<nickname> <content>";
+// `notice` messages are posted by the server, e.g. when a /timer finishes
+export type ChatMessageKind = 'action' | 'notice';
+
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean; // Voters may pick several options
+  anonymous: boolean; // Voter IDs are never sent to clients
+  closesAt?: Date; // No votes are accepted from then on
+  closedAt?: Date; // Set when the creator or owner closes it early
+  voterCount: number;
+}
+
+export interface PollOption {
+  id: string;
+  text: string;
+  votes: number;
+  voterIds?: string[]; // Omitted on anonymous polls
+}
+
+// A file uploaded to a room; the file itself is served from
+// GET /api/room/:roomId/attachments/:id
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  uploadedBy: string; // User ID
+  uploadedAt: Date;
+  messageId?: string; // Set once sent; unsent uploads expire
+}
+
+// `content.slice(start, start + length)` is the `@nickname` text
+export interface MessageMention {
+  userId: string;
+  start: number;
+  length: number;
+}
+
+// Sent only to the mentioned user, in addition to the normal broadcast
+export interface MentionedEvent {
+  message: ChatMessage;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  userIds: string[]; // Lets clients highlight their own reactions
+}
+
+export interface CreateRoomRequest {
+  name?: string;
+  slug?: string;
+  passcode?: string; // Required from everyone joining the room later
 }
 
 export interface CreateRoomResponse {
   roomId: string;
   roomLink: string;
+  name?: string;
+  slug?: string;
+  requiresPasscode?: boolean;
+}
+
+export interface RoomExistsResponse {
+  exists: boolean;
+  requiresPasscode?: boolean; // Only reported for existing rooms
+  isLocked?: boolean;
+}
+
+export interface UploadAttachmentResponse {
+  attachment: Attachment;
+}
+
+// The part of a matching message around the search terms; `text` starts or
+// ends with an ellipsis where the content was cut
+export interface MessageSearchSnippet {
+  text: string;
+  highlights: { start: number; length: number }[]; // Matched words in `text`
+}
+
+export interface MessageSearchResult {
+  message: ChatMessage;
+  snippet: MessageSearchSnippet;
+}
+
+// GET /api/room/:roomId/messages/search?q=
+export interface SearchMessagesResponse {
+  query: string;
+  results: MessageSearchResult[]; // Newest first
 }
 
 export interface CreateRoomErrorResponse {
@@ -39,18 +176,29 @@ export interface CreateRoomErrorResponse {
 }
 
 export interface JoinRoomRequest {
-  roomId: string;
+  roomId: string; // Room ID or slug
   nickname: string;
-  userId?: string; // Optional: for user persistence across sessions
+  sessionToken?: string; // Optional: token from an earlier room-joined, to rejoin as the same user
+  passcode?: string; // Needed by new users when the room has one
 }
 
 export interface JoinRoomResponse {
   success: boolean;
   users: User[];
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // Most recent page of history, oldest first
+  hasMoreMessages?: boolean; // Older history can be fetched with load-older-messages
   userId?: string; // The user's ID (new or existing)
+  sessionToken?: string; // Signed proof of userId, sent back on rejoin
+  roomId?: string; // Canonical room ID (the request may have used a slug)
+  roomName?: string;
+  roomSlug?: string;
   ownerId?: string; // Room owner's user ID
   ownerNickname?: string; // Room owner's nickname
+  requiresPasscode?: boolean;
+  isLocked?: boolean; // No new users can join while locked
+  pinnedMessages?: ChatMessage[]; // Most recently pinned first
+  announcement?: string; // Banner set by the owner or a moderator
+  readReceipts?: ReadReceipt[];
   capacity?: {
     current: number;
     max: number;
@@ -58,12 +206,208 @@ export interface JoinRoomResponse {
   error?: string;
 }
 
+export interface SendMessageRequest {
+  content: string;
+  parentId?: string; // Reply in the thread of this top-level message
+  attachmentIds?: string[]; // Attachments uploaded by the sender; content may then be empty
+}
+
+export interface LoadThreadRequest {
+  parentId: string;
+}
+
+export interface ThreadMessagesEvent {
+  parentId: string;
+  messages: ChatMessage[]; // Replies, oldest first
+}
+
+// Broadcast to the room: the reply for open thread panels, and the parent's
+// updated metadata for the main timeline
+export interface ThreadReplyEvent {
+  message: ChatMessage;
+  replyCount: number;
+  lastReplyAt: Date;
+}
+
+// Sent only to the author of the parent message
+export interface ReplyNotificationEvent {
+  parentId: string;
+  messageId: string;
+  nickname: string; // Who replied
+}
+
+export interface EditMessageRequest {
+  messageId: string;
+  content: string;
+}
+
+export interface DeleteMessageRequest {
+  messageId: string;
+}
+
+export interface MessageDeletedEvent {
+  messageId: string;
+  deletedAt: Date;
+  deletedBy: string; // User ID of the author or moderator who deleted it
+}
+
+export interface ReactMessageRequest {
+  messageId: string;
+  emoji: string; // Toggled: reacting again with the same emoji removes it
+}
+
+export interface MessageReactionsUpdatedEvent {
+  messageId: string;
+  reactions: MessageReaction[];
+}
+
+export interface LoadOlderMessagesRequest {
+  before: string; // ID of the oldest message the client already has
+  limit?: number;
+}
+
+export interface OlderMessagesEvent {
+  before: string; // Echo of the request cursor
+  messages: ChatMessage[]; // Oldest first
+  hasMore: boolean;
+}
+
 export interface EditingStatus {
   userId: string;
   nickname: string;
   isEditing: boolean;
 }
 
+export interface SetUserRoleRequest {
+  userId: string;
+  role: AssignableRole;
+}
+
+export interface UserRoleChangedEvent {
+  userId: string;
+  role: UserRole;
+}
+
+export interface TransferOwnershipRequest {
+  userId: string;
+}
+
+// Broadcast after an explicit transfer or automatic succession
+export interface RoomOwnerChangedEvent {
+  ownerId: string;
+  ownerNickname: string;
+}
+
+export interface ModerateUserRequest {
+  userId: string;
+  reason?: string;
+}
+
+// Sent only to the removed user before their socket leaves the room
+export interface KickedEvent {
+  reason?: string;
+  banned: boolean;
+}
+
+// Issued on a browser's first connection; sent back in the handshake's auth
+export interface ClientTokenEvent {
+  clientToken: string;
+}
+
+export interface BansListEvent {
+  bans: BanInfo[];
+}
+
+export interface RoomLockChangedEvent {
+  isLocked: boolean;
+}
+
+// Sent for both pin-message and unpin-message
+export interface PinMessageRequest {
+  messageId: string;
+}
+
+// Broadcast when a message is pinned or unpinned, or deleted while pinned
+export interface PinnedMessagesUpdatedEvent {
+  pinnedMessages: ChatMessage[]; // Most recently pinned first
+}
+
+export interface SetAnnouncementRequest {
+  announcement: string; // Empty removes the banner
+}
+
+export interface AnnouncementChangedEvent {
+  announcement?: string;
+  setBy: string; // User ID of the owner or moderator
+}
+
+export interface CreatePollRequest {
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: string; // ISO date in the future
+}
+
+export interface VotePollRequest {
+  messageId: string;
+  optionIds: string[]; // Replaces the voter's previous choice; empty retracts it
+}
+
+export interface ClosePollRequest {
+  messageId: string;
+}
+
+export interface PollUpdatedEvent {
+  messageId: string;
+  poll: Poll;
+}
+
+// Chat input starting with `/`, e.g. `/timer 5m Break`
+export interface RunCommandRequest {
+  command: string; // Without the slash
+  args: string; // The rest of the input, trimmed
+}
+
+export interface ChangeNicknameRequest {
+  nickname: string;
+}
+
+export interface UserRenamedEvent {
+  userId: string;
+  nickname: string;
+}
+
+export interface MarkReadRequest {
+  messageId: string; // Latest top-level message the user has seen
+}
+
+// How far a member has read the main timeline
+export interface ReadReceipt {
+  userId: string;
+  messageId: string;
+}
+
+export interface ReadReceiptsEvent {
+  receipts: ReadReceipt[];
+}
+
+// Broadcast when a member's connection drops or comes back; offline
+// members keep their place in the room until the grace period expires
+export interface UserStatusEvent {
+  userId: string;
+  isOnline: boolean;
+}
+
+export interface PresenceHeartbeatRequest {
+  idleMs: number; // Time since the user's last input in this tab
+}
+
+export interface PresenceChangedEvent {
+  userId: string;
+  presence: PresenceStatus;
+}
+
 // --- Socket Error Handling (shared contract) ---
 export enum SocketErrorCode {
   VALIDATION = 'VALIDATION',
@@ -79,6 +423,11 @@ export enum SocketErrorCode {
   DISCONNECTED = 'DISCONNECTED',
   RECONNECT_FAILED = 'RECONNECT_FAILED',
   UNAUTHORIZED = 'UNAUTHORIZED',
+  INVALID_SESSION = 'INVALID_SESSION',
+  BANNED = 'BANNED',
+  INVALID_PASSCODE = 'INVALID_PASSCODE',
+  ROOM_LOCKED = 'ROOM_LOCKED',
+  MESSAGE_NOT_FOUND = 'MESSAGE_NOT_FOUND',
 }
 
 export interface SocketError {
@@ -115,3 +464,22 @@ export interface EditorDocument {
   version: number;
   autoSaveEnabled: boolean;
 }
+
+// Durable form of an EditorDocument: the Y.js doc encoded as a single update
+export interface StoredDocument
+  extends Omit<EditorDocument, 'content' | 'yDoc'> {
+  state: Uint8Array;
+}
+
+// Saved point-in-time copy of a room's document (version history)
+export interface DocumentSnapshot {
+  version: number; // Document version at the time of the save
+  title: string;
+  modifiedBy: string; // User ID of whoever saved the snapshot
+  modifiedByNickname: string;
+  timestamp: Date;
+  state: Uint8Array;
+}
+
+// Snapshot metadata sent to clients when listing versions
+export type DocumentVersion = Omit<DocumentSnapshot, 'state'>;
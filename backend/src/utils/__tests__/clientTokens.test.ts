@@ -0,0 +1,40 @@
+/**
+ * Client Tokens Test Suite
+ *
+ * Tests for the server-issued browser identifiers used to enforce bans:
+ * - Round trip of issued tokens
+ * - A different ID for every issued token
+ * - Rejection of tampered, malformed or missing tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createClientToken, verifyClientToken } from '../clientTokens';
+
+describe('Client Tokens', () => {
+  it('should verify an issued token', () => {
+    const { clientId, clientToken } = createClientToken();
+
+    expect(verifyClientToken(clientToken)).toBe(clientId);
+  });
+
+  it('should issue a different ID every time', () => {
+    expect(createClientToken().clientId).not.toBe(createClientToken().clientId);
+  });
+
+  it('should reject a token whose ID was swapped', () => {
+    const { clientToken } = createClientToken();
+    const [, signature] = clientToken.split('.');
+
+    expect(verifyClientToken(`someone-else.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed or missing tokens', () => {
+    const { clientToken } = createClientToken();
+
+    expect(verifyClientToken(`${clientToken}.extra`)).toBeNull();
+    expect(verifyClientToken('no-signature')).toBeNull();
+    expect(verifyClientToken('')).toBeNull();
+    expect(verifyClientToken(undefined)).toBeNull();
+    expect(verifyClientToken(42)).toBeNull();
+  });
+});
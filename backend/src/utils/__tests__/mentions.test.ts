@@ -0,0 +1,45 @@
+/**
+ * Mentions Test Suite
+ *
+ * Tests for parsing `@nickname` mentions out of chat messages:
+ * - Structured ranges for users in the room
+ * - Nicknames with spaces and case differences
+ * - Ignoring unknown names and email addresses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMentions } from '../mentions';
+
+describe('Mentions', () => {
+  const users = [
+    { id: 'user-1', nickname: 'Alice' },
+    { id: 'user-2', nickname: 'Bob' },
+    { id: 'user-3', nickname: 'Bob Smith' },
+  ];
+
+  it('should return the range of each mention', () => {
+    const content = '@alice can you ask @Bob?';
+
+    const mentions = parseMentions(content, users);
+
+    expect(mentions).toEqual([
+      { userId: 'user-1', start: 0, length: 6 },
+      { userId: 'user-2', start: 19, length: 4 },
+    ]);
+    expect(content.slice(19, 23)).toBe('@Bob');
+  });
+
+  it('should prefer the longest matching nickname', () => {
+    expect(parseMentions('thanks @Bob Smith!', users)).toEqual([
+      { userId: 'user-3', start: 7, length: 10 },
+    ]);
+  });
+
+  it('should ignore unknown names and partial nicknames', () => {
+    expect(parseMentions('@Carol and @Alicia', users)).toEqual([]);
+  });
+
+  it('should ignore email addresses', () => {
+    expect(parseMentions('mail bob@alice.example', users)).toEqual([]);
+  });
+});
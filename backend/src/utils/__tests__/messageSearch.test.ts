@@ -0,0 +1,90 @@
+/**
+ * Message Search Test Suite
+ *
+ * Tests for the chat search index and result snippets:
+ * - Case-insensitive prefix matching of every query term
+ * - Re-indexing and removing messages
+ * - Snippets cut around the first match, with highlights
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MessageSearchIndex,
+  buildSnippet,
+  getQueryTerms,
+} from '../messageSearch';
+
+describe('Message Search', () => {
+  describe('getQueryTerms', () => {
+    it('should return the distinct lowercased words', () => {
+      expect(getQueryTerms('Deploy, deploy LINK! café')).toEqual([
+        'deploy',
+        'link',
+        'café',
+      ]);
+      expect(getQueryTerms(' ?! ')).toEqual([]);
+    });
+  });
+
+  describe('MessageSearchIndex', () => {
+    let index: MessageSearchIndex;
+
+    beforeEach(() => {
+      index = new MessageSearchIndex();
+      index.add('msg-1', 'The deploy link is ready');
+      index.add('msg-2', 'Deployment is done');
+      index.add('msg-3', 'Lunch?');
+    });
+
+    it('should match word prefixes case-insensitively', () => {
+      expect(index.search(['deploy'])).toEqual(new Set(['msg-1', 'msg-2']));
+      expect(index.search(['lun'])).toEqual(new Set(['msg-3']));
+    });
+
+    it('should require every term', () => {
+      expect(index.search(['deploy', 'link'])).toEqual(new Set(['msg-1']));
+      expect(index.search(['deploy', 'lunch'])).toEqual(new Set());
+    });
+
+    it('should not match inside words', () => {
+      expect(index.search(['ploy'])).toEqual(new Set());
+    });
+
+    it('should replace and remove indexed content', () => {
+      index.add('msg-1', 'Nothing to see');
+      index.remove('msg-2');
+
+      expect(index.search(['deploy'])).toEqual(new Set());
+      expect(index.search(['nothing'])).toEqual(new Set(['msg-1']));
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should highlight matching words in short content', () => {
+      expect(buildSnippet('Deploy the\nnew deployment', ['deploy'])).toEqual({
+        text: 'Deploy the new deployment',
+        highlights: [
+          { start: 0, length: 6 },
+          { start: 15, length: 10 },
+        ],
+      });
+    });
+
+    it('should cut long content around the first match at word boundaries', () => {
+      const content = `${'lorem '.repeat(20)}the deploy link ${'ipsum '.repeat(40)}`;
+
+      const snippet = buildSnippet(content, ['link']);
+
+      expect(snippet.text.startsWith('…lorem ')).toBe(true);
+      expect(snippet.text.endsWith('ipsum…')).toBe(true);
+      expect(snippet.text.length).toBeLessThanOrEqual(162);
+      const [highlight] = snippet.highlights;
+      expect(
+        snippet.text.slice(
+          highlight?.start,
+          (highlight?.start ?? 0) + (highlight?.length ?? 0)
+        )
+      ).toBe('link');
+    });
+  });
+});
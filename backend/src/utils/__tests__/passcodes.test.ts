@@ -0,0 +1,36 @@
+/**
+ * Room Passcodes Test Suite
+ *
+ * Tests for hashing and verifying room passcodes:
+ * - Verification of the original passcode
+ * - Rejection of wrong passcodes and malformed hashes
+ * - Salting (same passcode, different hashes)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashPasscode, verifyPasscode } from '../passcodes';
+
+describe('Room Passcodes', () => {
+  it('should verify the original passcode', () => {
+    const stored = hashPasscode('open sesame');
+
+    expect(stored).not.toContain('open sesame');
+    expect(verifyPasscode('open sesame', stored)).toBe(true);
+  });
+
+  it('should reject a wrong passcode', () => {
+    const stored = hashPasscode('open sesame');
+
+    expect(verifyPasscode('Open sesame', stored)).toBe(false);
+    expect(verifyPasscode('', stored)).toBe(false);
+  });
+
+  it('should salt each hash', () => {
+    expect(hashPasscode('1234')).not.toBe(hashPasscode('1234'));
+  });
+
+  it('should reject malformed stored hashes', () => {
+    expect(verifyPasscode('1234', '')).toBe(false);
+    expect(verifyPasscode('1234', 'no-separator')).toBe(false);
+  });
+});
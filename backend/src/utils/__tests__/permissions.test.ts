@@ -0,0 +1,85 @@
+/**
+ * Permissions Test Suite
+ *
+ * Tests for the room role model:
+ * - Which actions each role may perform
+ * - Which roles can be assigned by the owner
+ * - Who may kick or ban whom
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canModerate, isAssignableRole, roleCan } from '../permissions';
+
+describe('Permissions', () => {
+  describe('roleCan', () => {
+    it('should let owners do everything', () => {
+      expect(roleCan('owner', 'chat')).toBe(true);
+      expect(roleCan('owner', 'edit')).toBe(true);
+      expect(roleCan('owner', 'moderate')).toBe(true);
+      expect(roleCan('owner', 'manage-chat')).toBe(true);
+      expect(roleCan('owner', 'manage-roles')).toBe(true);
+      expect(roleCan('owner', 'manage-room')).toBe(true);
+    });
+
+    it('should only let owners and moderators moderate', () => {
+      expect(roleCan('moderator', 'moderate')).toBe(true);
+      expect(roleCan('participant', 'moderate')).toBe(false);
+      expect(roleCan('viewer', 'moderate')).toBe(false);
+    });
+
+    it('should only let owners and moderators pin and announce', () => {
+      expect(roleCan('moderator', 'manage-chat')).toBe(true);
+      expect(roleCan('participant', 'manage-chat')).toBe(false);
+      expect(roleCan('viewer', 'manage-chat')).toBe(false);
+    });
+
+    it('should let moderators and participants chat and edit', () => {
+      for (const role of ['moderator', 'participant'] as const) {
+        expect(roleCan(role, 'chat')).toBe(true);
+        expect(roleCan(role, 'edit')).toBe(true);
+        expect(roleCan(role, 'manage-roles')).toBe(false);
+        expect(roleCan(role, 'manage-room')).toBe(false);
+      }
+    });
+
+    it('should make viewers read-only', () => {
+      expect(roleCan('viewer', 'chat')).toBe(false);
+      expect(roleCan('viewer', 'edit')).toBe(false);
+    });
+  });
+
+  describe('isAssignableRole', () => {
+    it('should accept roles the owner can hand out', () => {
+      expect(isAssignableRole('moderator')).toBe(true);
+      expect(isAssignableRole('participant')).toBe(true);
+      expect(isAssignableRole('viewer')).toBe(true);
+    });
+
+    it('should reject ownership and unknown values', () => {
+      expect(isAssignableRole('owner')).toBe(false);
+      expect(isAssignableRole('admin')).toBe(false);
+      expect(isAssignableRole(undefined)).toBe(false);
+    });
+  });
+
+  describe('canModerate', () => {
+    it('should let the owner remove anyone but themselves', () => {
+      expect(canModerate('owner', 'moderator')).toBe(true);
+      expect(canModerate('owner', 'participant')).toBe(true);
+      expect(canModerate('owner', 'viewer')).toBe(true);
+      expect(canModerate('owner', 'owner')).toBe(false);
+    });
+
+    it('should keep moderators from removing the owner or each other', () => {
+      expect(canModerate('moderator', 'participant')).toBe(true);
+      expect(canModerate('moderator', 'viewer')).toBe(true);
+      expect(canModerate('moderator', 'moderator')).toBe(false);
+      expect(canModerate('moderator', 'owner')).toBe(false);
+    });
+
+    it('should not let participants or viewers remove anyone', () => {
+      expect(canModerate('participant', 'viewer')).toBe(false);
+      expect(canModerate('viewer', 'participant')).toBe(false);
+    });
+  });
+});
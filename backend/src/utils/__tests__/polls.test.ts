@@ -0,0 +1,86 @@
+/**
+ * Polls Test Suite
+ *
+ * Tests for poll helpers:
+ * - Open and closed polls
+ * - Replacing votes and keeping tallies in step
+ * - Hiding voters of anonymous polls from clients
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyVote, isPollOpen, toClientPoll } from '../polls';
+import { Poll } from '../../types';
+
+describe('Polls', () => {
+  const createPoll = (overrides: Partial<Poll> = {}): Poll => ({
+    question: 'Where to?',
+    options: [
+      { id: 'pizza', text: 'Pizza', votes: 0 },
+      { id: 'sushi', text: 'Sushi', votes: 0 },
+    ],
+    multipleChoice: true,
+    anonymous: false,
+    voterCount: 0,
+    ...overrides,
+  });
+
+  describe('isPollOpen', () => {
+    it('should be open until closed or past its close time', () => {
+      const now = new Date('2025-10-26T10:00:00Z');
+
+      expect(isPollOpen(createPoll(), now)).toBe(true);
+      expect(
+        isPollOpen(
+          createPoll({ closesAt: new Date('2025-10-26T10:05:00Z') }),
+          now
+        )
+      ).toBe(true);
+      expect(isPollOpen(createPoll({ closesAt: now }), now)).toBe(false);
+      expect(isPollOpen(createPoll({ closedAt: now }), now)).toBe(false);
+    });
+  });
+
+  describe('applyVote', () => {
+    it("should replace the voter's previous choice", () => {
+      const poll = createPoll();
+
+      applyVote(poll, 'user-1', ['pizza', 'sushi']);
+      applyVote(poll, 'user-2', ['pizza']);
+      applyVote(poll, 'user-1', ['sushi']);
+
+      expect(poll.options).toEqual([
+        { id: 'pizza', text: 'Pizza', votes: 1, voterIds: ['user-2'] },
+        { id: 'sushi', text: 'Sushi', votes: 1, voterIds: ['user-1'] },
+      ]);
+      expect(poll.voterCount).toBe(2);
+    });
+
+    it('should retract votes when no options are given', () => {
+      const poll = createPoll();
+      applyVote(poll, 'user-1', ['pizza']);
+
+      applyVote(poll, 'user-1', []);
+
+      expect(poll.options.map(option => option.votes)).toEqual([0, 0]);
+      expect(poll.voterCount).toBe(0);
+    });
+  });
+
+  describe('toClientPoll', () => {
+    it('should only include voters on named polls', () => {
+      const named = createPoll();
+      applyVote(named, 'user-1', ['pizza']);
+      const anonymous = createPoll({ anonymous: true });
+      applyVote(anonymous, 'user-1', ['pizza']);
+
+      expect(toClientPoll(named).options[0]?.voterIds).toEqual(['user-1']);
+      expect(toClientPoll(anonymous).options[0]).toEqual({
+        id: 'pizza',
+        text: 'Pizza',
+        votes: 1,
+      });
+      // The stored poll keeps its voters
+      expect(anonymous.options[0]?.voterIds).toEqual(['user-1']);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Presence Test Suite
+ *
+ * Tests for deriving presence from activity:
+ * - Active, idle and away by time since the last input
+ * - Away once heartbeats stop
+ * - Offline users
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AWAY_AFTER_MS,
+  HEARTBEAT_TIMEOUT_MS,
+  IDLE_AFTER_MS,
+  derivePresence,
+} from '../presence';
+
+describe('Presence', () => {
+  const now = new Date('2025-10-26T10:00:00Z');
+  const ago = (ms: number) => new Date(now.getTime() - ms);
+
+  it('should follow the time since the last input', () => {
+    const presenceAfter = (idleMs: number) =>
+      derivePresence(
+        { isOnline: true, lastActivity: ago(idleMs), lastSeenAt: now },
+        now
+      );
+
+    expect(presenceAfter(0)).toBe('active');
+    expect(presenceAfter(IDLE_AFTER_MS - 1)).toBe('active');
+    expect(presenceAfter(IDLE_AFTER_MS)).toBe('idle');
+    expect(presenceAfter(AWAY_AFTER_MS)).toBe('away');
+  });
+
+  it('should count users whose heartbeats stopped as away', () => {
+    expect(
+      derivePresence(
+        {
+          isOnline: true,
+          lastActivity: ago(HEARTBEAT_TIMEOUT_MS + 1),
+          lastSeenAt: ago(HEARTBEAT_TIMEOUT_MS + 1),
+        },
+        now
+      )
+    ).toBe('away');
+  });
+
+  it('should count users without activity on record as active', () => {
+    expect(derivePresence({ isOnline: true }, now)).toBe('active');
+  });
+
+  it('should be offline whenever the user is', () => {
+    expect(
+      derivePresence(
+        { isOnline: false, lastActivity: now, lastSeenAt: now },
+        now
+      )
+    ).toBe('offline');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Session Tokens Test Suite
+ *
+ * Tests for signed session tokens used to restore identities on rejoin:
+ * - Round trip of issued tokens
+ * - Rejection of tokens for other rooms
+ * - Rejection of tampered or malformed tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSessionToken, verifySessionToken } from '../sessionTokens';
+
+describe('Session Tokens', () => {
+  const roomId = '123e4567-e89b-42d3-a456-426614174000';
+  const otherRoomId = '123e4567-e89b-42d3-a456-426614174001';
+
+  it('should verify a token issued for the room', () => {
+    const token = createSessionToken(roomId, 'user-1');
+
+    expect(verifySessionToken(token, roomId)).toBe('user-1');
+  });
+
+  it('should reject a token issued for another room', () => {
+    const token = createSessionToken(otherRoomId, 'user-1');
+
+    expect(verifySessionToken(token, roomId)).toBeNull();
+  });
+
+  it('should reject a token whose payload was swapped', () => {
+    const token = createSessionToken(roomId, 'user-1');
+    const [, signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ roomId, userId: 'owner' })
+    ).toString('base64url');
+
+    expect(
+      verifySessionToken(`${forgedPayload}.${signature}`, roomId)
+    ).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifySessionToken('', roomId)).toBeNull();
+    expect(verifySessionToken('user-1', roomId)).toBeNull();
+    expect(verifySessionToken('a.b.c', roomId)).toBeNull();
+    expect(verifySessionToken('not-base64.signature', roomId)).toBeNull();
+  });
+});
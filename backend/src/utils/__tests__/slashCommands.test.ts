@@ -0,0 +1,75 @@
+/**
+ * Slash Commands Test Suite
+ *
+ * Tests for slash command argument parsing:
+ * - Timer durations and labels
+ * - Formatting durations for messages
+ * - Poll questions and options
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatDuration,
+  MAX_TIMER_MS,
+  parseDuration,
+  parsePollArgs,
+  parseTimerArgs,
+} from '../slashCommands';
+
+describe('Slash Commands', () => {
+  describe('parseDuration', () => {
+    it('should parse units and bare minutes', () => {
+      expect(parseDuration('90s')).toBe(90_000);
+      expect(parseDuration('5m')).toBe(300_000);
+      expect(parseDuration('1h30m')).toBe(5_400_000);
+      expect(parseDuration('10')).toBe(600_000);
+      expect(parseDuration(' 2M ')).toBe(120_000);
+    });
+
+    it('should reject malformed and out of range durations', () => {
+      expect(parseDuration('')).toBeUndefined();
+      expect(parseDuration('soon')).toBeUndefined();
+      expect(parseDuration('5x')).toBeUndefined();
+      expect(parseDuration('30s5m')).toBeUndefined();
+      expect(parseDuration('0s')).toBeUndefined();
+      expect(parseDuration('25h')).toBeUndefined();
+      expect(parseDuration('24h')).toBe(MAX_TIMER_MS);
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format durations with their largest units', () => {
+      expect(formatDuration(45_000)).toBe('45s');
+      expect(formatDuration(300_000)).toBe('5m');
+      expect(formatDuration(5_430_000)).toBe('1h 30m 30s');
+    });
+  });
+
+  describe('parseTimerArgs', () => {
+    it('should split the duration from the label', () => {
+      expect(parseTimerArgs('5m Coffee  break')).toEqual({
+        durationMs: 300_000,
+        label: 'Coffee break',
+      });
+      expect(parseTimerArgs('30s')).toEqual({ durationMs: 30_000, label: '' });
+    });
+
+    it('should reject a missing or invalid duration', () => {
+      expect(parseTimerArgs('')).toBeUndefined();
+      expect(parseTimerArgs('Coffee 5m')).toBeUndefined();
+    });
+  });
+
+  describe('parsePollArgs', () => {
+    it('should split the question from the options', () => {
+      expect(parsePollArgs('Lunch? | Pizza |Sushi')).toEqual({
+        question: 'Lunch?',
+        options: ['Pizza', 'Sushi'],
+      });
+    });
+
+    it('should need at least one separator', () => {
+      expect(parsePollArgs('Lunch?')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * User Appearance Test Suite
+ *
+ * Tests for user colors and avatars:
+ * - Distinct colors within a room
+ * - Sharing colors fairly once all are used
+ * - Stable identicons derived from the user ID
+ */
+
+import { describe, it, expect } from 'vitest';
+import { USER_COLORS, createIdenticon, pickUserColor } from '../userAppearance';
+
+describe('User Appearance', () => {
+  describe('pickUserColor', () => {
+    it('should pick the same color for a user in an empty room', () => {
+      expect(pickUserColor('user-1', [])).toBe(pickUserColor('user-1', []));
+      expect(USER_COLORS).toContain(pickUserColor('user-1', []));
+    });
+
+    it('should avoid colors already used in the room', () => {
+      const used: string[] = [];
+      for (let i = 0; i < USER_COLORS.length; i++) {
+        used.push(pickUserColor(`user-${i}`, used));
+      }
+
+      expect(new Set(used).size).toBe(USER_COLORS.length);
+    });
+
+    it('should reuse the least used color once all are taken', () => {
+      const [spare, ...others] = USER_COLORS;
+      const used = [...USER_COLORS, ...others];
+
+      expect(pickUserColor('user-1', used)).toBe(spare);
+    });
+  });
+
+  describe('createIdenticon', () => {
+    it('should return an SVG data URL in the given color', () => {
+      const identicon = createIdenticon('user-1', '#2563EB');
+
+      expect(identicon.startsWith('data:image/svg+xml,')).toBe(true);
+      expect(decodeURIComponent(identicon)).toContain('fill="#2563EB"');
+    });
+
+    it('should derive the pattern from the user ID', () => {
+      expect(createIdenticon('user-1', '#2563EB')).toBe(
+        createIdenticon('user-1', '#2563EB')
+      );
+      expect(createIdenticon('user-1', '#2563EB')).not.toBe(
+        createIdenticon('user-2', '#2563EB')
+      );
+    });
+  });
+});
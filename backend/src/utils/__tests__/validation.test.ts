@@ -1,10 +1,11 @@
 /**
  * Validation Utils Test Suite
- * 
+ *
  * Comprehensive tests for validation functions including:
  * - Nickname validation (length, format, special characters)
  * - Message validation (length, prohibited content, XSS protection)
  * - Room ID validation (UUID v4 format)
+ * - Room name and slug validation
  * - Input sanitization (HTML removal, protocol filtering)
  * - Rate limiting functionality
  */
@@ -13,9 +14,19 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   validateNickname,
   validateMessage,
+  validateModerationReason,
+  validateReaction,
+  validateAnnouncement,
+  validatePoll,
+  validateSearchQuery,
   validateRoomId,
+  validateRoomName,
+  validateRoomSlug,
+  validateRoomIdOrSlug,
   sanitizeInput,
+  sanitizeMessage,
   RateLimiter,
+  FailureLockout,
   ValidationError,
   VALIDATION_RULES,
 } from '../validation';
@@ -53,7 +64,7 @@ describe('Validation Utils', () => {
         'A'.repeat(50), // Max length
       ];
 
-      validNicknames.forEach((nickname) => {
+      validNicknames.forEach(nickname => {
         const result = validateNickname(nickname);
         expect(result.isValid).toBe(true);
         expect(result.error).toBeUndefined();
@@ -100,7 +111,7 @@ describe('Validation Utils', () => {
         'user*name',
       ];
 
-      invalidNicknames.forEach((nickname) => {
+      invalidNicknames.forEach(nickname => {
         const result = validateNickname(nickname);
         expect(result.isValid).toBe(false);
         expect(result.error).toContain('letters, numbers');
@@ -137,7 +148,7 @@ describe('Validation Utils', () => {
         'Special chars: !@#$%^&*()',
       ];
 
-      validMessages.forEach((message) => {
+      validMessages.forEach(message => {
         const result = validateMessage(message);
         expect(result.isValid).toBe(true);
         expect(result.error).toBeUndefined();
@@ -206,18 +217,130 @@ describe('Validation Utils', () => {
     });
 
     it('should reject messages with data:text/html', () => {
-      const result = validateMessage('data:text/html,<script>alert("xss")</script>');
+      const result = validateMessage(
+        'data:text/html,<script>alert("xss")</script>'
+      );
       expect(result.isValid).toBe(false);
       expect(result.error).toBe('Message contains prohibited content');
     });
 
     it('should be case-insensitive for prohibited patterns', () => {
       const patterns = ['SPAM', 'SpAm', 'SCAM', 'ScAm', 'PHISHING', 'PhIsHiNg'];
-      patterns.forEach((pattern) => {
+      patterns.forEach(pattern => {
         const result = validateMessage(`This is ${pattern}`);
         expect(result.isValid).toBe(false);
       });
     });
+
+    it('should limit the number of lines', () => {
+      const lines = (count: number) => Array(count).fill('line').join('\n');
+      expect(
+        validateMessage(lines(VALIDATION_RULES.message.maxLines)).isValid
+      ).toBe(true);
+      expect(
+        validateMessage(lines(VALIDATION_RULES.message.maxLines + 1)).error
+      ).toBe(
+        `Message must be no more than ${VALIDATION_RULES.message.maxLines} lines`
+      );
+    });
+  });
+
+  describe('validateReaction', () => {
+    it('should accept emoji from the palette', () => {
+      for (const emoji of VALIDATION_RULES.reaction.allowed) {
+        expect(validateReaction(emoji).isValid).toBe(true);
+      }
+    });
+
+    it('should reject anything else', () => {
+      expect(validateReaction('').isValid).toBe(false);
+      expect(validateReaction('hello').isValid).toBe(false);
+      expect(validateReaction('👍👍').error).toBe(
+        VALIDATION_RULES.reaction.description
+      );
+    });
+  });
+
+  describe('validateModerationReason', () => {
+    it('should accept an empty or short reason', () => {
+      expect(validateModerationReason('').isValid).toBe(true);
+      expect(validateModerationReason('Spamming the chat').isValid).toBe(true);
+    });
+
+    it('should reject overly long reasons', () => {
+      const result = validateModerationReason(
+        'a'.repeat(VALIDATION_RULES.moderationReason.maxLength + 1)
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(VALIDATION_RULES.moderationReason.description);
+    });
+  });
+
+  describe('validateAnnouncement', () => {
+    it('should accept an empty or short announcement', () => {
+      expect(validateAnnouncement('').isValid).toBe(true);
+      expect(validateAnnouncement('Standup at 10:00').isValid).toBe(true);
+    });
+
+    it('should reject overly long announcements', () => {
+      const result = validateAnnouncement(
+        'a'.repeat(VALIDATION_RULES.announcement.maxLength + 1)
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(VALIDATION_RULES.announcement.description);
+    });
+  });
+
+  describe('validatePoll', () => {
+    it('should accept a question with distinct options', () => {
+      expect(validatePoll('Where to?', ['Pizza', 'Sushi']).isValid).toBe(true);
+    });
+
+    it('should require a question of limited length', () => {
+      expect(validatePoll('  ', ['Pizza', 'Sushi']).error).toBe(
+        'Poll question is required'
+      );
+      expect(validatePoll('a'.repeat(201), ['Pizza', 'Sushi']).error).toBe(
+        'Poll question must be no more than 200 characters'
+      );
+    });
+
+    it('should require 2-10 options', () => {
+      expect(validatePoll('Where to?', ['Pizza']).error).toBe(
+        'Polls need 2-10 options'
+      );
+      const tooMany = Array.from({ length: 11 }, (_, i) => `Option ${i}`);
+      expect(validatePoll('Where to?', tooMany).error).toBe(
+        'Polls need 2-10 options'
+      );
+    });
+
+    it('should reject empty, overly long and duplicate options', () => {
+      expect(validatePoll('Where to?', ['Pizza', ' ']).error).toBe(
+        'Poll options cannot be empty'
+      );
+      expect(validatePoll('Where to?', ['Pizza', 'a'.repeat(81)]).error).toBe(
+        'Poll options must be no more than 80 characters'
+      );
+      expect(validatePoll('Where to?', ['Pizza', ' pizza ']).error).toBe(
+        'Poll options must be different'
+      );
+    });
+  });
+
+  describe('validateSearchQuery', () => {
+    it('should accept a short query', () => {
+      expect(validateSearchQuery('deploy link').isValid).toBe(true);
+    });
+
+    it('should reject empty and overly long queries', () => {
+      expect(validateSearchQuery('   ').error).toBe('Search query is required');
+      const result = validateSearchQuery(
+        'a'.repeat(VALIDATION_RULES.searchQuery.maxLength + 1)
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(VALIDATION_RULES.searchQuery.description);
+    });
   });
 
   describe('validateRoomId', () => {
@@ -228,7 +351,7 @@ describe('Validation Utils', () => {
         '7c9e6679-7425-40de-944b-e07fc1f90ae7',
       ];
 
-      validUUIDs.forEach((uuid) => {
+      validUUIDs.forEach(uuid => {
         const result = validateRoomId(uuid);
         expect(result.isValid).toBe(true);
         expect(result.error).toBeUndefined();
@@ -255,7 +378,7 @@ describe('Validation Utils', () => {
         '550e8400-e29b-31d4-a716-446655440000', // Wrong version (v3 instead of v4)
       ];
 
-      invalidUUIDs.forEach((uuid) => {
+      invalidUUIDs.forEach(uuid => {
         const result = validateRoomId(uuid);
         expect(result.isValid).toBe(false);
         expect(result.error).toBe('Invalid room ID format');
@@ -292,6 +415,66 @@ describe('Validation Utils', () => {
     });
   });
 
+  describe('validateRoomName', () => {
+    it('should accept names within the length limit', () => {
+      expect(validateRoomName('Sprint 42 Retro').isValid).toBe(true);
+    });
+
+    it('should reject empty and whitespace-only names', () => {
+      expect(validateRoomName('   ').error).toBe('Room name cannot be empty');
+    });
+
+    it('should reject names that are too long', () => {
+      const result = validateRoomName('a'.repeat(61));
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('60');
+    });
+  });
+
+  describe('validateRoomSlug', () => {
+    it('should accept lowercase words separated by hyphens', () => {
+      expect(validateRoomSlug('sprint-42-retro').isValid).toBe(true);
+    });
+
+    it.each([
+      'ab',
+      'Sprint-42',
+      'sprint--42',
+      '-sprint',
+      'sprint_42',
+      'a'.repeat(51),
+    ])('should reject %s', slug => {
+      const result = validateRoomSlug(slug);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(VALIDATION_RULES.roomSlug.description);
+    });
+
+    it('should reject UUID-shaped slugs so they cannot shadow room IDs', () => {
+      expect(
+        validateRoomSlug('550e8400-e29b-11d4-a716-446655440000').isValid
+      ).toBe(false);
+    });
+  });
+
+  describe('validateRoomIdOrSlug', () => {
+    it('should accept room IDs and slugs', () => {
+      expect(
+        validateRoomIdOrSlug('550e8400-e29b-41d4-a716-446655440000').isValid
+      ).toBe(true);
+      expect(validateRoomIdOrSlug('sprint-42-retro').isValid).toBe(true);
+    });
+
+    it('should reject anything else with the room ID error', () => {
+      const result = validateRoomIdOrSlug('not_a_room');
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Invalid room ID format');
+    });
+
+    it('should require a value', () => {
+      expect(validateRoomIdOrSlug('').error).toBe('Room ID is required');
+    });
+  });
+
   describe('sanitizeInput', () => {
     it('should trim whitespace', () => {
       expect(sanitizeInput('  hello  ')).toBe('hello');
@@ -299,7 +482,9 @@ describe('Validation Utils', () => {
 
     it('should remove HTML tags', () => {
       expect(sanitizeInput('<div>hello</div>')).toBe('hello');
-      expect(sanitizeInput('<script>alert("xss")</script>')).toBe('alert("xss")');
+      expect(sanitizeInput('<script>alert("xss")</script>')).toBe(
+        'alert("xss")'
+      );
       expect(sanitizeInput('<b>bold</b> text')).toBe('bold text');
     });
 
@@ -309,7 +494,9 @@ describe('Validation Utils', () => {
     });
 
     it('should remove data:text/html protocol', () => {
-      expect(sanitizeInput('data:text/html,<script>test</script>')).toBe(',test');
+      expect(sanitizeInput('data:text/html,<script>test</script>')).toBe(
+        ',test'
+      );
       expect(sanitizeInput('DATA:TEXT/HTML,content')).toBe(',content');
     });
 
@@ -341,7 +528,42 @@ describe('Validation Utils', () => {
 
     it('should preserve safe text content', () => {
       expect(sanitizeInput('Hello, world! 123')).toBe('Hello, world! 123');
-      expect(sanitizeInput('Special chars: !@#$%')).toBe('Special chars: !@#$%');
+      expect(sanitizeInput('Special chars: !@#$%')).toBe(
+        'Special chars: !@#$%'
+      );
+    });
+  });
+
+  describe('sanitizeMessage', () => {
+    it('should keep newlines, indentation and markup characters', () => {
+      const code = '```\nif (a < b) {\n  return <div />;\n}\n```';
+      expect(sanitizeMessage(code)).toBe(code);
+      expect(sanitizeMessage('**bold** and `x <= y`')).toBe(
+        '**bold** and `x <= y`'
+      );
+    });
+
+    it('should normalize line endings and strip trailing whitespace', () => {
+      expect(sanitizeMessage('one  \r\ntwo\t\r\n\n  ')).toBe('one\ntwo');
+    });
+
+    it('should keep the indentation of the first line', () => {
+      expect(sanitizeMessage('\n\n    const a = 1;\n    a++;\n')).toBe(
+        '    const a = 1;\n    a++;'
+      );
+    });
+
+    it('should collapse long runs of blank lines', () => {
+      expect(sanitizeMessage('a\n\n\n\n\n\nb')).toBe('a\n\n\nb');
+    });
+
+    it('should drop control characters', () => {
+      expect(sanitizeMessage('a\u0000b\u0007c\u007f\td')).toBe('abc\td');
+    });
+
+    it('should handle non-string input', () => {
+      expect(sanitizeMessage(null as unknown as string)).toBe('');
+      expect(sanitizeMessage(undefined as unknown as string)).toBe('');
     });
   });
 
@@ -412,7 +634,7 @@ describe('Validation Utils', () => {
 
     it('should use custom limits', () => {
       const customLimiter = new RateLimiter(5, 2000);
-      
+
       for (let i = 0; i < 5; i++) {
         expect(customLimiter.isAllowed('user1')).toBe(true);
       }
@@ -429,9 +651,9 @@ describe('Validation Utils', () => {
 
     it('should reset count after window expires', () => {
       rateLimiter.isAllowed('user1');
-      
+
       vi.advanceTimersByTime(1001);
-      
+
       // After window expires, should get a fresh count
       expect(rateLimiter.isAllowed('user1')).toBe(true);
       expect(rateLimiter.isAllowed('user1')).toBe(true);
@@ -439,4 +661,66 @@ describe('Validation Utils', () => {
       expect(rateLimiter.isAllowed('user1')).toBe(false);
     });
   });
+
+  describe('FailureLockout', () => {
+    let lockout: FailureLockout;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      lockout = new FailureLockout(3, 1000, 4000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should lock out after repeated failures', () => {
+      lockout.recordFailure('client1');
+      lockout.recordFailure('client1');
+      expect(lockout.isLockedOut('client1')).toBe(false);
+
+      lockout.recordFailure('client1');
+      expect(lockout.isLockedOut('client1')).toBe(true);
+      expect(lockout.isLockedOut('client2')).toBe(false);
+
+      vi.advanceTimersByTime(1001);
+      expect(lockout.isLockedOut('client1')).toBe(false);
+    });
+
+    it('should double the lockout for each further failure, up to the maximum', () => {
+      for (let i = 0; i < 4; i++) {
+        lockout.recordFailure('client1');
+      }
+      vi.advanceTimersByTime(1999);
+      expect(lockout.isLockedOut('client1')).toBe(true);
+      vi.advanceTimersByTime(2);
+      expect(lockout.isLockedOut('client1')).toBe(false);
+
+      for (let i = 0; i < 5; i++) {
+        lockout.recordFailure('client1');
+      }
+      vi.advanceTimersByTime(4001);
+      expect(lockout.isLockedOut('client1')).toBe(false);
+    });
+
+    it('should clear failures on success', () => {
+      lockout.recordFailure('client1');
+      lockout.recordFailure('client1');
+      lockout.recordSuccess('client1');
+      lockout.recordFailure('client1');
+
+      expect(lockout.isLockedOut('client1')).toBe(false);
+    });
+
+    it('should forget quiet identifiers on cleanup', () => {
+      lockout.recordFailure('client1');
+      lockout.recordFailure('client1');
+
+      vi.advanceTimersByTime(4001);
+      lockout.cleanup();
+      lockout.recordFailure('client1');
+
+      expect(lockout.isLockedOut('client1')).toBe(false);
+    });
+  });
 });
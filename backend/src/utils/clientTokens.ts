@@ -0,0 +1,46 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { backendConfig } from '../config/environment';
+
+// Client tokens identify a browser independently of its user ID, so a banned
+// user can't return simply by joining under a new nickname. The server issues
+// one on a browser's first connection and the client sends it back with every
+// handshake. Unlike the connection address, it isn't shared by everyone behind
+// the same proxy or NAT; clearing the browser's storage does get a new one.
+// Format: client ID + '.' + HMAC
+
+export interface IssuedClientToken {
+  clientId: string;
+  clientToken: string;
+}
+
+function sign(clientId: string): string {
+  return createHmac('sha256', backendConfig.SESSION_SECRET)
+    .update(`client:${clientId}`)
+    .digest('base64url');
+}
+
+export function createClientToken(): IssuedClientToken {
+  const clientId = randomUUID();
+  return { clientId, clientToken: `${clientId}.${sign(clientId)}` };
+}
+
+/**
+ * Return the client ID the token was issued for, or null if the token is
+ * missing, malformed or tampered with
+ */
+export function verifyClientToken(token: unknown): string | null {
+  if (typeof token !== 'string') {
+    return null;
+  }
+  const [clientId, signature, ...rest] = token.split('.');
+  if (!clientId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(clientId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return clientId;
+}
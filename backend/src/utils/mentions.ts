@@ -0,0 +1,42 @@
+import { MessageMention, User } from '../types';
+
+// Characters that can continue a nickname; a mention must not be followed by one
+const NICKNAME_CHAR = /[a-zA-Z0-9\-_]/;
+
+/**
+ * Find `@nickname` mentions of users in the room. Nicknames may contain
+ * spaces, so at each `@` the longest matching nickname wins (case-insensitive).
+ * An `@` must start the message or follow whitespace, so email addresses
+ * aren't mentions.
+ */
+export function parseMentions(
+  content: string,
+  users: Pick<User, 'id' | 'nickname'>[]
+): MessageMention[] {
+  const candidates = users
+    .map(user => ({ id: user.id, nickname: user.nickname.toLowerCase() }))
+    .sort((a, b) => b.nickname.length - a.nickname.length);
+  const lowered = content.toLowerCase();
+  const mentions: MessageMention[] = [];
+
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] !== '@' || (i > 0 && !/\s/.test(content[i - 1] ?? ''))) {
+      continue;
+    }
+
+    const match = candidates.find(candidate => {
+      const end = i + 1 + candidate.nickname.length;
+      return (
+        lowered.startsWith(candidate.nickname, i + 1) &&
+        !NICKNAME_CHAR.test(content[end] ?? '')
+      );
+    });
+    if (match) {
+      const length = match.nickname.length + 1;
+      mentions.push({ userId: match.id, start: i, length });
+      i += length - 1;
+    }
+  }
+
+  return mentions;
+}
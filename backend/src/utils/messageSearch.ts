@@ -0,0 +1,136 @@
+import { MessageSearchSnippet } from '../types';
+
+// Searchable words are runs of letters and digits, compared case-insensitively
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Snippets keep this much content before the first match, and this much overall
+const SNIPPET_CONTEXT = 40;
+const SNIPPET_LENGTH = 160;
+
+interface Word {
+  term: string; // Lowercased
+  start: number;
+  length: number;
+}
+
+function findWords(text: string): Word[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: match[0].toLowerCase(),
+    start: match.index,
+    length: match[0].length,
+  }));
+}
+
+// The distinct lowercased words of a search query
+export function getQueryTerms(query: string): string[] {
+  return Array.from(new Set(findWords(query).map(word => word.term)));
+}
+
+/**
+ * Inverted index from words to the IDs of the messages containing them.
+ * A message matches a query when, for every query term, one of its words
+ * starts with that term ("deploy" finds "deployment").
+ */
+export class MessageSearchIndex {
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly termsByMessage = new Map<string, Set<string>>();
+
+  // Index the message's content, replacing what was indexed for it before
+  add(messageId: string, content: string): void {
+    this.remove(messageId);
+
+    const terms = new Set(findWords(content).map(word => word.term));
+    if (terms.size === 0) {
+      return;
+    }
+
+    this.termsByMessage.set(messageId, terms);
+    for (const term of terms) {
+      const messageIds = this.postings.get(term) ?? new Set<string>();
+      messageIds.add(messageId);
+      this.postings.set(term, messageIds);
+    }
+  }
+
+  remove(messageId: string): void {
+    const terms = this.termsByMessage.get(messageId);
+    if (!terms) {
+      return;
+    }
+
+    this.termsByMessage.delete(messageId);
+    for (const term of terms) {
+      const messageIds = this.postings.get(term);
+      messageIds?.delete(messageId);
+      if (messageIds?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  // IDs of the messages matching every term, in no particular order
+  search(terms: string[]): Set<string> {
+    let matches: Set<string> | undefined;
+
+    for (const term of terms) {
+      const termMatches = new Set<string>();
+      for (const [indexed, messageIds] of this.postings) {
+        if (indexed.startsWith(term)) {
+          messageIds.forEach(messageId => termMatches.add(messageId));
+        }
+      }
+
+      matches = matches
+        ? new Set([...matches].filter(messageId => termMatches.has(messageId)))
+        : termMatches;
+      if (matches.size === 0) {
+        break;
+      }
+    }
+
+    return matches ?? new Set();
+  }
+}
+
+/**
+ * Cut the content around its first word matching one of the terms, with the
+ * matching words highlighted. Line breaks become spaces so snippets fit on
+ * one line.
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[]
+): MessageSearchSnippet {
+  const matches = findWords(content).filter(word =>
+    terms.some(term => word.term.startsWith(term))
+  );
+
+  let start = Math.max((matches[0]?.start ?? 0) - SNIPPET_CONTEXT, 0);
+  if (start > 0) {
+    // Don't start in the middle of a word
+    const nextSpace = content.slice(start).search(/\s/);
+    if (nextSpace !== -1 && start + nextSpace < (matches[0]?.start ?? 0)) {
+      start += nextSpace + 1;
+    }
+  }
+
+  let end = Math.min(start + SNIPPET_LENGTH, content.length);
+  if (end < content.length) {
+    const lastSpace = content.slice(start, end).search(/\s\S*$/);
+    if (lastSpace > 0) {
+      end = start + lastSpace;
+    }
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  return {
+    text: prefix + content.slice(start, end).replace(/\s/g, ' ') + suffix,
+    highlights: matches
+      .filter(word => word.start >= start && word.start + word.length <= end)
+      .map(word => ({
+        start: word.start - start + prefix.length,
+        length: word.length,
+      })),
+  };
+}
@@ -0,0 +1,23 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+// Room passcodes are stored as `salt:hash` (hex, scrypt) so a leaked rooms
+// file doesn't reveal them
+
+const KEY_LENGTH = 32;
+
+export function hashPasscode(passcode: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(passcode, salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPasscode(passcode: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(passcode, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
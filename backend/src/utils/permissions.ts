@@ -0,0 +1,49 @@
+import { AssignableRole, UserRole } from '../types';
+
+// Actions that socket handlers check before mutating room state
+export type RoomAction =
+  | 'chat'
+  | 'edit'
+  | 'moderate'
+  | 'manage-chat' // Pin messages and set the room announcement
+  | 'manage-roles'
+  | 'manage-room';
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly RoomAction[]> = {
+  owner: [
+    'chat',
+    'edit',
+    'moderate',
+    'manage-chat',
+    'manage-roles',
+    'manage-room',
+  ],
+  moderator: ['chat', 'edit', 'moderate', 'manage-chat'],
+  participant: ['chat', 'edit'],
+  viewer: [], // Read-only: can follow chat and the document
+};
+
+const ASSIGNABLE_ROLES: readonly string[] = [
+  'moderator',
+  'participant',
+  'viewer',
+] satisfies AssignableRole[];
+
+export function isAssignableRole(value: unknown): value is AssignableRole {
+  return typeof value === 'string' && ASSIGNABLE_ROLES.includes(value);
+}
+
+export function roleCan(role: UserRole, action: RoomAction): boolean {
+  return ROLE_PERMISSIONS[role].includes(action);
+}
+
+/**
+ * Whether `actor` may kick or ban `target`. The owner can remove anyone;
+ * moderators can't remove the owner or each other.
+ */
+export function canModerate(actor: UserRole, target: UserRole): boolean {
+  if (!roleCan(actor, 'moderate') || target === 'owner') {
+    return false;
+  }
+  return actor === 'owner' || !roleCan(target, 'moderate');
+}
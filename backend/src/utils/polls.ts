@@ -0,0 +1,48 @@
+import { Poll } from '../types';
+
+// Polls stop accepting votes once closed early or past their close time
+export function isPollOpen(poll: Poll, now: Date = new Date()): boolean {
+  return (
+    !poll.closedAt &&
+    (!poll.closesAt || poll.closesAt.getTime() > now.getTime())
+  );
+}
+
+/**
+ * Replace a user's votes on a poll with the given options (none retracts
+ * them), keeping the tallies in step. Callers check the options belong to
+ * the poll and that single-choice polls get at most one.
+ */
+export function applyVote(
+  poll: Poll,
+  userId: string,
+  optionIds: string[]
+): void {
+  const chosen = new Set(optionIds);
+  const voters = new Set<string>();
+
+  for (const option of poll.options) {
+    const voterIds = (option.voterIds ?? []).filter(id => id !== userId);
+    if (chosen.has(option.id)) {
+      voterIds.push(userId);
+    }
+    option.voterIds = voterIds;
+    option.votes = voterIds.length;
+    voterIds.forEach(id => voters.add(id));
+  }
+
+  poll.voterCount = voters.size;
+}
+
+// The poll as sent to clients: who voted for what stays on the server for
+// anonymous polls
+export function toClientPoll(poll: Poll): Poll {
+  return {
+    ...poll,
+    options: poll.options.map(option =>
+      poll.anonymous
+        ? { id: option.id, text: option.text, votes: option.votes }
+        : { ...option }
+    ),
+  };
+}
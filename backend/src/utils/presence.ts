@@ -0,0 +1,41 @@
+import { PresenceStatus, User } from '../types';
+
+// Clients report presence this often (mirrored in the frontend)
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+
+// No input for this long makes a user idle, then away
+export const IDLE_AFTER_MS = 60 * 1000;
+export const AWAY_AFTER_MS = 10 * 60 * 1000;
+
+// Without a heartbeat for this long a connected user counts as away, e.g. a
+// sleeping laptop whose socket hasn't timed out yet. Generous because
+// browsers slow down timers in background tabs.
+export const HEARTBEAT_TIMEOUT_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+/**
+ * The presence state a user is in at `now`. Users without activity on record
+ * (e.g. stored before presence was tracked) count as active until their
+ * first heartbeat.
+ */
+export function derivePresence(
+  user: Pick<User, 'isOnline' | 'lastActivity' | 'lastSeenAt'>,
+  now: Date = new Date()
+): PresenceStatus {
+  if (!user.isOnline) {
+    return 'offline';
+  }
+  if (
+    user.lastSeenAt &&
+    now.getTime() - user.lastSeenAt.getTime() > HEARTBEAT_TIMEOUT_MS
+  ) {
+    return 'away';
+  }
+
+  const idleMs = user.lastActivity
+    ? now.getTime() - user.lastActivity.getTime()
+    : 0;
+  if (idleMs >= AWAY_AFTER_MS) {
+    return 'away';
+  }
+  return idleMs >= IDLE_AFTER_MS ? 'idle' : 'active';
+}
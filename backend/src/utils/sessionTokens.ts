@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { backendConfig } from '../config/environment';
+
+// Session tokens prove a client owns a userId in a room, so user IDs that are
+// broadcast to everyone (room-joined, user-joined) can't be used to take over
+// someone else's identity. Format: base64url(JSON payload) + '.' + HMAC
+
+interface SessionTokenPayload {
+  roomId: string;
+  userId: string;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', backendConfig.SESSION_SECRET)
+    .update(encodedPayload)
+    .digest('base64url');
+}
+
+export function createSessionToken(roomId: string, userId: string): string {
+  const payload: SessionTokenPayload = { roomId, userId };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    'base64url'
+  );
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Return the userId the token was issued for, or null if the token is
+ * malformed, tampered with, or belongs to a different room
+ */
+export function verifySessionToken(
+  token: string,
+  roomId: string
+): string | null {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf8')
+    ) as Partial<SessionTokenPayload>;
+    if (payload.roomId !== roomId || typeof payload.userId !== 'string') {
+      return null;
+    }
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,75 @@
+// Argument parsing for the slash commands typed in the chat input. The
+// commands themselves are handled in socketService.
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  m: 60 * 1000,
+  s: 1000,
+};
+
+export const MAX_TIMER_MS = 24 * DURATION_UNITS_MS.h!;
+export const MAX_TIMER_LABEL_LENGTH = 100;
+
+/**
+ * Parse a timer duration such as `90s`, `5m` or `1h30m`; a bare number is
+ * minutes. Returns undefined for anything else and for durations outside one
+ * second to 24 hours.
+ */
+export function parseDuration(text: string): number | undefined {
+  const value = text.trim().toLowerCase();
+  let ms: number;
+
+  if (/^\d+$/.test(value)) {
+    ms = Number(value) * DURATION_UNITS_MS.m!;
+  } else {
+    const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(value);
+    if (!value || !match) {
+      return undefined;
+    }
+    const [, hours = '0', minutes = '0', seconds = '0'] = match;
+    ms =
+      Number(hours) * DURATION_UNITS_MS.h! +
+      Number(minutes) * DURATION_UNITS_MS.m! +
+      Number(seconds) * DURATION_UNITS_MS.s!;
+  }
+
+  return ms >= DURATION_UNITS_MS.s! && ms <= MAX_TIMER_MS ? ms : undefined;
+}
+
+// e.g. `1h 30m` or `45s`
+export function formatDuration(ms: number): string {
+  let remaining = Math.round(ms / 1000);
+  const parts: string[] = [];
+  for (const [unit, unitMs] of Object.entries(DURATION_UNITS_MS)) {
+    const unitSeconds = unitMs / 1000;
+    const count = Math.floor(remaining / unitSeconds);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remaining -= count * unitSeconds;
+    }
+  }
+  return parts.join(' ') || '0s';
+}
+
+// `/timer <duration> [label]`
+export function parseTimerArgs(
+  args: string
+): { durationMs: number; label: string } | undefined {
+  const [duration = '', ...labelWords] = args.trim().split(/\s+/);
+  const durationMs = parseDuration(duration);
+  if (durationMs === undefined) {
+    return undefined;
+  }
+  return { durationMs, label: labelWords.join(' ') };
+}
+
+// `/poll <question> | <option> | <option>...`; validatePoll checks the parts
+export function parsePollArgs(
+  args: string
+): { question: string; options: string[] } | undefined {
+  if (!args.includes('|')) {
+    return undefined;
+  }
+  const [question = '', ...options] = args.split('|').map(part => part.trim());
+  return { question, options };
+}
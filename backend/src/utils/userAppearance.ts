@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+
+// Dark enough for white initials on top; clients use the same hex values for
+// editor cursors, avatars and chat names
+export const USER_COLORS = [
+  '#2563EB', // blue
+  '#16A34A', // green
+  '#9333EA', // purple
+  '#DB2777', // pink
+  '#EA580C', // orange
+  '#0D9488', // teal
+  '#DC2626', // red
+  '#4F46E5', // indigo
+  '#CA8A04', // yellow
+  '#0891B2', // cyan
+  '#65A30D', // lime
+  '#C026D3', // fuchsia
+  '#E11D48', // rose
+  '#059669', // emerald
+  '#7C3AED', // violet
+  '#0284C7', // sky
+];
+
+// Identicons are 5x5 grids, mirrored left to right
+const IDENTICON_SIZE = 5;
+const IDENTICON_BACKGROUND = '#F3F4F6';
+
+const hashUserId = (userId: string): Buffer =>
+  createHash('sha256').update(userId).digest();
+
+/**
+ * Pick a color for a user joining a room where others already have the
+ * given colors. Starts from a color derived from the user ID and takes the
+ * first unused one; once all are used, the least used.
+ */
+export function pickUserColor(userId: string, usedColors: string[]): string {
+  const uses = new Map<string, number>(USER_COLORS.map(color => [color, 0]));
+  for (const color of usedColors) {
+    const count = uses.get(color);
+    if (count !== undefined) {
+      uses.set(color, count + 1);
+    }
+  }
+
+  const start = hashUserId(userId).readUInt32BE(0) % USER_COLORS.length;
+  let best = USER_COLORS[start]!;
+  for (let i = 1; i < USER_COLORS.length; i++) {
+    const color = USER_COLORS[(start + i) % USER_COLORS.length]!;
+    if (uses.get(color)! < uses.get(best)!) {
+      best = color;
+    }
+  }
+  return best;
+}
+
+/**
+ * A symmetric pattern in the user's color, derived from the user ID so it
+ * stays the same across rejoins and renames. Returned as an SVG data URL.
+ */
+export function createIdenticon(userId: string, color: string): string {
+  const hash = hashUserId(userId);
+  const half = Math.ceil(IDENTICON_SIZE / 2);
+  let path = '';
+
+  for (let row = 0; row < IDENTICON_SIZE; row++) {
+    for (let col = 0; col < half; col++) {
+      const bit = row * half + col;
+      if (((hash[bit >> 3] ?? 0) >> (bit & 7)) & 1) {
+        const mirrored = IDENTICON_SIZE - 1 - col;
+        path += `M${col} ${row}h1v1h-1z`;
+        if (mirrored !== col) {
+          path += `M${mirrored} ${row}h1v1h-1z`;
+        }
+      }
+    }
+  }
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="-0.5 -0.5 ${IDENTICON_SIZE + 1} ${IDENTICON_SIZE + 1}" shape-rendering="crispEdges">` +
+    `<rect x="-0.5" y="-0.5" width="100%" height="100%" fill="${IDENTICON_BACKGROUND}"/>` +
+    `<path fill="${color}" d="${path}"/></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
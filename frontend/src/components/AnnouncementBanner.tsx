@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import {
+  validateAnnouncement,
+  sanitizeMessage,
+  VALIDATION_RULES,
+} from '../utils/validation';
+import MarkdownContent from './MarkdownContent';
+
+interface AnnouncementBannerProps {
+  announcement?: string;
+  onSave?: (announcement: string) => void; // Owner and moderators only; '' removes it
+}
+
+const AnnouncementBanner: React.FC<AnnouncementBannerProps> = ({
+  announcement,
+  onSave,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState('');
+
+  const startEditing = () => {
+    setDraft(announcement ?? '');
+    setError('');
+    setIsEditing(true);
+  };
+
+  const save = (value: string) => {
+    const validation = validateAnnouncement(value);
+    if (!validation.isValid) {
+      setError(validation.error ?? 'Invalid announcement');
+      return;
+    }
+    onSave?.(sanitizeMessage(value).trim());
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className='px-4 py-2 bg-amber-50 border-b border-amber-200'>
+        <textarea
+          value={draft}
+          onChange={e => {
+            setDraft(e.target.value);
+            setError('');
+          }}
+          onKeyDown={e => {
+            if (e.key === 'Escape') {
+              setIsEditing(false);
+            }
+          }}
+          rows={2}
+          maxLength={VALIDATION_RULES.announcement.maxLength}
+          aria-label='Announcement'
+          placeholder='Agenda, key links or anything everyone should see'
+          className='w-full px-2 py-1 text-sm border border-amber-300 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-amber-400'
+        />
+        {error && (
+          <p className='text-xs text-red-600' role='alert'>
+            {error}
+          </p>
+        )}
+        <div className='flex items-center justify-end space-x-3 mt-1'>
+          <button
+            type='button'
+            onClick={() => setIsEditing(false)}
+            className='text-xs text-gray-600 hover:text-gray-800'
+          >
+            Cancel
+          </button>
+          <button
+            type='button'
+            onClick={() => save(draft)}
+            className='px-2 py-1 text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 rounded'
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!announcement) {
+    return onSave ? (
+      <div className='px-4 py-1 border-b border-gray-200 bg-white text-right'>
+        <button
+          type='button'
+          onClick={startEditing}
+          className='text-xs text-gray-500 hover:text-amber-700'
+        >
+          Add announcement
+        </button>
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div
+      className='flex items-start justify-between gap-3 px-4 py-2 bg-amber-50 border-b border-amber-200'
+      role='note'
+      aria-label='Room announcement'
+    >
+      <MarkdownContent
+        content={announcement}
+        className='text-sm text-amber-900 min-w-0'
+      />
+      {onSave && (
+        <div className='flex items-center space-x-3 shrink-0'>
+          <button
+            type='button'
+            onClick={startEditing}
+            className='text-xs text-amber-700 hover:text-amber-900'
+          >
+            Edit
+          </button>
+          <button
+            type='button'
+            onClick={() => save('')}
+            className='text-xs text-amber-700 hover:text-red-600'
+          >
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnouncementBanner;
@@ -1,8 +1,13 @@
-import { useState, useRef, useEffect } from 'react';
-import { ChatMessage } from '../types/index';
+import { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import {
+  Attachment,
+  ChatMessage,
+  CreatePollRequest,
+  User,
+} from '../types/index';
 import {
   validateMessage,
-  sanitizeInput,
+  sanitizeMessage,
   VALIDATION_RULES,
 } from '../utils/validation';
 import {
@@ -10,53 +15,199 @@ import {
   formatTimestampWithTimezone,
 } from '../utils/dateTime';
 import logger from '../utils/logger';
+import { findMentionQuery, MentionQuery } from '../utils/mentions';
+import {
+  findSlashCommand,
+  getSlashCommandSuggestions,
+  parseSlashCommand,
+  SlashCommand,
+  SLASH_COMMANDS,
+  unescapeSlash,
+} from '../utils/slashCommands';
 import { LoadingButton } from '../components/LoadingComponents';
+import MarkdownContent from './MarkdownContent';
+import MessageAttachments from './MessageAttachments';
+import PollCard from './PollCard';
+import PollComposer from './PollComposer';
+import UserAvatar from './UserAvatar';
 
 interface ChatAreaProps {
   messages: ChatMessage[];
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, attachmentIds?: string[]) => void;
   onTypingChange: (isTyping: boolean) => void;
+  readOnly?: boolean; // Viewers can read but not send
+  hasMoreMessages?: boolean; // Older history is available on the server
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  currentUserId?: string;
+  canDeleteAny?: boolean; // Owner and moderators can delete anyone's messages
+  onEditMessage?: (messageId: string, content: string) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  onReact?: (messageId: string, emoji: string) => void;
+  onOpenThread?: (messageId: string) => void; // Omitted inside a thread
+  emptyText?: string;
+  // Room members, for @ autocomplete and the avatars of message authors
+  mentionableUsers?: Pick<User, 'id' | 'nickname' | 'color' | 'avatar'>[];
+  onUploadAttachment?: (file: File) => Promise<Attachment>; // Enables attaching files
+  getAttachmentUrl?: (attachmentId: string, download?: boolean) => string;
+  highlightedMessageId?: string; // Scrolled into view, e.g. from search results
+  pinnedMessageIds?: string[];
+  onPinMessage?: (messageId: string, pinned: boolean) => void; // Owner and moderators only
+  seenBy?: string[]; // Nicknames of others who have read the latest message
+  onCreatePoll?: (poll: CreatePollRequest) => void; // Omitted inside a thread
+  onVotePoll?: (messageId: string, optionIds: string[]) => void;
+  onClosePoll?: (messageId: string) => void;
+  canCloseAnyPoll?: boolean; // The owner can close anyone's poll
+  onRunCommand?: (command: string, args: string) => void; // Enables slash commands
+  commands?: SlashCommand[];
 }
 
+// Suggestions shown at once while typing a mention
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// Start loading older history when scrolled this close to the top (px)
+const LOAD_OLDER_THRESHOLD = 40;
+
 const ChatArea: React.FC<ChatAreaProps> = ({
   messages,
   onSendMessage,
   onTypingChange,
+  readOnly = false,
+  hasMoreMessages = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  currentUserId,
+  canDeleteAny = false,
+  onEditMessage,
+  onDeleteMessage,
+  onReact,
+  onOpenThread,
+  emptyText = 'No messages yet. Start the conversation!',
+  mentionableUsers = [],
+  onUploadAttachment,
+  getAttachmentUrl,
+  highlightedMessageId,
+  pinnedMessageIds = [],
+  onPinMessage,
+  seenBy = [],
+  onCreatePoll,
+  onVotePoll,
+  onClosePoll,
+  canCloseAnyPoll = false,
+  onRunCommand,
+  commands = SLASH_COMMANDS,
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
   const [messageError, setMessageError] = useState<string>('');
   const [isMessageValid, setIsMessageValid] = useState<boolean>(true);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [editError, setEditError] = useState('');
+  const editInputRef = useRef<HTMLTextAreaElement>(null);
+  const [pickerMessageId, setPickerMessageId] = useState<string | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [showCommandSuggestions, setShowCommandSuggestions] = useState(true);
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>(
+    []
+  );
+  const [isUploading, setIsUploading] = useState(false);
+  const [isComposingPoll, setIsComposingPoll] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const highlightedMessageRef = useRef<HTMLDivElement>(null);
+  const scrollHeightBeforeLoadRef = useRef<number | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive (not when older ones are
+  // prepended)
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [lastMessageId]);
+
+  useEffect(() => {
+    highlightedMessageRef.current?.scrollIntoView({ block: 'center' });
+  }, [highlightedMessageId]);
+
+  // Keep the same messages in view after older history is prepended
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const previousHeight = scrollHeightBeforeLoadRef.current;
+    if (container && previousHeight !== null) {
+      container.scrollTop += container.scrollHeight - previousHeight;
+      scrollHeightBeforeLoadRef.current = null;
+    }
+  }, [firstMessageId]);
+
+  const loadOlder = () => {
+    if (!onLoadOlder || !hasMoreMessages || isLoadingOlder) {
+      return;
+    }
+    scrollHeightBeforeLoadRef.current =
+      messagesContainerRef.current?.scrollHeight ?? null;
+    onLoadOlder();
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop <= LOAD_OLDER_THRESHOLD) {
+      loadOlder();
+    }
+  };
+
+  // Text is optional when sending attachments
+  const validateInput = (value: string) =>
+    pendingAttachments.length > 0 && !value.trim()
+      ? { isValid: true }
+      : validateMessage(value);
 
   const handleSendMessage = () => {
-    const content = inputValue.trim();
+    const content = inputValue.trimEnd();
+    const attachmentIds = pendingAttachments.map(attachment => attachment.id);
+
+    const command = onRunCommand ? parseSlashCommand(content) : null;
+    if (command && onRunCommand) {
+      if (!findSlashCommand(command.command, commands)) {
+        setMessageError(`Unknown command /${command.command}`);
+        return;
+      }
+      onRunCommand(command.command, command.args);
+      setInputValue('');
+      setMessageError('');
+      handleTypingStop();
+      return;
+    }
 
     // Validate message content
-    const validation = validateMessage(content);
+    const validation = validateInput(content);
     if (!validation.isValid) {
       setMessageError(validation.error ?? 'Invalid message');
       return;
     }
 
-    // Sanitize message content
-    const sanitizedContent = sanitizeInput(content);
-    if (!sanitizedContent) {
+    // Sanitize message content; `//` sends a message starting with a slash
+    const sanitizedContent = sanitizeMessage(
+      onRunCommand ? unescapeSlash(content) : content
+    );
+    if (!sanitizedContent && attachmentIds.length === 0) {
       setMessageError('Message cannot be empty after cleanup');
       return;
     }
 
     setIsSendingMessage(true);
     try {
-      onSendMessage(sanitizedContent);
+      if (attachmentIds.length > 0) {
+        onSendMessage(sanitizedContent, attachmentIds);
+      } else {
+        onSendMessage(sanitizedContent);
+      }
       setInputValue('');
+      setPendingAttachments([]);
       setMessageError('');
       handleTypingStop();
     } catch (error) {
@@ -70,18 +221,114 @@ const ChatArea: React.FC<ChatAreaProps> = ({
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const mentionSuggestions = mentionQuery
+    ? mentionableUsers
+        .filter(
+          user =>
+            user.id !== currentUserId &&
+            user.nickname
+              .toLowerCase()
+              .startsWith(mentionQuery.query.toLowerCase())
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  const commandSuggestions =
+    onRunCommand && showCommandSuggestions
+      ? getSlashCommandSuggestions(inputValue, commands)
+      : [];
+  const suggestionCount =
+    mentionSuggestions.length || commandSuggestions.length;
+
+  const selectCommand = (name: string) => {
+    setInputValue(`/${name} `);
+    setMessageError('');
+    inputRef.current?.focus();
+  };
+
+  const selectMention = (nickname: string) => {
+    if (!mentionQuery) {
+      return;
+    }
+    const end = mentionQuery.start + 1 + mentionQuery.query.length;
+    setInputValue(
+      `${inputValue.slice(0, mentionQuery.start)}@${nickname} ${inputValue.slice(end)}`
+    );
+    setMentionQuery(null);
+    inputRef.current?.focus();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     setInputValue(value);
+    setMentionQuery(findMentionQuery(value, e.target.selectionStart));
+    setShowCommandSuggestions(true);
+    setActiveSuggestion(0);
 
     // Real-time validation
-    const validation = validateMessage(value);
+    const validation = validateInput(value);
     setMessageError(validation.error ?? '');
     setIsMessageValid(validation.isValid);
 
     handleTypingStart();
   };
 
+  const uploadFiles = async (files: File[]) => {
+    if (!onUploadAttachment || files.length === 0) {
+      return;
+    }
+
+    const remaining =
+      VALIDATION_RULES.message.maxAttachments - pendingAttachments.length;
+    if (files.length > remaining) {
+      setMessageError(
+        `Messages can have at most ${VALIDATION_RULES.message.maxAttachments} attachments`
+      );
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const attachment = await onUploadAttachment(file);
+        setPendingAttachments(current => [...current, attachment]);
+      }
+      setMessageError('');
+      setIsMessageValid(true);
+    } catch (error) {
+      logger.error('Failed to upload attachment', { error });
+      setMessageError(
+        error instanceof Error && error.message
+          ? error.message
+          : 'Failed to upload file'
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Allow picking the same file again
+    e.target.value = '';
+    void uploadFiles(files);
+  };
+
+  // Pasted screenshots arrive as files
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (onUploadAttachment && files.length > 0) {
+      e.preventDefault();
+      void uploadFiles(files);
+    }
+  };
+
+  const removePendingAttachment = (attachmentId: string) => {
+    setPendingAttachments(current =>
+      current.filter(attachment => attachment.id !== attachmentId)
+    );
+  };
+
   const handleTypingStart = () => {
     if (!isTyping) {
       setIsTyping(true);
@@ -111,12 +358,101 @@ const ChatArea: React.FC<ChatAreaProps> = ({
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleSendMessage();
+  // Enter sends and Shift+Enter adds a line. While mention or command
+  // suggestions are open, the arrows navigate them and Enter or Tab picks one
+  // instead.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestionCount === 0) {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        handleSendMessage();
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestion(
+        (activeSuggestion + step + suggestionCount) % suggestionCount
+      );
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      if (mentionSuggestions.length > 0) {
+        selectMention(
+          (mentionSuggestions[activeSuggestion] ?? mentionSuggestions[0])
+            .nickname
+        );
+      } else {
+        selectCommand(
+          (commandSuggestions[activeSuggestion] ?? commandSuggestions[0]).name
+        );
+      }
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+      setShowCommandSuggestions(false);
+    }
+  };
+
+  useEffect(() => {
+    if (editingMessageId) {
+      editInputRef.current?.focus();
+    }
+  }, [editingMessageId]);
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content);
+    setEditError('');
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditValue('');
+    setEditError('');
+  };
+
+  const saveEdit = () => {
+    if (!editingMessageId || !onEditMessage) {
+      return;
+    }
+
+    const content = editValue.trimEnd();
+    const validation = validateMessage(content);
+    if (!validation.isValid) {
+      setEditError(validation.error ?? 'Invalid message');
+      return;
+    }
+
+    const sanitizedContent = sanitizeMessage(content);
+    if (!sanitizedContent) {
+      setEditError('Message cannot be empty after cleanup');
+      return;
+    }
+
+    try {
+      onEditMessage(editingMessageId, sanitizedContent);
+      cancelEditing();
+    } catch (error) {
+      logger.error('Failed to edit message', { error });
+      setEditError('Failed to edit message');
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      cancelEditing();
     }
   };
 
+  const react = (messageId: string, emoji: string) => {
+    setPickerMessageId(null);
+    onReact?.(messageId, emoji);
+  };
+
   const formatTime = (timestamp: Date) => {
     return formatMessageTimestamp(timestamp);
   };
@@ -124,70 +460,539 @@ const ChatArea: React.FC<ChatAreaProps> = ({
   return (
     <div className='flex-1 flex flex-col bg-gray-50 min-h-0 h-full'>
       {/* Messages area */}
-      <div className='flex-1 overflow-y-auto px-4 py-3 space-y-3 min-h-0'>
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className='flex-1 overflow-y-auto px-4 py-3 space-y-3 min-h-0'
+      >
+        {hasMoreMessages && onLoadOlder && (
+          <div className='text-center'>
+            <button
+              type='button'
+              onClick={loadOlder}
+              disabled={isLoadingOlder}
+              className='text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400'
+            >
+              {isLoadingOlder
+                ? 'Loading earlier messages...'
+                : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
         {messages.length === 0 ? (
           <div className='text-center text-gray-500 mt-8'>
-            <p>No messages yet. Start the conversation!</p>
+            <p>{emptyText}</p>
           </div>
         ) : (
-          messages.map(message => (
-            <div key={message.id} className='bg-white rounded-lg p-3 shadow-sm'>
-              <div className='flex items-center justify-between mb-1'>
-                <span className='font-medium text-gray-900 text-sm'>
-                  {message.nickname}
-                </span>
-                <span
-                  className='text-xs text-gray-500 cursor-help'
-                  title={formatTimestampWithTimezone(message.timestamp)}
+          messages.map(message => {
+            if (message.kind === 'notice' && !message.deletedAt) {
+              return (
+                <p
+                  key={message.id}
+                  data-message-id={message.id}
+                  className='text-center text-xs text-gray-500'
                 >
-                  {formatTime(message.timestamp)}
-                </span>
+                  {message.content} · {formatTime(message.timestamp)}
+                </p>
+              );
+            }
+
+            const isDeleted = Boolean(message.deletedAt);
+            const isOwnMessage = message.userId === currentUserId;
+            const canEdit =
+              !isDeleted &&
+              !readOnly &&
+              isOwnMessage &&
+              !message.poll &&
+              Boolean(onEditMessage);
+            const canDelete =
+              !isDeleted &&
+              Boolean(onDeleteMessage) &&
+              ((isOwnMessage && !readOnly) || canDeleteAny);
+            const isEditing = editingMessageId === message.id;
+            const canReact = !isDeleted && !readOnly && Boolean(onReact);
+            const reactions = isDeleted ? [] : (message.reactions ?? []);
+            const canReply = !isDeleted && !readOnly && Boolean(onOpenThread);
+            const mentionsMe =
+              currentUserId !== undefined &&
+              (message.mentions ?? []).some(m => m.userId === currentUserId);
+            const replyCount = message.replyCount ?? 0;
+            const isHighlighted = message.id === highlightedMessageId;
+            const isPinned = pinnedMessageIds.includes(message.id);
+            const canPin = !isDeleted && Boolean(onPinMessage);
+            const hasActions = canReply || canPin || canEdit || canDelete;
+
+            return (
+              <div
+                key={message.id}
+                ref={isHighlighted ? highlightedMessageRef : undefined}
+                data-message-id={message.id}
+                className={`group rounded-lg p-3 shadow-sm ${
+                  isHighlighted
+                    ? 'bg-blue-50 ring-2 ring-blue-400'
+                    : mentionsMe
+                      ? 'bg-yellow-50 ring-1 ring-yellow-200'
+                      : 'bg-white'
+                }`}
+              >
+                <div className='flex items-center justify-between mb-1'>
+                  <div className='flex items-center space-x-2 min-w-0'>
+                    <UserAvatar
+                      user={
+                        mentionableUsers.find(
+                          user => user.id === message.userId
+                        ) ?? { nickname: message.nickname }
+                      }
+                      className='w-5 h-5 text-[10px]'
+                    />
+                    <span className='font-medium text-gray-900 text-sm truncate'>
+                      {message.nickname}
+                    </span>
+                  </div>
+                  <div className='flex items-center space-x-2'>
+                    {hasActions && !isEditing && (
+                      <div className='hidden group-hover:flex group-focus-within:flex items-center space-x-2'>
+                        {canReply && (
+                          <button
+                            type='button'
+                            onClick={() => onOpenThread?.(message.id)}
+                            className='text-xs text-gray-500 hover:text-blue-600'
+                            aria-label='Reply in thread'
+                          >
+                            Reply
+                          </button>
+                        )}
+                        {canPin && (
+                          <button
+                            type='button'
+                            onClick={() =>
+                              onPinMessage?.(message.id, !isPinned)
+                            }
+                            className='text-xs text-gray-500 hover:text-blue-600'
+                            aria-label={
+                              isPinned ? 'Unpin message' : 'Pin message'
+                            }
+                          >
+                            {isPinned ? 'Unpin' : 'Pin'}
+                          </button>
+                        )}
+                        {canEdit && (
+                          <button
+                            type='button'
+                            onClick={() => startEditing(message)}
+                            className='text-xs text-gray-500 hover:text-blue-600'
+                            aria-label='Edit message'
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            type='button'
+                            onClick={() => onDeleteMessage?.(message.id)}
+                            className='text-xs text-gray-500 hover:text-red-600'
+                            aria-label='Delete message'
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    {isPinned && !isDeleted && (
+                      <span className='text-xs text-amber-600'>Pinned</span>
+                    )}
+                    {message.editedAt && !isDeleted && (
+                      <span
+                        className='text-xs text-gray-400'
+                        title={formatTimestampWithTimezone(message.editedAt)}
+                      >
+                        (edited)
+                      </span>
+                    )}
+                    <span
+                      className='text-xs text-gray-500 cursor-help'
+                      title={formatTimestampWithTimezone(message.timestamp)}
+                    >
+                      {formatTime(message.timestamp)}
+                    </span>
+                  </div>
+                </div>
+                {isDeleted ? (
+                  <p className='text-gray-400 text-sm italic'>
+                    This message was deleted
+                  </p>
+                ) : isEditing ? (
+                  <div>
+                    <div className='flex space-x-2'>
+                      <textarea
+                        rows={Math.min(editValue.split('\n').length, 6)}
+                        value={editValue}
+                        onChange={e => {
+                          setEditValue(e.target.value);
+                          setEditError(
+                            validateMessage(e.target.value).error ?? ''
+                          );
+                        }}
+                        onKeyDown={handleEditKeyDown}
+                        className='flex-1 px-2 py-1 text-sm border border-gray-300 rounded resize-none focus:outline-none focus:ring-2 focus:ring-blue-500'
+                        maxLength={VALIDATION_RULES.message.maxLength}
+                        aria-label='Edit message text'
+                        ref={editInputRef}
+                      />
+                      <button
+                        type='button'
+                        onClick={saveEdit}
+                        className='px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700'
+                      >
+                        Save
+                      </button>
+                      <button
+                        type='button'
+                        onClick={cancelEditing}
+                        className='px-2 py-1 text-xs font-medium rounded bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                    {editError && (
+                      <div className='text-xs text-red-600 mt-1'>
+                        {editError}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    {message.poll ? (
+                      <PollCard
+                        poll={message.poll}
+                        currentUserId={currentUserId}
+                        users={mentionableUsers}
+                        onVote={
+                          onVotePoll && !readOnly
+                            ? optionIds => onVotePoll(message.id, optionIds)
+                            : undefined
+                        }
+                        onClose={
+                          onClosePoll && (isOwnMessage || canCloseAnyPoll)
+                            ? () => onClosePoll(message.id)
+                            : undefined
+                        }
+                      />
+                    ) : message.kind === 'action' ? (
+                      // /me messages read as "<nickname> <content>"
+                      <div className='flex flex-wrap items-baseline gap-x-1 text-gray-700 text-sm italic'>
+                        <span className='font-medium'>{message.nickname}</span>{' '}
+                        <MarkdownContent
+                          content={message.content}
+                          mentions={message.mentions}
+                          currentUserId={currentUserId}
+                          className='leading-relaxed'
+                        />
+                      </div>
+                    ) : (
+                      <MarkdownContent
+                        content={message.content}
+                        mentions={message.mentions}
+                        currentUserId={currentUserId}
+                        className='text-gray-700 text-sm leading-relaxed'
+                      />
+                    )}
+                    {message.attachments && (
+                      <MessageAttachments
+                        attachments={message.attachments}
+                        getAttachmentUrl={getAttachmentUrl}
+                      />
+                    )}
+                  </>
+                )}
+                {(reactions.length > 0 || canReact) && (
+                  <div className='flex flex-wrap items-center gap-1 mt-2'>
+                    {reactions.map(reaction => {
+                      const reacted = currentUserId
+                        ? reaction.userIds.includes(currentUserId)
+                        : false;
+                      return (
+                        <button
+                          key={reaction.emoji}
+                          type='button'
+                          onClick={() => react(message.id, reaction.emoji)}
+                          disabled={!canReact}
+                          aria-pressed={reacted}
+                          aria-label={`${reaction.emoji} ${reaction.count}`}
+                          className={`px-2 py-0.5 text-xs rounded-full border ${
+                            reacted
+                              ? 'bg-blue-50 border-blue-300 text-blue-700'
+                              : 'bg-gray-50 border-gray-200 text-gray-700'
+                          } ${canReact ? 'hover:bg-blue-100' : 'cursor-default'}`}
+                        >
+                          {reaction.emoji} {reaction.count}
+                        </button>
+                      );
+                    })}
+                    {canReact && (
+                      <button
+                        type='button'
+                        onClick={() =>
+                          setPickerMessageId(
+                            pickerMessageId === message.id ? null : message.id
+                          )
+                        }
+                        aria-expanded={pickerMessageId === message.id}
+                        aria-label='Add reaction'
+                        className='px-2 py-0.5 text-xs rounded-full border border-transparent text-gray-400 hover:border-gray-200 hover:text-gray-600'
+                      >
+                        +
+                      </button>
+                    )}
+                    {canReact && pickerMessageId === message.id && (
+                      <div
+                        role='group'
+                        aria-label='Reactions'
+                        className='flex items-center gap-1 px-1 py-0.5 bg-white border border-gray-200 rounded-full shadow-sm'
+                      >
+                        {VALIDATION_RULES.reaction.allowed.map(emoji => (
+                          <button
+                            key={emoji}
+                            type='button'
+                            onClick={() => react(message.id, emoji)}
+                            aria-label={`React with ${emoji}`}
+                            className='px-1 text-sm rounded hover:bg-gray-100'
+                          >
+                            {emoji}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {onOpenThread && replyCount > 0 && (
+                  <button
+                    type='button'
+                    onClick={() => onOpenThread(message.id)}
+                    className='mt-2 text-xs font-medium text-blue-600 hover:text-blue-800'
+                  >
+                    {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                    {message.lastReplyAt && (
+                      <span className='ml-1 font-normal text-gray-500'>
+                        · last {formatTime(message.lastReplyAt)}
+                      </span>
+                    )}
+                  </button>
+                )}
               </div>
-              <p className='text-gray-700 text-sm leading-relaxed'>
-                {message.content}
-              </p>
-            </div>
-          ))
+            );
+          })
+        )}
+        {messages.length > 0 && seenBy.length > 0 && (
+          <p className='text-right text-xs text-gray-500'>
+            Seen by {seenBy.join(', ')}
+          </p>
         )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input area */}
-      <div className='bg-white border-t border-gray-200 px-3 pt-3 pb-2 mt-auto'>
-        <div className='flex space-x-2'>
-          <input
-            type='text'
-            value={inputValue}
-            onChange={handleInputChange}
-            onKeyPress={handleKeyPress}
-            placeholder='Type a message...'
-            disabled={isSendingMessage}
-            className={`flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:border-transparent ${
-              messageError
-                ? 'border-red-300 focus:ring-red-500'
-                : 'border-gray-300 focus:ring-blue-500'
-            } ${isSendingMessage ? 'opacity-50' : ''}`}
-            maxLength={VALIDATION_RULES.message.maxLength}
-          />
-          <LoadingButton
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || !isMessageValid || isSendingMessage}
-            isLoading={isSendingMessage}
-            loadingText='Sending...'
-            className='px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium rounded-lg transition duration-200'
-          >
-            Send
-          </LoadingButton>
+      {readOnly ? (
+        <div className='bg-white border-t border-gray-200 px-3 py-3 mt-auto text-sm text-gray-500 text-center'>
+          You are a viewer in this room and cannot send messages.
         </div>
-        <div className='flex justify-between items-center mt-1'>
-          <div className='text-xs text-gray-500'>
-            {inputValue.length}/{VALIDATION_RULES.message.maxLength} characters
-          </div>
-          {messageError && (
-            <div className='text-xs text-red-600'>{messageError}</div>
+      ) : (
+        <div className='relative bg-white border-t border-gray-200 px-3 pt-3 pb-2 mt-auto'>
+          {mentionSuggestions.length > 0 && (
+            <ul
+              role='listbox'
+              aria-label='Mention suggestions'
+              className='absolute bottom-full left-3 mb-1 w-56 bg-white border border-gray-200 rounded-md shadow-lg py-1 z-10'
+            >
+              {mentionSuggestions.map((user, index) => (
+                <li
+                  key={user.id}
+                  role='option'
+                  aria-selected={index === activeSuggestion}
+                  tabIndex={-1}
+                  // mousedown keeps focus in the input
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    selectMention(user.nickname);
+                  }}
+                  className={`px-3 py-1 text-sm cursor-pointer ${
+                    index === activeSuggestion
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700'
+                  }`}
+                >
+                  @{user.nickname}
+                </li>
+              ))}
+            </ul>
+          )}
+          {commandSuggestions.length > 0 && (
+            <ul
+              role='listbox'
+              aria-label='Command suggestions'
+              className='absolute bottom-full left-3 mb-1 w-80 max-w-[calc(100%-1.5rem)] bg-white border border-gray-200 rounded-md shadow-lg py-1 z-10'
+            >
+              {commandSuggestions.map((command, index) => (
+                <li
+                  key={command.name}
+                  role='option'
+                  aria-selected={index === activeSuggestion}
+                  tabIndex={-1}
+                  // mousedown keeps focus in the input
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    selectCommand(command.name);
+                  }}
+                  className={`px-3 py-1 text-sm cursor-pointer ${
+                    index === activeSuggestion
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700'
+                  }`}
+                >
+                  <span className='font-medium'>/{command.name}</span>
+                  {command.args && (
+                    <span className='text-gray-500'> {command.args}</span>
+                  )}
+                  <p className='text-xs text-gray-500'>{command.description}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {isComposingPoll && onCreatePoll && (
+            <PollComposer
+              onSubmit={poll => {
+                onCreatePoll(poll);
+                setIsComposingPoll(false);
+              }}
+              onCancel={() => setIsComposingPoll(false)}
+            />
+          )}
+          {pendingAttachments.length > 0 && (
+            <ul
+              aria-label='Attachments to send'
+              className='flex flex-wrap gap-1 mb-2'
+            >
+              {pendingAttachments.map(attachment => (
+                <li
+                  key={attachment.id}
+                  className='flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700'
+                >
+                  <span className='truncate max-w-[10rem]'>
+                    {attachment.name}
+                  </span>
+                  <button
+                    type='button'
+                    onClick={() => removePendingAttachment(attachment.id)}
+                    aria-label={`Remove ${attachment.name}`}
+                    className='px-1 rounded-full text-gray-500 hover:bg-gray-200 hover:text-gray-700'
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
           )}
+          <div className='flex space-x-2'>
+            {onUploadAttachment && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type='file'
+                  multiple
+                  onChange={handleFileInputChange}
+                  className='hidden'
+                  data-testid='attachment-input'
+                />
+                <button
+                  type='button'
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading || isSendingMessage}
+                  aria-label='Attach file'
+                  title='Attach a file or paste a screenshot'
+                  className='px-2 text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50'
+                >
+                  <svg
+                    className='w-5 h-5'
+                    viewBox='0 0 20 20'
+                    fill='currentColor'
+                    aria-hidden='true'
+                  >
+                    <path
+                      fillRule='evenodd'
+                      d='M8 4a3 3 0 00-3 3v4a5 5 0 0010 0V7a1 1 0 112 0v4a7 7 0 11-14 0V7a5 5 0 0110 0v4a3 3 0 11-6 0V7a1 1 0 012 0v4a1 1 0 102 0V7a3 3 0 00-3-3z'
+                      clipRule='evenodd'
+                    />
+                  </svg>
+                </button>
+              </>
+            )}
+            {onCreatePoll && (
+              <button
+                type='button'
+                onClick={() => setIsComposingPoll(current => !current)}
+                aria-label='Start a poll'
+                aria-expanded={isComposingPoll}
+                title='Create a poll'
+                className='px-2 text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700'
+              >
+                <svg
+                  className='w-5 h-5'
+                  viewBox='0 0 20 20'
+                  fill='currentColor'
+                  aria-hidden='true'
+                >
+                  <path d='M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z' />
+                </svg>
+              </button>
+            )}
+            <textarea
+              ref={inputRef}
+              rows={Math.min(inputValue.split('\n').length, 6)}
+              value={inputValue}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              onBlur={() => {
+                setMentionQuery(null);
+                setShowCommandSuggestions(false);
+              }}
+              aria-autocomplete='list'
+              placeholder='Type a message...'
+              disabled={isSendingMessage}
+              className={`flex-1 px-3 py-2 border rounded-lg resize-none focus:outline-none focus:ring-2 focus:border-transparent ${
+                messageError
+                  ? 'border-red-300 focus:ring-red-500'
+                  : 'border-gray-300 focus:ring-blue-500'
+              } ${isSendingMessage ? 'opacity-50' : ''}`}
+              maxLength={VALIDATION_RULES.message.maxLength}
+            />
+            <LoadingButton
+              onClick={handleSendMessage}
+              disabled={
+                (!inputValue.trim() && pendingAttachments.length === 0) ||
+                !isMessageValid ||
+                isSendingMessage ||
+                isUploading
+              }
+              isLoading={isSendingMessage}
+              loadingText='Sending...'
+              className='px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium rounded-lg transition duration-200'
+            >
+              Send
+            </LoadingButton>
+          </div>
+          <div className='flex justify-between items-center mt-1'>
+            <div className='text-xs text-gray-500'>
+              {isUploading
+                ? 'Uploading...'
+                : `${inputValue.length}/${VALIDATION_RULES.message.maxLength} characters`}
+            </div>
+            {messageError && (
+              <div className='text-xs text-red-600'>{messageError}</div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -1,8 +1,20 @@
-import { useState } from 'react';
-import { User, ChatMessage, TypingStatus } from '../types/index';
+import { useEffect, useState } from 'react';
+import {
+  User,
+  ChatMessage,
+  TypingStatus,
+  Attachment,
+  CreatePollRequest,
+  MessageSearchResult,
+} from '../types/index';
 import ChatArea from './ChatArea';
+import MessageSearch from './MessageSearch';
+import PinnedMessages from './PinnedMessages';
+import UserAvatar from './UserAvatar';
 
 interface CompactSidebarProps {
+  roomName?: string;
+
   // Existing UserList props
   users: User[];
   typingUsers: TypingStatus[];
@@ -11,18 +23,41 @@ interface CompactSidebarProps {
 
   // Existing ChatArea props
   messages: ChatMessage[];
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, attachmentIds?: string[]) => void;
   onTypingChange: (isTyping: boolean) => void;
+  readOnly?: boolean;
+  hasMoreMessages?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  canDeleteAny?: boolean;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  onReact?: (messageId: string, emoji: string) => void;
+  onUploadAttachment?: (file: File) => Promise<Attachment>;
+  getAttachmentUrl?: (attachmentId: string, download?: boolean) => string;
+  onSearchMessages?: (query: string) => Promise<MessageSearchResult[]>; // Enables the search box
+  onJumpToMessage?: (message: ChatMessage) => void;
+  highlightedMessageId?: string;
+  pinnedMessages?: ChatMessage[]; // Enables the pinned tab
+  onPinMessage?: (messageId: string, pinned: boolean) => void; // Owner and moderators only
+  seenBy?: string[];
+  onCreatePoll?: (poll: CreatePollRequest) => void;
+  onVotePoll?: (messageId: string, optionIds: string[]) => void;
+  onClosePoll?: (messageId: string) => void;
+  canCloseAnyPoll?: boolean;
+  onRunCommand?: (command: string, args: string) => void;
 
   // New props for editor mode
   mode?: 'chat' | 'editor';
   isCollapsed?: boolean;
   unreadCount?: number;
+  onChatVisibilityChange?: (isVisible: boolean) => void;
 }
 
-type TabType = 'users' | 'chat';
+type TabType = 'users' | 'chat' | 'pinned';
 
 const CompactSidebar: React.FC<CompactSidebarProps> = ({
+  roomName,
   users,
   typingUsers,
   currentUserId,
@@ -30,38 +65,38 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
   messages,
   onSendMessage,
   onTypingChange,
+  readOnly = false,
+  hasMoreMessages,
+  isLoadingOlder,
+  onLoadOlder,
+  canDeleteAny,
+  onEditMessage,
+  onDeleteMessage,
+  onReact,
+  onUploadAttachment,
+  getAttachmentUrl,
+  onSearchMessages,
+  onJumpToMessage,
+  highlightedMessageId,
+  pinnedMessages,
+  onPinMessage,
+  seenBy,
+  onCreatePoll,
+  onVotePoll,
+  onClosePoll,
+  canCloseAnyPoll,
+  onRunCommand,
   mode = 'chat',
   isCollapsed = false,
   unreadCount = 0,
+  onChatVisibilityChange,
 }) => {
   const [activeTab, setActiveTab] = useState<TabType>('users');
 
-  // Generate user avatars with colors
-  const getUserColor = (userId: string): string => {
-    const colors = [
-      'bg-blue-500',
-      'bg-green-500',
-      'bg-purple-500',
-      'bg-pink-500',
-      'bg-indigo-500',
-      'bg-yellow-500',
-      'bg-red-500',
-      'bg-teal-500',
-    ];
-    const index = userId
-      .split('')
-      .reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    return colors[index % colors.length];
-  };
-
-  const getUserInitials = (nickname: string): string => {
-    return nickname
-      .split(' ')
-      .map(word => word.charAt(0))
-      .join('')
-      .toUpperCase()
-      .substring(0, 2);
-  };
+  // Messages only count as read while the chat tab is showing
+  useEffect(() => {
+    onChatVisibilityChange?.(activeTab === 'chat' && !isCollapsed);
+  }, [activeTab, isCollapsed, onChatVisibilityChange]);
 
   // Render compact user avatars (for editor mode)
   const renderCompactUsers = () => {
@@ -74,10 +109,10 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
         {visibleUsers.map(user => (
           <div
             key={user.id}
-            className={`relative w-8 h-8 rounded-full flex items-center justify-center text-white text-xs font-medium ${getUserColor(user.id)}`}
+            className='relative'
             title={`${user.nickname} ${user.isOnline ? '(online)' : '(offline)'}`}
           >
-            {getUserInitials(user.nickname)}
+            <UserAvatar user={user} className='w-8 h-8 text-xs' />
             <div
               className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white ${
                 user.isOnline ? 'bg-green-500' : 'bg-gray-400'
@@ -117,7 +152,10 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
   // Collapsed view for editor mode
   if (isCollapsed) {
     return (
-      <div className='w-16 h-full bg-white border-r border-gray-200 flex flex-col'>
+      <div
+        className='w-16 h-full bg-white border-r border-gray-200 flex flex-col'
+        title={roomName}
+      >
         <div className='p-2 border-b border-gray-200'>
           <button
             onClick={() => setActiveTab('users')}
@@ -187,6 +225,15 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
     <div
       className={`${sidebarWidth} h-full bg-white border-r border-gray-200 flex flex-col overflow-hidden`}
     >
+      {roomName && (
+        <div
+          className='px-4 py-2 border-b border-gray-200 text-sm font-semibold text-gray-900 truncate'
+          title={roomName}
+        >
+          {roomName}
+        </div>
+      )}
+
       {/* Tab Headers */}
       <div className='flex border-b border-gray-200 h-12'>
         <button
@@ -245,11 +292,45 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
             )}
           </div>
         </button>
+
+        {pinnedMessages && (
+          <button
+            onClick={() => setActiveTab('pinned')}
+            className={`flex-1 h-full px-4 text-sm font-medium transition-colors relative flex items-center justify-center ${
+              activeTab === 'pinned'
+                ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span>Pinned ({pinnedMessages.length})</span>
+          </button>
+        )}
       </div>
 
       {/* Tab Content */}
       <div className='flex-1 overflow-hidden flex flex-col'>
-        {activeTab === 'users' ? (
+        {activeTab === 'pinned' && pinnedMessages ? (
+          <div className='flex-1 overflow-y-auto min-h-0'>
+            <PinnedMessages
+              messages={pinnedMessages}
+              currentUserId={currentUserId}
+              onSelect={
+                onJumpToMessage
+                  ? message => {
+                      setActiveTab('chat');
+                      onJumpToMessage(message);
+                    }
+                  : undefined
+              }
+              onUnpin={
+                onPinMessage
+                  ? messageId => onPinMessage(messageId, false)
+                  : undefined
+              }
+              getAttachmentUrl={getAttachmentUrl}
+            />
+          </div>
+        ) : activeTab === 'users' ? (
           <div className='h-full flex flex-col overflow-hidden'>
             <div className='p-3 border-b border-gray-200 bg-gray-50'>
               <div className='flex flex-wrap gap-2'>
@@ -262,11 +343,7 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
                         : 'bg-white border border-gray-200'
                     }`}
                   >
-                    <div
-                      className={`w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-medium ${getUserColor(user.id)}`}
-                    >
-                      {getUserInitials(user.nickname)}
-                    </div>
+                    <UserAvatar user={user} />
                     <span className='font-medium'>{user.nickname}</span>
                     <div
                       className={`w-2 h-2 rounded-full ${
@@ -288,10 +365,37 @@ const CompactSidebar: React.FC<CompactSidebarProps> = ({
           </div>
         ) : (
           <div className='flex-1 flex flex-col min-h-0 h-full'>
+            {onSearchMessages && onJumpToMessage && (
+              <MessageSearch
+                onSearch={onSearchMessages}
+                onSelectResult={onJumpToMessage}
+              />
+            )}
             <ChatArea
               messages={messages}
               onSendMessage={onSendMessage}
               onTypingChange={onTypingChange}
+              readOnly={readOnly}
+              hasMoreMessages={hasMoreMessages}
+              isLoadingOlder={isLoadingOlder}
+              onLoadOlder={onLoadOlder}
+              currentUserId={currentUserId}
+              canDeleteAny={canDeleteAny}
+              onEditMessage={onEditMessage}
+              onDeleteMessage={onDeleteMessage}
+              onReact={onReact}
+              mentionableUsers={users}
+              onUploadAttachment={onUploadAttachment}
+              getAttachmentUrl={getAttachmentUrl}
+              highlightedMessageId={highlightedMessageId}
+              pinnedMessageIds={pinnedMessages?.map(message => message.id)}
+              onPinMessage={onPinMessage}
+              seenBy={seenBy}
+              onCreatePoll={onCreatePoll}
+              onVotePoll={onVotePoll}
+              onClosePoll={onClosePoll}
+              canCloseAnyPoll={canCloseAnyPoll}
+              onRunCommand={onRunCommand}
             />
           </div>
         )}
@@ -0,0 +1,128 @@
+import { DocumentVersion } from '../types/index';
+
+interface DocumentHistoryPanelProps {
+  versions: DocumentVersion[];
+  isLoading: boolean;
+  previewVersion: number | null;
+  previewText: string | null;
+  onPreview: (version: number) => void;
+  onRestore?: (version: number) => void; // Omitted for read-only users
+  onClose: () => void;
+  className?: string;
+}
+
+const DocumentHistoryPanel: React.FC<DocumentHistoryPanelProps> = ({
+  versions,
+  isLoading,
+  previewVersion,
+  previewText,
+  onPreview,
+  onRestore,
+  onClose,
+  className = '',
+}) => {
+  // Newest first
+  const sortedVersions = [...versions].sort((a, b) => b.version - a.version);
+
+  const formatTimestamp = (timestamp: Date): string => {
+    const date = new Date(timestamp);
+    return date.toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div
+      className={`flex flex-col h-full w-80 bg-white border-l border-gray-200 shadow-lg ${className}`}
+      role='dialog'
+      aria-label='Version history'
+    >
+      <div className='flex items-center justify-between h-12 px-4 border-b border-gray-200 bg-gray-50'>
+        <h3 className='text-lg font-semibold text-gray-900'>Version history</h3>
+        <button
+          onClick={onClose}
+          className='p-1 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700'
+          aria-label='Close version history'
+        >
+          <svg
+            className='w-4 h-4'
+            viewBox='0 0 20 20'
+            fill='currentColor'
+            aria-hidden='true'
+          >
+            <path d='M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z' />
+          </svg>
+        </button>
+      </div>
+
+      <div className='flex-1 overflow-auto p-4 space-y-2'>
+        {isLoading ? (
+          <div className='text-sm text-gray-500'>Loading versions...</div>
+        ) : sortedVersions.length === 0 ? (
+          <div className='text-sm text-gray-500'>
+            No saved versions yet. Save the document to create one.
+          </div>
+        ) : (
+          sortedVersions.map(version => {
+            const isPreviewing = version.version === previewVersion;
+
+            return (
+              <div
+                key={version.version}
+                className={`rounded p-2 ${
+                  isPreviewing
+                    ? 'bg-blue-50 ring-1 ring-blue-200'
+                    : 'bg-gray-50'
+                }`}
+              >
+                <div className='flex items-center justify-between'>
+                  <span className='text-sm font-medium text-gray-900 truncate'>
+                    {version.title}
+                  </span>
+                  <span className='text-xs text-gray-500'>
+                    v{version.version}
+                  </span>
+                </div>
+                <div className='text-xs text-gray-600'>
+                  {version.modifiedByNickname || 'Someone'} ·{' '}
+                  {formatTimestamp(version.timestamp)}
+                </div>
+                <div className='flex items-center space-x-2 mt-2'>
+                  <button
+                    onClick={() => onPreview(version.version)}
+                    className='px-2 py-1 text-xs font-medium rounded-md bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'
+                  >
+                    Preview
+                  </button>
+                  {onRestore && (
+                    <button
+                      onClick={() => onRestore(version.version)}
+                      className='px-2 py-1 text-xs font-medium rounded-md bg-blue-100 text-blue-700 hover:bg-blue-200'
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+                {isPreviewing && (
+                  <div
+                    className='mt-2 max-h-64 overflow-auto rounded border border-gray-200 bg-white p-2 text-sm text-gray-800 whitespace-pre-wrap'
+                    aria-label={`Preview of version ${version.version}`}
+                  >
+                    {previewText === null
+                      ? 'Loading preview...'
+                      : previewText || 'This version is empty.'}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentHistoryPanel;
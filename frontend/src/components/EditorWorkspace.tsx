@@ -1,5 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
-import { User } from '../types/index';
+import {
+  Attachment,
+  ChatMessage,
+  CreatePollRequest,
+  MessageSearchResult,
+  User,
+} from '../types/index';
 import RichTextEditor from './RichTextEditor';
 import CompactSidebar from './CompactSidebar';
 import OperationsPanel from './OperationsPanel';
@@ -7,6 +13,7 @@ import { socketService } from '../services/socketService';
 
 interface EditorWorkspaceProps {
   documentId: string;
+  roomName?: string;
   users: User[];
   currentUserId?: string;
   onlineUsers: User[]; // kept for compatibility though not used; will omit from destructure
@@ -17,17 +24,64 @@ interface EditorWorkspaceProps {
     content: string;
     timestamp: Date;
   }>;
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, attachmentIds?: string[]) => void;
+  hasMoreMessages?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  canDeleteAny?: boolean;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  onReact?: (messageId: string, emoji: string) => void;
+  onUploadAttachment?: (file: File) => Promise<Attachment>;
+  getAttachmentUrl?: (attachmentId: string, download?: boolean) => string;
+  onSearchMessages?: (query: string) => Promise<MessageSearchResult[]>;
+  onJumpToMessage?: (message: ChatMessage) => void;
+  highlightedMessageId?: string;
+  pinnedMessages?: ChatMessage[];
+  onPinMessage?: (messageId: string, pinned: boolean) => void;
+  seenBy?: string[];
+  onCreatePoll?: (poll: CreatePollRequest) => void;
+  onVotePoll?: (messageId: string, optionIds: string[]) => void;
+  onClosePoll?: (messageId: string) => void;
+  canCloseAnyPoll?: boolean;
+  onRunCommand?: (command: string, args: string) => void;
+  unreadCount?: number;
+  onChatVisibilityChange?: (isVisible: boolean) => void;
+  readOnly?: boolean; // Current user is a viewer
   className?: string;
 }
 
 const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
   documentId,
+  roomName,
   users,
   currentUserId,
   // onlineUsers omitted (not currently displayed in simplified layout)
   messages,
   onSendMessage,
+  hasMoreMessages,
+  isLoadingOlder,
+  onLoadOlder,
+  canDeleteAny,
+  onEditMessage,
+  onDeleteMessage,
+  onReact,
+  onUploadAttachment,
+  getAttachmentUrl,
+  onSearchMessages,
+  onJumpToMessage,
+  highlightedMessageId,
+  pinnedMessages,
+  onPinMessage,
+  seenBy,
+  onCreatePoll,
+  onVotePoll,
+  onClosePoll,
+  canCloseAnyPoll,
+  onRunCommand,
+  unreadCount,
+  onChatVisibilityChange,
+  readOnly = false,
   className = '',
 }) => {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -40,9 +94,6 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
     timestamp: Date;
   };
   const [activities, setActivities] = useState<ActivityItem[]>([]);
-  const [recentActiveByUser, setRecentActiveByUser] = useState<
-    Record<string, number>
-  >({});
 
   useEffect(() => {
     const handleResize = () => {
@@ -91,12 +142,6 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
           ...prev,
         ].slice(0, 100);
       });
-      if (data.userId) {
-        setRecentActiveByUser(prev => ({
-          ...prev,
-          [data.userId!]: ts.getTime(),
-        }));
-      }
     };
     // subscribe
     socketService.on('editor:activity', handler);
@@ -134,10 +179,6 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
           ...prev,
         ].slice(0, 100);
       });
-      setRecentActiveByUser(prev => ({
-        ...prev,
-        [currentUserId]: ts.getTime(),
-      }));
     },
     [currentUserId]
   );
@@ -174,6 +215,7 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
         className={`${getSidebarWidth()} transition-all duration-300 flex-shrink-0 h-full border-r border-gray-200 bg-white relative`}
       >
         <CompactSidebar
+          roomName={roomName}
           users={users}
           messages={messages}
           onSendMessage={onSendMessage}
@@ -181,6 +223,30 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
           isCollapsed={sidebarCollapsed}
           typingUsers={[]}
           onTypingChange={() => {}}
+          readOnly={readOnly}
+          hasMoreMessages={hasMoreMessages}
+          isLoadingOlder={isLoadingOlder}
+          onLoadOlder={onLoadOlder}
+          currentUserId={currentUserId}
+          canDeleteAny={canDeleteAny}
+          onEditMessage={onEditMessage}
+          onDeleteMessage={onDeleteMessage}
+          onReact={onReact}
+          onUploadAttachment={onUploadAttachment}
+          getAttachmentUrl={getAttachmentUrl}
+          onSearchMessages={onSearchMessages}
+          onJumpToMessage={onJumpToMessage}
+          highlightedMessageId={highlightedMessageId}
+          pinnedMessages={pinnedMessages}
+          onPinMessage={onPinMessage}
+          seenBy={seenBy}
+          onCreatePoll={onCreatePoll}
+          onVotePoll={onVotePoll}
+          onClosePoll={onClosePoll}
+          canCloseAnyPoll={canCloseAnyPoll}
+          onRunCommand={onRunCommand}
+          unreadCount={unreadCount}
+          onChatVisibilityChange={onChatVisibilityChange}
         />
         {/* Collapse / Expand Toggle */}
         <button
@@ -230,6 +296,7 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
           currentUserId={currentUserId}
           onDocumentChange={handleDocumentChange}
           onCursorUpdate={handleCursorUpdate}
+          readOnly={readOnly}
           className='flex-1'
         />
       </div>
@@ -261,7 +328,6 @@ const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
             users={users}
             isVisible={true}
             activities={activities}
-            recentActiveByUser={recentActiveByUser}
           />
         </div>
       ) : (
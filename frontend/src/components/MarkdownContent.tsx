@@ -0,0 +1,127 @@
+import { Fragment } from 'react';
+import { MessageMention } from '../types/index';
+import { InlineNode, parseMarkdown } from '../utils/markdown';
+import { splitMentions } from '../utils/mentions';
+
+interface MarkdownContentProps {
+  content: string;
+  mentions?: MessageMention[];
+  currentUserId?: string;
+  className?: string;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  mentions = [],
+  currentUserId,
+  className = '',
+}) => {
+  // Mention ranges are offsets into the whole message; keep the ones inside
+  // this text node, relative to it
+  const renderText = (node: Extract<InlineNode, { type: 'text' }>) => {
+    const end = node.start + node.text.length;
+    const local = mentions
+      .filter(
+        mention =>
+          mention.start >= node.start && mention.start + mention.length <= end
+      )
+      .map(mention => ({ ...mention, start: mention.start - node.start }));
+
+    return splitMentions(node.text, local).map(segment =>
+      segment.userId ? (
+        <span
+          key={segment.start}
+          className={`font-medium rounded px-0.5 ${
+            segment.userId === currentUserId
+              ? 'bg-yellow-200 text-yellow-900'
+              : 'bg-blue-50 text-blue-700'
+          }`}
+        >
+          {segment.text}
+        </span>
+      ) : (
+        <Fragment key={segment.start}>{segment.text}</Fragment>
+      )
+    );
+  };
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode =>
+    nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return <Fragment key={node.start}>{renderText(node)}</Fragment>;
+        case 'bold':
+          return (
+            <strong key={node.start} className='font-semibold'>
+              {renderInline(node.children)}
+            </strong>
+          );
+        case 'italic':
+          return <em key={node.start}>{renderInline(node.children)}</em>;
+        case 'code':
+          return (
+            <code
+              key={node.start}
+              className='px-1 rounded bg-gray-100 font-mono text-xs text-gray-800'
+            >
+              {node.text}
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={node.start}
+              href={node.href}
+              target='_blank'
+              rel='noopener noreferrer'
+              className='text-blue-600 underline hover:text-blue-800 break-all'
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+        case 'break':
+          return <br key={node.start} />;
+      }
+    });
+
+  return (
+    <div className={`space-y-1 break-words ${className}`}>
+      {parseMarkdown(content).map(block => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={block.start}>{renderInline(block.children)}</p>;
+          case 'code':
+            return (
+              <pre
+                key={block.start}
+                className='px-2 py-1.5 rounded bg-gray-100 font-mono text-xs text-gray-800 overflow-x-auto whitespace-pre'
+                data-language={block.language}
+              >
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'list': {
+            const items = block.items.map(item => (
+              <li key={item.start}>{renderInline(item.children)}</li>
+            ));
+            return block.ordered ? (
+              <ol
+                key={block.start}
+                start={block.firstNumber}
+                className='list-decimal pl-5'
+              >
+                {items}
+              </ol>
+            ) : (
+              <ul key={block.start} className='list-disc pl-5'>
+                {items}
+              </ul>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,66 @@
+import { Attachment } from '../types/index';
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+  // Without URLs, attachments are only listed by name
+  getAttachmentUrl?: (attachmentId: string, download?: boolean) => string;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({
+  attachments,
+  getAttachmentUrl,
+}) => {
+  return (
+    <div className='flex flex-col items-start gap-2 mt-2'>
+      {attachments.map(attachment => {
+        const isImage = attachment.mimeType.startsWith('image/');
+        return (
+          <div key={attachment.id} className='max-w-full'>
+            {isImage && getAttachmentUrl && (
+              <a
+                href={getAttachmentUrl(attachment.id)}
+                target='_blank'
+                rel='noopener noreferrer'
+                className='block'
+              >
+                <img
+                  src={getAttachmentUrl(attachment.id)}
+                  alt={attachment.name}
+                  loading='lazy'
+                  className='max-h-48 max-w-full rounded border border-gray-200'
+                />
+              </a>
+            )}
+            <div className='flex items-center gap-2 text-xs text-gray-500'>
+              <span className='truncate max-w-[12rem] text-gray-700'>
+                {attachment.name}
+              </span>
+              <span>{formatFileSize(attachment.size)}</span>
+              {getAttachmentUrl && (
+                <a
+                  href={getAttachmentUrl(attachment.id, true)}
+                  className='font-medium text-blue-600 hover:text-blue-800'
+                  aria-label={`Download ${attachment.name}`}
+                >
+                  Download
+                </a>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageAttachments;
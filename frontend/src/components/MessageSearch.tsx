@@ -0,0 +1,159 @@
+import { Fragment, useRef, useState } from 'react';
+import {
+  ChatMessage,
+  MessageSearchResult,
+  MessageSearchSnippet,
+} from '../types/index';
+import { validateSearchQuery, VALIDATION_RULES } from '../utils/validation';
+import { formatMessageTimestamp } from '../utils/dateTime';
+import logger from '../utils/logger';
+
+interface MessageSearchProps {
+  onSearch: (query: string) => Promise<MessageSearchResult[]>;
+  onSelectResult: (message: ChatMessage) => void;
+}
+
+function renderSnippet({ text, highlights }: MessageSearchSnippet) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const { start, length } of highlights) {
+    parts.push(
+      <Fragment key={start}>
+        {text.slice(cursor, start)}
+        <mark className='bg-yellow-200 rounded-sm'>
+          {text.slice(start, start + length)}
+        </mark>
+      </Fragment>
+    );
+    cursor = start + length;
+  }
+  parts.push(text.slice(cursor));
+  return parts;
+}
+
+const MessageSearch: React.FC<MessageSearchProps> = ({
+  onSearch,
+  onSelectResult,
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState('');
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
+
+  const clearSearch = () => {
+    searchIdRef.current++;
+    setQuery('');
+    setResults(null);
+    setIsSearching(false);
+    setSearchError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const validation = validateSearchQuery(query);
+    if (!validation.isValid) {
+      setSearchError(validation.error ?? 'Invalid search');
+      return;
+    }
+
+    const searchId = ++searchIdRef.current;
+    setIsSearching(true);
+    setSearchError('');
+    try {
+      const found = await onSearch(query.trim());
+      if (searchId === searchIdRef.current) {
+        setResults(found);
+      }
+    } catch (error) {
+      logger.error('Failed to search messages', { error });
+      if (searchId === searchIdRef.current) {
+        setResults(null);
+        setSearchError(
+          error instanceof Error ? error.message : 'Failed to search messages'
+        );
+      }
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setIsSearching(false);
+      }
+    }
+  };
+
+  return (
+    <div className='border-b border-gray-200 bg-white'>
+      <form
+        role='search'
+        onSubmit={e => void handleSubmit(e)}
+        className='flex items-center gap-2 px-3 py-2'
+      >
+        <input
+          type='search'
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Escape') {
+              clearSearch();
+            }
+          }}
+          maxLength={VALIDATION_RULES.searchQuery.maxLength}
+          placeholder='Search messages'
+          aria-label='Search messages'
+          className='flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+        />
+        {(results !== null || searchError) && (
+          <button
+            type='button'
+            onClick={clearSearch}
+            className='text-xs text-gray-500 hover:text-gray-700'
+          >
+            Clear
+          </button>
+        )}
+      </form>
+
+      {isSearching && (
+        <p className='px-3 pb-2 text-xs text-gray-500'>Searching...</p>
+      )}
+      {searchError && (
+        <p className='px-3 pb-2 text-xs text-red-600' role='alert'>
+          {searchError}
+        </p>
+      )}
+      {results !== null &&
+        !isSearching &&
+        (results.length === 0 ? (
+          <p className='px-3 pb-2 text-xs text-gray-500'>No messages found</p>
+        ) : (
+          <ul
+            aria-label='Search results'
+            className='max-h-64 overflow-y-auto border-t border-gray-100'
+          >
+            {results.map(({ message, snippet }) => (
+              <li key={message.id}>
+                <button
+                  type='button'
+                  onClick={() => onSelectResult(message)}
+                  className='w-full text-left px-3 py-2 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none'
+                >
+                  <div className='flex items-center justify-between text-xs text-gray-500'>
+                    <span className='font-medium text-gray-700'>
+                      {message.nickname}
+                      {message.parentId && ' (in thread)'}
+                    </span>
+                    <span>{formatMessageTimestamp(message.timestamp)}</span>
+                  </div>
+                  <p className='text-sm text-gray-800 break-words'>
+                    {renderSnippet(snippet)}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+};
+
+export default MessageSearch;
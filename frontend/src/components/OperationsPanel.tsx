@@ -1,5 +1,11 @@
 import { useMemo } from 'react';
 import { User } from '../types/index';
+import UserAvatar from './UserAvatar';
+import {
+  getPresence,
+  PRESENCE_DOT_CLASSES,
+  PRESENCE_LABELS,
+} from '../utils/presence';
 
 type ActivityKind = 'edit' | 'presence' | 'save';
 interface ActivityItem {
@@ -14,7 +20,6 @@ interface OperationsPanelProps {
   isVisible: boolean;
   className?: string;
   activities?: ActivityItem[];
-  recentActiveByUser?: Record<string, number>;
 }
 
 const OperationsPanel: React.FC<OperationsPanelProps> = ({
@@ -22,7 +27,6 @@ const OperationsPanel: React.FC<OperationsPanelProps> = ({
   isVisible,
   className = '',
   activities = [],
-  recentActiveByUser = {},
 }) => {
   const usersMap = useMemo(() => {
     const m: Record<string, User> = {};
@@ -36,14 +40,6 @@ const OperationsPanel: React.FC<OperationsPanelProps> = ({
     return null;
   }
 
-  const isUserActive = (userId: string): boolean => {
-    const last = recentActiveByUser[userId];
-    if (!last) {
-      return false;
-    }
-    return Date.now() - last < 10000;
-  };
-
   const kindLabel = (k: ActivityKind) => {
     if (k === 'edit') {
       return 'Edited';
@@ -95,31 +91,29 @@ const OperationsPanel: React.FC<OperationsPanelProps> = ({
             {users.length === 0 ? (
               <div className='text-sm text-gray-500'>No users</div>
             ) : (
-              users.map(u => (
-                <div key={u.id} className='flex items-center justify-between'>
-                  <div className='flex items-center space-x-2'>
-                    <div className='w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center text-xs text-gray-700'>
-                      {u.nickname.charAt(0).toUpperCase()}
+              users.map(u => {
+                const presence = getPresence(u);
+                return (
+                  <div key={u.id} className='flex items-center justify-between'>
+                    <div className='flex items-center space-x-2'>
+                      <UserAvatar user={u} />
+                      <span className='text-sm text-gray-900'>
+                        {u.nickname}
+                      </span>
+                    </div>
+                    <div className='flex items-center space-x-2'>
+                      <span
+                        className={`text-xs ${presence === 'active' ? 'text-green-600' : 'text-gray-500'}`}
+                      >
+                        {PRESENCE_LABELS[presence]}
+                      </span>
+                      <span
+                        className={`w-2 h-2 rounded-full ${PRESENCE_DOT_CLASSES[presence]}`}
+                      />
                     </div>
-                    <span className='text-sm text-gray-900'>{u.nickname}</span>
-                  </div>
-                  <div className='flex items-center space-x-2'>
-                    <span
-                      className={`text-xs ${isUserActive(u.id) ? 'text-green-600' : 'text-gray-500'}`}
-                    >
-                      {isUserActive(u.id) ? 'Active' : 'Idle'}
-                    </span>
-                    <span
-                      className='w-2 h-2 rounded-full'
-                      style={{
-                        backgroundColor: isUserActive(u.id)
-                          ? '#22c55e'
-                          : '#9ca3af',
-                      }}
-                    />
                   </div>
-                </div>
-              ))
+                );
+              })
             )}
           </div>
         </div>
@@ -130,32 +124,36 @@ const OperationsPanel: React.FC<OperationsPanelProps> = ({
             <div className='text-sm text-gray-500'>No recent activity</div>
           ) : (
             <div className='space-y-2'>
-              {activities.slice(0, 20).map(a => (
-                <div
-                  key={a.id}
-                  className='flex items-center justify-between bg-gray-50 rounded p-2'
-                >
-                  <div className='flex items-center space-x-2'>
-                    <div className='w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center text-xs text-gray-700'>
-                      {(a.userId ? usersMap[a.userId] : undefined)?.nickname
-                        .charAt(0)
-                        .toUpperCase() ?? '?'}
-                    </div>
-                    <div className='flex flex-col'>
-                      <span className='text-sm text-gray-900'>
-                        {(a.userId ? usersMap[a.userId] : undefined)
-                          ?.nickname ?? 'Someone'}
-                      </span>
-                      <span className='text-xs text-gray-600'>
-                        {kindLabel(a.kind)}
-                      </span>
+              {activities.slice(0, 20).map(a => {
+                const user = a.userId ? usersMap[a.userId] : undefined;
+                return (
+                  <div
+                    key={a.id}
+                    className='flex items-center justify-between bg-gray-50 rounded p-2'
+                  >
+                    <div className='flex items-center space-x-2'>
+                      {user ? (
+                        <UserAvatar user={user} />
+                      ) : (
+                        <div className='w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center text-xs text-gray-700'>
+                          ?
+                        </div>
+                      )}
+                      <div className='flex flex-col'>
+                        <span className='text-sm text-gray-900'>
+                          {user?.nickname ?? 'Someone'}
+                        </span>
+                        <span className='text-xs text-gray-600'>
+                          {kindLabel(a.kind)}
+                        </span>
+                      </div>
                     </div>
+                    <span className='text-xs text-gray-500'>
+                      {formatTime(a.timestamp)}
+                    </span>
                   </div>
-                  <span className='text-xs text-gray-500'>
-                    {formatTime(a.timestamp)}
-                  </span>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -0,0 +1,80 @@
+import { ChatMessage } from '../types/index';
+import MarkdownContent from './MarkdownContent';
+import MessageAttachments from './MessageAttachments';
+import { formatMessageTimestamp } from '../utils/dateTime';
+
+interface PinnedMessagesProps {
+  messages: ChatMessage[]; // Most recently pinned first
+  currentUserId?: string;
+  onSelect?: (message: ChatMessage) => void; // Show the message in the chat
+  onUnpin?: (messageId: string) => void; // Owner and moderators only
+  getAttachmentUrl?: (attachmentId: string, download?: boolean) => string;
+}
+
+const PinnedMessages: React.FC<PinnedMessagesProps> = ({
+  messages,
+  currentUserId,
+  onSelect,
+  onUnpin,
+  getAttachmentUrl,
+}) => {
+  if (messages.length === 0) {
+    return (
+      <p className='px-4 py-6 text-center text-sm text-gray-500'>
+        No pinned messages
+      </p>
+    );
+  }
+
+  return (
+    <ul aria-label='Pinned messages' className='divide-y divide-gray-100'>
+      {messages.map(message => (
+        <li key={message.id} className='px-4 py-3'>
+          <div className='flex items-center justify-between mb-1 text-xs text-gray-500'>
+            <span className='font-medium text-sm text-gray-900'>
+              {message.nickname}
+            </span>
+            <span>{formatMessageTimestamp(message.timestamp)}</span>
+          </div>
+          <MarkdownContent
+            content={message.content}
+            mentions={message.mentions}
+            currentUserId={currentUserId}
+            className='text-sm text-gray-700'
+          />
+          {message.attachments && message.attachments.length > 0 && (
+            <MessageAttachments
+              attachments={message.attachments}
+              getAttachmentUrl={getAttachmentUrl}
+            />
+          )}
+          {(onSelect ?? onUnpin) && (
+            <div className='flex items-center space-x-3 mt-1'>
+              {onSelect && (
+                <button
+                  type='button'
+                  onClick={() => onSelect(message)}
+                  className='text-xs text-blue-600 hover:text-blue-800'
+                >
+                  Show in chat
+                </button>
+              )}
+              {onUnpin && (
+                <button
+                  type='button'
+                  onClick={() => onUnpin(message.id)}
+                  className='text-xs text-gray-500 hover:text-red-600'
+                  aria-label={`Unpin message from ${message.nickname}`}
+                >
+                  Unpin
+                </button>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PinnedMessages;
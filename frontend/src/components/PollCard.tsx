@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Poll, User } from '../types/index';
+import MarkdownContent from './MarkdownContent';
+import { isPollOpen } from '../utils/polls';
+import { formatTimestamp } from '../utils/dateTime';
+
+interface PollCardProps {
+  poll: Poll;
+  currentUserId?: string;
+  users?: Pick<User, 'id' | 'nickname'>[]; // Names the voters of named polls
+  onVote?: (optionIds: string[]) => void; // Omitted for viewers
+  onClose?: () => void; // Creator and owner only
+}
+
+// setTimeout can't wait longer than this (about 24 days)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const PollCard: React.FC<PollCardProps> = ({
+  poll,
+  currentUserId,
+  users = [],
+  onVote,
+  onClose,
+}) => {
+  // The server never says who voted in anonymous polls, so remember our own
+  // choice locally
+  const [localChoice, setLocalChoice] = useState<string[]>([]);
+  const [, setNow] = useState(Date.now);
+
+  const isOpen = isPollOpen(poll);
+
+  // Re-render when the poll reaches its close time
+  useEffect(() => {
+    if (!isOpen || !poll.closesAt) {
+      return;
+    }
+    const delay = new Date(poll.closesAt).getTime() - Date.now();
+    const timer = setTimeout(
+      () => setNow(Date.now()),
+      Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [isOpen, poll.closesAt]);
+
+  const myChoice = poll.anonymous
+    ? localChoice
+    : poll.options
+        .filter(
+          option =>
+            currentUserId !== undefined &&
+            option.voterIds?.includes(currentUserId)
+        )
+        .map(option => option.id);
+  const canVote = isOpen && Boolean(onVote);
+
+  const vote = (optionId: string) => {
+    let next: string[];
+    if (myChoice.includes(optionId)) {
+      next = myChoice.filter(id => id !== optionId);
+    } else {
+      next = poll.multipleChoice ? [...myChoice, optionId] : [optionId];
+    }
+    setLocalChoice(next);
+    onVote?.(next);
+  };
+
+  const nicknameOf = (userId: string) =>
+    users.find(user => user.id === userId)?.nickname;
+
+  return (
+    <div role='group' aria-label={`Poll: ${poll.question}`}>
+      <MarkdownContent
+        content={poll.question}
+        className='text-gray-900 text-sm font-medium'
+      />
+      <ul className='mt-2 space-y-1'>
+        {poll.options.map(option => {
+          const isChosen = myChoice.includes(option.id);
+          const percent =
+            poll.voterCount > 0
+              ? Math.round((option.votes / poll.voterCount) * 100)
+              : 0;
+          const voterNames = (option.voterIds ?? [])
+            .map(nicknameOf)
+            .filter((name): name is string => name !== undefined);
+
+          return (
+            <li key={option.id}>
+              <button
+                type='button'
+                onClick={() => vote(option.id)}
+                disabled={!canVote}
+                aria-pressed={isChosen}
+                aria-label={`${option.text}: ${option.votes} ${option.votes === 1 ? 'vote' : 'votes'}`}
+                className={`relative w-full overflow-hidden text-left px-2 py-1 text-sm rounded border ${
+                  isChosen
+                    ? 'border-blue-400 text-blue-900'
+                    : 'border-gray-200 text-gray-700'
+                } ${canVote ? 'hover:border-blue-300' : 'cursor-default'}`}
+              >
+                <span
+                  className={`absolute inset-y-0 left-0 ${
+                    isChosen ? 'bg-blue-100' : 'bg-gray-100'
+                  }`}
+                  style={{ width: `${percent}%` }}
+                  aria-hidden='true'
+                />
+                <span className='relative flex items-center justify-between gap-2'>
+                  <span className='break-words min-w-0'>{option.text}</span>
+                  <span className='text-xs text-gray-500 shrink-0'>
+                    {option.votes} · {percent}%
+                  </span>
+                </span>
+              </button>
+              {voterNames.length > 0 && (
+                <p className='px-2 text-xs text-gray-500 truncate'>
+                  {voterNames.join(', ')}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className='flex items-center justify-between mt-1 text-xs text-gray-500'>
+        <span>
+          {poll.voterCount} {poll.voterCount === 1 ? 'voter' : 'voters'}
+          {poll.multipleChoice && ' · Multiple choice'}
+          {poll.anonymous && ' · Anonymous'}
+          {!isOpen
+            ? ' · Closed'
+            : poll.closesAt &&
+              ` · Closes ${formatTimestamp(poll.closesAt, { includeDate: true })}`}
+        </span>
+        {isOpen && onClose && (
+          <button
+            type='button'
+            onClick={onClose}
+            className='text-xs text-gray-500 hover:text-red-600'
+          >
+            Close poll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PollCard;
@@ -0,0 +1,169 @@
+import { useRef, useState } from 'react';
+import { CreatePollRequest } from '../types/index';
+import { validatePoll, VALIDATION_RULES } from '../utils/validation';
+
+interface DraftOption {
+  key: number; // Stable while options are added and removed
+  text: string;
+}
+
+interface PollComposerProps {
+  onSubmit: (poll: CreatePollRequest) => void;
+  onCancel: () => void;
+}
+
+const PollComposer: React.FC<PollComposerProps> = ({ onSubmit, onCancel }) => {
+  const [question, setQuestion] = useState('');
+  const nextKeyRef = useRef(2);
+  const [options, setOptions] = useState<DraftOption[]>([
+    { key: 0, text: '' },
+    { key: 1, text: '' },
+  ]);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState(''); // datetime-local value
+  const [error, setError] = useState('');
+
+  const setOption = (key: number, text: string) => {
+    setOptions(prev =>
+      prev.map(option => (option.key === key ? { key, text } : option))
+    );
+    setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const trimmedOptions = options.map(option => option.text.trim());
+    const validation = validatePoll(question, trimmedOptions);
+    if (!validation.isValid) {
+      setError(validation.error ?? 'Invalid poll');
+      return;
+    }
+
+    const closeTime = closesAt ? new Date(closesAt) : undefined;
+    if (closeTime && !(closeTime.getTime() > Date.now())) {
+      setError('Polls must close in the future');
+      return;
+    }
+
+    onSubmit({
+      question: question.trim(),
+      options: trimmedOptions,
+      multipleChoice,
+      anonymous,
+      closesAt: closeTime?.toISOString(),
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-label='Create poll'
+      className='mb-2 p-2 space-y-2 border border-gray-200 rounded-lg bg-gray-50'
+    >
+      <input
+        type='text'
+        value={question}
+        onChange={e => {
+          setQuestion(e.target.value);
+          setError('');
+        }}
+        maxLength={VALIDATION_RULES.poll.questionMaxLength}
+        placeholder='Ask a question'
+        aria-label='Poll question'
+        className='w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+      />
+      {options.map((option, index) => (
+        <div key={option.key} className='flex items-center space-x-2'>
+          <input
+            type='text'
+            value={option.text}
+            onChange={e => setOption(option.key, e.target.value)}
+            maxLength={VALIDATION_RULES.poll.optionMaxLength}
+            placeholder={`Option ${index + 1}`}
+            aria-label={`Option ${index + 1}`}
+            className='flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+          {options.length > VALIDATION_RULES.poll.minOptions && (
+            <button
+              type='button'
+              onClick={() =>
+                setOptions(prev => prev.filter(({ key }) => key !== option.key))
+              }
+              aria-label={`Remove option ${index + 1}`}
+              className='px-1 text-gray-500 rounded hover:bg-gray-200 hover:text-gray-700'
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      {options.length < VALIDATION_RULES.poll.maxOptions && (
+        <button
+          type='button'
+          onClick={() =>
+            setOptions(prev => [
+              ...prev,
+              { key: nextKeyRef.current++, text: '' },
+            ])
+          }
+          className='text-xs font-medium text-blue-600 hover:text-blue-800'
+        >
+          Add option
+        </button>
+      )}
+      <div className='flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-700'>
+        <label className='flex items-center space-x-1'>
+          <input
+            type='checkbox'
+            checked={multipleChoice}
+            onChange={e => setMultipleChoice(e.target.checked)}
+          />
+          <span>Allow multiple choices</span>
+        </label>
+        <label className='flex items-center space-x-1'>
+          <input
+            type='checkbox'
+            checked={anonymous}
+            onChange={e => setAnonymous(e.target.checked)}
+          />
+          <span>Anonymous votes</span>
+        </label>
+        <label className='flex items-center space-x-1'>
+          <span>Closes at</span>
+          <input
+            type='datetime-local'
+            value={closesAt}
+            onChange={e => {
+              setClosesAt(e.target.value);
+              setError('');
+            }}
+            className='px-1 border border-gray-300 rounded'
+          />
+        </label>
+      </div>
+      {error && (
+        <p className='text-xs text-red-600' role='alert'>
+          {error}
+        </p>
+      )}
+      <div className='flex items-center justify-end space-x-3'>
+        <button
+          type='button'
+          onClick={onCancel}
+          className='text-xs text-gray-600 hover:text-gray-800'
+        >
+          Cancel
+        </button>
+        <button
+          type='submit'
+          className='px-2 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded'
+        >
+          Create poll
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PollComposer;
@@ -10,16 +10,46 @@ import { history } from 'prosemirror-history';
 import { baseKeymap, toggleMark } from 'prosemirror-commands';
 import * as Y from 'yjs';
 import logger from '../utils/logger';
+import { getUserColor } from '../utils/userAppearance';
 import {
   ySyncPlugin,
+  ySyncPluginKey,
   yCursorPlugin,
   yUndoPlugin,
   undo,
   redo,
+  yXmlFragmentToProseMirrorRootNode,
 } from 'y-prosemirror';
 import { socketService } from '../services/socketService';
+import { presenceService } from '../services/presenceService';
 import { SocketProvider } from '../services/socketProvider';
-import { User } from '../types/index';
+import DocumentHistoryPanel from './DocumentHistoryPanel';
+import {
+  User,
+  DocumentVersion,
+  DocumentSavedEvent,
+  DocumentVersionPreview,
+  DocumentVersionRestoredEvent,
+} from '../types/index';
+
+// Give up waiting for the server's save confirmation after this long
+const SAVE_CONFIRMATION_TIMEOUT_MS = 10000;
+
+const toDocumentVersion = (event: DocumentVersion): DocumentVersion => ({
+  version: event.version,
+  title: event.title,
+  modifiedBy: event.modifiedBy,
+  modifiedByNickname: event.modifiedByNickname,
+  timestamp: event.timestamp,
+});
+
+const mergeVersion = (
+  versions: DocumentVersion[],
+  version: DocumentVersion
+): DocumentVersion[] =>
+  versions.some(v => v.version === version.version)
+    ? versions
+    : [...versions, version];
 
 interface RichTextEditorProps {
   documentId: string;
@@ -30,6 +60,7 @@ interface RichTextEditorProps {
     position: number,
     selection?: { from: number; to: number }
   ) => void;
+  readOnly?: boolean; // Viewers can follow the document but not change it
   className?: string;
 }
 
@@ -39,6 +70,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
   currentUserId,
   onDocumentChange,
   onCursorUpdate,
+  readOnly = false,
   className = '',
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
@@ -49,6 +81,14 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
   // Connection status removed per UX decision (avoid showing transient 'Disconnected')
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  // Set by local edits, cleared once a save has been requested
+  const hasUnsavedChangesRef = useRef(false);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [previewVersion, setPreviewVersion] = useState<number | null>(null);
+  const [previewText, setPreviewText] = useState<string | null>(null);
   const [showToolbar, setShowToolbar] = useState(false);
   const [toolbarPosition, setToolbarPosition] = useState({ top: 0, left: 0 });
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -119,24 +159,6 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     activityTimerRef.current = setTimeout(() => setShowActivity(false), 1500);
   };
 
-  // Get user color for collaborative cursors
-  const getUserColor = (userId: string): string => {
-    const colors = [
-      '#3B82F6', // blue
-      '#10B981', // green
-      '#8B5CF6', // purple
-      '#F59E0B', // yellow
-      '#EF4444', // red
-      '#06B6D4', // cyan
-      '#84CC16', // lime
-      '#F97316', // orange
-    ];
-    const index = userId
-      .split('')
-      .reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    return colors[index % colors.length];
-  };
-
   /**
    * Prevent editor re-creation when user state changes (e.g., editing status updates)
    */
@@ -145,6 +167,13 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     usersRef.current = users;
   }, [users]);
 
+  // Role changes toggle editability without re-creating the editor
+  const readOnlyRef = useRef(readOnly);
+  useEffect(() => {
+    readOnlyRef.current = readOnly;
+    viewRef.current?.setProps({ editable: () => !readOnly });
+  }, [readOnly]);
+
   // Initialize editor
   useEffect(() => {
     if (!editorRef.current) {
@@ -166,6 +195,14 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     const provider = new SocketProvider(`document-${documentId}`, yDoc);
     providerRef.current = provider;
 
+    // Only local edits need saving; remote ones are saved by their authors
+    const handleDocUpdate = (_update: Uint8Array, origin: unknown) => {
+      if (origin !== provider) {
+        hasUnsavedChangesRef.current = true;
+      }
+    };
+    yDoc.on('update', handleDocUpdate);
+
     // Get Y.js shared type for ProseMirror
     const yXmlFragment = yDoc.getXmlFragment('prosemirror');
 
@@ -219,17 +256,22 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
       ],
     });
 
+    // Name and color others see on this user's cursor
+    const setAwarenessUser = () => {
+      const user = usersRef.current.find(u => u.id === currentUserId);
+      provider.awareness.setLocalStateField('user', {
+        name: user?.nickname ?? 'Anonymous',
+        color: getUserColor(user),
+      });
+    };
+
     // Create the view first without custom dispatch to let internal init finish
     const view = new EditorView(editorRef.current, {
       state,
+      editable: () => !readOnlyRef.current,
       handleDOMEvents: {
         focus: () => {
-          provider.awareness.setLocalStateField('user', {
-            name:
-              usersRef.current.find(u => u.id === currentUserId)?.nickname ??
-              'Anonymous',
-            color: getUserColor(currentUserId ?? ''),
-          });
+          setAwarenessUser();
           sendEditingStatus(true);
           return false;
         },
@@ -253,6 +295,15 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
         const newState = currentView.state.apply(tr);
         currentView.updateState(newState);
 
+        // Other users' changes arrive as transactions too; only this user's
+        // own edits and selections count towards their presence
+        const syncMeta = tr.getMeta(ySyncPluginKey) as
+          | { isChangeOrigin?: boolean }
+          | undefined;
+        if ((tr.docChanged || tr.selectionSet) && !syncMeta?.isChangeOrigin) {
+          presenceService.recordInput();
+        }
+
         if (tr.selectionSet && !tr.selection.empty) {
           const { from, to } = tr.selection;
           try {
@@ -288,12 +339,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     });
 
     // Set user awareness information
-    provider.awareness.setLocalStateField('user', {
-      name:
-        usersRef.current.find(u => u.id === currentUserId)?.nickname ??
-        'Anonymous',
-      color: getUserColor(currentUserId ?? ''),
-    });
+    setAwarenessUser();
 
     // Signal presence once editor initialized
     pingActivity('presence');
@@ -310,6 +356,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
         }
       }
       view.destroy();
+      yDoc.off('update', handleDocUpdate);
       provider.destroy();
       yDoc.destroy();
       if (activityTimerRef.current) {
@@ -318,22 +365,114 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     };
   }, [documentId, currentUserId, onDocumentChange, onCursorUpdate]);
 
+  /**
+   * Ask the server to store a version of the document. "Saved" is only shown
+   * once the server confirms it via editor:document-save.
+   */
+  const requestSave = () => {
+    setIsSaving(true);
+    hasUnsavedChangesRef.current = false;
+    try {
+      socketService.sendDocumentSave(documentId);
+    } catch (error) {
+      logger.warn('Failed to emit document save', { error });
+      hasUnsavedChangesRef.current = true;
+      setIsSaving(false);
+      return;
+    }
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = setTimeout(() => {
+      logger.warn('Document save was not confirmed by the server');
+      hasUnsavedChangesRef.current = true;
+      setIsSaving(false);
+    }, SAVE_CONFIRMATION_TIMEOUT_MS);
+  };
+  const requestSaveRef = useRef(requestSave);
+  requestSaveRef.current = requestSave;
+
   // Auto-save functionality
   useEffect(() => {
     const autoSaveInterval = setInterval(() => {
-      if (viewRef.current && yDocRef.current) {
-        setIsSaving(true);
-        // Simulate save operation
-        setTimeout(() => {
-          setIsSaving(false);
-          setLastSaved(new Date());
-        }, 500);
+      if (viewRef.current && yDocRef.current && hasUnsavedChangesRef.current) {
+        requestSaveRef.current();
       }
     }, 30000); // Auto-save every 30 seconds
 
     return () => clearInterval(autoSaveInterval);
   }, []);
 
+  // Save confirmations and version history events from the server
+  useEffect(() => {
+    const handleDocumentSaved = (data: unknown) => {
+      const saved = data as DocumentSavedEvent;
+      setLastSaved(new Date(saved.timestamp));
+      setVersions(prev => mergeVersion(prev, toDocumentVersion(saved)));
+      if (saved.modifiedBy === currentUserId) {
+        if (saveTimeoutRef.current) {
+          clearTimeout(saveTimeoutRef.current);
+          saveTimeoutRef.current = null;
+        }
+        setIsSaving(false);
+      }
+    };
+
+    const handleVersions = (data: unknown) => {
+      const { versions: list } = data as { versions: DocumentVersion[] };
+      setVersions(list);
+      setIsLoadingVersions(false);
+    };
+
+    const handleVersionPreview = (data: unknown) => {
+      const preview = data as DocumentVersionPreview;
+      const editorSchema = schemaRef.current;
+      if (!editorSchema) {
+        return;
+      }
+
+      const previewDoc = new Y.Doc();
+      try {
+        Y.applyUpdate(previewDoc, new Uint8Array(preview.state));
+        const node = yXmlFragmentToProseMirrorRootNode(
+          previewDoc.getXmlFragment('prosemirror'),
+          editorSchema
+        );
+        setPreviewVersion(preview.version);
+        setPreviewText(node.textBetween(0, node.content.size, '\n\n'));
+      } catch (error) {
+        logger.warn('Failed to render document version preview', { error });
+        setPreviewText('');
+      } finally {
+        previewDoc.destroy();
+      }
+    };
+
+    const handleVersionRestored = (data: unknown) => {
+      const restored = data as DocumentVersionRestoredEvent;
+      setLastSaved(new Date(restored.timestamp));
+      setVersions(prev => mergeVersion(prev, toDocumentVersion(restored)));
+      setPreviewVersion(null);
+      setPreviewText(null);
+    };
+
+    socketService.on('editor:document-save', handleDocumentSaved);
+    socketService.on('editor:versions', handleVersions);
+    socketService.on('editor:version-preview', handleVersionPreview);
+    socketService.on('editor:version-restored', handleVersionRestored);
+
+    return () => {
+      socketService.off('editor:document-save', handleDocumentSaved);
+      socketService.off('editor:versions', handleVersions);
+      socketService.off('editor:version-preview', handleVersionPreview);
+      socketService.off('editor:version-restored', handleVersionRestored);
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+      }
+    };
+  }, [currentUserId]);
+
   // Toolbar actions
   const toggleBold = () => {
     const view = viewRef.current;
@@ -383,17 +522,47 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
   const manualSave = () => {
     if (viewRef.current && yDocRef.current) {
-      setIsSaving(true);
       try {
         socketService.sendEditorActivity('save');
-        socketService.sendDocumentSave(documentId);
       } catch (error) {
-        logger.warn('Failed to emit document save', { error });
+        logger.warn('Failed to emit save activity', { error });
       }
-      setTimeout(() => {
-        setIsSaving(false);
-        setLastSaved(new Date());
-      }, 500);
+      requestSave();
+    }
+  };
+
+  // Version history actions
+  const toggleHistory = () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+
+    setShowHistory(true);
+    setIsLoadingVersions(true);
+    try {
+      socketService.requestDocumentVersions();
+    } catch (error) {
+      logger.warn('Failed to request document versions', { error });
+      setIsLoadingVersions(false);
+    }
+  };
+
+  const previewDocumentVersion = (version: number) => {
+    setPreviewVersion(version);
+    setPreviewText(null);
+    try {
+      socketService.previewDocumentVersion(version);
+    } catch (error) {
+      logger.warn('Failed to request document version preview', { error });
+    }
+  };
+
+  const restoreDocumentVersion = (version: number) => {
+    try {
+      socketService.restoreDocumentVersion(version);
+    } catch (error) {
+      logger.warn('Failed to restore document version', { error });
     }
   };
 
@@ -449,6 +618,11 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
       <div className='flex items-center justify-between h-12 px-4 border-b border-gray-200 bg-gray-50'>
         <div className='flex items-center space-x-4'>
           <h2 className='text-lg font-semibold text-gray-900'>Document</h2>
+          {readOnly && (
+            <span className='text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full font-medium'>
+              View only
+            </span>
+          )}
           {/* Connection status indicator removed */}
         </div>
 
@@ -459,16 +633,29 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
             </span>
           )}
           <button
-            onClick={manualSave}
-            disabled={isSaving}
+            onClick={toggleHistory}
             className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
-              isSaving
-                ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+              showHistory
+                ? 'bg-gray-200 text-gray-900'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
             }`}
+            aria-pressed={showHistory}
           >
-            {isSaving ? 'Saving...' : 'Save'}
+            History
           </button>
+          {!readOnly && (
+            <button
+              onClick={manualSave}
+              disabled={isSaving}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                isSaving
+                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                  : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+              }`}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          )}
         </div>
       </div>
 
@@ -583,15 +770,28 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
       )}
 
       {/* Editor Content */}
-      <div ref={containerRef} className='flex-1 overflow-auto'>
-        <div
-          ref={editorRef}
-          className='prose prose-sm max-w-none p-4 min-h-full'
-          style={{
-            fontSize: '16px',
-            lineHeight: '1.6',
-          }}
-        />
+      <div className='flex flex-1 min-h-0'>
+        <div ref={containerRef} className='flex-1 overflow-auto'>
+          <div
+            ref={editorRef}
+            className='prose prose-sm max-w-none p-4 min-h-full'
+            style={{
+              fontSize: '16px',
+              lineHeight: '1.6',
+            }}
+          />
+        </div>
+        {showHistory && (
+          <DocumentHistoryPanel
+            versions={versions}
+            isLoading={isLoadingVersions}
+            previewVersion={previewVersion}
+            previewText={previewText}
+            onPreview={previewDocumentVersion}
+            onRestore={readOnly ? undefined : restoreDocumentVersion}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
       </div>
 
       {/* Status Bar */}
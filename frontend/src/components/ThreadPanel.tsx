@@ -0,0 +1,137 @@
+import { Attachment, ChatMessage, User } from '../types/index';
+import ChatArea from './ChatArea';
+import MarkdownContent from './MarkdownContent';
+import MessageAttachments from './MessageAttachments';
+import UserAvatar from './UserAvatar';
+import { formatMessageTimestamp } from '../utils/dateTime';
+
+interface ThreadPanelProps {
+  parent?: ChatMessage; // Undefined when the parent isn't loaded in the timeline
+  replies: ChatMessage[];
+  isLoading: boolean;
+  onSendReply: (content: string, attachmentIds?: string[]) => void;
+  onTypingChange: (isTyping: boolean) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+  currentUserId?: string;
+  canDeleteAny?: boolean;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  onReact?: (messageId: string, emoji: string) => void;
+  mentionableUsers?: Pick<User, 'id' | 'nickname' | 'color' | 'avatar'>[];
+  onUploadAttachment?: (file: File) => Promise<Attachment>;
+  getAttachmentUrl?: (attachmentId: string, download?: boolean) => string;
+  className?: string;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  parent,
+  replies,
+  isLoading,
+  onSendReply,
+  onTypingChange,
+  onClose,
+  readOnly = false,
+  currentUserId,
+  canDeleteAny,
+  onEditMessage,
+  onDeleteMessage,
+  onReact,
+  mentionableUsers,
+  onUploadAttachment,
+  getAttachmentUrl,
+  className = '',
+}) => {
+  return (
+    <div
+      className={`flex flex-col h-full w-80 bg-white border-l border-gray-200 shadow-lg ${className}`}
+      role='dialog'
+      aria-label='Thread'
+    >
+      <div className='flex items-center justify-between h-12 px-4 border-b border-gray-200 bg-gray-50'>
+        <h3 className='text-lg font-semibold text-gray-900'>Thread</h3>
+        <button
+          onClick={onClose}
+          className='p-1 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700'
+          aria-label='Close thread'
+        >
+          <svg
+            className='w-4 h-4'
+            viewBox='0 0 20 20'
+            fill='currentColor'
+            aria-hidden='true'
+          >
+            <path d='M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z' />
+          </svg>
+        </button>
+      </div>
+
+      {parent && (
+        <div className='px-4 py-3 border-b border-gray-200'>
+          <div className='flex items-center justify-between mb-1'>
+            <div className='flex items-center space-x-2 min-w-0'>
+              <UserAvatar
+                user={
+                  mentionableUsers?.find(user => user.id === parent.userId) ?? {
+                    nickname: parent.nickname,
+                  }
+                }
+                className='w-5 h-5 text-[10px]'
+              />
+              <span className='font-medium text-gray-900 text-sm truncate'>
+                {parent.nickname}
+              </span>
+            </div>
+            <span className='text-xs text-gray-500'>
+              {formatMessageTimestamp(parent.timestamp)}
+            </span>
+          </div>
+          {parent.deletedAt ? (
+            <p className='text-gray-400 text-sm italic'>
+              This message was deleted
+            </p>
+          ) : (
+            <MarkdownContent
+              content={parent.content}
+              mentions={parent.mentions}
+              currentUserId={currentUserId}
+              className='text-gray-700 text-sm leading-relaxed'
+            />
+          )}
+          {!parent.deletedAt && parent.attachments && (
+            <MessageAttachments
+              attachments={parent.attachments}
+              getAttachmentUrl={getAttachmentUrl}
+            />
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className='flex-1 p-4 text-sm text-gray-500'>
+          Loading replies...
+        </div>
+      ) : (
+        <div className='flex-1 flex flex-col min-h-0'>
+          <ChatArea
+            messages={replies}
+            onSendMessage={onSendReply}
+            onTypingChange={onTypingChange}
+            readOnly={readOnly}
+            currentUserId={currentUserId}
+            canDeleteAny={canDeleteAny}
+            onEditMessage={onEditMessage}
+            onDeleteMessage={onDeleteMessage}
+            onReact={onReact}
+            mentionableUsers={mentionableUsers}
+            onUploadAttachment={onUploadAttachment}
+            getAttachmentUrl={getAttachmentUrl}
+            emptyText='No replies yet.'
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadPanel;
@@ -0,0 +1,37 @@
+import { User } from '../types/index';
+import { getUserColor, getUserInitials } from '../utils/userAppearance';
+
+interface UserAvatarProps {
+  user: Pick<User, 'nickname' | 'color' | 'avatar'>;
+  className?: string; // Size and text size
+}
+
+// The server's generated avatar when it sends one, otherwise initials on the
+// user's color. Decorative: the nickname is always shown or in a title nearby.
+const UserAvatar: React.FC<UserAvatarProps> = ({
+  user,
+  className = 'w-6 h-6 text-xs',
+}) => {
+  if (user.avatar) {
+    return (
+      <img
+        src={user.avatar}
+        alt=''
+        aria-hidden='true'
+        className={`rounded-full shrink-0 ${className}`}
+      />
+    );
+  }
+
+  return (
+    <div
+      aria-hidden='true'
+      className={`rounded-full shrink-0 flex items-center justify-center text-white font-medium ${className}`}
+      style={{ backgroundColor: getUserColor(user) }}
+    >
+      {getUserInitials(user.nickname)}
+    </div>
+  );
+};
+
+export default UserAvatar;
@@ -1,18 +1,115 @@
-import { User, TypingStatus } from '../types/index';
+import { useState } from 'react';
+import {
+  User,
+  TypingStatus,
+  AssignableRole,
+  UserRole,
+  BanInfo,
+} from '../types/index';
+import { validateNickname, VALIDATION_RULES } from '../utils/validation';
+import UserAvatar from './UserAvatar';
+import {
+  getPresence,
+  PRESENCE_DOT_CLASSES,
+  PRESENCE_LABELS,
+} from '../utils/presence';
 
 interface UserListProps {
   users: User[];
   typingUsers: TypingStatus[];
   currentUserId?: string;
   ownerId?: string;
+  onChangeRole?: (userId: string, role: AssignableRole) => void;
+  onTransferOwnership?: (userId: string) => void;
+  onKick?: (userId: string, reason?: string) => void;
+  onBan?: (userId: string, reason?: string) => void;
+  bans?: BanInfo[];
+  onUnban?: (userId: string) => void;
+  onRename?: (nickname: string) => void; // Changes the current user's nickname
 }
 
+// Mirrors the server: the owner can remove anyone else, moderators can only
+// remove participants and viewers
+const canRemove = (actor: UserRole | undefined, target: UserRole): boolean =>
+  actor === 'owner'
+    ? target !== 'owner'
+    : actor === 'moderator' &&
+      (target === 'participant' || target === 'viewer');
+
+const ROLE_OPTIONS: { value: AssignableRole; label: string }[] = [
+  { value: 'moderator', label: 'Moderator' },
+  { value: 'participant', label: 'Participant' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
 const UserList: React.FC<UserListProps> = ({
   users,
   typingUsers,
   currentUserId,
   ownerId,
+  onChangeRole,
+  onTransferOwnership,
+  onKick,
+  onBan,
+  bans = [],
+  onUnban,
+  onRename,
 }) => {
+  const currentRole = users.find(u => u.id === currentUserId)?.role;
+  // Only the owner manages roles (enforced by the server as well)
+  const canManageRoles = !!onChangeRole && currentRole === 'owner';
+  const isModerator = currentRole === 'owner' || currentRole === 'moderator';
+
+  // Kick, ban or ownership transfer awaiting confirmation
+  const [pendingAction, setPendingAction] = useState<{
+    userId: string;
+    kind: 'kick' | 'ban' | 'transfer';
+  } | null>(null);
+  const [reason, setReason] = useState('');
+
+  const startAction = (userId: string, kind: 'kick' | 'ban' | 'transfer') => {
+    setPendingAction({ userId, kind });
+    setReason('');
+  };
+
+  const confirmAction = () => {
+    if (!pendingAction) {
+      return;
+    }
+    const trimmed = reason.trim() || undefined;
+    if (pendingAction.kind === 'ban') {
+      onBan?.(pendingAction.userId, trimmed);
+    } else if (pendingAction.kind === 'kick') {
+      onKick?.(pendingAction.userId, trimmed);
+    } else {
+      onTransferOwnership?.(pendingAction.userId);
+    }
+    setPendingAction(null);
+  };
+
+  // The server confirms renames with user-renamed; a taken nickname comes
+  // back as an error instead
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [newNickname, setNewNickname] = useState('');
+  const [renameError, setRenameError] = useState('');
+
+  const startRename = (nickname: string) => {
+    setIsRenaming(true);
+    setNewNickname(nickname);
+    setRenameError('');
+  };
+
+  const submitRename = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const validation = validateNickname(newNickname);
+    if (!validation.isValid) {
+      setRenameError(validation.error ?? 'Invalid nickname');
+      return;
+    }
+    onRename?.(newNickname.trim());
+    setIsRenaming(false);
+  };
+
   // Sort users to put owner first, then others
   const sortedUsers = [...users].sort((a, b) => {
     if (a.id === ownerId) {
@@ -34,68 +131,259 @@ const UserList: React.FC<UserListProps> = ({
       <div className='flex-1 overflow-y-auto p-2'>
         {sortedUsers.map(user => {
           const isTyping = typingUsers.some(t => t.userId === user.id);
+          const presence = getPresence(user);
           const isCurrentUser = user.id === currentUserId;
-          const isOwner = user.id === ownerId;
+          // ownerId follows transfers immediately; roles catch up after
+          const isOwner = ownerId ? user.id === ownerId : user.role === 'owner';
+
+          const canRemoveUser =
+            !isCurrentUser &&
+            canRemove(
+              currentRole,
+              isOwner ? 'owner' : (user.role ?? 'participant')
+            );
+          const pending =
+            pendingAction?.userId === user.id ? pendingAction : null;
 
           return (
-            <div
-              key={user.id}
-              className='flex items-center p-2 rounded-lg hover:bg-gray-50'
-            >
+            <div key={user.id}>
               <div
-                className={`w-3 h-3 rounded-full mr-3 ${
-                  user.isOnline ? 'bg-green-500' : 'bg-gray-400'
+                className={`flex items-center p-2 rounded-lg hover:bg-gray-50 ${
+                  user.isOnline ? '' : 'opacity-60'
                 }`}
-              />
-
-              <div className='flex-1 min-w-0'>
-                <div className='flex items-center gap-1.5'>
-                  <p
-                    className={`text-sm font-medium truncate ${
-                      isCurrentUser ? 'text-blue-900' : 'text-gray-900'
-                    }`}
-                  >
-                    {user.nickname}
-                  </p>
-                  {isOwner && (
-                    <span className='text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full font-medium'>
-                      owner
-                    </span>
-                  )}
-                  {isCurrentUser && (
-                    <span className='text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full font-medium'>
-                      you
-                    </span>
-                  )}
-                  {user.isEditing && (
-                    <span
-                      className='inline-flex items-center text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium'
-                      title='Editing document'
+              >
+                <div className='relative mr-3'>
+                  <UserAvatar user={user} className='w-7 h-7 text-xs' />
+                  <div
+                    className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white ${PRESENCE_DOT_CLASSES[presence]}`}
+                    title={PRESENCE_LABELS[presence]}
+                  />
+                </div>
+
+                <div className='flex-1 min-w-0'>
+                  <div className='flex items-center gap-1.5'>
+                    <p
+                      className={`text-sm font-medium truncate ${
+                        isCurrentUser ? 'text-blue-900' : 'text-gray-900'
+                      } ${user.isOnline ? '' : 'italic'}`}
                     >
-                      <svg
-                        className='w-3 h-3 mr-1 animate-pulse'
-                        fill='none'
-                        stroke='currentColor'
-                        viewBox='0 0 24 24'
-                        xmlns='http://www.w3.org/2000/svg'
+                      {user.nickname}
+                    </p>
+                    {isOwner && (
+                      <span className='text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full font-medium'>
+                        owner
+                      </span>
+                    )}
+                    {user.role === 'moderator' && (
+                      <span className='text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full font-medium'>
+                        mod
+                      </span>
+                    )}
+                    {user.role === 'viewer' && (
+                      <span className='text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full font-medium'>
+                        viewer
+                      </span>
+                    )}
+                    {isCurrentUser && (
+                      <span className='text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full font-medium'>
+                        you
+                      </span>
+                    )}
+                    {!user.isOnline && (
+                      <span className='text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full font-medium'>
+                        offline
+                      </span>
+                    )}
+                    {presence === 'idle' && (
+                      <span className='text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full font-medium'>
+                        idle
+                      </span>
+                    )}
+                    {presence === 'away' && (
+                      <span className='text-xs bg-orange-100 text-orange-800 px-2 py-0.5 rounded-full font-medium'>
+                        away
+                      </span>
+                    )}
+                    {user.isEditing && (
+                      <span
+                        className='inline-flex items-center text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium'
+                        title='Editing document'
                       >
-                        <path
-                          strokeLinecap='round'
-                          strokeLinejoin='round'
-                          strokeWidth={2}
-                          d='M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'
-                        />
-                      </svg>
-                      editing
-                    </span>
+                        <svg
+                          className='w-3 h-3 mr-1 animate-pulse'
+                          fill='none'
+                          stroke='currentColor'
+                          viewBox='0 0 24 24'
+                          xmlns='http://www.w3.org/2000/svg'
+                        >
+                          <path
+                            strokeLinecap='round'
+                            strokeLinejoin='round'
+                            strokeWidth={2}
+                            d='M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'
+                          />
+                        </svg>
+                        editing
+                      </span>
+                    )}
+                    {isTyping && (
+                      <span className='text-xs text-gray-500 italic'>
+                        typing...
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {isCurrentUser && onRename && !isRenaming && (
+                  <button
+                    onClick={() => startRename(user.nickname)}
+                    className='ml-2 text-xs text-gray-500 hover:text-blue-600'
+                    aria-label='Change your nickname'
+                  >
+                    Rename
+                  </button>
+                )}
+
+                {canManageRoles && !isOwner && !isCurrentUser && (
+                  <select
+                    value={user.role ?? 'participant'}
+                    onChange={e =>
+                      onChangeRole(user.id, e.target.value as AssignableRole)
+                    }
+                    className='ml-2 text-xs border border-gray-200 rounded px-1 py-0.5 bg-white text-gray-700'
+                    aria-label={`Role for ${user.nickname}`}
+                  >
+                    {ROLE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {canManageRoles &&
+                  onTransferOwnership &&
+                  !isOwner &&
+                  !isCurrentUser && (
+                    <button
+                      onClick={() => startAction(user.id, 'transfer')}
+                      className='ml-2 text-xs text-gray-500 hover:text-blue-600'
+                      aria-label={`Make ${user.nickname} the owner`}
+                    >
+                      Make owner
+                    </button>
                   )}
-                  {isTyping && (
-                    <span className='text-xs text-gray-500 italic'>
-                      typing...
-                    </span>
+
+                {canRemoveUser && onKick && (
+                  <button
+                    onClick={() => startAction(user.id, 'kick')}
+                    className='ml-2 text-xs text-gray-500 hover:text-red-600'
+                    aria-label={`Kick ${user.nickname}`}
+                  >
+                    Kick
+                  </button>
+                )}
+                {canRemoveUser && onBan && (
+                  <button
+                    onClick={() => startAction(user.id, 'ban')}
+                    className='ml-2 text-xs text-gray-500 hover:text-red-600'
+                    aria-label={`Ban ${user.nickname}`}
+                  >
+                    Ban
+                  </button>
+                )}
+              </div>
+
+              {isCurrentUser && isRenaming && (
+                <form
+                  onSubmit={submitRename}
+                  className='mx-2 mb-2 p-2 rounded-lg bg-blue-50 border border-blue-200 space-y-2'
+                >
+                  <input
+                    type='text'
+                    value={newNickname}
+                    onChange={e => {
+                      setNewNickname(e.target.value);
+                      setRenameError('');
+                    }}
+                    maxLength={VALIDATION_RULES.nickname.maxLength}
+                    className='w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500'
+                    aria-label='New nickname'
+                  />
+                  {renameError && (
+                    <p className='text-xs text-red-600' role='alert'>
+                      {renameError}
+                    </p>
                   )}
+                  <div className='flex justify-end space-x-2'>
+                    <button
+                      type='button'
+                      onClick={() => setIsRenaming(false)}
+                      className='px-2 py-1 text-xs rounded text-gray-600 hover:bg-gray-100'
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type='submit'
+                      className='px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700'
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {pending?.kind === 'transfer' && (
+                <div className='mx-2 mb-2 p-2 rounded-lg bg-blue-50 border border-blue-200 space-y-2'>
+                  <p className='text-xs text-gray-700'>
+                    Make {user.nickname} the room owner? You will stay on as a
+                    moderator.
+                  </p>
+                  <div className='flex justify-end space-x-2'>
+                    <button
+                      onClick={() => setPendingAction(null)}
+                      className='px-2 py-1 text-xs rounded text-gray-600 hover:bg-gray-100'
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={confirmAction}
+                      className='px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700'
+                    >
+                      Transfer ownership
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {(pending?.kind === 'kick' || pending?.kind === 'ban') && (
+                <div className='mx-2 mb-2 p-2 rounded-lg bg-red-50 border border-red-200 space-y-2'>
+                  <input
+                    type='text'
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && confirmAction()}
+                    placeholder='Reason (optional)'
+                    maxLength={VALIDATION_RULES.moderationReason.maxLength}
+                    className='w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-red-500'
+                    aria-label={`Reason for removing ${user.nickname}`}
+                  />
+                  <div className='flex justify-end space-x-2'>
+                    <button
+                      onClick={() => setPendingAction(null)}
+                      className='px-2 py-1 text-xs rounded text-gray-600 hover:bg-gray-100'
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={confirmAction}
+                      className='px-2 py-1 text-xs font-medium rounded bg-red-600 text-white hover:bg-red-700'
+                    >
+                      {pending.kind === 'ban' ? 'Ban user' : 'Kick user'}
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           );
         })}
@@ -105,6 +393,41 @@ const UserList: React.FC<UserListProps> = ({
             No users in room
           </div>
         )}
+
+        {isModerator && onUnban && bans.length > 0 && (
+          <div className='mt-4 pt-3 border-t border-gray-200'>
+            <h3 className='px-2 mb-1 text-xs font-semibold text-gray-500 uppercase tracking-wide'>
+              Banned ({bans.length})
+            </h3>
+            {bans.map(ban => (
+              <div
+                key={ban.userId}
+                className='flex items-center p-2 rounded-lg hover:bg-gray-50'
+              >
+                <div className='flex-1 min-w-0'>
+                  <p className='text-sm text-gray-700 truncate'>
+                    {ban.nickname}
+                  </p>
+                  {ban.reason && (
+                    <p
+                      className='text-xs text-gray-500 truncate'
+                      title={ban.reason}
+                    >
+                      {ban.reason}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => onUnban(ban.userId)}
+                  className='ml-2 text-xs text-blue-600 hover:text-blue-800'
+                  aria-label={`Unban ${ban.nickname}`}
+                >
+                  Unban
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
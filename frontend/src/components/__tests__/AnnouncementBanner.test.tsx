@@ -0,0 +1,84 @@
+/**
+ * AnnouncementBanner Component Test Suite
+ *
+ * Tests for the room announcement banner:
+ * - Rendering the announcement for everyone
+ * - Adding, editing and removing it as owner or moderator
+ * - Validation and cancelling edits
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import AnnouncementBanner from '../AnnouncementBanner';
+
+describe('AnnouncementBanner', () => {
+  it('should render nothing without an announcement for regular members', () => {
+    const { container } = render(<AnnouncementBanner />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show the announcement without edit controls to members', () => {
+    render(<AnnouncementBanner announcement='Standup at **10:00**' />);
+
+    const banner = screen.getByRole('note', { name: 'Room announcement' });
+    expect(banner).toHaveTextContent('Standup at 10:00');
+    expect(screen.getByText('10:00').tagName).toBe('STRONG');
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('should let moderators add an announcement', () => {
+    const onSave = vi.fn();
+    render(<AnnouncementBanner onSave={onSave} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add announcement' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Announcement' }), {
+      target: { value: '  Read the spec first  ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(onSave).toHaveBeenCalledWith('Read the spec first');
+    expect(
+      screen.queryByRole('textbox', { name: 'Announcement' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should edit the current announcement and cancel without saving', () => {
+    const onSave = vi.fn();
+    render(<AnnouncementBanner announcement='Old agenda' onSave={onSave} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+    const textbox = screen.getByRole('textbox', { name: 'Announcement' });
+    expect(textbox).toHaveValue('Old agenda');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onSave).not.toHaveBeenCalled();
+    expect(screen.getByRole('note')).toHaveTextContent('Old agenda');
+  });
+
+  it('should remove the announcement', () => {
+    const onSave = vi.fn();
+    render(<AnnouncementBanner announcement='Old agenda' onSave={onSave} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+
+    expect(onSave).toHaveBeenCalledWith('');
+  });
+
+  it('should not save announcements that are too long', () => {
+    const onSave = vi.fn();
+    render(<AnnouncementBanner onSave={onSave} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add announcement' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Announcement' }), {
+      target: { value: 'a'.repeat(281) },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(onSave).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Announcement must be no more than 280 characters'
+    );
+  });
+});
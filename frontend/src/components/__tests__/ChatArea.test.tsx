@@ -57,6 +57,23 @@ describe('ChatArea', () => {
       expect(screen.getByPlaceholderText(/type.*message/i)).toBeInTheDocument();
     });
 
+    it('should replace the input with a notice for viewers', () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          readOnly
+        />
+      );
+
+      expect(screen.getByText('Hello, world!')).toBeInTheDocument();
+      expect(
+        screen.queryByPlaceholderText(/type.*message/i)
+      ).not.toBeInTheDocument();
+      expect(screen.getByText(/You are a viewer/)).toBeInTheDocument();
+    });
+
     it('should render messages', () => {
       render(
         <ChatArea
@@ -220,6 +237,50 @@ describe('ChatArea', () => {
       });
     });
 
+    it('should add a new line on Shift+Enter and keep it when sending', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      const input = screen.getByPlaceholderText(/type.*message/i);
+      await user.type(
+        input,
+        '```{Shift>}{Enter}{/Shift}  indented{Shift>}{Enter}{/Shift}```'
+      );
+      expect(mockOnSendMessage).not.toHaveBeenCalled();
+
+      await user.type(input, '{Enter}');
+
+      expect(mockOnSendMessage).toHaveBeenCalledWith('```\n  indented\n```');
+    });
+
+    it('should render Markdown in messages', () => {
+      render(
+        <ChatArea
+          messages={[
+            {
+              id: 'md',
+              userId: 'user-2',
+              nickname: 'Bob',
+              content: 'Run `npm test` before **merging**',
+              timestamp: new Date(),
+            },
+          ]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      expect(screen.getByText('npm test').tagName).toBe('CODE');
+      expect(screen.getByText('merging').tagName).toBe('STRONG');
+    });
+
     it('should not send empty message', async () => {
       const user = userEvent.setup();
 
@@ -269,7 +330,7 @@ describe('ChatArea', () => {
       );
 
       const input = screen.getByPlaceholderText(/type.*message/i);
-      await user.type(input, '  Test message  ');
+      await user.type(input, 'Test message  ');
 
       const sendButton = screen.getByRole('button', { name: /send/i });
       await user.click(sendButton);
@@ -278,6 +339,22 @@ describe('ChatArea', () => {
         expect(mockOnSendMessage).toHaveBeenCalledWith('Test message');
       });
     });
+
+    it('should keep leading indentation when sending', () => {
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      const input = screen.getByPlaceholderText(/type.*message/i);
+      fireEvent.change(input, { target: { value: '    npm run build\n' } });
+      fireEvent.click(screen.getByRole('button', { name: /send/i }));
+
+      expect(mockOnSendMessage).toHaveBeenCalledWith('    npm run build');
+    });
   });
 
   describe('Validation', () => {
@@ -428,4 +505,860 @@ describe('ChatArea', () => {
       expect(screen.getByText('Hi Alice!')).toBeInTheDocument();
     });
   });
+
+  describe('Editing and Deleting', () => {
+    it('should mark edited messages and show tombstones for deleted ones', () => {
+      render(
+        <ChatArea
+          messages={[
+            { ...sampleMessages[0], editedAt: new Date('2025-10-26T10:05:00') },
+            { ...sampleMessages[1], content: '', deletedAt: new Date() },
+          ]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      expect(screen.getByText('(edited)')).toBeInTheDocument();
+      expect(screen.getByText('This message was deleted')).toBeInTheDocument();
+    });
+
+    it("should only offer edit and delete on the current user's messages", () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          onEditMessage={vi.fn()}
+          onDeleteMessage={vi.fn()}
+        />
+      );
+
+      expect(screen.getAllByLabelText('Edit message')).toHaveLength(1);
+      expect(screen.getAllByLabelText('Delete message')).toHaveLength(1);
+    });
+
+    it('should let moderators delete any message but not edit it', () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-3'
+          canDeleteAny
+          onEditMessage={vi.fn()}
+          onDeleteMessage={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByLabelText('Edit message')).not.toBeInTheDocument();
+      expect(screen.getAllByLabelText('Delete message')).toHaveLength(2);
+    });
+
+    it('should save an edited message', () => {
+      const onEditMessage = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          onEditMessage={onEditMessage}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Edit message'));
+      const input = screen.getByLabelText('Edit message text');
+      expect(input).toHaveValue('Hello, world!');
+      fireEvent.change(input, { target: { value: 'Hello, everyone!  ' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(onEditMessage).toHaveBeenCalledWith('1', 'Hello, everyone!');
+      expect(
+        screen.queryByLabelText('Edit message text')
+      ).not.toBeInTheDocument();
+    });
+
+    it('should not save an empty edit', () => {
+      const onEditMessage = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          onEditMessage={onEditMessage}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Edit message'));
+      const input = screen.getByLabelText('Edit message text');
+      fireEvent.change(input, { target: { value: '   ' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(onEditMessage).not.toHaveBeenCalled();
+      expect(screen.getByLabelText('Edit message text')).toBeInTheDocument();
+    });
+
+    it('should delete a message', () => {
+      const onDeleteMessage = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-2'
+          onDeleteMessage={onDeleteMessage}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Delete message'));
+
+      expect(onDeleteMessage).toHaveBeenCalledWith('2');
+    });
+  });
+
+  describe('Reactions', () => {
+    const reactedMessages: ChatMessage[] = [
+      {
+        ...sampleMessages[0],
+        reactions: [{ emoji: '👍', count: 2, userIds: ['user-1', 'user-2'] }],
+      },
+    ];
+
+    it("should show reaction chips and highlight the user's own", () => {
+      render(
+        <ChatArea
+          messages={reactedMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-2'
+          onReact={vi.fn()}
+        />
+      );
+
+      expect(screen.getByLabelText('👍 2')).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+    });
+
+    it('should toggle a reaction from its chip', () => {
+      const onReact = vi.fn();
+      render(
+        <ChatArea
+          messages={reactedMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-3'
+          onReact={onReact}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('👍 2'));
+
+      expect(onReact).toHaveBeenCalledWith('1', '👍');
+    });
+
+    it('should react from the picker', () => {
+      const onReact = vi.fn();
+      render(
+        <ChatArea
+          messages={[sampleMessages[0]]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onReact={onReact}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Add reaction'));
+      fireEvent.click(screen.getByLabelText('React with 🎉'));
+
+      expect(onReact).toHaveBeenCalledWith('1', '🎉');
+      expect(screen.queryByLabelText('React with 🎉')).not.toBeInTheDocument();
+    });
+
+    it('should show reactions to viewers without letting them react', () => {
+      render(
+        <ChatArea
+          messages={reactedMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          readOnly
+          onReact={vi.fn()}
+        />
+      );
+
+      expect(screen.getByLabelText('👍 2')).toBeDisabled();
+      expect(screen.queryByLabelText('Add reaction')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Threads', () => {
+    it('should open a thread from the reply action', () => {
+      const onOpenThread = vi.fn();
+      render(
+        <ChatArea
+          messages={[sampleMessages[0]]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onOpenThread={onOpenThread}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Reply in thread'));
+
+      expect(onOpenThread).toHaveBeenCalledWith('1');
+    });
+
+    it('should show the reply count and open the thread from it', () => {
+      const onOpenThread = vi.fn();
+      render(
+        <ChatArea
+          messages={[
+            {
+              ...sampleMessages[0],
+              replyCount: 3,
+              lastReplyAt: new Date('2025-10-26T10:10:00'),
+            },
+          ]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onOpenThread={onOpenThread}
+        />
+      );
+
+      fireEvent.click(screen.getByText('3 replies'));
+
+      expect(onOpenThread).toHaveBeenCalledWith('1');
+    });
+
+    it('should let viewers read threads but not start replies', () => {
+      render(
+        <ChatArea
+          messages={[{ ...sampleMessages[0], replyCount: 1 }]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onOpenThread={vi.fn()}
+          readOnly
+        />
+      );
+
+      expect(screen.getByText('1 reply')).toBeInTheDocument();
+      expect(
+        screen.queryByLabelText('Reply in thread')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Mentions', () => {
+    const roomUsers = [
+      { id: 'user-1', nickname: 'Alice' },
+      { id: 'user-2', nickname: 'Bob' },
+      { id: 'user-3', nickname: 'Bobby' },
+    ];
+
+    it('should highlight messages that mention the current user', () => {
+      render(
+        <ChatArea
+          messages={[
+            {
+              ...sampleMessages[1],
+              content: '@Alice can you take notes?',
+              mentions: [{ userId: 'user-1', start: 0, length: 6 }],
+            },
+          ]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+        />
+      );
+
+      const mention = screen.getByText('@Alice');
+      expect(mention.tagName).toBe('SPAN');
+      expect(mention.closest('.ring-yellow-200')).not.toBeNull();
+    });
+
+    it('should suggest nicknames while typing @ and insert the pick', () => {
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          mentionableUsers={roomUsers}
+        />
+      );
+
+      const input = screen.getByPlaceholderText(/type.*message/i);
+      fireEvent.change(input, { target: { value: 'thanks @bo' } });
+
+      const options = screen.getAllByRole('option');
+      expect(options.map(o => o.textContent)).toEqual(['@Bob', '@Bobby']);
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(input).toHaveValue('thanks @Bobby ');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(mockOnSendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not suggest the current user', () => {
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          mentionableUsers={roomUsers}
+        />
+      );
+
+      fireEvent.change(screen.getByPlaceholderText(/type.*message/i), {
+        target: { value: '@al' },
+      });
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Older History', () => {
+    it('should not offer older messages when there are none', () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onLoadOlder={vi.fn()}
+        />
+      );
+
+      expect(
+        screen.queryByText('Load earlier messages')
+      ).not.toBeInTheDocument();
+    });
+
+    it('should load older messages from the button', () => {
+      const onLoadOlder = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          hasMoreMessages
+          onLoadOlder={onLoadOlder}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Load earlier messages'));
+
+      expect(onLoadOlder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load older messages when scrolled to the top', () => {
+      const onLoadOlder = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          hasMoreMessages
+          onLoadOlder={onLoadOlder}
+        />
+      );
+
+      const container = screen
+        .getByText('Hello, world!')
+        .closest('.overflow-y-auto') as HTMLElement;
+      fireEvent.scroll(container, { target: { scrollTop: 0 } });
+
+      expect(onLoadOlder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not request again while a page is loading', () => {
+      const onLoadOlder = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          hasMoreMessages
+          isLoadingOlder
+          onLoadOlder={onLoadOlder}
+        />
+      );
+
+      const button = screen.getByText('Loading earlier messages...');
+      expect(button).toBeDisabled();
+      fireEvent.scroll(button.closest('.overflow-y-auto') as HTMLElement, {
+        target: { scrollTop: 0 },
+      });
+
+      expect(onLoadOlder).not.toHaveBeenCalled();
+    });
+
+    it('should scroll to and highlight a message picked from search', () => {
+      const scrollIntoView = vi.mocked(Element.prototype.scrollIntoView);
+      const { container } = render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          highlightedMessageId='1'
+        />
+      );
+
+      const message = container.querySelector('[data-message-id="1"]');
+      expect(message).toHaveClass('ring-2');
+      expect(scrollIntoView.mock.contexts).toContain(message);
+      expect(container.querySelector('[data-message-id="2"]')).not.toHaveClass(
+        'ring-2'
+      );
+    });
+  });
+
+  describe('Pinned Messages', () => {
+    it('should label pinned messages', () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          pinnedMessageIds={['2']}
+        />
+      );
+
+      expect(screen.getAllByText('Pinned')).toHaveLength(1);
+      expect(
+        screen.queryByRole('button', { name: 'Pin message' })
+      ).not.toBeInTheDocument();
+    });
+
+    it('should let moderators pin and unpin messages', () => {
+      const onPinMessage = vi.fn();
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          pinnedMessageIds={['2']}
+          onPinMessage={onPinMessage}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Pin message' }));
+      expect(onPinMessage).toHaveBeenCalledWith('1', true);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Unpin message' }));
+      expect(onPinMessage).toHaveBeenCalledWith('2', false);
+    });
+  });
+
+  describe('Polls', () => {
+    const pollMessage: ChatMessage = {
+      id: '3',
+      userId: 'user-1',
+      nickname: 'Alice',
+      content: 'Lunch?',
+      timestamp: new Date('2025-10-26T10:02:00'),
+      poll: {
+        question: 'Lunch?',
+        options: [
+          { id: 'opt-1', text: 'Pizza', votes: 0, voterIds: [] },
+          { id: 'opt-2', text: 'Sushi', votes: 0, voterIds: [] },
+        ],
+        multipleChoice: false,
+        anonymous: false,
+        voterCount: 0,
+      },
+    };
+
+    it('should render polls and pass votes and closing on', () => {
+      const onVotePoll = vi.fn();
+      const onClosePoll = vi.fn();
+      render(
+        <ChatArea
+          messages={[...sampleMessages, pollMessage]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          onEditMessage={vi.fn()}
+          onVotePoll={onVotePoll}
+          onClosePoll={onClosePoll}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Sushi: 0 votes' }));
+      expect(onVotePoll).toHaveBeenCalledWith('3', ['opt-2']);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Close poll' }));
+      expect(onClosePoll).toHaveBeenCalledWith('3');
+
+      // Only the text message can be edited
+      expect(
+        screen.getAllByRole('button', { name: 'Edit message' })
+      ).toHaveLength(1);
+    });
+
+    it("should only let the owner close other people's polls", () => {
+      const { rerender } = render(
+        <ChatArea
+          messages={[pollMessage]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-2'
+          onClosePoll={vi.fn()}
+        />
+      );
+      expect(
+        screen.queryByRole('button', { name: 'Close poll' })
+      ).not.toBeInTheDocument();
+
+      rerender(
+        <ChatArea
+          messages={[pollMessage]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-2'
+          onClosePoll={vi.fn()}
+          canCloseAnyPoll
+        />
+      );
+      expect(screen.getByRole('button', { name: 'Close poll' })).toBeVisible();
+    });
+
+    it('should open the poll composer and submit new polls', () => {
+      const onCreatePoll = vi.fn();
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onCreatePoll={onCreatePoll}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Start a poll' }));
+      fireEvent.change(screen.getByRole('textbox', { name: 'Poll question' }), {
+        target: { value: 'Lunch?' },
+      });
+      fireEvent.change(screen.getByRole('textbox', { name: 'Option 1' }), {
+        target: { value: 'Pizza' },
+      });
+      fireEvent.change(screen.getByRole('textbox', { name: 'Option 2' }), {
+        target: { value: 'Sushi' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Create poll' }));
+
+      expect(onCreatePoll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          question: 'Lunch?',
+          options: ['Pizza', 'Sushi'],
+        })
+      );
+      expect(
+        screen.queryByRole('form', { name: 'Create poll' })
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Slash Commands', () => {
+    it('should run known commands instead of sending them', async () => {
+      const user = userEvent.setup();
+      const onRunCommand = vi.fn();
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onRunCommand={onRunCommand}
+        />
+      );
+
+      await user.type(
+        screen.getByPlaceholderText(/type.*message/i),
+        '/timer 5m Break{Enter}'
+      );
+
+      expect(onRunCommand).toHaveBeenCalledWith('timer', '5m Break');
+      expect(mockOnSendMessage).not.toHaveBeenCalled();
+      expect(screen.getByPlaceholderText(/type.*message/i)).toHaveValue('');
+    });
+
+    it('should reject unknown commands and send escaped slashes', async () => {
+      const user = userEvent.setup();
+      const onRunCommand = vi.fn();
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onRunCommand={onRunCommand}
+        />
+      );
+      const input = screen.getByPlaceholderText(/type.*message/i);
+
+      await user.type(input, '/dance now{Enter}');
+      expect(screen.getByText('Unknown command /dance')).toBeInTheDocument();
+      expect(onRunCommand).not.toHaveBeenCalled();
+
+      await user.clear(input);
+      await user.type(input, '//dance now{Enter}');
+      expect(mockOnSendMessage).toHaveBeenCalledWith('/dance now');
+    });
+
+    it('should suggest commands with their help text', async () => {
+      const user = userEvent.setup();
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onRunCommand={vi.fn()}
+        />
+      );
+      const input = screen.getByPlaceholderText(/type.*message/i);
+
+      await user.type(input, '/ti');
+      const suggestions = screen.getByRole('listbox', {
+        name: 'Command suggestions',
+      });
+      expect(suggestions).toHaveTextContent('/timer <duration> [label]');
+      expect(suggestions).toHaveTextContent('Start a countdown');
+
+      await user.keyboard('{Tab}');
+      expect(input).toHaveValue('/timer ');
+      expect(
+        screen.queryByRole('listbox', { name: 'Command suggestions' })
+      ).not.toBeInTheDocument();
+    });
+
+    it('should send slash messages as text without a command handler', async () => {
+      const user = userEvent.setup();
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      await user.type(
+        screen.getByPlaceholderText(/type.*message/i),
+        '/me waves{Enter}'
+      );
+
+      expect(mockOnSendMessage).toHaveBeenCalledWith('/me waves');
+      expect(
+        screen.queryByRole('listbox', { name: 'Command suggestions' })
+      ).not.toBeInTheDocument();
+    });
+
+    it('should render actions after the nickname and notices on their own', () => {
+      render(
+        <ChatArea
+          messages={[
+            {
+              id: 'action',
+              userId: 'user-1',
+              nickname: 'Alice',
+              content: 'waves',
+              timestamp: new Date('2025-10-26T10:00:00'),
+              kind: 'action',
+            },
+            {
+              id: 'notice',
+              userId: 'user-1',
+              nickname: 'Alice',
+              content: '5m timer finished: Break',
+              timestamp: new Date('2025-10-26T10:05:00'),
+              kind: 'notice',
+            },
+          ]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          currentUserId='user-1'
+          onEditMessage={vi.fn()}
+        />
+      );
+
+      expect(screen.getByText('waves').closest('.italic')).toHaveTextContent(
+        'Alice waves'
+      );
+      expect(
+        screen
+          .getByText(/5m timer finished: Break/)
+          .closest('[data-message-id]')
+      ).toHaveAttribute('data-message-id', 'notice');
+      // Only the action has message controls
+      expect(
+        screen.getAllByRole('button', { name: 'Edit message' })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('Read Receipts', () => {
+    it('should show who has seen the latest message', () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          seenBy={['Carol', 'Dave']}
+        />
+      );
+
+      expect(screen.getByText('Seen by Carol, Dave')).toBeInTheDocument();
+    });
+
+    it('should not show read receipts when nobody has seen it', () => {
+      render(
+        <ChatArea
+          messages={sampleMessages}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      expect(screen.queryByText(/Seen by/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Attachments', () => {
+    const attachment = {
+      id: 'attachment-1',
+      name: 'screenshot.png',
+      mimeType: 'image/png',
+      size: 2048,
+      uploadedBy: 'user-1',
+      uploadedAt: new Date('2025-10-28T10:00:00Z'),
+    };
+    const getAttachmentUrl = (id: string, download?: boolean) =>
+      `http://api/attachments/${id}${download ? '?download=1' : ''}`;
+
+    it('should upload picked files and send them without text', async () => {
+      const onUploadAttachment = vi.fn().mockResolvedValue(attachment);
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onUploadAttachment={onUploadAttachment}
+        />
+      );
+
+      const file = new File(['png'], 'screenshot.png', { type: 'image/png' });
+      fireEvent.change(screen.getByTestId('attachment-input'), {
+        target: { files: [file] },
+      });
+
+      expect(
+        await screen.findByLabelText('Remove screenshot.png')
+      ).toBeInTheDocument();
+      expect(onUploadAttachment).toHaveBeenCalledWith(file);
+
+      fireEvent.click(screen.getByText('Send'));
+
+      expect(mockOnSendMessage).toHaveBeenCalledWith('', ['attachment-1']);
+      expect(
+        screen.queryByLabelText('Remove screenshot.png')
+      ).not.toBeInTheDocument();
+    });
+
+    it('should upload pasted screenshots', async () => {
+      const onUploadAttachment = vi.fn().mockResolvedValue(attachment);
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onUploadAttachment={onUploadAttachment}
+        />
+      );
+
+      const file = new File(['png'], 'image.png', { type: 'image/png' });
+      fireEvent.paste(screen.getByPlaceholderText('Type a message...'), {
+        clipboardData: { files: [file] },
+      });
+
+      await waitFor(() => {
+        expect(onUploadAttachment).toHaveBeenCalledWith(file);
+      });
+    });
+
+    it('should show upload errors', async () => {
+      const onUploadAttachment = vi
+        .fn()
+        .mockRejectedValue(new Error('This file type is not allowed'));
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          onUploadAttachment={onUploadAttachment}
+        />
+      );
+
+      fireEvent.change(screen.getByTestId('attachment-input'), {
+        target: { files: [new File(['x'], 'a.exe')] },
+      });
+
+      expect(
+        await screen.findByText('This file type is not allowed')
+      ).toBeInTheDocument();
+    });
+
+    it('should not offer attaching without an upload handler', () => {
+      render(
+        <ChatArea
+          messages={[]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+        />
+      );
+
+      expect(screen.queryByLabelText('Attach file')).not.toBeInTheDocument();
+    });
+
+    it('should preview images and offer downloads', () => {
+      render(
+        <ChatArea
+          messages={[
+            {
+              id: 'with-file',
+              userId: 'user-2',
+              nickname: 'Bob',
+              content: 'Look',
+              timestamp: new Date(),
+              attachments: [
+                attachment,
+                {
+                  ...attachment,
+                  id: 'attachment-2',
+                  name: 'notes.pdf',
+                  mimeType: 'application/pdf',
+                },
+              ],
+            },
+          ]}
+          onSendMessage={mockOnSendMessage}
+          onTypingChange={mockOnTypingChange}
+          getAttachmentUrl={getAttachmentUrl}
+        />
+      );
+
+      expect(screen.getByAltText('screenshot.png')).toHaveAttribute(
+        'src',
+        'http://api/attachments/attachment-1'
+      );
+      expect(screen.queryByAltText('notes.pdf')).not.toBeInTheDocument();
+      expect(screen.getByLabelText('Download notes.pdf')).toHaveAttribute(
+        'href',
+        'http://api/attachments/attachment-2?download=1'
+      );
+      expect(screen.getAllByText('2 KB')).toHaveLength(2);
+    });
+  });
 });
@@ -14,7 +14,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import CompactSidebar from '../CompactSidebar';
 import { User, ChatMessage, TypingStatus } from '../../types/index';
 
@@ -200,6 +200,12 @@ describe('CompactSidebar', () => {
 
       expect(screen.queryByText('0')).not.toBeInTheDocument();
     });
+
+    it('should show the room name when provided', () => {
+      render(<CompactSidebar {...defaultProps} roomName='Sprint 42 Retro' />);
+
+      expect(screen.getByText('Sprint 42 Retro')).toBeInTheDocument();
+    });
   });
 
   describe('Collapsed View', () => {
@@ -426,33 +432,127 @@ describe('CompactSidebar', () => {
     });
   });
 
-  describe('Avatar Colors', () => {
-    it('should assign consistent colors based on user ID', () => {
-      const { container } = render(<CompactSidebar {...defaultProps} />);
+  describe('Message Search', () => {
+    it('should only show the search box when searching is enabled', () => {
+      render(<CompactSidebar {...defaultProps} />);
+      fireEvent.click(screen.getByText('Chat'));
 
-      // Each user should have a colored avatar
-      const colorClasses = [
-        'bg-blue-500',
-        'bg-green-500',
-        'bg-purple-500',
-        'bg-pink-500',
-        'bg-indigo-500',
-        'bg-yellow-500',
-        'bg-red-500',
-        'bg-teal-500',
-      ];
+      expect(
+        screen.queryByRole('searchbox', { name: 'Search messages' })
+      ).not.toBeInTheDocument();
+    });
 
-      const avatars = container.querySelectorAll('[class*="bg-"]');
-      let hasColorClass = false;
+    it('should jump to a message picked from the results', async () => {
+      const onSearchMessages = vi.fn().mockResolvedValue([
+        {
+          message: mockMessages[1],
+          snippet: { text: 'Hi there', highlights: [{ start: 3, length: 5 }] },
+        },
+      ]);
+      const onJumpToMessage = vi.fn();
+      render(
+        <CompactSidebar
+          {...defaultProps}
+          onSearchMessages={onSearchMessages}
+          onJumpToMessage={onJumpToMessage}
+        />
+      );
+      fireEvent.click(screen.getByText('Chat'));
+
+      const input = screen.getByRole('searchbox', { name: 'Search messages' });
+      fireEvent.change(input, { target: { value: 'there' } });
+      fireEvent.submit(input);
+
+      const result = await screen.findByRole('button', { name: /Hi there/ });
+      expect(onSearchMessages).toHaveBeenCalledWith('there');
+      fireEvent.click(result);
+
+      await waitFor(() =>
+        expect(onJumpToMessage).toHaveBeenCalledWith(mockMessages[1])
+      );
+      expect(screen.getByTestId('chat-area')).toBeInTheDocument();
+    });
+  });
+
+  describe('Unread Messages', () => {
+    it('should report when the chat tab is showing', () => {
+      const onChatVisibilityChange = vi.fn();
+      const { rerender } = render(
+        <CompactSidebar
+          {...defaultProps}
+          onChatVisibilityChange={onChatVisibilityChange}
+        />
+      );
+      expect(onChatVisibilityChange).toHaveBeenLastCalledWith(false);
+
+      fireEvent.click(screen.getByText('Chat'));
+      expect(onChatVisibilityChange).toHaveBeenLastCalledWith(true);
 
-      avatars.forEach(avatar => {
-        const classes = Array.from(avatar.classList);
-        if (colorClasses.some(color => classes.includes(color))) {
-          hasColorClass = true;
-        }
-      });
+      rerender(
+        <CompactSidebar
+          {...defaultProps}
+          isCollapsed
+          onChatVisibilityChange={onChatVisibilityChange}
+        />
+      );
+      expect(onChatVisibilityChange).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe('Pinned Messages', () => {
+    it('should only show the pinned tab when pinned messages are provided', () => {
+      render(<CompactSidebar {...defaultProps} />);
+
+      expect(screen.queryByText(/^Pinned/)).not.toBeInTheDocument();
+    });
+
+    it('should list pinned messages and jump to them in the chat', () => {
+      const onJumpToMessage = vi.fn();
+      const onPinMessage = vi.fn();
+      render(
+        <CompactSidebar
+          {...defaultProps}
+          pinnedMessages={[mockMessages[1]]}
+          onJumpToMessage={onJumpToMessage}
+          onPinMessage={onPinMessage}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Pinned (1)'));
+      expect(
+        screen.getByRole('list', { name: 'Pinned messages' })
+      ).toHaveTextContent('Hi there');
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Unpin message from Bob Johnson' })
+      );
+      expect(onPinMessage).toHaveBeenCalledWith('msg-2', false);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show in chat' }));
+      expect(onJumpToMessage).toHaveBeenCalledWith(mockMessages[1]);
+      expect(screen.getByTestId('chat-area')).toBeInTheDocument();
+    });
+  });
+
+  describe('Avatar Colors', () => {
+    it('should use the colors and avatars assigned by the server', () => {
+      const users: User[] = [
+        { ...mockUsers[0], color: '#DB2777' },
+        {
+          ...mockUsers[2],
+          color: '#0D9488',
+          avatar: 'data:image/svg+xml,%3Csvg%2F%3E',
+        },
+      ];
+      const { container } = render(
+        <CompactSidebar {...defaultProps} users={users} />
+      );
 
-      expect(hasColorClass).toBe(true);
+      const initials = screen.getAllByText('AS');
+      expect(initials[0]).toHaveStyle({ backgroundColor: '#DB2777' });
+      expect(
+        container.querySelector('img[src="data:image/svg+xml,%3Csvg%2F%3E"]')
+      ).toBeInTheDocument();
     });
   });
 
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Test suite for DocumentHistoryPanel component
+ *
+ * Tests the document version history panel:
+ * - Version list ordering and metadata
+ * - Loading and empty states
+ * - Preview and restore actions
+ *
+ * @see {@link DocumentHistoryPanel} for implementation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import DocumentHistoryPanel from '../DocumentHistoryPanel';
+import { DocumentVersion } from '../../types/index';
+
+describe('DocumentHistoryPanel', () => {
+  const versions: DocumentVersion[] = [
+    {
+      version: 1,
+      title: 'First draft',
+      modifiedBy: 'user-1',
+      modifiedByNickname: 'Alice',
+      timestamp: new Date('2025-10-28T10:00:00Z'),
+    },
+    {
+      version: 4,
+      title: 'Final notes',
+      modifiedBy: 'user-2',
+      modifiedByNickname: 'Bob',
+      timestamp: new Date('2025-10-28T11:00:00Z'),
+    },
+  ];
+
+  const defaultProps = {
+    versions,
+    isLoading: false,
+    previewVersion: null,
+    previewText: null,
+    onPreview: vi.fn(),
+    onRestore: vi.fn(),
+    onClose: vi.fn(),
+  };
+
+  it('should list versions newest first with their author', () => {
+    render(<DocumentHistoryPanel {...defaultProps} />);
+
+    const titles = screen
+      .getAllByText(/First draft|Final notes/)
+      .map(el => el.textContent);
+    expect(titles).toEqual(['Final notes', 'First draft']);
+    expect(screen.getByText('v4')).toBeInTheDocument();
+    expect(screen.getByText(/Bob/)).toBeInTheDocument();
+  });
+
+  it('should show a loading state', () => {
+    render(<DocumentHistoryPanel {...defaultProps} isLoading />);
+
+    expect(screen.getByText('Loading versions...')).toBeInTheDocument();
+  });
+
+  it('should show an empty state', () => {
+    render(<DocumentHistoryPanel {...defaultProps} versions={[]} />);
+
+    expect(screen.getByText(/No saved versions yet/)).toBeInTheDocument();
+  });
+
+  it('should call onPreview and onRestore with the version number', () => {
+    const onPreview = vi.fn();
+    const onRestore = vi.fn();
+    render(
+      <DocumentHistoryPanel
+        {...defaultProps}
+        onPreview={onPreview}
+        onRestore={onRestore}
+      />
+    );
+
+    fireEvent.click(screen.getAllByText('Preview')[0]);
+    fireEvent.click(screen.getAllByText('Restore')[1]);
+
+    expect(onPreview).toHaveBeenCalledWith(4);
+    expect(onRestore).toHaveBeenCalledWith(1);
+  });
+
+  it('should hide restore actions without onRestore', () => {
+    render(<DocumentHistoryPanel {...defaultProps} onRestore={undefined} />);
+
+    expect(screen.getAllByText('Preview')).toHaveLength(2);
+    expect(screen.queryByText('Restore')).not.toBeInTheDocument();
+  });
+
+  it('should show the preview of the selected version', () => {
+    const { rerender } = render(
+      <DocumentHistoryPanel {...defaultProps} previewVersion={1} />
+    );
+
+    expect(screen.getByText('Loading preview...')).toBeInTheDocument();
+
+    rerender(
+      <DocumentHistoryPanel
+        {...defaultProps}
+        previewVersion={1}
+        previewText='Agenda'
+      />
+    );
+
+    expect(screen.getByLabelText('Preview of version 1')).toHaveTextContent(
+      'Agenda'
+    );
+  });
+
+  it('should call onClose from the close button', () => {
+    const onClose = vi.fn();
+    render(<DocumentHistoryPanel {...defaultProps} onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText('Close version history'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Test suite for MarkdownContent component
+ *
+ * Tests rendering of the chat Markdown subset:
+ * - Inline formatting, links and code blocks
+ * - Mention highlighting inside formatted text
+ * - Raw HTML shown as text
+ *
+ * @see {@link MarkdownContent} for implementation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import MarkdownContent from '../MarkdownContent';
+
+describe('MarkdownContent', () => {
+  it('should render inline formatting', () => {
+    render(<MarkdownContent content='**bold** *italic* `code`' />);
+
+    expect(screen.getByText('bold').tagName).toBe('STRONG');
+    expect(screen.getByText('italic').tagName).toBe('EM');
+    expect(screen.getByText('code').tagName).toBe('CODE');
+  });
+
+  it('should render safe links that open in a new tab', () => {
+    render(<MarkdownContent content='[docs](https://example.com)' />);
+
+    const link = screen.getByRole('link', { name: 'docs' });
+    expect(link).toHaveAttribute('href', 'https://example.com');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('should not render links with unsafe URLs', () => {
+    render(<MarkdownContent content='[docs](javascript:alert)' />);
+
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    expect(screen.getByText('[docs](javascript:alert)')).toBeInTheDocument();
+  });
+
+  it('should preserve whitespace in code blocks', () => {
+    const { container } = render(
+      <MarkdownContent content={'```\nfunction a() {\n    return 1;\n}\n```'} />
+    );
+
+    expect(container.querySelector('pre')?.textContent).toBe(
+      'function a() {\n    return 1;\n}'
+    );
+  });
+
+  it('should render lists', () => {
+    render(<MarkdownContent content={'- one\n- two'} />);
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+  });
+
+  it('should show HTML as text', () => {
+    const { container } = render(
+      <MarkdownContent content='<img src=x onerror=alert(1)>' />
+    );
+
+    expect(container.querySelector('img')).not.toBeInTheDocument();
+    expect(
+      screen.getByText('<img src=x onerror=alert(1)>')
+    ).toBeInTheDocument();
+  });
+
+  it('should highlight mentions inside formatted text', () => {
+    render(
+      <MarkdownContent
+        content='**hi @Bob**'
+        mentions={[{ userId: 'user-2', start: 5, length: 4 }]}
+        currentUserId='user-2'
+      />
+    );
+
+    const mention = screen.getByText('@Bob');
+    expect(mention).toHaveClass('bg-yellow-200');
+    expect(mention.closest('strong')).not.toBeNull();
+  });
+});
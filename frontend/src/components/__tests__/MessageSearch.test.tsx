@@ -0,0 +1,146 @@
+/**
+ * MessageSearch Component Test Suite
+ *
+ * Tests for the chat history search box:
+ * - Submitting queries and listing results
+ * - Highlighted snippets and thread replies
+ * - Empty results, validation and server errors
+ * - Picking and clearing results
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import MessageSearch from '../MessageSearch';
+import type { MessageSearchResult } from '../../types';
+
+describe('MessageSearch', () => {
+  const results: MessageSearchResult[] = [
+    {
+      message: {
+        id: 'msg-2',
+        userId: 'user-2',
+        nickname: 'Bob',
+        content: 'Deployment finished',
+        timestamp: new Date('2025-10-26T10:01:00'),
+        parentId: 'msg-1',
+      },
+      snippet: {
+        text: 'Deployment finished',
+        highlights: [{ start: 0, length: 10 }],
+      },
+    },
+    {
+      message: {
+        id: 'msg-1',
+        userId: 'user-1',
+        nickname: 'Alice',
+        content: 'The deploy link',
+        timestamp: new Date('2025-10-26T10:00:00'),
+      },
+      snippet: {
+        text: 'The deploy link',
+        highlights: [{ start: 4, length: 6 }],
+      },
+    },
+  ];
+
+  const search = (query: string) => {
+    const input = screen.getByRole('searchbox', { name: 'Search messages' });
+    fireEvent.change(input, { target: { value: query } });
+    fireEvent.submit(input);
+  };
+
+  it('should list results with highlighted matches', async () => {
+    const onSearch = vi.fn().mockResolvedValue(results);
+    render(<MessageSearch onSearch={onSearch} onSelectResult={vi.fn()} />);
+
+    search('  deploy ');
+
+    const list = await screen.findByRole('list', { name: 'Search results' });
+    expect(onSearch).toHaveBeenCalledWith('deploy');
+    expect(list.querySelectorAll('li')).toHaveLength(2);
+    expect(
+      Array.from(list.querySelectorAll('mark'), mark => mark.textContent)
+    ).toEqual(['Deployment', 'deploy']);
+    expect(screen.getByText('Bob (in thread)')).toBeInTheDocument();
+  });
+
+  it('should pick a result', async () => {
+    const onSelectResult = vi.fn();
+    render(
+      <MessageSearch
+        onSearch={vi.fn().mockResolvedValue(results)}
+        onSelectResult={onSelectResult}
+      />
+    );
+
+    search('deploy');
+    fireEvent.click(
+      await screen.findByRole('button', { name: /The deploy link/ })
+    );
+
+    expect(onSelectResult).toHaveBeenCalledWith(results[1]?.message);
+  });
+
+  it('should say when nothing matches', async () => {
+    render(
+      <MessageSearch
+        onSearch={vi.fn().mockResolvedValue([])}
+        onSelectResult={vi.fn()}
+      />
+    );
+
+    search('nothing');
+
+    expect(await screen.findByText('No messages found')).toBeInTheDocument();
+  });
+
+  it('should not search for an empty query', () => {
+    const onSearch = vi.fn();
+    render(<MessageSearch onSearch={onSearch} onSelectResult={vi.fn()} />);
+
+    search('   ');
+
+    expect(onSearch).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Search query is required'
+    );
+  });
+
+  it('should show search errors', async () => {
+    render(
+      <MessageSearch
+        onSearch={vi
+          .fn()
+          .mockRejectedValue(
+            new Error('Join the room before searching messages')
+          )}
+        onSelectResult={vi.fn()}
+      />
+    );
+
+    search('deploy');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Join the room before searching messages'
+    );
+  });
+
+  it('should clear the results', async () => {
+    render(
+      <MessageSearch
+        onSearch={vi.fn().mockResolvedValue(results)}
+        onSelectResult={vi.fn()}
+      />
+    );
+
+    search('deploy');
+    await screen.findByRole('list', { name: 'Search results' });
+    fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+
+    expect(
+      screen.queryByRole('list', { name: 'Search results' })
+    ).not.toBeInTheDocument();
+    expect(screen.getByRole('searchbox')).toHaveValue('');
+  });
+});
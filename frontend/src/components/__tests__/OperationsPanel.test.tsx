@@ -2,7 +2,7 @@
  * @fileoverview Test suite for OperationsPanel component
  *
  * Tests collaboration sidebar panel:
- * - User list display with active status
+ * - User list display with presence status
  * - Activity feed rendering
  * - Time formatting
  * - Activity type labels
@@ -101,45 +101,36 @@ describe('OperationsPanel', () => {
       expect(screen.getByText('B')).toBeInTheDocument(); // Bob
     });
 
-    it('should show "Idle" status by default', () => {
-      render(<OperationsPanel users={mockUsers} isVisible={true} />);
-
-      const idleStatuses = screen.getAllByText('Idle');
-      expect(idleStatuses).toHaveLength(2);
-    });
-
-    it('should show "Active" status for recently active users', () => {
-      const recentActiveByUser = {
-        'user-1': Date.now() - 5000, // 5 seconds ago
-      };
-
+    it('should show the presence tracked by the server', () => {
       render(
         <OperationsPanel
-          users={mockUsers}
+          users={[
+            { ...mockUsers[0], presence: 'idle' },
+            { ...mockUsers[1], presence: 'away' },
+          ]}
           isVisible={true}
-          recentActiveByUser={recentActiveByUser}
         />
       );
 
-      expect(screen.getByText('Active')).toBeInTheDocument();
       expect(screen.getByText('Idle')).toBeInTheDocument();
+      expect(screen.getByText('Away')).toBeInTheDocument();
     });
 
-    it('should show "Idle" for users inactive for more than 10 seconds', () => {
-      const recentActiveByUser = {
-        'user-1': Date.now() - 15000, // 15 seconds ago
-      };
+    it('should show online users without presence as active', () => {
+      render(<OperationsPanel users={mockUsers} isVisible={true} />);
 
+      expect(screen.getAllByText('Active')).toHaveLength(2);
+    });
+
+    it('should show offline users as offline', () => {
       render(
         <OperationsPanel
-          users={mockUsers}
+          users={[{ ...mockUsers[0], isOnline: false, presence: 'idle' }]}
           isVisible={true}
-          recentActiveByUser={recentActiveByUser}
         />
       );
 
-      const idleStatuses = screen.getAllByText('Idle');
-      expect(idleStatuses).toHaveLength(2);
+      expect(screen.getByText('Offline')).toBeInTheDocument();
     });
 
     it('should handle users with single-letter nicknames', () => {
@@ -219,7 +210,8 @@ describe('OperationsPanel', () => {
 
       expect(screen.getByText('Edited')).toBeInTheDocument();
       expect(screen.getByText('Saved')).toBeInTheDocument();
-      expect(screen.getByText('Active')).toBeInTheDocument();
+      // Both online users show the Active presence too
+      expect(screen.getAllByText('Active')).toHaveLength(3);
     });
 
     it('should display correct activity labels', () => {
@@ -496,7 +488,8 @@ describe('OperationsPanel', () => {
         />
       );
 
-      expect(screen.getByText('Active')).toBeInTheDocument();
+      // Both online users show the Active presence too
+      expect(screen.getAllByText('Active')).toHaveLength(3);
     });
   });
 
@@ -572,7 +565,8 @@ describe('OperationsPanel', () => {
 
       expect(screen.getByText('Edited')).toBeInTheDocument();
       expect(screen.getByText('Saved')).toBeInTheDocument();
-      expect(screen.getByText('Active')).toBeInTheDocument();
+      // Both online users show the Active presence too
+      expect(screen.getAllByText('Active')).toHaveLength(3);
     });
 
     it('should handle users without matching activity userId', () => {
@@ -595,23 +589,5 @@ describe('OperationsPanel', () => {
 
       expect(screen.getByText('Someone')).toBeInTheDocument();
     });
-
-    it('should handle boundary case for active status (exactly 10 seconds)', () => {
-      const recentActiveByUser = {
-        'user-1': Date.now() - 10000, // Exactly 10 seconds ago
-      };
-
-      render(
-        <OperationsPanel
-          users={mockUsers}
-          isVisible={true}
-          recentActiveByUser={recentActiveByUser}
-        />
-      );
-
-      // Should be idle (< 10000, not <=)
-      const idleStatuses = screen.getAllByText('Idle');
-      expect(idleStatuses.length).toBeGreaterThan(0);
-    });
   });
 });
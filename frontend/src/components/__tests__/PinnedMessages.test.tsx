@@ -0,0 +1,74 @@
+/**
+ * PinnedMessages Component Test Suite
+ *
+ * Tests for the pinned messages list:
+ * - Empty state and message rendering
+ * - Showing a pinned message in the chat
+ * - Unpinning, for the owner and moderators only
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PinnedMessages from '../PinnedMessages';
+import type { ChatMessage } from '../../types';
+
+describe('PinnedMessages', () => {
+  const messages: ChatMessage[] = [
+    {
+      id: 'msg-2',
+      userId: 'user-2',
+      nickname: 'Bob',
+      content: 'Agenda: **review** the draft',
+      timestamp: new Date('2025-10-26T10:01:00'),
+    },
+    {
+      id: 'msg-1',
+      userId: 'user-1',
+      nickname: 'Alice',
+      content: 'Welcome everyone',
+      timestamp: new Date('2025-10-26T10:00:00'),
+    },
+  ];
+
+  it('should show an empty state without pinned messages', () => {
+    render(<PinnedMessages messages={[]} />);
+
+    expect(screen.getByText('No pinned messages')).toBeInTheDocument();
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+  });
+
+  it('should list pinned messages in the given order', () => {
+    render(<PinnedMessages messages={messages} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('Bob');
+    expect(items[1]).toHaveTextContent('Alice');
+    expect(screen.getByText('review').tagName).toBe('STRONG');
+  });
+
+  it('should show a pinned message in the chat', () => {
+    const onSelect = vi.fn();
+    render(<PinnedMessages messages={messages} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Show in chat' })[1]);
+
+    expect(onSelect).toHaveBeenCalledWith(messages[1]);
+  });
+
+  it('should only offer unpinning when allowed', () => {
+    const onUnpin = vi.fn();
+    const { rerender } = render(<PinnedMessages messages={messages} />);
+
+    expect(
+      screen.queryByRole('button', { name: /Unpin/ })
+    ).not.toBeInTheDocument();
+
+    rerender(<PinnedMessages messages={messages} onUnpin={onUnpin} />);
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Unpin message from Bob' })
+    );
+
+    expect(onUnpin).toHaveBeenCalledWith('msg-2');
+  });
+});
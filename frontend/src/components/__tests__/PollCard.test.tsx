@@ -0,0 +1,139 @@
+/**
+ * PollCard Component Test Suite
+ *
+ * Tests for the poll shown inside a chat message:
+ * - Results, voter names and the footer summary
+ * - Voting on single and multiple choice polls
+ * - Closing polls and closed polls
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PollCard from '../PollCard';
+import type { Poll } from '../../types';
+
+describe('PollCard', () => {
+  const users = [
+    { id: 'user-1', nickname: 'Alice' },
+    { id: 'user-2', nickname: 'Bob' },
+  ];
+
+  const poll: Poll = {
+    question: 'Lunch?',
+    options: [
+      { id: 'opt-1', text: 'Pizza', votes: 2, voterIds: ['user-1', 'user-2'] },
+      { id: 'opt-2', text: 'Sushi', votes: 0, voterIds: [] },
+    ],
+    multipleChoice: false,
+    anonymous: false,
+    voterCount: 2,
+  };
+
+  it('should show the results and who voted', () => {
+    render(<PollCard poll={poll} currentUserId='user-1' users={users} />);
+
+    expect(screen.getByRole('group', { name: 'Poll: Lunch?' })).toBeVisible();
+    expect(
+      screen.getByRole('button', { name: 'Pizza: 2 votes' })
+    ).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('2 · 100%')).toBeInTheDocument();
+    expect(screen.getByText('Alice, Bob')).toBeInTheDocument();
+    expect(screen.getByText('2 voters')).toBeInTheDocument();
+  });
+
+  it('should disable voting without a vote handler', () => {
+    render(<PollCard poll={poll} />);
+
+    expect(
+      screen.getByRole('button', { name: 'Sushi: 0 votes' })
+    ).toBeDisabled();
+  });
+
+  it('should replace the vote on single choice polls', () => {
+    const onVote = vi.fn();
+    render(<PollCard poll={poll} currentUserId='user-1' onVote={onVote} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sushi: 0 votes' }));
+    expect(onVote).toHaveBeenCalledWith(['opt-2']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pizza: 2 votes' }));
+    expect(onVote).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should add to the vote on multiple choice polls', () => {
+    const onVote = vi.fn();
+    render(
+      <PollCard
+        poll={{ ...poll, multipleChoice: true }}
+        currentUserId='user-1'
+        onVote={onVote}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sushi: 0 votes' }));
+
+    expect(onVote).toHaveBeenCalledWith(['opt-1', 'opt-2']);
+    expect(screen.getByText(/Multiple choice/)).toBeInTheDocument();
+  });
+
+  it('should remember its own choice on anonymous polls', () => {
+    const onVote = vi.fn();
+    const anonymousPoll: Poll = {
+      ...poll,
+      anonymous: true,
+      options: poll.options.map(({ id, text, votes }) => ({ id, text, votes })),
+    };
+    render(
+      <PollCard poll={anonymousPoll} currentUserId='user-1' onVote={onVote} />
+    );
+
+    const sushi = screen.getByRole('button', { name: 'Sushi: 0 votes' });
+    fireEvent.click(sushi);
+
+    expect(onVote).toHaveBeenCalledWith(['opt-2']);
+    expect(sushi).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText(/Anonymous/)).toBeInTheDocument();
+    expect(screen.queryByText('Alice, Bob')).not.toBeInTheDocument();
+  });
+
+  it('should let the creator close an open poll', () => {
+    const onClose = vi.fn();
+    render(<PollCard poll={poll} onVote={vi.fn()} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close poll' }));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should show closed polls without voting or closing', () => {
+    render(
+      <PollCard
+        poll={{ ...poll, closedAt: new Date('2025-10-26T10:00:00') }}
+        onVote={vi.fn()}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText(/Closed/)).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Pizza: 2 votes' })
+    ).toBeDisabled();
+    expect(
+      screen.queryByRole('button', { name: 'Close poll' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should treat polls past their close time as closed', () => {
+    render(
+      <PollCard
+        poll={{ ...poll, closesAt: new Date(Date.now() - 1000) }}
+        onVote={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText(/Closed/)).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Sushi: 0 votes' })
+    ).toBeDisabled();
+  });
+});
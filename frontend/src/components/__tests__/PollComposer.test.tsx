@@ -0,0 +1,110 @@
+/**
+ * PollComposer Component Test Suite
+ *
+ * Tests for the form that creates polls:
+ * - Building a poll with options and settings
+ * - Validation errors
+ * - Cancelling
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PollComposer from '../PollComposer';
+
+describe('PollComposer', () => {
+  const fillPoll = () => {
+    fireEvent.change(screen.getByRole('textbox', { name: 'Poll question' }), {
+      target: { value: ' Lunch? ' },
+    });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Option 1' }), {
+      target: { value: 'Pizza' },
+    });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Option 2' }), {
+      target: { value: 'Sushi ' },
+    });
+  };
+
+  it('should submit the poll with its settings', () => {
+    const onSubmit = vi.fn();
+    render(<PollComposer onSubmit={onSubmit} onCancel={vi.fn()} />);
+
+    fillPoll();
+    fireEvent.click(screen.getByRole('button', { name: 'Add option' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Option 3' }), {
+      target: { value: 'Tacos' },
+    });
+    fireEvent.click(screen.getByLabelText('Allow multiple choices'));
+    fireEvent.click(screen.getByLabelText('Anonymous votes'));
+    fireEvent.click(screen.getByRole('button', { name: 'Create poll' }));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      question: 'Lunch?',
+      options: ['Pizza', 'Sushi', 'Tacos'],
+      multipleChoice: true,
+      anonymous: true,
+      closesAt: undefined,
+    });
+  });
+
+  it('should remove options down to the minimum', () => {
+    render(<PollComposer onSubmit={vi.fn()} onCancel={vi.fn()} />);
+
+    expect(
+      screen.queryByRole('button', { name: /Remove option/ })
+    ).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add option' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Remove option 3' }));
+
+    expect(screen.getAllByRole('textbox')).toHaveLength(3);
+  });
+
+  it('should show validation errors instead of submitting', () => {
+    const onSubmit = vi.fn();
+    render(<PollComposer onSubmit={onSubmit} onCancel={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Create poll' }));
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Poll question is required'
+    );
+
+    fillPoll();
+    fireEvent.change(screen.getByRole('textbox', { name: 'Option 2' }), {
+      target: { value: 'pizza' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Create poll' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Poll options must be different'
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should reject close times in the past', () => {
+    const onSubmit = vi.fn();
+    const { container } = render(
+      <PollComposer onSubmit={onSubmit} onCancel={vi.fn()} />
+    );
+
+    fillPoll();
+    const closesAt = container.querySelector('input[type="datetime-local"]');
+    fireEvent.change(closesAt as Element, {
+      target: { value: '2020-01-01T12:00' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Create poll' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Polls must close in the future'
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should cancel', () => {
+    const onCancel = vi.fn();
+    render(<PollComposer onSubmit={vi.fn()} onCancel={onCancel} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
@@ -4,7 +4,8 @@
  * Tests collaborative rich text editor:
  * - Component rendering and initialization
  * - Toolbar visibility and actions (bold, italic, undo, redo)
- * - Save functionality (manual and auto-save)
+ * - Save functionality (manual and auto-save, server confirmation)
+ * - Version history panel
  * - User count display
  * - Activity indicators
  * - Time formatting for "last saved"
@@ -17,7 +18,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import RichTextEditor from '../RichTextEditor';
 import { User } from '../../types/index';
 
@@ -74,16 +75,24 @@ vi.mock('prosemirror-commands', () => ({
 vi.mock('yjs', () => ({
   Doc: vi.fn(() => ({
     getXmlFragment: vi.fn(() => ({})),
+    on: vi.fn(),
+    off: vi.fn(),
     destroy: vi.fn(),
   })),
+  applyUpdate: vi.fn(),
 }));
 
 vi.mock('y-prosemirror', () => ({
   ySyncPlugin: vi.fn(() => ({})),
+  ySyncPluginKey: {},
   yCursorPlugin: vi.fn(() => ({})),
   yUndoPlugin: vi.fn(() => ({})),
   undo: vi.fn(() => true),
   redo: vi.fn(() => true),
+  yXmlFragmentToProseMirrorRootNode: vi.fn(() => ({
+    content: { size: 5 },
+    textBetween: vi.fn(() => 'Older notes'),
+  })),
 }));
 
 vi.mock('../../services/socketProvider', () => ({
@@ -100,9 +109,19 @@ vi.mock('../../services/socketService', () => ({
     sendEditingStatus: vi.fn(),
     sendEditorActivity: vi.fn(),
     sendDocumentSave: vi.fn(),
+    requestDocumentVersions: vi.fn(),
+    previewDocumentVersion: vi.fn(),
+    restoreDocumentVersion: vi.fn(),
+    on: vi.fn((event: string, handler: (data: unknown) => void) => {
+      socketHandlers[event] = handler;
+    }),
+    off: vi.fn(),
   },
 }));
 
+// Handlers registered through socketService.on, so tests can push server events
+const socketHandlers: Record<string, (data: unknown) => void> = {};
+
 vi.mock('../../utils/logger', () => ({
   default: {
     error: vi.fn(),
@@ -201,6 +220,13 @@ describe('RichTextEditor', () => {
       expect(screen.getByText('Saving...')).toBeInTheDocument();
     });
 
+    it('should hide the save button for viewers', () => {
+      render(<RichTextEditor {...defaultProps} readOnly />);
+
+      expect(screen.queryByText('Save')).not.toBeInTheDocument();
+      expect(screen.getByText('View only')).toBeInTheDocument();
+    });
+
     it('should disable save button while saving', () => {
       render(<RichTextEditor {...defaultProps} />);
 
@@ -374,4 +400,108 @@ describe('RichTextEditor', () => {
       expect(header).toBeInTheDocument();
     });
   });
+
+  describe('Server Saves', () => {
+    it('should request a save from the server', async () => {
+      const { socketService } = await import('../../services/socketService');
+      render(<RichTextEditor {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(socketService.sendDocumentSave).toHaveBeenCalledWith('doc-123');
+    });
+
+    it('should show saved only after the server confirms', () => {
+      render(<RichTextEditor {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Save'));
+      expect(screen.queryByText(/^Saved/)).not.toBeInTheDocument();
+
+      act(() => {
+        socketHandlers['editor:document-save']?.({
+          documentId: 'doc-123',
+          version: 1,
+          title: 'Untitled document',
+          modifiedBy: 'user-1',
+          modifiedByNickname: 'Alice',
+          timestamp: new Date(),
+        });
+      });
+
+      expect(screen.getByText('Saved Just now')).toBeInTheDocument();
+      expect(screen.getByText('Save')).not.toBeDisabled();
+    });
+
+    it('should stop waiting when the save is never confirmed', () => {
+      render(<RichTextEditor {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Save'));
+      act(() => {
+        vi.advanceTimersByTime(10000);
+      });
+
+      expect(screen.getByText('Save')).not.toBeDisabled();
+      expect(screen.queryByText(/^Saved/)).not.toBeInTheDocument();
+    });
+
+    it('should not auto-save without local changes', async () => {
+      const { socketService } = await import('../../services/socketService');
+      render(<RichTextEditor {...defaultProps} />);
+
+      act(() => {
+        vi.advanceTimersByTime(30000);
+      });
+
+      expect(socketService.sendDocumentSave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Version History', () => {
+    const version = {
+      version: 1,
+      title: 'Meeting notes',
+      modifiedBy: 'user-2',
+      modifiedByNickname: 'Bob',
+      timestamp: new Date(),
+    };
+
+    it('should load versions when history is opened', async () => {
+      const { socketService } = await import('../../services/socketService');
+      render(<RichTextEditor {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('History'));
+      expect(socketService.requestDocumentVersions).toHaveBeenCalled();
+      expect(screen.getByText('Loading versions...')).toBeInTheDocument();
+
+      act(() => {
+        socketHandlers['editor:versions']?.({ versions: [version] });
+      });
+
+      expect(screen.getByText('Meeting notes')).toBeInTheDocument();
+    });
+
+    it('should preview and restore a version', async () => {
+      const { socketService } = await import('../../services/socketService');
+      render(<RichTextEditor {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('History'));
+      act(() => {
+        socketHandlers['editor:versions']?.({ versions: [version] });
+      });
+
+      fireEvent.click(screen.getByText('Preview'));
+      expect(socketService.previewDocumentVersion).toHaveBeenCalledWith(1);
+      act(() => {
+        socketHandlers['editor:version-preview']?.({
+          version: 1,
+          title: 'Meeting notes',
+          state: new Uint8Array(),
+        });
+      });
+      expect(screen.getByText('Older notes')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Restore'));
+      expect(socketService.restoreDocumentVersion).toHaveBeenCalledWith(1);
+    });
+  });
 });
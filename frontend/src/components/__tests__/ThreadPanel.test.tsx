@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Test suite for ThreadPanel component
+ *
+ * Tests the thread side panel:
+ * - Parent message and replies
+ * - Loading and empty states
+ * - Sending replies and closing
+ *
+ * @see {@link ThreadPanel} for implementation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ThreadPanel from '../ThreadPanel';
+import { ChatMessage } from '../../types/index';
+
+describe('ThreadPanel', () => {
+  const parent: ChatMessage = {
+    id: 'parent',
+    userId: 'user-1',
+    nickname: 'Alice',
+    content: 'What should we stop doing?',
+    timestamp: new Date('2025-10-28T10:00:00Z'),
+    replyCount: 1,
+  };
+  const replies: ChatMessage[] = [
+    {
+      id: 'reply-1',
+      userId: 'user-2',
+      nickname: 'Bob',
+      content: 'Long standups',
+      timestamp: new Date('2025-10-28T10:01:00Z'),
+      parentId: 'parent',
+    },
+  ];
+
+  const defaultProps = {
+    parent,
+    replies,
+    isLoading: false,
+    onSendReply: vi.fn(),
+    onTypingChange: vi.fn(),
+    onClose: vi.fn(),
+  };
+
+  it('should show the parent message and its replies', () => {
+    render(<ThreadPanel {...defaultProps} />);
+
+    expect(screen.getByText('What should we stop doing?')).toBeInTheDocument();
+    expect(screen.getByText('Long standups')).toBeInTheDocument();
+  });
+
+  it('should show a loading state', () => {
+    render(<ThreadPanel {...defaultProps} isLoading />);
+
+    expect(screen.getByText('Loading replies...')).toBeInTheDocument();
+    expect(screen.queryByText('Long standups')).not.toBeInTheDocument();
+  });
+
+  it('should show an empty state', () => {
+    render(<ThreadPanel {...defaultProps} replies={[]} />);
+
+    expect(screen.getByText('No replies yet.')).toBeInTheDocument();
+  });
+
+  it('should send replies', () => {
+    const onSendReply = vi.fn();
+    render(<ThreadPanel {...defaultProps} onSendReply={onSendReply} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), {
+      target: { value: 'Agreed' },
+    });
+    fireEvent.click(screen.getByText('Send'));
+
+    expect(onSendReply).toHaveBeenCalledWith('Agreed');
+  });
+
+  it('should not let viewers reply', () => {
+    render(<ThreadPanel {...defaultProps} readOnly />);
+
+    expect(
+      screen.queryByPlaceholderText('Type a message...')
+    ).not.toBeInTheDocument();
+  });
+
+  it('should call onClose from the close button', () => {
+    const onClose = vi.fn();
+    render(<ThreadPanel {...defaultProps} onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText('Close thread'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * UserAvatar Component Test Suite
+ *
+ * Tests for user avatars:
+ * - Generated avatars sent by the server
+ * - Initials on the user's color, or a neutral one without
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import UserAvatar from '../UserAvatar';
+import { FALLBACK_USER_COLOR } from '../../utils/userAppearance';
+
+describe('UserAvatar', () => {
+  it('should show the generated avatar when the server sends one', () => {
+    const { container } = render(
+      <UserAvatar
+        user={{
+          nickname: 'Alice',
+          color: '#2563EB',
+          avatar: 'data:image/svg+xml,%3Csvg%2F%3E',
+        }}
+      />
+    );
+
+    expect(container.querySelector('img')).toHaveAttribute(
+      'src',
+      'data:image/svg+xml,%3Csvg%2F%3E'
+    );
+    expect(screen.queryByText('A')).not.toBeInTheDocument();
+  });
+
+  it("should show initials on the user's color otherwise", () => {
+    render(<UserAvatar user={{ nickname: 'Alice Smith', color: '#2563EB' }} />);
+
+    expect(screen.getByText('AS')).toHaveStyle({
+      backgroundColor: '#2563EB',
+    });
+  });
+
+  it('should fall back to a neutral color', () => {
+    render(<UserAvatar user={{ nickname: 'Bob' }} />);
+
+    expect(screen.getByText('B')).toHaveStyle({
+      backgroundColor: FALLBACK_USER_COLOR,
+    });
+  });
+});
@@ -8,13 +8,16 @@
  * - Owner badge display
  * - Current user highlighting
  * - User list sorting (owner first)
+ * - Role badges and owner role actions
+ * - Kick/ban actions and the ban list
+ * - Renaming the current user
  * - Edge cases and dynamic updates
  */
 
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
 import UserList from '../UserList';
-import type { User, TypingStatus } from '../../types';
+import type { User, TypingStatus, BanInfo } from '../../types';
 
 describe('UserList', () => {
   // Sample test data
@@ -108,6 +111,16 @@ describe('UserList', () => {
       const offlineIndicators = container.querySelectorAll('.bg-gray-400');
       expect(offlineIndicators.length).toBe(1); // Charlie
     });
+
+    it('should label and dim offline users', () => {
+      render(
+        <UserList users={sampleUsers} typingUsers={[]} currentUserId='user-1' />
+      );
+
+      expect(screen.getAllByText('offline')).toHaveLength(1);
+      expect(screen.getByText('Charlie').closest('.opacity-60')).not.toBeNull();
+      expect(screen.getByText('Alice').closest('.opacity-60')).toBeNull();
+    });
   });
 
   describe('Typing Indicator', () => {
@@ -202,6 +215,205 @@ describe('UserList', () => {
     });
   });
 
+  describe('Roles', () => {
+    const usersWithRoles: User[] = [
+      { ...sampleUsers[0], role: 'owner' },
+      { ...sampleUsers[1], role: 'moderator' },
+      { ...sampleUsers[2], role: 'viewer' },
+    ];
+
+    it('should show role badges', () => {
+      render(<UserList users={usersWithRoles} typingUsers={[]} />);
+
+      expect(screen.getByText('owner')).toBeInTheDocument();
+      expect(screen.getByText('mod')).toBeInTheDocument();
+      expect(screen.getByText('viewer')).toBeInTheDocument();
+    });
+
+    it('should let the owner change other members roles', () => {
+      const onChangeRole = vi.fn();
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onChangeRole={onChangeRole}
+        />
+      );
+
+      expect(screen.queryByLabelText('Role for Alice')).not.toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText('Role for Bob'), {
+        target: { value: 'viewer' },
+      });
+
+      expect(onChangeRole).toHaveBeenCalledWith('user-2', 'viewer');
+    });
+
+    it('should let the owner transfer ownership after confirming', () => {
+      const onTransferOwnership = vi.fn();
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onChangeRole={vi.fn()}
+          onTransferOwnership={onTransferOwnership}
+        />
+      );
+
+      expect(
+        screen.queryByLabelText('Make Alice the owner')
+      ).not.toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('Make Bob the owner'));
+      expect(onTransferOwnership).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Transfer ownership'));
+      expect(onTransferOwnership).toHaveBeenCalledWith('user-2');
+    });
+
+    it('should follow ownerId when the owner changes', () => {
+      // Bob was just handed the room; Alice's role update is still in flight
+      render(
+        <UserList
+          users={[usersWithRoles[0], { ...usersWithRoles[1], role: 'owner' }]}
+          typingUsers={[]}
+          ownerId='user-2'
+        />
+      );
+
+      expect(screen.getAllByText('owner')).toHaveLength(1);
+      expect(screen.getByText('Bob').parentElement).toHaveTextContent('owner');
+    });
+
+    it('should not show role actions to other members', () => {
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-2'
+          onChangeRole={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Moderation', () => {
+    const usersWithRoles: User[] = [
+      { ...sampleUsers[0], role: 'owner' },
+      { ...sampleUsers[1], role: 'moderator' },
+      { ...sampleUsers[2], role: 'participant' },
+    ];
+    const bans: BanInfo[] = [
+      {
+        userId: 'user-9',
+        nickname: 'Mallory',
+        bannedBy: 'user-1',
+        bannedAt: new Date('2025-10-26T11:00:00'),
+        reason: 'Spam',
+      },
+    ];
+
+    it('should kick a user with the entered reason', () => {
+      const onKick = vi.fn();
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onKick={onKick}
+          onBan={vi.fn()}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Kick Charlie'));
+      fireEvent.change(screen.getByLabelText('Reason for removing Charlie'), {
+        target: { value: '  Off topic ' },
+      });
+      fireEvent.click(screen.getByText('Kick user'));
+
+      expect(onKick).toHaveBeenCalledWith('user-3', 'Off topic');
+      expect(
+        screen.queryByLabelText('Reason for removing Charlie')
+      ).not.toBeInTheDocument();
+    });
+
+    it('should ban without a reason and allow cancelling', () => {
+      const onBan = vi.fn();
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onKick={vi.fn()}
+          onBan={onBan}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Ban Bob'));
+      fireEvent.click(screen.getByText('Cancel'));
+      expect(onBan).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByLabelText('Ban Bob'));
+      fireEvent.click(screen.getByText('Ban user'));
+      expect(onBan).toHaveBeenCalledWith('user-2', undefined);
+    });
+
+    it('should only let moderators remove participants and viewers', () => {
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-2'
+          onKick={vi.fn()}
+          onBan={vi.fn()}
+        />
+      );
+
+      expect(screen.getByLabelText('Kick Charlie')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Kick Alice')).not.toBeInTheDocument();
+      expect(screen.queryByLabelText('Kick Bob')).not.toBeInTheDocument();
+    });
+
+    it('should not show moderation actions to participants', () => {
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-3'
+          onKick={vi.fn()}
+          onBan={vi.fn()}
+          bans={bans}
+          onUnban={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByText('Kick')).not.toBeInTheDocument();
+      expect(screen.queryByText(/Banned/)).not.toBeInTheDocument();
+    });
+
+    it('should list bans and revoke them', () => {
+      const onUnban = vi.fn();
+      render(
+        <UserList
+          users={usersWithRoles}
+          typingUsers={[]}
+          currentUserId='user-2'
+          bans={bans}
+          onUnban={onUnban}
+        />
+      );
+
+      expect(screen.getByText('Banned (1)')).toBeInTheDocument();
+      expect(screen.getByText('Mallory')).toBeInTheDocument();
+      expect(screen.getByText('Spam')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Unban Mallory'));
+      expect(onUnban).toHaveBeenCalledWith('user-9');
+    });
+  });
+
   describe('Current User Indicator', () => {
     it('should highlight current user', () => {
       render(
@@ -227,6 +439,91 @@ describe('UserList', () => {
     });
   });
 
+  describe('Renaming', () => {
+    it('should only offer renaming on the current user', () => {
+      render(
+        <UserList
+          users={sampleUsers}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onRename={vi.fn()}
+        />
+      );
+
+      expect(
+        screen.getAllByRole('button', { name: 'Change your nickname' })
+      ).toHaveLength(1);
+    });
+
+    it('should submit the trimmed new nickname', () => {
+      const onRename = vi.fn();
+      render(
+        <UserList
+          users={sampleUsers}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onRename={onRename}
+        />
+      );
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Change your nickname' })
+      );
+      const input = screen.getByLabelText('New nickname');
+      expect(input).toHaveValue('Alice');
+      fireEvent.change(input, { target: { value: ' Alicia ' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(onRename).toHaveBeenCalledWith('Alicia');
+      expect(screen.queryByLabelText('New nickname')).not.toBeInTheDocument();
+    });
+
+    it('should show validation errors without submitting', () => {
+      const onRename = vi.fn();
+      render(
+        <UserList
+          users={sampleUsers}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onRename={onRename}
+        />
+      );
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Change your nickname' })
+      );
+      fireEvent.change(screen.getByLabelText('New nickname'), {
+        target: { value: '   ' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'Nickname cannot be empty'
+      );
+      expect(onRename).not.toHaveBeenCalled();
+    });
+
+    it('should cancel without renaming', () => {
+      const onRename = vi.fn();
+      render(
+        <UserList
+          users={sampleUsers}
+          typingUsers={[]}
+          currentUserId='user-1'
+          onRename={onRename}
+        />
+      );
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Change your nickname' })
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      expect(screen.queryByLabelText('New nickname')).not.toBeInTheDocument();
+      expect(onRename).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle user with very long nickname', () => {
       const usersWithLongName: User[] = [
@@ -1,12 +1,24 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { apiService } from '../services/apiService';
-import { validateRoomId } from '../utils/validation';
+import { apiService, ApiError } from '../services/apiService';
+import {
+  validateRoomIdOrSlug,
+  validateRoomName,
+  validateRoomSlug,
+  validatePasscode,
+  slugify,
+  VALIDATION_RULES,
+} from '../utils/validation';
 import { LoadingButton } from '../components/LoadingComponents';
 import logger from '../utils/logger.js';
 
 const HomePage: React.FC = () => {
   const [isCreating, setIsCreating] = useState(false);
+  const [roomName, setRoomName] = useState('');
+  const [roomSlug, setRoomSlug] = useState('');
+  const [passcode, setPasscode] = useState('');
+  const [requiresPasscode, setRequiresPasscode] = useState(false);
+  const [createdRoomName, setCreatedRoomName] = useState('');
   const [roomLink, setRoomLink] = useState('');
   const [error, setError] = useState('');
   const [isNavigating, setIsNavigating] = useState(false);
@@ -14,14 +26,50 @@ const HomePage: React.FC = () => {
   const navigate = useNavigate();
 
   const handleCreateRoom = async () => {
+    const name = roomName.trim();
+    const slug = roomSlug.trim().toLowerCase();
+
+    if (name) {
+      const validation = validateRoomName(name);
+      if (!validation.isValid) {
+        setError(validation.error ?? 'Invalid room name');
+        return;
+      }
+    }
+    if (slug) {
+      const validation = validateRoomSlug(slug);
+      if (!validation.isValid) {
+        setError(validation.error ?? 'Invalid room URL');
+        return;
+      }
+    }
+    if (passcode) {
+      const validation = validatePasscode(passcode);
+      if (!validation.isValid) {
+        setError(validation.error ?? 'Invalid passcode');
+        return;
+      }
+    }
+
     setIsCreating(true);
     setError('');
 
     try {
-      const response = await apiService.createRoom();
+      const response = await apiService.createRoom({
+        name: name || undefined,
+        slug: slug || undefined,
+        passcode: passcode || undefined,
+      });
       setRoomLink(response.roomLink);
+      setCreatedRoomName(response.name ?? '');
+      setRequiresPasscode(response.requiresPasscode === true);
     } catch (err) {
-      setError('Failed to create room. Please try again.');
+      // Validation and conflict errors (e.g. URL taken) are worth showing as-is
+      setError(
+        err instanceof ApiError && err.status < 500
+          ? err.message
+          : 'Failed to create room. Please try again.'
+      );
       logger.error('Failed to create room', {
         error: err instanceof Error ? err.message : String(err),
       });
@@ -35,8 +83,8 @@ const HomePage: React.FC = () => {
     if (roomId?.trim()) {
       const trimmedRoomId = roomId.trim();
 
-      // Validate room ID format
-      const validation = validateRoomId(trimmedRoomId);
+      // Validate room ID (or slug) format
+      const validation = validateRoomIdOrSlug(trimmedRoomId);
       if (!validation.isValid) {
         setError(validation.error ?? 'Invalid room ID');
         return;
@@ -79,6 +127,72 @@ const HomePage: React.FC = () => {
         </div>
 
         <div className='space-y-4'>
+          <div className='space-y-3'>
+            <div>
+              <label
+                htmlFor='room-name'
+                className='block text-sm font-medium text-gray-700 mb-1'
+              >
+                Room name (optional)
+              </label>
+              <input
+                type='text'
+                id='room-name'
+                value={roomName}
+                onChange={e => setRoomName(e.target.value)}
+                placeholder='Sprint 42 Retro'
+                maxLength={VALIDATION_RULES.roomName.maxLength}
+                disabled={isCreating}
+                className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div>
+              <label
+                htmlFor='room-slug'
+                className='block text-sm font-medium text-gray-700 mb-1'
+              >
+                Custom link (optional)
+              </label>
+              <div className='flex items-center'>
+                <span className='px-2 py-2 text-sm text-gray-500 bg-gray-50 border border-r-0 border-gray-300 rounded-l-md'>
+                  /room/
+                </span>
+                <input
+                  type='text'
+                  id='room-slug'
+                  value={roomSlug}
+                  onChange={e => setRoomSlug(e.target.value.toLowerCase())}
+                  placeholder={slugify(roomName) || 'sprint-42-retro'}
+                  maxLength={VALIDATION_RULES.roomSlug.maxLength}
+                  disabled={isCreating}
+                  className='flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-r-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                />
+              </div>
+              <p className='mt-1 text-xs text-gray-500'>
+                Leave empty for a private, hard-to-guess link
+              </p>
+            </div>
+            <div>
+              <label
+                htmlFor='room-passcode'
+                className='block text-sm font-medium text-gray-700 mb-1'
+              >
+                Passcode (optional)
+              </label>
+              <input
+                type='password'
+                id='room-passcode'
+                value={passcode}
+                onChange={e => setPasscode(e.target.value)}
+                placeholder='Required to join when set'
+                maxLength={VALIDATION_RULES.passcode.maxLength}
+                disabled={isCreating}
+                autoComplete='new-password'
+                className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+          </div>
+
           <LoadingButton
             onClick={() => void handleCreateRoom()}
             disabled={isCreating}
@@ -108,9 +222,19 @@ const HomePage: React.FC = () => {
             <h3 className='text-lg font-semibold text-green-800 mb-2'>
               Room Created!
             </h3>
+            {createdRoomName && (
+              <p className='text-sm font-medium text-green-800 mb-1'>
+                {createdRoomName}
+              </p>
+            )}
             <p className='text-sm text-green-700 mb-3'>
               Share this link with others:
             </p>
+            {requiresPasscode && (
+              <p className='text-xs text-green-700 mb-3'>
+                Share the passcode separately. Everyone needs it to join.
+              </p>
+            )}
             <div className='flex gap-2'>
               <input
                 type='text'
@@ -152,8 +276,8 @@ const HomePage: React.FC = () => {
               onClick={() => {
                 const roomId = roomLink.split('/').pop();
                 if (roomId) {
-                  // Validate room ID format (should be valid since it's newly created, but check for safety)
-                  const validation = validateRoomId(roomId);
+                  // Validate room ID or slug (should be valid since it's newly created, but check for safety)
+                  const validation = validateRoomIdOrSlug(roomId);
                   if (!validation.isValid) {
                     setError(validation.error ?? 'Invalid room ID');
                     return;
@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { socketService } from '../services/socketService';
 import { apiService } from '../services/apiService';
 import { userPersistenceService } from '../services/userPersistenceService';
+import { presenceService } from '../services/presenceService';
 import {
   User,
   ChatMessage,
@@ -10,15 +11,49 @@ import {
   JoinRoomResponse,
   SocketError,
   SocketErrorCode,
+  UserStatusEvent,
+  UserRoleChangedEvent,
+  AssignableRole,
+  KickedEvent,
+  BanInfo,
+  BansListEvent,
+  RoomLockChangedEvent,
+  RoomOwnerChangedEvent,
+  OlderMessagesEvent,
+  MessageDeletedEvent,
+  MessageReactionsUpdatedEvent,
+  ThreadMessagesEvent,
+  ThreadReplyEvent,
+  ReplyNotificationEvent,
+  MentionedEvent,
+  Attachment,
+  MessageSearchResult,
+  PinnedMessagesUpdatedEvent,
+  AnnouncementChangedEvent,
+  ReadReceipt,
+  ReadReceiptsEvent,
+  PollUpdatedEvent,
+  CreatePollRequest,
+  UserRenamedEvent,
+  PresenceChangedEvent,
 } from '../types/index';
 import UserList from '../components/UserList';
 import ChatArea from '../components/ChatArea';
 import EditorWorkspace from '../components/EditorWorkspace';
+import ThreadPanel from '../components/ThreadPanel';
+import MessageSearch from '../components/MessageSearch';
+import PinnedMessages from '../components/PinnedMessages';
+import AnnouncementBanner from '../components/AnnouncementBanner';
 import { LoadingSpinner } from '../components/LoadingComponents';
 import logger from '../utils/logger.js';
+import {
+  notifyIfHidden,
+  requestNotificationPermission,
+} from '../utils/notifications';
 import {
   validateNickname,
-  validateRoomId,
+  validatePasscode,
+  validateRoomIdOrSlug,
   sanitizeInput,
   VALIDATION_RULES,
 } from '../utils/validation';
@@ -30,6 +65,33 @@ const RoomPage: React.FC = () => {
   const [isJoined, setIsJoined] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [threadParentId, setThreadParentId] = useState<string | null>(null);
+  const [threadMessages, setThreadMessages] = useState<ChatMessage[]>([]);
+  const [isThreadLoading, setIsThreadLoading] = useState(false);
+  const threadParentIdRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | undefined
+  >(undefined);
+  // Timeline message picked from search results that isn't loaded yet, and
+  // the time it was sent when known; older pages can't contain it
+  const [pendingJump, setPendingJump] = useState<{
+    messageId: string;
+    timestamp?: Date;
+  } | null>(null);
+  const [pinnedMessages, setPinnedMessages] = useState<ChatMessage[]>([]);
+  const [announcement, setAnnouncement] = useState<string | undefined>(
+    undefined
+  );
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+  const [lastReadMessageId, setLastReadMessageId] = useState<
+    string | undefined
+  >(undefined);
+  const [isSidebarChatVisible, setIsSidebarChatVisible] = useState(false);
+  const [isPageVisible, setIsPageVisible] = useState(
+    document.visibilityState !== 'hidden'
+  );
   const [typingUsers, setTypingUsers] = useState<TypingStatus[]>([]);
   const [error, setError] = useState('');
   const [transientNotice, setTransientNotice] = useState<string>('');
@@ -37,12 +99,18 @@ const RoomPage: React.FC = () => {
   const [isVerifyingRoom, setIsVerifyingRoom] = useState(false);
   const [copied, setCopied] = useState(false);
   const [ownerId, setOwnerId] = useState<string | undefined>(undefined);
+  const [roomName, setRoomName] = useState<string | undefined>(undefined);
   const [roomCapacity, setRoomCapacity] = useState<
     { current: number; max: number } | undefined
   >(undefined);
   const [nicknameError, setNicknameError] = useState<string>('');
   const [isNicknameValid, setIsNicknameValid] = useState<boolean>(false);
   const [mode, setMode] = useState<'chat' | 'editor'>('chat');
+  const [bans, setBans] = useState<BanInfo[]>([]);
+  const [requiresPasscode, setRequiresPasscode] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [passcodeError, setPasscodeError] = useState('');
+  const [isLocked, setIsLocked] = useState(false);
   const currentUserRef = useRef<User | null>(null);
   const hasShownInitialConnectRef = useRef(false);
 
@@ -52,8 +120,8 @@ const RoomPage: React.FC = () => {
       return;
     }
 
-    // Validate room ID format
-    const roomIdValidation = validateRoomId(roomId);
+    // Validate room ID (or slug) format
+    const roomIdValidation = validateRoomIdOrSlug(roomId);
     if (!roomIdValidation.isValid) {
       setError(roomIdValidation.error ?? 'Invalid room ID');
       setTimeout(() => navigate('/'), 3000);
@@ -64,12 +132,14 @@ const RoomPage: React.FC = () => {
     const checkRoomAndAutoRejoin = async () => {
       setIsVerifyingRoom(true);
       try {
-        const exists = await apiService.checkRoomExists(roomId);
-        if (!exists) {
+        const status = await apiService.checkRoomExists(roomId);
+        if (!status.exists) {
           setError('Room does not exist');
           setTimeout(() => navigate('/'), 3000);
           return;
         }
+        setRequiresPasscode(status.requiresPasscode === true);
+        setIsLocked(status.isLocked === true);
 
         // Check if user has a valid session for this room
         const storedSession = userPersistenceService.getUserSession(roomId);
@@ -86,7 +156,7 @@ const RoomPage: React.FC = () => {
             socketService.joinRoom(
               roomId,
               storedSession.nickname,
-              storedSession.userId
+              storedSession.sessionToken
             );
           } catch (err) {
             setError('Failed to reconnect to room');
@@ -94,7 +164,6 @@ const RoomPage: React.FC = () => {
             logger.error('Failed to auto-rejoin room', {
               error: err instanceof Error ? err.message : String(err),
               roomId,
-              userId: storedSession.userId,
               nickname: storedSession.nickname,
             });
           }
@@ -140,35 +209,83 @@ const RoomPage: React.FC = () => {
   };
 
   useEffect(() => {
+    // Owners and moderators keep an up-to-date ban list; the server pushes
+    // changes after this initial request
+    const requestBans = () => {
+      try {
+        socketService.requestBans();
+      } catch (err) {
+        logger.error('Failed to request bans', {
+          error: err instanceof Error ? err.message : String(err),
+          roomId,
+        });
+      }
+    };
+
     // Define event handlers
     const handleRoomJoined = (data: unknown) => {
       const joinResponse = data as JoinRoomResponse;
       if (joinResponse.success) {
         setUsers(joinResponse.users);
         setMessages(joinResponse.messages);
+        setHasMoreMessages(joinResponse.hasMoreMessages === true);
+        setIsLoadingOlder(false);
+        setPinnedMessages(joinResponse.pinnedMessages ?? []);
+        setAnnouncement(joinResponse.announcement);
+        setReadReceipts(joinResponse.readReceipts ?? []);
         setIsJoined(true);
         setError('');
 
         // Store owner information
         setOwnerId(joinResponse.ownerId);
+        setRoomName(joinResponse.roomName);
+        setIsLocked(joinResponse.isLocked === true);
+        setPasscode('');
+        setPasscodeError('');
 
         // Store capacity information
         if (joinResponse.capacity) {
           setRoomCapacity(joinResponse.capacity);
         }
 
+        // Resume unread counting from the server's read marker, or the one
+        // stored in this browser; first-time visitors start with nothing unread
+        const lastRead =
+          joinResponse.readReceipts?.find(
+            receipt => receipt.userId === joinResponse.userId
+          )?.messageId ??
+          (roomId
+            ? userPersistenceService.getUserSession(roomId)?.lastReadMessageId
+            : undefined) ??
+          (joinResponse.messages.length > 0
+            ? joinResponse.messages[joinResponse.messages.length - 1].id
+            : undefined);
+        setLastReadMessageId(lastRead);
+
+        // Returning users get the nickname saved on the server, which
+        // follows renames made in the room
+        const currentUser =
+          joinResponse.users.find(u => u.id === joinResponse.userId) ??
+          joinResponse.users.find(u => u.nickname === nickname);
+
         // Store the complete user session for persistence across sessions
-        if (joinResponse.userId && roomId) {
+        if (joinResponse.sessionToken && roomId) {
           userPersistenceService.setUserSession(
-            joinResponse.userId,
-            nickname,
+            joinResponse.sessionToken,
+            currentUser?.nickname ?? nickname,
             roomId
           );
+          if (lastRead) {
+            userPersistenceService.setLastReadMessageId(roomId, lastRead);
+          }
         }
 
-        // Store current user (we'll get the user ID from the join response)
-        currentUserRef.current =
-          joinResponse.users.find((u: User) => u.nickname === nickname) ?? null;
+        currentUserRef.current = currentUser ?? null;
+
+        const role = currentUserRef.current?.role;
+        if (role === 'owner' || role === 'moderator') {
+          requestBans();
+        }
       } else {
         setError(joinResponse.error ?? 'Failed to join room');
       }
@@ -224,11 +341,266 @@ const RoomPage: React.FC = () => {
       setTypingUsers(prev => prev.filter(t => t.userId !== String(userId)));
     };
 
+    // Offline members stay listed until the server removes them with user-left
+    const handleUserStatusChanged = (data: unknown) => {
+      const status = data as UserStatusEvent;
+      setUsers(prev =>
+        prev.map(user =>
+          user.id === status.userId
+            ? {
+                ...user,
+                isOnline: status.isOnline,
+                isEditing: status.isOnline ? user.isEditing : false,
+              }
+            : user
+        )
+      );
+      if (!status.isOnline) {
+        setTypingUsers(prev => prev.filter(t => t.userId !== status.userId));
+      }
+    };
+
+    // The server renames the user's past messages too, so match them here.
+    // The nickname state stays as joined: changing it would reconnect.
+    const handleUserRenamed = (data: unknown) => {
+      const event = data as UserRenamedEvent;
+      setUsers(prev =>
+        prev.map(user =>
+          user.id === event.userId
+            ? { ...user, nickname: event.nickname }
+            : user
+        )
+      );
+      const rename = (prev: ChatMessage[]) =>
+        prev.map(m =>
+          m.userId === event.userId ? { ...m, nickname: event.nickname } : m
+        );
+      setMessages(rename);
+      setThreadMessages(rename);
+      setPinnedMessages(rename);
+
+      if (currentUserRef.current?.id === event.userId) {
+        currentUserRef.current = {
+          ...currentUserRef.current,
+          nickname: event.nickname,
+        };
+        if (roomId) {
+          userPersistenceService.setNickname(roomId, event.nickname);
+        }
+      }
+    };
+
+    const handlePresenceChanged = (data: unknown) => {
+      const event = data as PresenceChangedEvent;
+      setUsers(prev =>
+        prev.map(user =>
+          user.id === event.userId
+            ? { ...user, presence: event.presence }
+            : user
+        )
+      );
+    };
+
+    const handleUserRoleChanged = (data: unknown) => {
+      const event = data as UserRoleChangedEvent;
+      setUsers(prev =>
+        prev.map(user =>
+          user.id === event.userId ? { ...user, role: event.role } : user
+        )
+      );
+
+      if (event.userId === currentUserRef.current?.id) {
+        if (event.role === 'moderator') {
+          requestBans();
+        } else if (event.role !== 'owner') {
+          setBans([]);
+        }
+      }
+    };
+
+    // Explicit transfer or succession after the owner left
+    const handleRoomOwnerChanged = (data: unknown) => {
+      const event = data as RoomOwnerChangedEvent;
+      setOwnerId(event.ownerId);
+      setUsers(prev =>
+        prev.map(user =>
+          user.id === event.ownerId ? { ...user, role: 'owner' } : user
+        )
+      );
+
+      const isNewOwner = event.ownerId === currentUserRef.current?.id;
+      if (isNewOwner) {
+        requestBans();
+      }
+      setTransientNotice(
+        isNewOwner
+          ? 'You are now the room owner'
+          : `${event.ownerNickname} is now the room owner`
+      );
+      setTimeout(() => setTransientNotice(''), 3000);
+    };
+
+    const handleRoomLockChanged = (data: unknown) => {
+      const event = data as RoomLockChangedEvent;
+      setIsLocked(event.isLocked);
+      setTransientNotice(
+        event.isLocked ? 'Room locked: no new users can join' : 'Room unlocked'
+      );
+      setTimeout(() => setTransientNotice(''), 3000);
+    };
+
+    const handlePinnedMessagesUpdated = (data: unknown) => {
+      const event = data as PinnedMessagesUpdatedEvent;
+      setPinnedMessages(event.pinnedMessages);
+    };
+
+    const handleAnnouncementChanged = (data: unknown) => {
+      const event = data as AnnouncementChangedEvent;
+      setAnnouncement(event.announcement);
+    };
+
+    const handleReadReceipts = (data: unknown) => {
+      const event = data as ReadReceiptsEvent;
+      setReadReceipts(event.receipts);
+    };
+
+    const handleBans = (data: unknown) => {
+      setBans((data as BansListEvent).bans);
+    };
+
+    // Removed by the owner or a moderator: back to the join screen with the
+    // reason, and forget the session so it isn't restored automatically
+    const handleKicked = (data: unknown) => {
+      const event = data as KickedEvent;
+      if (roomId) {
+        userPersistenceService.clearUserSession(roomId);
+      }
+      currentUserRef.current = null;
+      setIsJoined(false);
+      setUsers([]);
+      setMessages([]);
+      setHasMoreMessages(false);
+      setPinnedMessages([]);
+      setAnnouncement(undefined);
+      setReadReceipts([]);
+      setLastReadMessageId(undefined);
+      threadParentIdRef.current = null;
+      setThreadParentId(null);
+      setThreadMessages([]);
+      setTypingUsers([]);
+      setBans([]);
+      setError(
+        `${event.banned ? 'You have been banned from this room' : 'You were removed from the room'}${
+          event.reason ? `: ${event.reason}` : ''
+        }`
+      );
+    };
+
     const handleNewMessage = (message: unknown) => {
       const chatMessage = message as ChatMessage;
       setMessages(prev => [...prev, chatMessage]);
     };
 
+    // Edits, deletions and reactions can target the timeline, the open thread
+    // or the pinned list
+    const updateMessage = (
+      messageId: string,
+      update: (message: ChatMessage) => ChatMessage
+    ) => {
+      const apply = (prev: ChatMessage[]) =>
+        prev.map(m => (m.id === messageId ? update(m) : m));
+      setMessages(apply);
+      setThreadMessages(apply);
+      setPinnedMessages(apply);
+    };
+
+    const handleMessageUpdated = (data: unknown) => {
+      const updated = data as ChatMessage;
+      updateMessage(updated.id, () => updated);
+    };
+
+    // Keep the tombstone in place so the conversation still reads in order
+    const handleMessageDeleted = (data: unknown) => {
+      const event = data as MessageDeletedEvent;
+      updateMessage(event.messageId, m => ({
+        ...m,
+        content: '',
+        deletedAt: event.deletedAt,
+        reactions: undefined,
+        poll: undefined,
+      }));
+    };
+
+    const handleMessageReactionsUpdated = (data: unknown) => {
+      const event = data as MessageReactionsUpdatedEvent;
+      updateMessage(event.messageId, m => ({
+        ...m,
+        reactions: event.reactions,
+      }));
+    };
+
+    const handlePollUpdated = (data: unknown) => {
+      const event = data as PollUpdatedEvent;
+      updateMessage(event.messageId, m => ({ ...m, poll: event.poll }));
+    };
+
+    const handleThreadMessages = (data: unknown) => {
+      const event = data as ThreadMessagesEvent;
+      if (event.parentId === threadParentIdRef.current) {
+        setThreadMessages(event.messages);
+        setIsThreadLoading(false);
+      }
+    };
+
+    // Replies stay out of the timeline: only the parent's metadata changes
+    // there, and the reply is added if its thread is open
+    const handleThreadReply = (data: unknown) => {
+      const event = data as ThreadReplyEvent;
+      const parentId = event.message.parentId;
+      if (!parentId) {
+        return;
+      }
+      updateMessage(parentId, m => ({
+        ...m,
+        replyCount: event.replyCount,
+        lastReplyAt: event.lastReplyAt,
+      }));
+      if (parentId === threadParentIdRef.current) {
+        setThreadMessages(prev =>
+          prev.some(m => m.id === event.message.id)
+            ? prev
+            : [...prev, event.message]
+        );
+      }
+    };
+
+    // A browser notification while the tab is hidden, otherwise a notice
+    const handleMentioned = (data: unknown) => {
+      const { message } = data as MentionedEvent;
+      const title = `${message.nickname} mentioned you`;
+      if (!notifyIfHidden(title, message.content)) {
+        setTransientNotice(title);
+        setTimeout(() => setTransientNotice(''), 3000);
+      }
+    };
+
+    const handleReplyNotification = (data: unknown) => {
+      const event = data as ReplyNotificationEvent;
+      setTransientNotice(`${event.nickname} replied to your message`);
+      setTimeout(() => setTransientNotice(''), 3000);
+    };
+
+    // Older history arrives oldest first; skip anything already shown
+    const handleOlderMessages = (data: unknown) => {
+      const event = data as OlderMessagesEvent;
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        return [...event.messages.filter(m => !known.has(m.id)), ...prev];
+      });
+      setHasMoreMessages(event.hasMore);
+      setIsLoadingOlder(false);
+    };
+
     const handleUserTypingStatus = (status: unknown) => {
       const typingStatus = status as TypingStatus;
       setTypingUsers(prev => {
@@ -268,6 +640,24 @@ const RoomPage: React.FC = () => {
       } else if (err.code === SocketErrorCode.RATE_LIMITED) {
         setTransientNotice(message);
         setTimeout(() => setTransientNotice(''), 3000);
+      } else if (err.code === SocketErrorCode.INVALID_SESSION) {
+        // The stored session can't be restored; rejoin as a new user
+        if (roomId) {
+          userPersistenceService.clearUserSession(roomId);
+        }
+        setError('Your previous session has expired. Please join again.');
+      } else if (err.code === SocketErrorCode.INVALID_PASSCODE) {
+        // Also reached by members whose place in the room lapsed
+        setRequiresPasscode(true);
+        setPasscodeError(message);
+      } else if (err.code === SocketErrorCode.BANNED) {
+        if (roomId) {
+          userPersistenceService.clearUserSession(roomId);
+        }
+        setError(message);
+      } else if (err.code === SocketErrorCode.MESSAGE_NOT_FOUND) {
+        setIsThreadLoading(false);
+        setError(message);
       } else if (err.code === SocketErrorCode.DISCONNECTED) {
         setTransientNotice('Connection lost. Attempting to reconnect...');
       } else {
@@ -303,7 +693,30 @@ const RoomPage: React.FC = () => {
     socketService.on('room-joined', handleRoomJoined);
     socketService.on('user-joined', handleUserJoined);
     socketService.on('user-left', handleUserLeft);
+    socketService.on('user-status-changed', handleUserStatusChanged);
+    socketService.on('user-renamed', handleUserRenamed);
+    socketService.on('presence-changed', handlePresenceChanged);
+    socketService.on('user-role-changed', handleUserRoleChanged);
+    socketService.on('room-owner-changed', handleRoomOwnerChanged);
+    socketService.on('room-lock-changed', handleRoomLockChanged);
+    socketService.on('pinned-messages-updated', handlePinnedMessagesUpdated);
+    socketService.on('announcement-changed', handleAnnouncementChanged);
+    socketService.on('read-receipts', handleReadReceipts);
+    socketService.on('bans', handleBans);
+    socketService.on('kicked', handleKicked);
     socketService.on('new-message', handleNewMessage);
+    socketService.on('message-updated', handleMessageUpdated);
+    socketService.on('message-deleted', handleMessageDeleted);
+    socketService.on(
+      'message-reactions-updated',
+      handleMessageReactionsUpdated
+    );
+    socketService.on('poll-updated', handlePollUpdated);
+    socketService.on('older-messages', handleOlderMessages);
+    socketService.on('thread-messages', handleThreadMessages);
+    socketService.on('thread-reply', handleThreadReply);
+    socketService.on('reply-notification', handleReplyNotification);
+    socketService.on('mentioned', handleMentioned);
     socketService.on('user-typing-status', handleUserTypingStatus);
     socketService.on('user-editing-status', handleUserEditingStatus);
     socketService.on('error', handleError);
@@ -314,7 +727,30 @@ const RoomPage: React.FC = () => {
       socketService.off('room-joined', handleRoomJoined);
       socketService.off('user-joined', handleUserJoined);
       socketService.off('user-left', handleUserLeft);
+      socketService.off('user-status-changed', handleUserStatusChanged);
+      socketService.off('user-renamed', handleUserRenamed);
+      socketService.off('presence-changed', handlePresenceChanged);
+      socketService.off('user-role-changed', handleUserRoleChanged);
+      socketService.off('room-owner-changed', handleRoomOwnerChanged);
+      socketService.off('room-lock-changed', handleRoomLockChanged);
+      socketService.off('pinned-messages-updated', handlePinnedMessagesUpdated);
+      socketService.off('announcement-changed', handleAnnouncementChanged);
+      socketService.off('read-receipts', handleReadReceipts);
+      socketService.off('bans', handleBans);
+      socketService.off('kicked', handleKicked);
       socketService.off('new-message', handleNewMessage);
+      socketService.off('message-updated', handleMessageUpdated);
+      socketService.off('message-deleted', handleMessageDeleted);
+      socketService.off(
+        'message-reactions-updated',
+        handleMessageReactionsUpdated
+      );
+      socketService.off('poll-updated', handlePollUpdated);
+      socketService.off('older-messages', handleOlderMessages);
+      socketService.off('thread-messages', handleThreadMessages);
+      socketService.off('thread-reply', handleThreadReply);
+      socketService.off('reply-notification', handleReplyNotification);
+      socketService.off('mentioned', handleMentioned);
       socketService.off('user-typing-status', handleUserTypingStatus);
       socketService.off('user-editing-status', handleUserEditingStatus);
       socketService.off('error', handleError);
@@ -338,6 +774,7 @@ const RoomPage: React.FC = () => {
     };
 
     const handleVisibilityChange = () => {
+      setIsPageVisible(document.visibilityState !== 'hidden');
       if (document.visibilityState === 'hidden') {
         // Page is hidden (tab switched, minimized, etc.)
         // Update last activity timestamp to keep session fresh
@@ -359,6 +796,98 @@ const RoomPage: React.FC = () => {
     };
   }, [isJoined, messages.length]);
 
+  // Report presence while in the room; any input on the page counts as
+  // activity (the editor reports its own as well)
+  useEffect(() => {
+    if (!isJoined) {
+      return;
+    }
+
+    const stopPresence = presenceService.start();
+    const handleInput = () => presenceService.recordInput();
+    const inputEvents = ['keydown', 'pointerdown', 'pointermove', 'wheel'];
+    for (const event of inputEvents) {
+      window.addEventListener(event, handleInput, { passive: true });
+    }
+
+    return () => {
+      stopPresence();
+      for (const event of inputEvents) {
+        window.removeEventListener(event, handleInput);
+      }
+    };
+  }, [isJoined]);
+
+  // Mark the latest message as read whenever the chat is in front of the user
+  const latestMessageId =
+    messages.length > 0 ? messages[messages.length - 1].id : undefined;
+  const isChatVisible = mode === 'chat' || isSidebarChatVisible;
+  useEffect(() => {
+    if (
+      !isJoined ||
+      !roomId ||
+      !isChatVisible ||
+      !isPageVisible ||
+      !latestMessageId ||
+      latestMessageId === lastReadMessageId
+    ) {
+      return;
+    }
+
+    setLastReadMessageId(latestMessageId);
+    userPersistenceService.setLastReadMessageId(roomId, latestMessageId);
+    try {
+      socketService.markRead(latestMessageId);
+    } catch (err) {
+      logger.error('Failed to mark messages as read', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+      });
+    }
+  }, [
+    isJoined,
+    roomId,
+    isChatVisible,
+    isPageVisible,
+    latestMessageId,
+    lastReadMessageId,
+  ]);
+
+  // Load older pages until the message picked from search results is in the
+  // timeline, then highlight it
+  useEffect(() => {
+    if (!pendingJump || isLoadingOlder) {
+      return;
+    }
+
+    const { messageId, timestamp } = pendingJump;
+    const isPastMessage =
+      timestamp !== undefined &&
+      messages.length > 0 &&
+      new Date(messages[0].timestamp).getTime() < new Date(timestamp).getTime();
+
+    if (messages.some(m => m.id === messageId)) {
+      setHighlightedMessageId(messageId);
+      setPendingJump(null);
+    } else if (hasMoreMessages && messages.length > 0 && !isPastMessage) {
+      try {
+        setIsLoadingOlder(true);
+        socketService.loadOlderMessages(messages[0].id);
+      } catch (err) {
+        setIsLoadingOlder(false);
+        setPendingJump(null);
+        logger.error('Failed to load older messages', {
+          error: err instanceof Error ? err.message : String(err),
+          roomId,
+        });
+      }
+    } else {
+      // Deleted, or no longer in the retained history
+      setPendingJump(null);
+      setError('That message is no longer available');
+    }
+  }, [pendingJump, isLoadingOlder, hasMoreMessages, messages, roomId]);
+
   // Nickname validation
   const validateNicknameInput = useCallback((value: string) => {
     const validation = validateNickname(value);
@@ -391,9 +920,20 @@ const RoomPage: React.FC = () => {
       return;
     }
 
+    if (requiresPasscode) {
+      const passcodeValidation = validatePasscode(passcode);
+      if (!passcodeValidation.isValid) {
+        setPasscodeError(passcodeValidation.error ?? 'Invalid passcode');
+        return;
+      }
+    }
+
     setIsConnecting(true);
     setError('');
     setNicknameError('');
+    setPasscodeError('');
+    // Joining is a user action, so the browser will show the prompt
+    requestNotificationPermission();
 
     try {
       if (!socketService.isConnected()) {
@@ -401,11 +941,12 @@ const RoomPage: React.FC = () => {
       }
 
       // This is for new users or users with expired sessions
-      // No stored userId should be used here - let backend generate a new one
+      // No stored session token should be used here - let backend generate a new user
       socketService.joinRoom(
         roomId,
         sanitizedNickname,
-        undefined // Always undefined for manual joins
+        undefined, // Always undefined for manual joins
+        requiresPasscode ? passcode : undefined
       );
     } catch (err) {
       setError('Failed to connect to server');
@@ -418,9 +959,9 @@ const RoomPage: React.FC = () => {
     }
   };
 
-  const handleSendMessage = (content: string) => {
+  const handleSendMessage = (content: string, attachmentIds?: string[]) => {
     try {
-      socketService.sendMessage(content);
+      socketService.sendMessage(content, undefined, attachmentIds);
       // Update activity timestamp to keep session fresh
       userPersistenceService.updateLastActivity();
     } catch (err) {
@@ -433,6 +974,154 @@ const RoomPage: React.FC = () => {
     }
   };
 
+  const handleEditMessage = (messageId: string, content: string) => {
+    try {
+      socketService.editMessage(messageId, content);
+    } catch (err) {
+      setError('Failed to edit message');
+      logger.error('Failed to edit message', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  const handleDeleteMessage = (messageId: string) => {
+    try {
+      socketService.deleteMessage(messageId);
+    } catch (err) {
+      setError('Failed to delete message');
+      logger.error('Failed to delete message', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  const handleOpenThread = (messageId: string) => {
+    threadParentIdRef.current = messageId;
+    setThreadParentId(messageId);
+    setThreadMessages([]);
+    setIsThreadLoading(true);
+    try {
+      socketService.loadThread(messageId);
+    } catch (err) {
+      setIsThreadLoading(false);
+      logger.error('Failed to load thread', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  const handleCloseThread = () => {
+    threadParentIdRef.current = null;
+    setThreadParentId(null);
+    setThreadMessages([]);
+    setIsThreadLoading(false);
+  };
+
+  const handleSendReply = (content: string, attachmentIds?: string[]) => {
+    if (!threadParentId) {
+      return;
+    }
+    try {
+      socketService.sendMessage(content, threadParentId, attachmentIds);
+      userPersistenceService.updateLastActivity();
+    } catch (err) {
+      setError('Failed to send reply');
+      logger.error('Failed to send reply', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        parentId: threadParentId,
+      });
+    }
+  };
+
+  // Authenticates REST requests made as the current user
+  const getSessionToken = () =>
+    roomId
+      ? userPersistenceService.getUserSession(roomId)?.sessionToken
+      : undefined;
+
+  // Errors are shown by ChatArea next to the input
+  const handleUploadAttachment = (file: File): Promise<Attachment> => {
+    const sessionToken = getSessionToken();
+    if (!roomId || !sessionToken) {
+      return Promise.reject(new Error('Join the room before uploading files'));
+    }
+    return apiService.uploadAttachment(roomId, file, sessionToken);
+  };
+
+  // Errors are shown by MessageSearch under the search box
+  const handleSearchMessages = (
+    query: string
+  ): Promise<MessageSearchResult[]> => {
+    const sessionToken = getSessionToken();
+    if (!roomId || !sessionToken) {
+      return Promise.reject(
+        new Error('Join the room before searching messages')
+      );
+    }
+    return apiService.searchMessages(roomId, query, sessionToken);
+  };
+
+  // Replies are shown through their parent with the thread open, which needs
+  // chat mode. A parent can be older than its reply, so only a top-level
+  // message's own time stops the paging early
+  const handleJumpToMessage = (message: ChatMessage) => {
+    if (message.parentId) {
+      setMode('chat');
+      handleOpenThread(message.parentId);
+    }
+    setHighlightedMessageId(undefined);
+    setPendingJump(
+      message.parentId
+        ? { messageId: message.parentId }
+        : { messageId: message.id, timestamp: message.timestamp }
+    );
+  };
+
+  const getAttachmentUrl = (attachmentId: string, download?: boolean) =>
+    apiService.getAttachmentUrl(
+      roomId ?? '',
+      attachmentId,
+      getSessionToken() ?? '',
+      download
+    );
+
+  const handleReactToMessage = (messageId: string, emoji: string) => {
+    try {
+      socketService.reactToMessage(messageId, emoji);
+    } catch (err) {
+      logger.error('Failed to react to message', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  const handleLoadOlderMessages = () => {
+    if (messages.length === 0 || !hasMoreMessages || isLoadingOlder) {
+      return;
+    }
+
+    try {
+      setIsLoadingOlder(true);
+      socketService.loadOlderMessages(messages[0].id);
+    } catch (err) {
+      setIsLoadingOlder(false);
+      logger.error('Failed to load older messages', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+      });
+    }
+  };
+
   const handleTypingChange = (isTyping: boolean) => {
     try {
       socketService.sendTypingStatus(isTyping);
@@ -445,6 +1134,170 @@ const RoomPage: React.FC = () => {
     }
   };
 
+  const handleChangeRole = (userId: string, role: AssignableRole) => {
+    try {
+      socketService.setUserRole(userId, role);
+    } catch (err) {
+      logger.error('Failed to change user role', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        userId,
+        role,
+      });
+    }
+  };
+
+  const handleTransferOwnership = (userId: string) => {
+    try {
+      socketService.transferOwnership(userId);
+    } catch (err) {
+      logger.error('Failed to transfer ownership', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        userId,
+      });
+    }
+  };
+
+  const handleToggleLock = () => {
+    try {
+      socketService.setRoomLocked(!isLocked);
+    } catch (err) {
+      logger.error('Failed to change room lock', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+      });
+    }
+  };
+
+  const handlePinMessage = (messageId: string, pinned: boolean) => {
+    try {
+      if (pinned) {
+        socketService.pinMessage(messageId);
+      } else {
+        socketService.unpinMessage(messageId);
+      }
+    } catch (err) {
+      logger.error('Failed to change pinned message', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  const handleCreatePoll = (poll: CreatePollRequest) => {
+    try {
+      socketService.createPoll(poll);
+    } catch (err) {
+      logger.error('Failed to create poll', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+      });
+    }
+  };
+
+  const handleVotePoll = (messageId: string, optionIds: string[]) => {
+    try {
+      socketService.votePoll(messageId, optionIds);
+    } catch (err) {
+      logger.error('Failed to vote in poll', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  const handleClosePoll = (messageId: string) => {
+    try {
+      socketService.closePoll(messageId);
+    } catch (err) {
+      logger.error('Failed to close poll', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        messageId,
+      });
+    }
+  };
+
+  // /clear only empties this tab's view of the chat
+  const handleRunCommand = (command: string, args: string) => {
+    if (command === 'clear') {
+      setMessages([]);
+      setHasMoreMessages(false);
+      return;
+    }
+
+    try {
+      socketService.runCommand(command, args);
+    } catch (err) {
+      logger.error('Failed to run command', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        command,
+      });
+    }
+  };
+
+  const handleChangeNickname = (newNickname: string) => {
+    try {
+      socketService.changeNickname(newNickname);
+    } catch (err) {
+      logger.error('Failed to change nickname', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+      });
+    }
+  };
+
+  const handleSetAnnouncement = (text: string) => {
+    try {
+      socketService.setAnnouncement(text);
+    } catch (err) {
+      logger.error('Failed to set announcement', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+      });
+    }
+  };
+
+  const handleKickUser = (userId: string, reason?: string) => {
+    try {
+      socketService.kickUser(userId, reason);
+    } catch (err) {
+      logger.error('Failed to kick user', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        userId,
+      });
+    }
+  };
+
+  const handleBanUser = (userId: string, reason?: string) => {
+    try {
+      socketService.banUser(userId, reason);
+    } catch (err) {
+      logger.error('Failed to ban user', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        userId,
+      });
+    }
+  };
+
+  const handleUnbanUser = (userId: string) => {
+    try {
+      socketService.unbanUser(userId);
+    } catch (err) {
+      logger.error('Failed to revoke ban', {
+        error: err instanceof Error ? err.message : String(err),
+        roomId,
+        userId,
+      });
+    }
+  };
+
   const handleLeaveRoom = () => {
     // Mark session as intentionally ended before clearing
     userPersistenceService.markSessionAsEnded();
@@ -521,6 +1374,44 @@ const RoomPage: React.FC = () => {
               </p>
             </div>
 
+            {requiresPasscode && (
+              <div>
+                <label
+                  htmlFor='passcode'
+                  className='block text-sm font-medium text-gray-700 mb-2'
+                >
+                  Room passcode:
+                </label>
+                <input
+                  type='password'
+                  id='passcode'
+                  value={passcode}
+                  onChange={e => {
+                    setPasscode(e.target.value);
+                    setPasscodeError('');
+                  }}
+                  onKeyPress={e => e.key === 'Enter' && void handleJoinRoom()}
+                  placeholder='Enter the passcode you were given'
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 ${
+                    passcodeError
+                      ? 'border-red-300 focus:ring-red-500'
+                      : 'border-gray-300 focus:ring-blue-500'
+                  }`}
+                  maxLength={VALIDATION_RULES.passcode.maxLength}
+                  disabled={isConnecting}
+                />
+                {passcodeError && (
+                  <p className='mt-1 text-sm text-red-600'>{passcodeError}</p>
+                )}
+              </div>
+            )}
+
+            {isLocked && (
+              <p className='text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-2'>
+                This room is locked. New users cannot join right now.
+              </p>
+            )}
+
             <button
               onClick={() => void handleJoinRoom()}
               disabled={!nickname.trim() || !isNicknameValid || isConnecting}
@@ -549,6 +1440,35 @@ const RoomPage: React.FC = () => {
     );
   }
 
+  // Viewers get read-only chat and editor; the server enforces this too
+  const currentRole = users.find(
+    u => u.id === currentUserRef.current?.id
+  )?.role;
+  const isViewer = currentRole === 'viewer';
+  const isModerator = currentRole === 'owner' || currentRole === 'moderator';
+
+  // Messages from others after the last one read; all loaded ones when the
+  // last read message is older than the loaded history
+  const lastReadIndex = messages.findIndex(m => m.id === lastReadMessageId);
+  const unreadCount = messages
+    .slice(lastReadIndex + 1)
+    .filter(
+      m => m.userId !== currentUserRef.current?.id && !m.deletedAt
+    ).length;
+
+  // Who else has read up to the latest message
+  const latestMessage =
+    messages.length > 0 ? messages[messages.length - 1] : undefined;
+  const seenBy = readReceipts
+    .filter(
+      receipt =>
+        receipt.messageId === latestMessage?.id &&
+        receipt.userId !== latestMessage.userId &&
+        receipt.userId !== currentUserRef.current?.id
+    )
+    .map(receipt => users.find(u => u.id === receipt.userId)?.nickname)
+    .filter((name): name is string => name !== undefined);
+
   return (
     <div className='h-screen bg-gray-50 flex flex-col'>
       {transientNotice && (
@@ -561,7 +1481,14 @@ const RoomPage: React.FC = () => {
           <div>
             <h1 className='text-xl font-semibold text-gray-900'>kuikui</h1>
             <div className='flex items-center group'>
-              <p className='text-sm text-gray-600'>Room: {roomId}</p>
+              <p className='text-sm text-gray-600' title={roomId}>
+                Room: {roomName ?? roomId}
+              </p>
+              {isLocked && (
+                <span className='ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full font-medium'>
+                  locked
+                </span>
+              )}
               <button
                 onClick={() => void handleCopyRoomId()}
                 className='ml-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 rounded hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
@@ -616,6 +1543,14 @@ const RoomPage: React.FC = () => {
                 }`}
               >
                 Chat
+                {mode === 'editor' && unreadCount > 0 && (
+                  <span
+                    className='ml-1.5 px-1.5 py-0.5 bg-red-500 text-white text-xs rounded-full'
+                    title={`${unreadCount} unread messages`}
+                  >
+                    {unreadCount > 9 ? '9+' : unreadCount}
+                  </span>
+                )}
               </button>
               <button
                 onClick={() => setMode('editor')}
@@ -629,6 +1564,21 @@ const RoomPage: React.FC = () => {
               </button>
             </div>
 
+            {currentRole === 'owner' && (
+              <button
+                onClick={handleToggleLock}
+                className='px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 transition duration-200'
+                aria-pressed={isLocked}
+                title={
+                  isLocked
+                    ? 'Allow new users to join'
+                    : 'Stop new users from joining'
+                }
+              >
+                {isLocked ? 'Unlock Room' : 'Lock Room'}
+              </button>
+            )}
+
             <button
               onClick={handleLeaveRoom}
               className='px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-md transition duration-200 focus:outline-none focus:ring-2 focus:ring-red-500'
@@ -639,6 +1589,11 @@ const RoomPage: React.FC = () => {
         </div>
       </header>
 
+      <AnnouncementBanner
+        announcement={announcement}
+        onSave={isModerator ? handleSetAnnouncement : undefined}
+      />
+
       <div className='flex-1 flex overflow-hidden'>
         {mode === 'chat' ? (
           <>
@@ -647,21 +1602,119 @@ const RoomPage: React.FC = () => {
               typingUsers={typingUsers}
               currentUserId={currentUserRef.current?.id}
               ownerId={ownerId}
+              onChangeRole={handleChangeRole}
+              onTransferOwnership={handleTransferOwnership}
+              onKick={handleKickUser}
+              onBan={handleBanUser}
+              bans={bans}
+              onUnban={handleUnbanUser}
+              onRename={handleChangeNickname}
             />
-            <ChatArea
-              messages={messages}
-              onSendMessage={handleSendMessage}
-              onTypingChange={handleTypingChange}
-            />
+            <div className='flex-1 flex flex-col min-w-0'>
+              <MessageSearch
+                onSearch={handleSearchMessages}
+                onSelectResult={handleJumpToMessage}
+              />
+              {pinnedMessages.length > 0 && (
+                <details className='border-b border-gray-200 bg-white'>
+                  <summary className='px-3 py-2 text-sm font-medium text-gray-700 cursor-pointer'>
+                    Pinned messages ({pinnedMessages.length})
+                  </summary>
+                  <div className='max-h-64 overflow-y-auto'>
+                    <PinnedMessages
+                      messages={pinnedMessages}
+                      currentUserId={currentUserRef.current?.id}
+                      onSelect={handleJumpToMessage}
+                      onUnpin={
+                        isModerator
+                          ? messageId => handlePinMessage(messageId, false)
+                          : undefined
+                      }
+                      getAttachmentUrl={getAttachmentUrl}
+                    />
+                  </div>
+                </details>
+              )}
+              <ChatArea
+                messages={messages}
+                onSendMessage={handleSendMessage}
+                onTypingChange={handleTypingChange}
+                readOnly={isViewer}
+                hasMoreMessages={hasMoreMessages}
+                isLoadingOlder={isLoadingOlder}
+                onLoadOlder={handleLoadOlderMessages}
+                currentUserId={currentUserRef.current?.id}
+                canDeleteAny={isModerator}
+                onEditMessage={handleEditMessage}
+                onDeleteMessage={handleDeleteMessage}
+                onReact={handleReactToMessage}
+                onOpenThread={handleOpenThread}
+                mentionableUsers={users}
+                onUploadAttachment={handleUploadAttachment}
+                getAttachmentUrl={getAttachmentUrl}
+                highlightedMessageId={highlightedMessageId}
+                pinnedMessageIds={pinnedMessages.map(message => message.id)}
+                onPinMessage={isModerator ? handlePinMessage : undefined}
+                seenBy={seenBy}
+                onCreatePoll={handleCreatePoll}
+                onVotePoll={handleVotePoll}
+                onClosePoll={handleClosePoll}
+                canCloseAnyPoll={currentRole === 'owner'}
+                onRunCommand={handleRunCommand}
+              />
+            </div>
+            {threadParentId && (
+              <ThreadPanel
+                parent={messages.find(m => m.id === threadParentId)}
+                replies={threadMessages}
+                isLoading={isThreadLoading}
+                onSendReply={handleSendReply}
+                onTypingChange={handleTypingChange}
+                onClose={handleCloseThread}
+                readOnly={isViewer}
+                currentUserId={currentUserRef.current?.id}
+                canDeleteAny={isModerator}
+                onEditMessage={handleEditMessage}
+                onDeleteMessage={handleDeleteMessage}
+                onReact={handleReactToMessage}
+                mentionableUsers={users}
+                onUploadAttachment={handleUploadAttachment}
+                getAttachmentUrl={getAttachmentUrl}
+              />
+            )}
           </>
         ) : (
           <EditorWorkspace
             documentId={roomId || 'default'}
+            roomName={roomName}
             users={users}
             currentUserId={currentUserRef.current?.id}
             onlineUsers={users.filter(user => user.isOnline)}
             messages={messages}
             onSendMessage={handleSendMessage}
+            hasMoreMessages={hasMoreMessages}
+            isLoadingOlder={isLoadingOlder}
+            onLoadOlder={handleLoadOlderMessages}
+            canDeleteAny={isModerator}
+            onEditMessage={handleEditMessage}
+            onDeleteMessage={handleDeleteMessage}
+            onReact={handleReactToMessage}
+            onUploadAttachment={handleUploadAttachment}
+            getAttachmentUrl={getAttachmentUrl}
+            onSearchMessages={handleSearchMessages}
+            onJumpToMessage={handleJumpToMessage}
+            highlightedMessageId={highlightedMessageId}
+            pinnedMessages={pinnedMessages}
+            onPinMessage={isModerator ? handlePinMessage : undefined}
+            seenBy={seenBy}
+            onCreatePoll={handleCreatePoll}
+            onVotePoll={handleVotePoll}
+            onClosePoll={handleClosePoll}
+            canCloseAnyPoll={currentRole === 'owner'}
+            onRunCommand={handleRunCommand}
+            unreadCount={unreadCount}
+            onChatVisibilityChange={setIsSidebarChatVisible}
+            readOnly={isViewer}
             className='w-full'
           />
         )}
@@ -5,12 +5,18 @@ import { BrowserRouter } from 'react-router-dom';
 import HomePage from '../HomePage';
 import * as apiService from '../../services/apiService';
 
-// Mock the API service
-vi.mock('../../services/apiService', () => ({
-  apiService: {
-    createRoom: vi.fn(),
-  },
-}));
+// Mock the API service (keeping the real ApiError class)
+vi.mock('../../services/apiService', async () => {
+  const actual = await vi.importActual<
+    typeof import('../../services/apiService')
+  >('../../services/apiService');
+  return {
+    ApiError: actual.ApiError,
+    apiService: {
+      createRoom: vi.fn(),
+    },
+  };
+});
 
 // Mock useNavigate
 const mockNavigate = vi.fn();
@@ -159,6 +165,125 @@ describe('HomePage', () => {
     });
   });
 
+  describe('Room Name and Link', () => {
+    it('should send the room name and custom link', async () => {
+      const mockCreateRoom = vi
+        .spyOn(apiService.apiService, 'createRoom')
+        .mockResolvedValue({
+          roomId: 'test-room-id',
+          roomLink: 'http://localhost:5173/room/sprint-42-retro',
+          name: 'Sprint 42 Retro',
+          slug: 'sprint-42-retro',
+        });
+
+      const user = userEvent.setup();
+      renderHomePage();
+
+      await user.type(screen.getByLabelText(/room name/i), 'Sprint 42 Retro');
+      await user.type(screen.getByLabelText(/custom link/i), 'Sprint-42-Retro');
+      await user.click(
+        screen.getByRole('button', { name: /create new room/i })
+      );
+
+      await waitFor(() => {
+        expect(mockCreateRoom).toHaveBeenCalledWith({
+          name: 'Sprint 42 Retro',
+          slug: 'sprint-42-retro',
+        });
+      });
+      expect(await screen.findByText('Sprint 42 Retro')).toBeInTheDocument();
+    });
+
+    it('should send an optional passcode and remind to share it', async () => {
+      const mockCreateRoom = vi
+        .spyOn(apiService.apiService, 'createRoom')
+        .mockResolvedValue({
+          roomId: 'test-room-id',
+          roomLink: 'http://localhost:5173/room/test-room-id',
+          requiresPasscode: true,
+        });
+
+      const user = userEvent.setup();
+      renderHomePage();
+
+      await user.type(screen.getByLabelText(/passcode/i), 'let-me-in');
+      await user.click(
+        screen.getByRole('button', { name: /create new room/i })
+      );
+
+      await waitFor(() => {
+        expect(mockCreateRoom).toHaveBeenCalledWith({
+          name: undefined,
+          slug: undefined,
+          passcode: 'let-me-in',
+        });
+      });
+      expect(
+        await screen.findByText(/Share the passcode separately/)
+      ).toBeInTheDocument();
+    });
+
+    it('should validate the passcode before calling the API', async () => {
+      const mockCreateRoom = vi.spyOn(apiService.apiService, 'createRoom');
+
+      const user = userEvent.setup();
+      renderHomePage();
+
+      await user.type(screen.getByLabelText(/passcode/i), 'abc');
+      await user.click(
+        screen.getByRole('button', { name: /create new room/i })
+      );
+
+      expect(screen.getByText(/Passcode must be/)).toBeInTheDocument();
+      expect(mockCreateRoom).not.toHaveBeenCalled();
+    });
+
+    it('should suggest a link based on the room name', async () => {
+      const user = userEvent.setup();
+      renderHomePage();
+
+      await user.type(screen.getByLabelText(/room name/i), 'Design Review!');
+
+      expect(screen.getByLabelText(/custom link/i)).toHaveAttribute(
+        'placeholder',
+        'design-review'
+      );
+    });
+
+    it('should validate the custom link before calling the API', async () => {
+      const mockCreateRoom = vi.spyOn(apiService.apiService, 'createRoom');
+
+      const user = userEvent.setup();
+      renderHomePage();
+
+      await user.type(screen.getByLabelText(/custom link/i), 'no spaces');
+      await user.click(
+        screen.getByRole('button', { name: /create new room/i })
+      );
+
+      expect(screen.getByText(/Room URL must be/)).toBeInTheDocument();
+      expect(mockCreateRoom).not.toHaveBeenCalled();
+    });
+
+    it('should show the server message when the link is taken', async () => {
+      vi.spyOn(apiService.apiService, 'createRoom').mockRejectedValue(
+        new apiService.ApiError('This room URL is already taken', 409)
+      );
+
+      const user = userEvent.setup();
+      renderHomePage();
+
+      await user.type(screen.getByLabelText(/custom link/i), 'weekly-sync');
+      await user.click(
+        screen.getByRole('button', { name: /create new room/i })
+      );
+
+      expect(
+        await screen.findByText('This room URL is already taken')
+      ).toBeInTheDocument();
+    });
+  });
+
   describe('Join Room Functionality', () => {
     it('should open prompt when join button is clicked', async () => {
       const mockPrompt = vi.spyOn(window, 'prompt').mockReturnValue(null);
@@ -201,7 +326,7 @@ describe('HomePage', () => {
     it('should display error for invalid room ID', async () => {
       const mockPrompt = vi
         .spyOn(window, 'prompt')
-        .mockReturnValue('invalid-id');
+        .mockReturnValue('invalid room id');
 
       const user = userEvent.setup();
       renderHomePage();
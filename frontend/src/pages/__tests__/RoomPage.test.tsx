@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import {
+  render,
+  screen,
+  waitFor,
+  fireEvent,
+  act,
+} from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import RoomPage from '../RoomPage';
 import * as apiService from '../../services/apiService';
@@ -22,6 +28,8 @@ vi.mock('../../services/socketService', () => ({
     sendMessage: vi.fn(),
     sendTypingStatus: vi.fn(),
     isConnected: vi.fn(),
+    loadOlderMessages: vi.fn(),
+    loadThread: vi.fn(),
     on: vi.fn(),
     off: vi.fn(),
   },
@@ -48,21 +56,42 @@ vi.mock('../../components/UserList', () => ({
 }));
 
 vi.mock('../../components/ChatArea', () => ({
-  default: ({ messages, onSendMessage }: any) => (
+  default: ({ messages, onSendMessage, highlightedMessageId }: any) => (
     <div data-testid='chat-area'>
       <div data-testid='messages'>
         {messages.map((m: any) => (
           <div key={m.id}>{m.content}</div>
         ))}
       </div>
+      <div data-testid='highlighted'>{highlightedMessageId}</div>
       <button onClick={() => onSendMessage('test message')}>Send</button>
     </div>
   ),
 }));
 
+// Search results picked in the tests below
+let searchResult: any;
+
+vi.mock('../../components/MessageSearch', () => ({
+  default: ({ onSelectResult }: any) => (
+    <button onClick={() => onSelectResult(searchResult)}>Chat result</button>
+  ),
+}));
+
+vi.mock('../../components/ThreadPanel', () => ({
+  default: ({ parent }: any) => (
+    <div data-testid='thread-panel'>Thread: {parent?.content}</div>
+  ),
+}));
+
 vi.mock('../../components/EditorWorkspace', () => ({
-  default: ({ documentId }: any) => (
-    <div data-testid='editor-workspace'>Editor: {documentId}</div>
+  default: ({ documentId, onJumpToMessage }: any) => (
+    <div data-testid='editor-workspace'>
+      Editor: {documentId}
+      <button onClick={() => onJumpToMessage(searchResult)}>
+        Editor result
+      </button>
+    </div>
   ),
 }));
 
@@ -91,7 +120,9 @@ const renderRoomPage = () => {
 describe('RoomPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    (apiService.apiService.checkRoomExists as any).mockResolvedValue(true);
+    vi.mocked(apiService.apiService.checkRoomExists).mockResolvedValue({
+      exists: true,
+    });
     (socketService.socketService.isConnected as any).mockReturnValue(false);
     (
       userPersistenceService.userPersistenceService.getUserSession as any
@@ -151,6 +182,161 @@ describe('RoomPage', () => {
     });
   });
 
+  describe('Passcode and Lock', () => {
+    it('should only ask for a passcode when the room requires one', async () => {
+      renderRoomPage();
+
+      await waitFor(() => {
+        expect(
+          screen.queryByLabelText(/Choose a nickname/i)
+        ).toBeInTheDocument();
+      });
+      expect(screen.queryByLabelText(/Room passcode/i)).not.toBeInTheDocument();
+    });
+
+    it('should send the passcode when joining', async () => {
+      vi.mocked(apiService.apiService.checkRoomExists).mockResolvedValue({
+        exists: true,
+        requiresPasscode: true,
+      });
+      vi.mocked(socketService.socketService.connect).mockResolvedValue(
+        undefined
+      );
+
+      renderRoomPage();
+
+      const passcodeInput = await screen.findByLabelText(/Room passcode/i);
+      fireEvent.change(screen.getByLabelText(/Choose a nickname/i), {
+        target: { value: 'Alice' },
+      });
+      fireEvent.change(passcodeInput, { target: { value: 'let-me-in' } });
+      fireEvent.click(screen.getByRole('button', { name: /Join Room/i }));
+
+      await waitFor(() => {
+        expect(socketService.socketService.joinRoom).toHaveBeenCalledWith(
+          mockRoomId,
+          'Alice',
+          undefined,
+          'let-me-in'
+        );
+      });
+    });
+
+    it('should not join without a valid passcode', async () => {
+      vi.mocked(apiService.apiService.checkRoomExists).mockResolvedValue({
+        exists: true,
+        requiresPasscode: true,
+      });
+
+      renderRoomPage();
+
+      await screen.findByLabelText(/Room passcode/i);
+      fireEvent.change(screen.getByLabelText(/Choose a nickname/i), {
+        target: { value: 'Alice' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: /Join Room/i }));
+
+      expect(
+        await screen.findByText('Passcode is required')
+      ).toBeInTheDocument();
+      expect(socketService.socketService.joinRoom).not.toHaveBeenCalled();
+    });
+
+    it('should tell users when the room is locked', async () => {
+      vi.mocked(apiService.apiService.checkRoomExists).mockResolvedValue({
+        exists: true,
+        isLocked: true,
+      });
+
+      renderRoomPage();
+
+      expect(
+        await screen.findByText(/This room is locked/)
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe('Jumping to Messages', () => {
+    const message = (id: string, time: string, parentId?: string) => ({
+      id,
+      userId: 'user-2',
+      nickname: 'Bob',
+      content: `Message ${id}`,
+      timestamp: new Date(`2024-01-01T${time}:00Z`),
+      parentId,
+    });
+
+    const emit = (event: string, data: unknown) => {
+      const handler = vi
+        .mocked(socketService.socketService.on)
+        .mock.calls.filter(([name]) => name === event)
+        .pop()?.[1];
+      act(() => handler?.(data));
+    };
+
+    const joinRoom = async (messages: unknown[], hasMoreMessages: boolean) => {
+      vi.mocked(socketService.socketService.connect).mockResolvedValue(
+        undefined
+      );
+      renderRoomPage();
+
+      fireEvent.change(await screen.findByLabelText(/Choose a nickname/i), {
+        target: { value: 'Alice' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: /Join Room/i }));
+      await waitFor(() => {
+        expect(socketService.socketService.joinRoom).toHaveBeenCalled();
+      });
+
+      emit('room-joined', {
+        success: true,
+        userId: 'user-1',
+        users: [{ id: 'user-1', nickname: 'Alice', role: 'member' }],
+        messages,
+        hasMoreMessages,
+      });
+      await screen.findByTestId('chat-area');
+    };
+
+    it('should open the thread of a reply picked in editor mode', async () => {
+      await joinRoom([message('parent', '12:00')], false);
+      searchResult = message('reply', '13:00', 'parent');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Editor' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Editor result' }));
+
+      expect(socketService.socketService.loadThread).toHaveBeenCalledWith(
+        'parent'
+      );
+      expect(await screen.findByTestId('thread-panel')).toHaveTextContent(
+        'Message parent'
+      );
+      expect(screen.getByTestId('highlighted')).toHaveTextContent('parent');
+    });
+
+    it('should stop loading older pages once past the picked message', async () => {
+      await joinRoom([message('newest', '12:00')], true);
+      searchResult = message('deleted', '11:00');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Chat result' }));
+      expect(
+        socketService.socketService.loadOlderMessages
+      ).toHaveBeenCalledWith('newest');
+
+      emit('older-messages', {
+        messages: [message('oldest', '10:00')],
+        hasMore: true,
+      });
+
+      expect(
+        await screen.findByText('That message is no longer available')
+      ).toBeInTheDocument();
+      expect(
+        socketService.socketService.loadOlderMessages
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Service Integration', () => {
     it('should check for stored user session', async () => {
       renderRoomPage();
@@ -177,7 +363,9 @@ describe('RoomPage', () => {
     });
 
     it('should show error when room does not exist', async () => {
-      (apiService.apiService.checkRoomExists as any).mockResolvedValue(false);
+      vi.mocked(apiService.apiService.checkRoomExists).mockResolvedValue({
+        exists: false,
+      });
 
       renderRoomPage();
 
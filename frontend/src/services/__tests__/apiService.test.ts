@@ -10,7 +10,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { apiService } from '../apiService';
+import { apiService, ApiError } from '../apiService';
 
 // Mock fetch globally for testing HTTP requests
 const mockFetch = vi.fn();
@@ -81,10 +81,156 @@ describe('ApiService', () => {
 
       await expect(apiService.createRoom()).rejects.toThrow('Invalid JSON');
     });
+
+    it('should send the room name and slug when provided', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ roomId: 'id', roomLink: 'link' }),
+      });
+
+      await apiService.createRoom({ name: 'Retro', slug: 'retro' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/create-room',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name: 'Retro', slug: 'retro' }),
+        }
+      );
+    });
+
+    it('should surface the server error message with its status', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        json: async () => ({ error: 'This room URL is already taken' }),
+      });
+
+      const error = await apiService.createRoom({ slug: 'retro' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toBe('This room URL is already taken');
+      expect(error.status).toBe(409);
+    });
+  });
+
+  describe('attachments', () => {
+    it('should upload the file with the session token', async () => {
+      const attachment = {
+        id: 'attachment-1',
+        name: 'shot 1.png',
+        mimeType: 'image/png',
+        size: 3,
+        uploadedBy: 'user-1',
+        uploadedAt: '2025-10-28T10:00:00.000Z',
+      };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ attachment }),
+      });
+      const file = new File(['png'], 'shot 1.png', { type: 'image/png' });
+
+      const result = await apiService.uploadAttachment('room-1', file, 'token');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/room/room-1/attachments',
+        {
+          method: 'POST',
+          headers: {
+            Authorization: 'Bearer token',
+            'Content-Type': 'image/png',
+            'X-File-Name': 'shot%201.png',
+          },
+          body: file,
+        }
+      );
+      expect(result).toEqual(attachment);
+    });
+
+    it('should surface the server error for rejected uploads', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 415,
+        json: async () => ({ error: 'This file type is not allowed' }),
+      });
+      const file = new File(['<svg/>'], 'a.svg', { type: 'image/svg+xml' });
+
+      const error = await apiService
+        .uploadAttachment('room-1', file, 'token')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toBe('This file type is not allowed');
+      expect(error.status).toBe(415);
+    });
+
+    it('should build inline and download URLs with the session token', () => {
+      expect(
+        apiService.getAttachmentUrl('room-1', 'attachment-1', 'a.b+c')
+      ).toBe(
+        'http://localhost:3001/api/room/room-1/attachments/attachment-1?token=a.b%2Bc'
+      );
+      expect(
+        apiService.getAttachmentUrl('room-1', 'attachment-1', 'token', true)
+      ).toBe(
+        'http://localhost:3001/api/room/room-1/attachments/attachment-1?token=token&download=1'
+      );
+    });
+  });
+
+  describe('searchMessages', () => {
+    it('should search with the session token', async () => {
+      const results = [
+        {
+          message: {
+            id: 'msg-1',
+            userId: 'user-1',
+            nickname: 'Alice',
+            content: 'deploy link',
+            timestamp: '2025-10-28T10:00:00.000Z',
+          },
+          snippet: { text: 'deploy link', highlights: [{ start: 0, length: 6 }] },
+        },
+      ];
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ query: 'deploy & ship', results }),
+      });
+
+      const result = await apiService.searchMessages(
+        'room-1',
+        'deploy & ship',
+        'token'
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/room/room-1/messages/search?q=deploy%20%26%20ship',
+        { headers: { Authorization: 'Bearer token' } }
+      );
+      expect(result).toEqual(results);
+    });
+
+    it('should surface the server error for rejected searches', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: 'Join the room before searching messages' }),
+      });
+
+      const error = await apiService
+        .searchMessages('room-1', 'deploy', 'token')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toBe('Join the room before searching messages');
+    });
   });
 
   describe('checkRoomExists', () => {
-    it('should return true when room exists', async () => {
+    it('should report an existing room', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({ exists: true }),
@@ -97,10 +243,26 @@ describe('ApiService', () => {
       expect(mockFetch).toHaveBeenCalledWith(
         'http://localhost:3001/api/room/123e4567-e89b-12d3-a456-426614174000/exists'
       );
-      expect(result).toBe(true);
+      expect(result).toEqual({ exists: true });
+    });
+
+    it('should report whether a passcode is required', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          exists: true,
+          requiresPasscode: true,
+          isLocked: false,
+        }),
+      });
+
+      const result = await apiService.checkRoomExists('sprint-42-retro');
+
+      expect(result.requiresPasscode).toBe(true);
+      expect(result.isLocked).toBe(false);
     });
 
-    it('should return false when room does not exist', async () => {
+    it('should report a missing room', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({ exists: false }),
@@ -110,7 +272,7 @@ describe('ApiService', () => {
         '123e4567-e89b-12d3-a456-426614174000'
       );
 
-      expect(result).toBe(false);
+      expect(result).toEqual({ exists: false });
     });
 
     it('should throw error when response is not ok', async () => {
@@ -263,7 +425,7 @@ describe('ApiService', () => {
       });
 
       const existsResult = await apiService.checkRoomExists(roomId);
-      expect(existsResult).toBe(true);
+      expect(existsResult.exists).toBe(true);
     });
 
     it('should handle sequential API calls', async () => {
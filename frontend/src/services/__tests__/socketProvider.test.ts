@@ -6,6 +6,7 @@
  * - Awareness state updates (cursor, selection, user presence)
  * - Connection lifecycle and reconnection handling
  * - Event listener management
+ * - Sync handshake with the server-held document
  * - Error handling and cleanup
  * 
  * @see {@link SocketProvider} for implementation
@@ -14,6 +15,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import * as Y from 'yjs';
 import { Awareness, encodeAwarenessUpdate } from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
 import { SocketProvider } from '../socketProvider';
 
 // Mock socketService - must be defined inline in vi.mock
@@ -24,6 +27,7 @@ vi.mock('../socketService', () => ({
     off: vi.fn(),
     sendDocumentUpdate: vi.fn(),
     sendAwarenessUpdate: vi.fn(),
+    sendSyncMessage: vi.fn(),
   },
 }));
 
@@ -430,6 +434,83 @@ describe('SocketProvider', () => {
     });
   });
 
+  describe('Document Sync', () => {
+    const getHandler = (event: string) => {
+      const calls = mockSocketService.on.mock.calls as [
+        string,
+        (data: unknown) => void,
+      ][];
+      return calls.find(c => c[0] === event)?.[1];
+    };
+
+    it('should send sync step 1 on creation when connected', () => {
+      provider = new SocketProvider(documentId, doc);
+
+      expect(mockSocketService.sendSyncMessage).toHaveBeenCalledTimes(1);
+      const message = mockSocketService.sendSyncMessage.mock.calls[0][0];
+      expect(message[0]).toBe(syncProtocol.messageYjsSyncStep1);
+    });
+
+    it('should not request sync while disconnected', () => {
+      mockSocketService.isConnected.mockReturnValue(false);
+      provider = new SocketProvider(documentId, doc);
+
+      expect(mockSocketService.sendSyncMessage).not.toHaveBeenCalled();
+    });
+
+    it('should request sync again after joining a room', () => {
+      provider = new SocketProvider(documentId, doc);
+      mockSocketService.sendSyncMessage.mockClear();
+
+      getHandler('room-joined')?.({ success: true });
+
+      expect(mockSocketService.sendSyncMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the server document without echoing it back', () => {
+      provider = new SocketProvider(documentId, doc);
+
+      const serverDoc = new Y.Doc();
+      serverDoc.getText('content').insert(0, 'From server');
+      const encoder = encoding.createEncoder();
+      syncProtocol.writeSyncStep2(encoder, serverDoc);
+
+      getHandler('editor:sync')?.({ message: encoding.toUint8Array(encoder) });
+      vi.advanceTimersByTime(250);
+
+      expect(doc.getText('content').toString()).toBe('From server');
+      expect(mockSocketService.sendDocumentUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should answer server sync step 1 with local state', () => {
+      doc.getText('content').insert(0, 'Offline edit');
+      provider = new SocketProvider(documentId, doc);
+      mockSocketService.sendSyncMessage.mockClear();
+
+      const encoder = encoding.createEncoder();
+      syncProtocol.writeSyncStep1(encoder, new Y.Doc());
+      getHandler('editor:sync')?.({ message: encoding.toUint8Array(encoder) });
+
+      expect(mockSocketService.sendSyncMessage).toHaveBeenCalledTimes(1);
+      const reply = mockSocketService.sendSyncMessage.mock.calls[0][0];
+      expect(reply[0]).toBe(syncProtocol.messageYjsSyncStep2);
+    });
+
+    it('should remove socket listeners on destroy', () => {
+      provider = new SocketProvider(documentId, doc);
+      provider.destroy();
+
+      expect(mockSocketService.off).toHaveBeenCalledWith(
+        'editor:sync',
+        expect.any(Function)
+      );
+      expect(mockSocketService.off).toHaveBeenCalledWith(
+        'editor:document-update',
+        expect.any(Function)
+      );
+    });
+  });
+
   describe('Cleanup and Destruction', () => {
     beforeEach(() => {
       provider = new SocketProvider(documentId, doc);
@@ -118,6 +118,7 @@ describe('SocketService', () => {
       expect(mockIo).toHaveBeenCalledWith('http://localhost:3001', {
         transports: ['websocket'],
         upgrade: true,
+        auth: expect.any(Function),
       });
       expect(mockSocket.on).toHaveBeenCalledWith('connect', expect.any(Function));
     });
@@ -138,6 +139,7 @@ describe('SocketService', () => {
       expect(mockIo).toHaveBeenCalledWith(customUrl, {
         transports: ['websocket'],
         upgrade: true,
+        auth: expect.any(Function),
       });
     });
 
@@ -234,6 +236,8 @@ describe('SocketService', () => {
       expect(mockSocket.on).toHaveBeenCalledWith('room-joined', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('user-joined', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('user-left', expect.any(Function));
+      expect(mockSocket.on).toHaveBeenCalledWith('user-status-changed', expect.any(Function));
+      expect(mockSocket.on).toHaveBeenCalledWith('user-role-changed', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('new-message', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('user-typing-status', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('user-editing-status', expect.any(Function));
@@ -241,6 +245,38 @@ describe('SocketService', () => {
     });
   });
 
+  describe('client token', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should keep the token issued by the server and send it on reconnect', async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+
+      const options = mockIo.mock.calls[0]?.[1] as {
+        auth: (cb: (data: object) => void) => void;
+      };
+      const sendAuth = vi.fn();
+      options.auth(sendAuth);
+      expect(sendAuth).toHaveBeenLastCalledWith({});
+
+      const tokenHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'client-token'
+      )?.[1];
+      tokenHandler?.({ clientToken: 'client-1.signature' });
+
+      options.auth(sendAuth);
+      expect(sendAuth).toHaveBeenLastCalledWith({
+        clientToken: 'client-1.signature',
+      });
+    });
+  });
+
   describe('Event Listeners', () => {
     beforeEach(async () => {
       const connectPromise = socketService.connect();
@@ -272,6 +308,18 @@ describe('SocketService', () => {
       expect(callback).toHaveBeenCalledWith(mockData);
     });
 
+    it('should handle mentioned event', () => {
+      const callback = vi.fn();
+      socketService.on('mentioned', callback);
+
+      const handler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'mentioned'
+      )?.[1];
+      handler?.({ message: { id: 'msg-1' } });
+
+      expect(callback).toHaveBeenCalledWith({ message: { id: 'msg-1' } });
+    });
+
     it('should handle user-joined event', () => {
       const callback = vi.fn();
       socketService.on('user-joined', callback);
@@ -304,6 +352,21 @@ describe('SocketService', () => {
       expect(callback).toHaveBeenCalledWith('user-789');
     });
 
+    it('should handle user-status-changed event', () => {
+      const callback = vi.fn();
+      socketService.on('user-status-changed', callback);
+
+      const statusHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'user-status-changed'
+      )?.[1];
+
+      statusHandler?.({ userId: 'user-789', isOnline: false });
+      expect(callback).toHaveBeenCalledWith({
+        userId: 'user-789',
+        isOnline: false,
+      });
+    });
+
     it('should handle new-message event', () => {
       const callback = vi.fn();
       socketService.on('new-message', callback);
@@ -427,6 +490,27 @@ describe('SocketService', () => {
       handler?.(mockActivity);
       expect(callback).toHaveBeenCalledWith(mockActivity);
     });
+
+    it('should handle document version events', () => {
+      const events = {
+        'editor:document-save': { documentId: 'doc-1', version: 2 },
+        'editor:versions': { versions: [] },
+        'editor:version-preview': { version: 2, state: new Uint8Array() },
+        'editor:version-restored': { restoredVersion: 1, version: 3 },
+      };
+
+      Object.entries(events).forEach(([event, payload]) => {
+        const callback = vi.fn();
+        socketService.on(event, callback);
+
+        const handler = mockSocket.on.mock.calls.find(
+          call => call[0] === event
+        )?.[1];
+
+        handler?.(payload);
+        expect(callback).toHaveBeenCalledWith(payload);
+      });
+    });
   });
 
   describe('joinRoom', () => {
@@ -441,22 +525,33 @@ describe('SocketService', () => {
     });
 
     it('should emit join-room event with correct data', () => {
-      socketService.joinRoom('room-123', 'TestUser', 'user-123');
+      socketService.joinRoom('room-123', 'TestUser', 'token-123');
 
       expect(mockSocket.emit).toHaveBeenCalledWith('join-room', {
         roomId: 'room-123',
         nickname: 'TestUser',
-        userId: 'user-123',
+        sessionToken: 'token-123',
       });
     });
 
-    it('should emit join-room event without userId', () => {
+    it('should emit join-room event without session token', () => {
       socketService.joinRoom('room-456', 'AnotherUser');
 
       expect(mockSocket.emit).toHaveBeenCalledWith('join-room', {
         roomId: 'room-456',
         nickname: 'AnotherUser',
-        userId: undefined,
+        sessionToken: undefined,
+      });
+    });
+
+    it('should include the room passcode when given', () => {
+      socketService.joinRoom('room-789', 'Guest', undefined, 'let-me-in');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('join-room', {
+        roomId: 'room-789',
+        nickname: 'Guest',
+        sessionToken: undefined,
+        passcode: 'let-me-in',
       });
     });
 
@@ -488,6 +583,15 @@ describe('SocketService', () => {
       });
     });
 
+    it('should include attachment IDs', () => {
+      socketService.sendMessage('', undefined, ['attachment-1']);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('send-message', {
+        content: '',
+        attachmentIds: ['attachment-1'],
+      });
+    });
+
     it('should throw error when not connected', () => {
       socketService.disconnect();
 
@@ -497,6 +601,455 @@ describe('SocketService', () => {
     });
   });
 
+  describe('threads', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should send replies with the parent ID', () => {
+      socketService.sendMessage('Agreed', 'msg-1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('send-message', {
+        content: 'Agreed',
+        parentId: 'msg-1',
+      });
+    });
+
+    it('should emit load-thread', () => {
+      socketService.loadThread('msg-1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('load-thread', {
+        parentId: 'msg-1',
+      });
+    });
+
+    it('should forward thread events', () => {
+      const onThread = vi.fn();
+      const onReply = vi.fn();
+      const onNotification = vi.fn();
+      socketService.on('thread-messages', onThread);
+      socketService.on('thread-reply', onReply);
+      socketService.on('reply-notification', onNotification);
+
+      const handlerFor = (event: string) =>
+        mockSocket.on.mock.calls.find(call => call[0] === event)?.[1];
+      handlerFor('thread-messages')?.({ parentId: 'msg-1', messages: [] });
+      handlerFor('thread-reply')?.({ replyCount: 1 });
+      handlerFor('reply-notification')?.({ nickname: 'Bob' });
+
+      expect(onThread).toHaveBeenCalledWith({ parentId: 'msg-1', messages: [] });
+      expect(onReply).toHaveBeenCalledWith({ replyCount: 1 });
+      expect(onNotification).toHaveBeenCalledWith({ nickname: 'Bob' });
+    });
+  });
+
+  describe('editMessage and deleteMessage', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit edit-message and delete-message', () => {
+      socketService.editMessage('msg-1', 'Fixed typo');
+      socketService.deleteMessage('msg-2');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('edit-message', {
+        messageId: 'msg-1',
+        content: 'Fixed typo',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('delete-message', {
+        messageId: 'msg-2',
+      });
+    });
+
+    it('should forward message-updated and message-deleted events', () => {
+      const onUpdated = vi.fn();
+      const onDeleted = vi.fn();
+      socketService.on('message-updated', onUpdated);
+      socketService.on('message-deleted', onDeleted);
+
+      const updatedHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'message-updated'
+      )?.[1];
+      const deletedHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'message-deleted'
+      )?.[1];
+      const deletedEvent = {
+        messageId: 'msg-2',
+        deletedAt: new Date(),
+        deletedBy: 'user-1',
+      };
+      updatedHandler?.({ id: 'msg-1', content: 'Fixed typo' });
+      deletedHandler?.(deletedEvent);
+
+      expect(onUpdated).toHaveBeenCalledWith({
+        id: 'msg-1',
+        content: 'Fixed typo',
+      });
+      expect(onDeleted).toHaveBeenCalledWith(deletedEvent);
+    });
+
+    it('should throw error when not connected', () => {
+      socketService.disconnect();
+
+      expect(() => socketService.editMessage('msg-1', 'Hi')).toThrow(
+        'Socket not connected'
+      );
+      expect(() => socketService.deleteMessage('msg-1')).toThrow(
+        'Socket not connected'
+      );
+    });
+  });
+
+  describe('reactToMessage', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit react-message', () => {
+      socketService.reactToMessage('msg-1', '👍');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('react-message', {
+        messageId: 'msg-1',
+        emoji: '👍',
+      });
+    });
+
+    it('should forward message-reactions-updated events', () => {
+      const callback = vi.fn();
+      socketService.on('message-reactions-updated', callback);
+
+      const handler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'message-reactions-updated'
+      )?.[1];
+      const event = {
+        messageId: 'msg-1',
+        reactions: [{ emoji: '👍', count: 1, userIds: ['user-1'] }],
+      };
+      handler?.(event);
+
+      expect(callback).toHaveBeenCalledWith(event);
+    });
+  });
+
+  describe('pinned messages and announcements', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit pin-message, unpin-message and set-announcement', () => {
+      socketService.pinMessage('msg-1');
+      socketService.unpinMessage('msg-2');
+      socketService.setAnnouncement('Standup at 10');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('pin-message', {
+        messageId: 'msg-1',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('unpin-message', {
+        messageId: 'msg-2',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('set-announcement', {
+        announcement: 'Standup at 10',
+      });
+    });
+
+    it('should forward pinned-messages-updated and announcement-changed events', () => {
+      const onPinned = vi.fn();
+      const onAnnouncement = vi.fn();
+      socketService.on('pinned-messages-updated', onPinned);
+      socketService.on('announcement-changed', onAnnouncement);
+
+      const handlerFor = (event: string) =>
+        mockSocket.on.mock.calls.find(call => call[0] === event)?.[1];
+      handlerFor('pinned-messages-updated')?.({ pinnedMessages: [] });
+      handlerFor('announcement-changed')?.({
+        announcement: 'Standup at 10',
+        setBy: 'user-1',
+      });
+
+      expect(onPinned).toHaveBeenCalledWith({ pinnedMessages: [] });
+      expect(onAnnouncement).toHaveBeenCalledWith({
+        announcement: 'Standup at 10',
+        setBy: 'user-1',
+      });
+    });
+  });
+
+  describe('read receipts', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit mark-read with the message ID', () => {
+      socketService.markRead('msg-1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('mark-read', {
+        messageId: 'msg-1',
+      });
+    });
+
+    it('should forward read-receipts events', () => {
+      const onReceipts = vi.fn();
+      socketService.on('read-receipts', onReceipts);
+
+      const receipts = [{ userId: 'user-2', messageId: 'msg-1' }];
+      mockSocket.on.mock.calls
+        .find(call => call[0] === 'read-receipts')?.[1]({ receipts });
+
+      expect(onReceipts).toHaveBeenCalledWith({ receipts });
+    });
+  });
+
+  describe('polls', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit create-poll, vote-poll and close-poll', () => {
+      const request = {
+        question: 'Lunch?',
+        options: ['Pizza', 'Sushi'],
+        multipleChoice: false,
+        anonymous: true,
+      };
+      socketService.createPoll(request);
+      socketService.votePoll('msg-1', ['opt-1']);
+      socketService.closePoll('msg-1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('create-poll', request);
+      expect(mockSocket.emit).toHaveBeenCalledWith('vote-poll', {
+        messageId: 'msg-1',
+        optionIds: ['opt-1'],
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('close-poll', {
+        messageId: 'msg-1',
+      });
+    });
+
+    it('should forward poll-updated events', () => {
+      const onPollUpdated = vi.fn();
+      socketService.on('poll-updated', onPollUpdated);
+
+      const event = {
+        messageId: 'msg-1',
+        poll: {
+          question: 'Lunch?',
+          options: [{ id: 'opt-1', text: 'Pizza', votes: 1 }],
+          multipleChoice: false,
+          anonymous: true,
+          voterCount: 1,
+        },
+      };
+      mockSocket.on.mock.calls
+        .find(call => call[0] === 'poll-updated')?.[1](event);
+
+      expect(onPollUpdated).toHaveBeenCalledWith(event);
+    });
+  });
+
+  describe('slash commands', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit run-command with the command and arguments', () => {
+      socketService.runCommand('timer', '5m Break');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('run-command', {
+        command: 'timer',
+        args: '5m Break',
+      });
+    });
+
+    it('should emit change-nickname with the new nickname', () => {
+      socketService.changeNickname('Alicia');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('change-nickname', {
+        nickname: 'Alicia',
+      });
+    });
+
+    it('should forward user-renamed events', () => {
+      const onRenamed = vi.fn();
+      socketService.on('user-renamed', onRenamed);
+
+      mockSocket.on.mock.calls
+        .find(call => call[0] === 'user-renamed')?.[1]({
+          userId: 'user-1',
+          nickname: 'Alicia',
+        });
+
+      expect(onRenamed).toHaveBeenCalledWith({
+        userId: 'user-1',
+        nickname: 'Alicia',
+      });
+    });
+  });
+
+  describe('loadOlderMessages', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit load-older-messages with the cursor', () => {
+      socketService.loadOlderMessages('msg-20');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('load-older-messages', {
+        before: 'msg-20',
+      });
+    });
+
+    it('should forward older-messages events', () => {
+      const callback = vi.fn();
+      socketService.on('older-messages', callback);
+
+      const handler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'older-messages'
+      )?.[1];
+      const event = { before: 'msg-20', messages: [], hasMore: false };
+      handler?.(event);
+
+      expect(callback).toHaveBeenCalledWith(event);
+    });
+  });
+
+  describe('setUserRole', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit set-user-role event', () => {
+      socketService.setUserRole('user-456', 'viewer');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('set-user-role', {
+        userId: 'user-456',
+        role: 'viewer',
+      });
+    });
+
+    it('should throw error when not connected', () => {
+      socketService.disconnect();
+
+      expect(() => {
+        socketService.setUserRole('user-456', 'moderator');
+      }).toThrow('Socket not connected');
+    });
+  });
+
+  describe('moderation', () => {
+    beforeEach(async () => {
+      const connectPromise = socketService.connect();
+      const connectHandler = mockSocket.on.mock.calls.find(
+        call => call[0] === 'connect'
+      )?.[1];
+      connectHandler?.();
+      await connectPromise;
+      mockSocket.connected = true;
+    });
+
+    it('should emit kick-user and ban-user with the reason', () => {
+      socketService.kickUser('user-456', 'Off topic');
+      socketService.banUser('user-789');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('kick-user', {
+        userId: 'user-456',
+        reason: 'Off topic',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('ban-user', {
+        userId: 'user-789',
+        reason: undefined,
+      });
+    });
+
+    it('should emit transfer-ownership', () => {
+      socketService.transferOwnership('user-456');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('transfer-ownership', {
+        userId: 'user-456',
+      });
+    });
+
+    it('should emit set-room-locked', () => {
+      socketService.setRoomLocked(true);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('set-room-locked', {
+        isLocked: true,
+      });
+    });
+
+    it('should emit unban-user and list-bans', () => {
+      socketService.unbanUser('user-789');
+      socketService.requestBans();
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('unban-user', {
+        userId: 'user-789',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('list-bans');
+    });
+
+    it('should throw error when not connected', () => {
+      socketService.disconnect();
+
+      expect(() => socketService.kickUser('user-456')).toThrow(
+        'Socket not connected'
+      );
+      expect(() => socketService.requestBans()).toThrow('Socket not connected');
+    });
+  });
+
   describe('sendTypingStatus', () => {
     beforeEach(async () => {
       const connectPromise = socketService.connect();
@@ -598,6 +1151,15 @@ describe('SocketService', () => {
       });
     });
 
+    it('should send sync message', () => {
+      const message = new Uint8Array([0, 1, 0]);
+      socketService.sendSyncMessage(message);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('editor:sync', {
+        message,
+      });
+    });
+
     it('should send editor activity - edit', () => {
       socketService.sendEditorActivity('edit');
 
@@ -623,15 +1185,36 @@ describe('SocketService', () => {
     });
 
     it('should send document save', () => {
-      socketService.sendDocumentSave('doc-123', { text: 'content' }, 'My Document');
+      socketService.sendDocumentSave('doc-123', 'My Document');
 
       expect(mockSocket.emit).toHaveBeenCalledWith('editor:document-save', {
         documentId: 'doc-123',
-        content: { text: 'content' },
         title: 'My Document',
       });
     });
 
+    it('should request document versions', () => {
+      socketService.requestDocumentVersions();
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('editor:list-versions');
+    });
+
+    it('should request a document version preview', () => {
+      socketService.previewDocumentVersion(2);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('editor:preview-version', {
+        version: 2,
+      });
+    });
+
+    it('should request a document version restore', () => {
+      socketService.restoreDocumentVersion(2);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('editor:restore-version', {
+        version: 2,
+      });
+    });
+
     it('should throw error when sending document update while not connected', () => {
       socketService.disconnect();
 
@@ -52,14 +52,14 @@ describe('UserPersistenceService', () => {
   describe('setUserSession', () => {
     it('should store user session with correct data', () => {
       // Store a new session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Retrieve and verify the stored session
       const stored = localStorage.getItem('kuikui_session_room456');
       expect(stored).toBeTruthy();
 
       const session = JSON.parse(stored!) as StoredUserSession;
-      expect(session.userId).toBe('user123');
+      expect(session.sessionToken).toBe('token123');
       expect(session.nickname).toBe('TestUser');
       expect(session.roomId).toBe('room456');
       expect(session.lastActivity).toBeGreaterThan(0);
@@ -67,7 +67,7 @@ describe('UserPersistenceService', () => {
 
     it('should store session with current timestamp', () => {
       const beforeTime = Date.now();
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
       const afterTime = Date.now();
 
       const stored = localStorage.getItem('kuikui_session_room456');
@@ -80,8 +80,8 @@ describe('UserPersistenceService', () => {
 
     it('should isolate sessions by room ID', () => {
       // Store sessions for different rooms
-      userPersistenceService.setUserSession('user1', 'User1', 'room1');
-      userPersistenceService.setUserSession('user2', 'User2', 'room2');
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token2', 'User2', 'room2');
 
       // Verify both sessions are stored separately
       const session1 = localStorage.getItem('kuikui_session_room1');
@@ -93,22 +93,22 @@ describe('UserPersistenceService', () => {
       const parsed1 = JSON.parse(session1!) as StoredUserSession;
       const parsed2 = JSON.parse(session2!) as StoredUserSession;
 
-      expect(parsed1.userId).toBe('user1');
-      expect(parsed2.userId).toBe('user2');
+      expect(parsed1.sessionToken).toBe('token1');
+      expect(parsed2.sessionToken).toBe('token2');
     });
 
     it('should overwrite existing session for the same room', () => {
       // Store initial session
-      userPersistenceService.setUserSession('user1', 'OldName', 'room123');
+      userPersistenceService.setUserSession('token1', 'OldName', 'room123');
       
       // Overwrite with new session
-      userPersistenceService.setUserSession('user2', 'NewName', 'room123');
+      userPersistenceService.setUserSession('token2', 'NewName', 'room123');
 
       const stored = localStorage.getItem('kuikui_session_room123');
       const session = JSON.parse(stored!) as StoredUserSession;
 
       // Should have the new session data
-      expect(session.userId).toBe('user2');
+      expect(session.sessionToken).toBe('token2');
       expect(session.nickname).toBe('NewName');
     });
 
@@ -120,7 +120,7 @@ describe('UserPersistenceService', () => {
 
       // Should not throw, but log error
       expect(() => {
-        userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+        userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
       }).not.toThrow();
 
       // Verify error was logged
@@ -128,7 +128,6 @@ describe('UserPersistenceService', () => {
         'Failed to store user session in localStorage',
         expect.objectContaining({
           error: 'Storage quota exceeded',
-          userId: 'user123',
           nickname: 'TestUser',
           roomId: 'room456',
         })
@@ -139,20 +138,20 @@ describe('UserPersistenceService', () => {
   describe('getUserSession', () => {
     it('should retrieve valid session for specific room', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Retrieve the session
       const session = userPersistenceService.getUserSession('room456');
 
       expect(session).toBeTruthy();
-      expect(session!.userId).toBe('user123');
+      expect(session!.sessionToken).toBe('token123');
       expect(session!.nickname).toBe('TestUser');
       expect(session!.roomId).toBe('room456');
     });
 
     it('should return null for non-existent room', () => {
       // Store session for one room
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room1');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room1');
 
       // Try to get session for different room
       const session = userPersistenceService.getUserSession('room2');
@@ -162,13 +161,13 @@ describe('UserPersistenceService', () => {
 
     it('should return first session when no roomId provided', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Retrieve without specifying room
       const session = userPersistenceService.getUserSession();
 
       expect(session).toBeTruthy();
-      expect(session!.userId).toBe('user123');
+      expect(session!.sessionToken).toBe('token123');
     });
 
     it('should return null when no sessions exist', () => {
@@ -178,7 +177,7 @@ describe('UserPersistenceService', () => {
 
     it('should return null for expired session', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Manually modify the timestamp to be 25 hours old (expired)
       const stored = localStorage.getItem('kuikui_session_room456');
@@ -196,7 +195,7 @@ describe('UserPersistenceService', () => {
 
     it('should return session that is just under expiry limit', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Manually modify timestamp to be 23.5 hours old (not expired)
       const stored = localStorage.getItem('kuikui_session_room456');
@@ -207,7 +206,7 @@ describe('UserPersistenceService', () => {
       // Should still retrieve the session
       const retrieved = userPersistenceService.getUserSession('room456');
       expect(retrieved).toBeTruthy();
-      expect(retrieved!.userId).toBe('user123');
+      expect(retrieved!.sessionToken).toBe('token123');
     });
 
     it('should return null and clear session with invalid structure', () => {
@@ -221,8 +220,8 @@ describe('UserPersistenceService', () => {
       expect(localStorage.getItem('kuikui_session_room456')).toBeNull();
     });
 
-    it('should return null for session with missing userId', () => {
-      // Store session with missing userId
+    it('should return null for session with missing sessionToken', () => {
+      // Store session with missing sessionToken
       const invalidSession = {
         nickname: 'TestUser',
         roomId: 'room456',
@@ -234,10 +233,23 @@ describe('UserPersistenceService', () => {
       expect(session).toBeNull();
     });
 
+    it('should discard legacy sessions that stored a bare userId', () => {
+      const legacySession = {
+        userId: 'user123',
+        nickname: 'TestUser',
+        roomId: 'room456',
+        lastActivity: Date.now(),
+      };
+      localStorage.setItem('kuikui_session_room456', JSON.stringify(legacySession));
+
+      expect(userPersistenceService.getUserSession('room456')).toBeNull();
+      expect(localStorage.getItem('kuikui_session_room456')).toBeNull();
+    });
+
     it('should return null for session with missing nickname', () => {
       // Store session with missing nickname
       const invalidSession = {
-        userId: 'user123',
+        sessionToken: 'token123',
         roomId: 'room456',
         lastActivity: Date.now(),
       };
@@ -250,7 +262,7 @@ describe('UserPersistenceService', () => {
     it('should return null for session with missing roomId', () => {
       // Store session with missing roomId
       const invalidSession = {
-        userId: 'user123',
+        sessionToken: 'token123',
         nickname: 'TestUser',
         lastActivity: Date.now(),
       };
@@ -263,7 +275,7 @@ describe('UserPersistenceService', () => {
     it('should return null for session with missing lastActivity', () => {
       // Store session with missing lastActivity
       const invalidSession = {
-        userId: 'user123',
+        sessionToken: 'token123',
         nickname: 'TestUser',
         roomId: 'room456',
       };
@@ -312,7 +324,7 @@ describe('UserPersistenceService', () => {
   describe('updateLastActivity', () => {
     it('should update lastActivity timestamp for existing session', () => {
       // Store initial session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Wait a bit
       const beforeUpdate = Date.now();
@@ -332,12 +344,12 @@ describe('UserPersistenceService', () => {
 
     it('should update only the first valid session when multiple exist', async () => {
       // Store multiple sessions
-      userPersistenceService.setUserSession('user1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
       
       // Wait a bit to ensure timestamp difference
       await new Promise(resolve => setTimeout(resolve, 10));
       
-      userPersistenceService.setUserSession('user2', 'User2', 'room2');
+      userPersistenceService.setUserSession('token2', 'User2', 'room2');
 
       // Get initial timestamps
       const stored1Before = localStorage.getItem('kuikui_session_room1');
@@ -378,7 +390,7 @@ describe('UserPersistenceService', () => {
 
     it('should handle localStorage errors gracefully', () => {
       // Store a valid session first
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Mock setItem to throw error
       vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
@@ -400,11 +412,67 @@ describe('UserPersistenceService', () => {
     });
   });
 
+  describe('setNickname', () => {
+    it('should update the nickname of the room session', () => {
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
+
+      userPersistenceService.setNickname('room1', 'Renamed');
+
+      expect(userPersistenceService.getUserSession('room1')).toMatchObject({
+        sessionToken: 'token1',
+        nickname: 'Renamed',
+      });
+    });
+
+    it('should do nothing without a session for the room', () => {
+      userPersistenceService.setNickname('room1', 'Renamed');
+
+      expect(localStorage.getItem('kuikui_session_room1')).toBeNull();
+    });
+  });
+
+  describe('setLastReadMessageId', () => {
+    it('should store the last read message in the room session', () => {
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token2', 'User2', 'room2');
+
+      userPersistenceService.setLastReadMessageId('room1', 'msg-1');
+
+      expect(
+        userPersistenceService.getUserSession('room1')?.lastReadMessageId
+      ).toBe('msg-1');
+      expect(
+        userPersistenceService.getUserSession('room2')?.lastReadMessageId
+      ).toBeUndefined();
+    });
+
+    it('should do nothing without a session for the room', () => {
+      userPersistenceService.setLastReadMessageId('room1', 'msg-1');
+
+      expect(localStorage.getItem('kuikui_session_room1')).toBeNull();
+    });
+
+    it('should discard sessions with an invalid last read message', () => {
+      localStorage.setItem(
+        'kuikui_session_room1',
+        JSON.stringify({
+          sessionToken: 'token1',
+          nickname: 'User1',
+          roomId: 'room1',
+          lastActivity: Date.now(),
+          lastReadMessageId: 42,
+        })
+      );
+
+      expect(userPersistenceService.getUserSession('room1')).toBeNull();
+    });
+  });
+
   describe('clearUserSession', () => {
     it('should clear specific room session', () => {
       // Store sessions for multiple rooms
-      userPersistenceService.setUserSession('user1', 'User1', 'room1');
-      userPersistenceService.setUserSession('user2', 'User2', 'room2');
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token2', 'User2', 'room2');
 
       // Clear only room1
       userPersistenceService.clearUserSession('room1');
@@ -418,9 +486,9 @@ describe('UserPersistenceService', () => {
 
     it('should clear all sessions when no roomId provided', () => {
       // Store multiple sessions
-      userPersistenceService.setUserSession('user1', 'User1', 'room1');
-      userPersistenceService.setUserSession('user2', 'User2', 'room2');
-      userPersistenceService.setUserSession('user3', 'User3', 'room3');
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token2', 'User2', 'room2');
+      userPersistenceService.setUserSession('token3', 'User3', 'room3');
 
       // Clear all sessions
       userPersistenceService.clearUserSession();
@@ -433,7 +501,7 @@ describe('UserPersistenceService', () => {
 
     it('should not affect non-session localStorage items', () => {
       // Store session and other data
-      userPersistenceService.setUserSession('user1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
       localStorage.setItem('other_data', 'should remain');
 
       // Clear all sessions
@@ -455,7 +523,7 @@ describe('UserPersistenceService', () => {
 
     it('should handle localStorage errors gracefully', () => {
       // Store a session
-      userPersistenceService.setUserSession('user1', 'User1', 'room1');
+      userPersistenceService.setUserSession('token1', 'User1', 'room1');
 
       // Mock removeItem to throw error
       vi.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => {
@@ -480,7 +548,7 @@ describe('UserPersistenceService', () => {
 
   describe('hasStoredSession', () => {
     it('should return true when valid session exists', () => {
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
       expect(userPersistenceService.hasStoredSession()).toBe(true);
     });
 
@@ -490,7 +558,7 @@ describe('UserPersistenceService', () => {
 
     it('should return false when session is expired', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Manually expire it
       const stored = localStorage.getItem('kuikui_session_room456');
@@ -507,32 +575,32 @@ describe('UserPersistenceService', () => {
     });
   });
 
-  describe('getUserIdFromSession', () => {
-    it('should return userId when valid session exists', () => {
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
-      expect(userPersistenceService.getUserIdFromSession()).toBe('user123');
+  describe('getSessionToken', () => {
+    it('should return session token when valid session exists', () => {
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
+      expect(userPersistenceService.getSessionToken()).toBe('token123');
     });
 
     it('should return null when no session exists', () => {
-      expect(userPersistenceService.getUserIdFromSession()).toBeNull();
+      expect(userPersistenceService.getSessionToken()).toBeNull();
     });
 
     it('should return null when session is expired', () => {
       // Store and expire session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
       const stored = localStorage.getItem('kuikui_session_room456');
       const session = JSON.parse(stored!) as StoredUserSession;
       session.lastActivity = Date.now() - (25 * 60 * 60 * 1000);
       localStorage.setItem('kuikui_session_room456', JSON.stringify(session));
 
-      expect(userPersistenceService.getUserIdFromSession()).toBeNull();
+      expect(userPersistenceService.getSessionToken()).toBeNull();
     });
   });
 
   describe('markSessionAsEnded', () => {
     it('should mark existing session as intentionally ended', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Mark as ended
       userPersistenceService.markSessionAsEnded();
@@ -543,11 +611,11 @@ describe('UserPersistenceService', () => {
 
       expect(session.intentionallyLeft).toBe(true);
       expect(session.endedAt).toBeGreaterThan(0);
-      expect(session.userId).toBe('user123'); // Original data preserved
+      expect(session.sessionToken).toBe('token123'); // Original data preserved
     });
 
     it('should log info when session is marked as ended', () => {
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
       userPersistenceService.markSessionAsEnded();
 
       expect(logger.info).toHaveBeenCalledWith('Marked session as intentionally ended');
@@ -561,7 +629,7 @@ describe('UserPersistenceService', () => {
 
     it('should handle localStorage errors gracefully', () => {
       // Store a session
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Mock setItem to throw error
       vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
@@ -597,7 +665,7 @@ describe('UserPersistenceService', () => {
 
   describe('Session key generation', () => {
     it('should use consistent session key format', () => {
-      userPersistenceService.setUserSession('user123', 'TestUser', 'room456');
+      userPersistenceService.setUserSession('token123', 'TestUser', 'room456');
 
       // Verify the key format
       const expectedKey = 'kuikui_session_room456';
@@ -605,8 +673,8 @@ describe('UserPersistenceService', () => {
     });
 
     it('should create unique keys for different rooms', () => {
-      userPersistenceService.setUserSession('user1', 'User1', 'roomA');
-      userPersistenceService.setUserSession('user2', 'User2', 'roomB');
+      userPersistenceService.setUserSession('token1', 'User1', 'roomA');
+      userPersistenceService.setUserSession('token2', 'User2', 'roomB');
 
       // Both keys should exist and be different
       expect(localStorage.getItem('kuikui_session_roomA')).toBeTruthy();
@@ -621,9 +689,9 @@ describe('UserPersistenceService', () => {
   });
 
   describe('Type validation', () => {
-    it('should reject session with non-string userId', () => {
+    it('should reject session with non-string sessionToken', () => {
       localStorage.setItem('kuikui_session_room456', JSON.stringify({
-        userId: 123, // number instead of string
+        sessionToken: 123, // number instead of string
         nickname: 'TestUser',
         roomId: 'room456',
         lastActivity: Date.now(),
@@ -635,7 +703,7 @@ describe('UserPersistenceService', () => {
 
     it('should reject session with non-string nickname', () => {
       localStorage.setItem('kuikui_session_room456', JSON.stringify({
-        userId: 'user123',
+        sessionToken: 'token123',
         nickname: 123, // number instead of string
         roomId: 'room456',
         lastActivity: Date.now(),
@@ -647,7 +715,7 @@ describe('UserPersistenceService', () => {
 
     it('should reject session with non-string roomId', () => {
       localStorage.setItem('kuikui_session_room456', JSON.stringify({
-        userId: 'user123',
+        sessionToken: 'token123',
         nickname: 'TestUser',
         roomId: 123, // number instead of string
         lastActivity: Date.now(),
@@ -659,7 +727,7 @@ describe('UserPersistenceService', () => {
 
     it('should reject session with non-number lastActivity', () => {
       localStorage.setItem('kuikui_session_room456', JSON.stringify({
-        userId: 'user123',
+        sessionToken: 'token123',
         nickname: 'TestUser',
         roomId: 'room456',
         lastActivity: '123456', // string instead of number
@@ -677,7 +745,7 @@ describe('UserPersistenceService', () => {
     });
 
     it('should reject array as session data', () => {
-      localStorage.setItem('kuikui_session_room456', JSON.stringify(['user123', 'TestUser']));
+      localStorage.setItem('kuikui_session_room456', JSON.stringify(['token123', 'TestUser']));
 
       const session = userPersistenceService.getUserSession('room456');
       expect(session).toBeNull();
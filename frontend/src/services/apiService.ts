@@ -1,7 +1,39 @@
-import { CreateRoomResponse } from '../types/index.js';
+import {
+  Attachment,
+  CreateRoomRequest,
+  CreateRoomResponse,
+  MessageSearchResult,
+  RoomExistsResponse,
+  SearchMessagesResponse,
+  UploadAttachmentResponse,
+} from '../types/index.js';
 import { frontendConfig } from '../config/environment.js';
 import logger from '../utils/logger.js';
 
+// HTTP error from the backend; `message` carries the server's explanation
+// when it sent one (e.g. a room URL that is already taken)
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: unknown };
+    if (typeof data.error === 'string' && data.error) {
+      return data.error;
+    }
+  } catch {
+    // No JSON body; fall back to the status code
+  }
+  return `HTTP error! status: ${response.status}`;
+}
+
 class ApiService {
   private readonly baseUrl: string;
 
@@ -10,17 +42,18 @@ class ApiService {
     logger.api('GET', 'initialized', undefined, undefined);
   }
 
-  async createRoom(): Promise<CreateRoomResponse> {
+  async createRoom(options?: CreateRoomRequest): Promise<CreateRoomResponse> {
     try {
       const response = await fetch(`${this.baseUrl}/create-room`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        ...(options && { body: JSON.stringify(options) }),
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new ApiError(await readErrorMessage(response), response.status);
       }
 
       return (await response.json()) as CreateRoomResponse;
@@ -33,7 +66,8 @@ class ApiService {
     }
   }
 
-  async checkRoomExists(roomId: string): Promise<boolean> {
+  // Also reports whether joining needs a passcode or the room is locked
+  async checkRoomExists(roomId: string): Promise<RoomExistsResponse> {
     try {
       const response = await fetch(`${this.baseUrl}/room/${roomId}/exists`);
 
@@ -41,8 +75,7 @@ class ApiService {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const data = (await response.json()) as { exists: boolean };
-      return data.exists;
+      return (await response.json()) as RoomExistsResponse;
     } catch (error) {
       logger.error('Error checking room', {
         error: error instanceof Error ? error.message : String(error),
@@ -53,6 +86,84 @@ class ApiService {
     }
   }
 
+  // Upload a file to attach to a chat message; the session token from
+  // room-joined proves membership
+  async uploadAttachment(
+    roomId: string,
+    file: File,
+    sessionToken: string
+  ): Promise<Attachment> {
+    const endpoint = `/room/${roomId}/attachments`;
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-File-Name': encodeURIComponent(file.name),
+        },
+        body: file,
+      });
+
+      if (!response.ok) {
+        throw new ApiError(await readErrorMessage(response), response.status);
+      }
+
+      const data = (await response.json()) as UploadAttachmentResponse;
+      return data.attachment;
+    } catch (error) {
+      logger.error('Error uploading attachment', {
+        error: error instanceof Error ? error.message : String(error),
+        roomId,
+        endpoint,
+      });
+      throw error;
+    }
+  }
+
+  // The session token goes in the URL, as <img> tags can't send headers
+  getAttachmentUrl(
+    roomId: string,
+    attachmentId: string,
+    sessionToken: string,
+    download = false
+  ): string {
+    const params = new URLSearchParams({ token: sessionToken });
+    if (download) {
+      params.set('download', '1');
+    }
+    return `${this.baseUrl}/room/${roomId}/attachments/${attachmentId}?${params.toString()}`;
+  }
+
+  // Most recent matches first
+  async searchMessages(
+    roomId: string,
+    query: string,
+    sessionToken: string
+  ): Promise<MessageSearchResult[]> {
+    const endpoint = `/room/${roomId}/messages/search`;
+    try {
+      const response = await fetch(
+        `${this.baseUrl}${endpoint}?q=${encodeURIComponent(query)}`,
+        { headers: { Authorization: `Bearer ${sessionToken}` } }
+      );
+
+      if (!response.ok) {
+        throw new ApiError(await readErrorMessage(response), response.status);
+      }
+
+      const data = (await response.json()) as SearchMessagesResponse;
+      return data.results;
+    } catch (error) {
+      logger.error('Error searching messages', {
+        error: error instanceof Error ? error.message : String(error),
+        roomId,
+        endpoint,
+      });
+      throw error;
+    }
+  }
+
   async getStats() {
     try {
       const response = await fetch(`${this.baseUrl}/stats`);
@@ -0,0 +1,60 @@
+import { socketService } from './socketService.js';
+import { IDLE_AFTER_MS, PRESENCE_HEARTBEAT_MS } from '../utils/presence.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Reports the user's presence to the server: a heartbeat with the time since
+ * their last input every PRESENCE_HEARTBEAT_MS, and one straight away when
+ * they come back after being idle. The server works out active, idle and
+ * away from these.
+ */
+class PresenceService {
+  private lastInputAt = Date.now();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Start sending heartbeats for the joined room; call the returned
+   * function to stop
+   */
+  start(): () => void {
+    this.stop();
+    this.lastInputAt = Date.now();
+    this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(
+      () => this.sendHeartbeat(),
+      PRESENCE_HEARTBEAT_MS
+    );
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Note user input (typing, clicking, editing). Cheap enough to call on
+   * every event.
+   */
+  recordInput(): void {
+    const wasIdle = Date.now() - this.lastInputAt >= IDLE_AFTER_MS;
+    this.lastInputAt = Date.now();
+    if (wasIdle && this.heartbeatTimer) {
+      this.sendHeartbeat();
+    }
+  }
+
+  private sendHeartbeat(): void {
+    try {
+      socketService.sendPresenceHeartbeat(Date.now() - this.lastInputAt);
+    } catch (error) {
+      logger.warn('Failed to send presence heartbeat', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -4,10 +4,14 @@ import {
   encodeAwarenessUpdate,
   applyAwarenessUpdate,
 } from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
 import { socketService } from '../services/socketService';
 import logger from '../utils/logger';
 
 type EventCallback = (data: unknown) => void;
+type SocketListener = (...args: unknown[]) => void;
 
 export class SocketProvider {
   private doc: Y.Doc;
@@ -19,24 +23,45 @@ export class SocketProvider {
   private docFlushTimer: ReturnType<typeof setTimeout> | null = null;
   private pendingAwarenessClients: Set<number> = new Set();
   private awarenessFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Socket listeners registered by this provider, removed on destroy
+  private socketListeners: [string, SocketListener][] = [];
 
   constructor(_documentId: string, doc: Y.Doc) {
     this.doc = doc;
     this.awareness = new Awareness(doc);
     this.isConnected = socketService.isConnected();
     this.setupEventListeners();
+    // Pull the server's copy of the document right away
+    this.requestSync();
+  }
+
+  private listen(event: string, listener: SocketListener) {
+    socketService.on(event, listener);
+    this.socketListeners.push([event, listener]);
   }
 
   private setupEventListeners() {
     // Listen for document updates from other clients
-    socketService.on('editor:document-update', (...args: unknown[]) => {
+    this.listen('editor:document-update', (...args: unknown[]) => {
       const data = args[0] as { update: Uint8Array; userId: string };
       const update = new Uint8Array(data.update);
-      Y.applyUpdate(this.doc, update);
+      // Tag with this provider as origin so it is not echoed back
+      Y.applyUpdate(this.doc, update, this);
+    });
+
+    // Server side of the y-protocols sync handshake
+    this.listen('editor:sync', (...args: unknown[]) => {
+      const data = args[0] as { message: Uint8Array };
+      this.handleSyncMessage(new Uint8Array(data.message));
+    });
+
+    // (Re)joining a room means the server may hold newer state
+    this.listen('room-joined', () => {
+      this.requestSync();
     });
 
     // Listen for awareness updates from other clients
-    socketService.on('editor:awareness-update', (...args: unknown[]) => {
+    this.listen('editor:awareness-update', (...args: unknown[]) => {
       const data = args[0] as { awareness: Uint8Array; userId: string };
       try {
         applyAwarenessUpdate(
@@ -51,8 +76,8 @@ export class SocketProvider {
     });
 
     // Listen for document updates from this client and batch-send to server
-    this.doc.on('update', (update: Uint8Array) => {
-      if (!this.isConnected) {
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (!this.isConnected || origin === this) {
         return;
       }
       this.pendingDocUpdates.push(update);
@@ -80,12 +105,46 @@ export class SocketProvider {
     );
 
     // Connection status handling
-    socketService.on('lifecycle', (...args: unknown[]) => {
+    this.listen('lifecycle', (...args: unknown[]) => {
       const status = args[0] as string;
       this.isConnected = status === 'connected' || status === 'reconnected';
     });
   }
 
+  /**
+   * Send sync step 1 (our state vector); the server replies with the diff we
+   * are missing plus its own state vector so we can return what it lacks
+   */
+  private requestSync() {
+    try {
+      if (!this.isConnected) {
+        return;
+      }
+      const encoder = encoding.createEncoder();
+      syncProtocol.writeSyncStep1(encoder, this.doc);
+      socketService.sendSyncMessage(encoding.toUint8Array(encoder));
+    } catch (error) {
+      logger.warn('Failed to request document sync', { error });
+    }
+  }
+
+  private handleSyncMessage(message: Uint8Array) {
+    try {
+      const encoder = encoding.createEncoder();
+      syncProtocol.readSyncMessage(
+        decoding.createDecoder(message),
+        encoder,
+        this.doc,
+        this
+      );
+      if (encoding.length(encoder) > 0) {
+        socketService.sendSyncMessage(encoding.toUint8Array(encoder));
+      }
+    } catch (error) {
+      logger.warn('Failed to handle document sync message', { error });
+    }
+  }
+
   private flushDocUpdates() {
     try {
       if (!this.isConnected || this.pendingDocUpdates.length === 0) {
@@ -144,6 +203,10 @@ export class SocketProvider {
     if (this.awarenessFlushTimer) {
       clearTimeout(this.awarenessFlushTimer);
     }
-    // Note: In a real implementation, you'd also clean up socket listeners
+    // Detach from the shared socket service
+    this.socketListeners.forEach(([event, listener]) =>
+      socketService.off(event, listener)
+    );
+    this.socketListeners = [];
   }
 }
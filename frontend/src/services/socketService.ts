@@ -8,9 +8,37 @@ import {
   SocketError,
   SocketErrorCode,
   SocketLifecycleEvent,
+  DocumentVersion,
+  DocumentSavedEvent,
+  DocumentVersionPreview,
+  DocumentVersionRestoredEvent,
+  UserStatusEvent,
+  UserRoleChangedEvent,
+  AssignableRole,
+  KickedEvent,
+  BansListEvent,
+  RoomLockChangedEvent,
+  RoomOwnerChangedEvent,
+  OlderMessagesEvent,
+  MessageDeletedEvent,
+  MessageReactionsUpdatedEvent,
+  ThreadMessagesEvent,
+  ThreadReplyEvent,
+  ReplyNotificationEvent,
+  MentionedEvent,
+  PinnedMessagesUpdatedEvent,
+  AnnouncementChangedEvent,
+  ReadReceiptsEvent,
+  PollUpdatedEvent,
+  CreatePollRequest,
+  UserRenamedEvent,
+  PresenceChangedEvent,
+  SendMessageRequest,
+  ClientTokenEvent,
 } from '../types/index.js';
 import { frontendConfig } from '../config/environment.js';
 import logger from '../utils/logger.js';
+import { userPersistenceService } from './userPersistenceService.js';
 
 class SocketService {
   private socket: Socket | null = null;
@@ -34,6 +62,11 @@ class SocketService {
         this.socket = io(url, {
           transports: ['websocket'],
           upgrade: true,
+          // Read on every (re)connect, so a token issued since is sent along
+          auth: cb => {
+            const clientToken = userPersistenceService.getClientToken();
+            cb(clientToken ? { clientToken } : {});
+          },
         });
 
         this.emit('lifecycle', 'connecting' as SocketLifecycleEvent);
@@ -116,6 +149,11 @@ class SocketService {
       return;
     }
 
+    // Identifies this browser to the server, e.g. for room bans
+    this.socket.on('client-token', (data: ClientTokenEvent) => {
+      userPersistenceService.setClientToken(data.clientToken);
+    });
+
     this.socket.on('room-joined', (data: JoinRoomResponse) => {
       this.emit('room-joined', data);
     });
@@ -128,10 +166,96 @@ class SocketService {
       this.emit('user-left', userId);
     });
 
+    this.socket.on('user-status-changed', (status: UserStatusEvent) => {
+      this.emit('user-status-changed', status);
+    });
+
+    this.socket.on('user-role-changed', (data: UserRoleChangedEvent) => {
+      this.emit('user-role-changed', data);
+    });
+
+    this.socket.on('room-owner-changed', (data: RoomOwnerChangedEvent) => {
+      this.emit('room-owner-changed', data);
+    });
+
+    this.socket.on('room-lock-changed', (data: RoomLockChangedEvent) => {
+      this.emit('room-lock-changed', data);
+    });
+
+    this.socket.on('kicked', (data: KickedEvent) => {
+      this.emit('kicked', data);
+    });
+
+    this.socket.on('bans', (data: BansListEvent) => {
+      this.emit('bans', data);
+    });
+
     this.socket.on('new-message', (message: ChatMessage) => {
       this.emit('new-message', message);
     });
 
+    this.socket.on('message-updated', (message: ChatMessage) => {
+      this.emit('message-updated', message);
+    });
+
+    this.socket.on('message-deleted', (data: MessageDeletedEvent) => {
+      this.emit('message-deleted', data);
+    });
+
+    this.socket.on(
+      'message-reactions-updated',
+      (data: MessageReactionsUpdatedEvent) => {
+        this.emit('message-reactions-updated', data);
+      }
+    );
+
+    this.socket.on('thread-messages', (data: ThreadMessagesEvent) => {
+      this.emit('thread-messages', data);
+    });
+
+    this.socket.on('thread-reply', (data: ThreadReplyEvent) => {
+      this.emit('thread-reply', data);
+    });
+
+    this.socket.on('reply-notification', (data: ReplyNotificationEvent) => {
+      this.emit('reply-notification', data);
+    });
+
+    this.socket.on('mentioned', (data: MentionedEvent) => {
+      this.emit('mentioned', data);
+    });
+
+    this.socket.on(
+      'pinned-messages-updated',
+      (data: PinnedMessagesUpdatedEvent) => {
+        this.emit('pinned-messages-updated', data);
+      }
+    );
+
+    this.socket.on('announcement-changed', (data: AnnouncementChangedEvent) => {
+      this.emit('announcement-changed', data);
+    });
+
+    this.socket.on('read-receipts', (data: ReadReceiptsEvent) => {
+      this.emit('read-receipts', data);
+    });
+
+    this.socket.on('poll-updated', (data: PollUpdatedEvent) => {
+      this.emit('poll-updated', data);
+    });
+
+    this.socket.on('user-renamed', (data: UserRenamedEvent) => {
+      this.emit('user-renamed', data);
+    });
+
+    this.socket.on('presence-changed', (data: PresenceChangedEvent) => {
+      this.emit('presence-changed', data);
+    });
+
+    this.socket.on('older-messages', (data: OlderMessagesEvent) => {
+      this.emit('older-messages', data);
+    });
+
     this.socket.on('user-typing-status', (status: TypingStatus) => {
       this.emit('user-typing-status', status);
     });
@@ -161,6 +285,10 @@ class SocketService {
       }
     );
 
+    this.socket.on('editor:sync', (data: { message: Uint8Array }) => {
+      this.emit('editor:sync', data);
+    });
+
     this.socket.on(
       'editor:awareness-update',
       (data: { awareness: Uint8Array; userId: string }) => {
@@ -178,23 +306,181 @@ class SocketService {
         this.emit('editor:activity', data);
       }
     );
+
+    // Document version history
+    this.socket.on('editor:document-save', (data: DocumentSavedEvent) => {
+      this.emit('editor:document-save', data);
+    });
+
+    this.socket.on(
+      'editor:versions',
+      (data: { versions: DocumentVersion[] }) => {
+        this.emit('editor:versions', data);
+      }
+    );
+
+    this.socket.on('editor:version-preview', (data: DocumentVersionPreview) => {
+      this.emit('editor:version-preview', data);
+    });
+
+    this.socket.on(
+      'editor:version-restored',
+      (data: DocumentVersionRestoredEvent) => {
+        this.emit('editor:version-restored', data);
+      }
+    );
   }
 
-  joinRoom(roomId: string, nickname: string, userId?: string) {
+  joinRoom(
+    roomId: string,
+    nickname: string,
+    sessionToken?: string,
+    passcode?: string
+  ) {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
 
-    const data: JoinRoomRequest = { roomId, nickname, userId };
+    const data: JoinRoomRequest = { roomId, nickname, sessionToken, passcode };
     this.socket.emit('join-room', data);
   }
 
-  sendMessage(content: string) {
+  // With a parentId the message is a reply in that message's thread
+  sendMessage(content: string, parentId?: string, attachmentIds?: string[]) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    const data: SendMessageRequest = { content };
+    if (parentId) {
+      data.parentId = parentId;
+    }
+    if (attachmentIds?.length) {
+      data.attachmentIds = attachmentIds;
+    }
+    this.socket.emit('send-message', data);
+  }
+
+  loadThread(parentId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('load-thread', { parentId });
+  }
+
+  // Authors only; the server also checks this
+  editMessage(messageId: string, content: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('edit-message', { messageId, content });
+  }
+
+  // Authors, or the owner and moderators for anyone's message
+  deleteMessage(messageId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('delete-message', { messageId });
+  }
+
+  // Toggles: sending the same emoji again removes the reaction
+  reactToMessage(messageId: string, emoji: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('react-message', { messageId, emoji });
+  }
+
+  // Owner and moderators only, like setAnnouncement
+  pinMessage(messageId: string) {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
 
-    this.socket.emit('send-message', { content });
+    this.socket.emit('pin-message', { messageId });
+  }
+
+  unpinMessage(messageId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('unpin-message', { messageId });
+  }
+
+  // An empty announcement removes the banner
+  setAnnouncement(announcement: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('set-announcement', { announcement });
+  }
+
+  createPoll(request: CreatePollRequest) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('create-poll', request);
+  }
+
+  // Replaces the user's earlier votes; no options retracts them
+  votePoll(messageId: string, optionIds: string[]) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('vote-poll', { messageId, optionIds });
+  }
+
+  // The poll's creator or the room owner only
+  closePoll(messageId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('close-poll', { messageId });
+  }
+
+  changeNickname(nickname: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('change-nickname', { nickname });
+  }
+
+  // Slash commands run by the server; see utils/slashCommands
+  runCommand(command: string, args: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('run-command', { command, args });
+  }
+
+  // The latest top-level message the user has seen
+  markRead(messageId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('mark-read', { messageId });
+  }
+
+  // Request the page of history before the given message ID
+  loadOlderMessages(before: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('load-older-messages', { before });
   }
 
   sendTypingStatus(isTyping: boolean) {
@@ -222,6 +508,15 @@ class SocketService {
     this.socket.emit('editor:document-update', { update });
   }
 
+  // y-protocols sync messages (state vector handshake with the server doc)
+  sendSyncMessage(message: Uint8Array) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('editor:sync', { message });
+  }
+
   sendAwarenessUpdate(awareness: Uint8Array) {
     if (!this.socket) {
       throw new Error('Socket not connected');
@@ -230,6 +525,14 @@ class SocketService {
     this.socket.emit('editor:awareness-update', { awareness });
   }
 
+  // Sent by presenceService; idleMs is the time since the user's last input
+  sendPresenceHeartbeat(idleMs: number) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+    this.socket.emit('presence-heartbeat', { idleMs });
+  }
+
   // Minimal activity signal to avoid detailed update information
   sendEditorActivity(kind: 'edit' | 'save' | 'presence') {
     if (!this.socket) {
@@ -238,12 +541,97 @@ class SocketService {
     this.socket.emit('editor:activity', { kind });
   }
 
-  sendDocumentSave(documentId: string, content?: unknown, title?: string) {
+  // Ask the server to store a version of the room document
+  sendDocumentSave(documentId: string, title?: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('editor:document-save', { documentId, title });
+  }
+
+  requestDocumentVersions() {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('editor:list-versions');
+  }
+
+  previewDocumentVersion(version: number) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('editor:preview-version', { version });
+  }
+
+  restoreDocumentVersion(version: number) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('editor:restore-version', { version });
+  }
+
+  // Owner only; the server rejects role changes from anyone else
+  setUserRole(userId: string, role: AssignableRole) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('set-user-role', { userId, role });
+  }
+
+  // Owner only; the previous owner becomes a moderator
+  transferOwnership(userId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('transfer-ownership', { userId });
+  }
+
+  // Owner only; a locked room refuses new users
+  setRoomLocked(isLocked: boolean) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('set-room-locked', { isLocked });
+  }
+
+  // Owner and moderators only, like the ban methods below
+  kickUser(userId: string, reason?: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('kick-user', { userId, reason });
+  }
+
+  banUser(userId: string, reason?: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('ban-user', { userId, reason });
+  }
+
+  unbanUser(userId: string) {
+    if (!this.socket) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('unban-user', { userId });
+  }
+
+  requestBans() {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
 
-    this.socket.emit('editor:document-save', { documentId, content, title });
+    this.socket.emit('list-bans');
   }
 
   // Event listener management
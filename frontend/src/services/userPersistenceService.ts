@@ -1,10 +1,11 @@
 import logger from '../utils/logger.js';
 
 export interface StoredUserSession {
-  userId: string;
+  sessionToken: string; // Server-signed; the bare userId isn't enough to rejoin
   nickname: string;
   roomId: string;
   lastActivity: number; // timestamp
+  lastReadMessageId?: string; // Keeps the unread count across reloads
 }
 
 /**
@@ -13,6 +14,8 @@ export interface StoredUserSession {
 class UserPersistenceService {
   private readonly SESSION_KEY_PREFIX = 'kuikui_session_';
   private readonly SESSION_EXPIRY_HOURS = 24; // Sessions expire after 24 hours
+  // Server-issued browser ID, shared by all rooms
+  private readonly CLIENT_TOKEN_KEY = 'kuikui_client_token';
 
   // Legacy key for migration purposes
   private readonly LEGACY_USER_ID_KEY = 'kuikui_user_id';
@@ -48,10 +51,10 @@ class UserPersistenceService {
   /**
    * Store complete user session information
    */
-  setUserSession(userId: string, nickname: string, roomId: string): void {
+  setUserSession(sessionToken: string, nickname: string, roomId: string): void {
     try {
       const session: StoredUserSession = {
-        userId,
+        sessionToken,
         nickname,
         roomId,
         lastActivity: Date.now(),
@@ -61,7 +64,6 @@ class UserPersistenceService {
     } catch (error) {
       logger.error('Failed to store user session in localStorage', {
         error: error instanceof Error ? error.message : String(error),
-        userId,
         nickname,
         roomId,
       });
@@ -143,10 +145,13 @@ class UserPersistenceService {
     return (
       typeof obj === 'object' &&
       obj !== null &&
-      typeof (obj as StoredUserSession).userId === 'string' &&
+      typeof (obj as StoredUserSession).sessionToken === 'string' &&
       typeof (obj as StoredUserSession).nickname === 'string' &&
       typeof (obj as StoredUserSession).roomId === 'string' &&
-      typeof (obj as StoredUserSession).lastActivity === 'number'
+      typeof (obj as StoredUserSession).lastActivity === 'number' &&
+      ['undefined', 'string'].includes(
+        typeof (obj as StoredUserSession).lastReadMessageId
+      )
     );
   }
 
@@ -180,6 +185,69 @@ class UserPersistenceService {
     }
   }
 
+  /**
+   * Remember the last chat message read in a room's session
+   */
+  setLastReadMessageId(roomId: string, messageId: string): void {
+    try {
+      const session = this.getUserSession(roomId);
+      if (session) {
+        session.lastReadMessageId = messageId;
+        localStorage.setItem(
+          this.getSessionKey(roomId),
+          JSON.stringify(session)
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to store last read message in localStorage', {
+        error: error instanceof Error ? error.message : String(error),
+        roomId,
+      });
+    }
+  }
+
+  /**
+   * Keep a room's session in step with a nickname changed in the room
+   */
+  setNickname(roomId: string, nickname: string): void {
+    try {
+      const session = this.getUserSession(roomId);
+      if (session) {
+        session.nickname = nickname;
+        localStorage.setItem(
+          this.getSessionKey(roomId),
+          JSON.stringify(session)
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to store nickname in localStorage', {
+        error: error instanceof Error ? error.message : String(error),
+        roomId,
+      });
+    }
+  }
+
+  getClientToken(): string | null {
+    try {
+      return localStorage.getItem(this.CLIENT_TOKEN_KEY);
+    } catch (error) {
+      logger.error('Failed to retrieve client token from localStorage', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  setClientToken(clientToken: string): void {
+    try {
+      localStorage.setItem(this.CLIENT_TOKEN_KEY, clientToken);
+    } catch (error) {
+      logger.error('Failed to store client token in localStorage', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Clear the stored user session for a specific room, or all sessions
    */
@@ -216,11 +284,11 @@ class UserPersistenceService {
   }
 
   /**
-   * Get the user ID from the current session (if any)
+   * Get the session token from the current session (if any)
    */
-  getUserIdFromSession(): string | null {
+  getSessionToken(): string | null {
     const session = this.getUserSession();
-    return session ? session.userId : null;
+    return session ? session.sessionToken : null;
   }
 
   /**
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '../markdown';
+
+describe('Markdown Utils', () => {
+  describe('parseInline', () => {
+    it('should parse bold, italic and inline code', () => {
+      expect(parseInline('**bold** _it_ `x`')).toEqual([
+        {
+          type: 'bold',
+          start: 0,
+          children: [{ type: 'text', start: 2, text: 'bold' }],
+        },
+        { type: 'text', start: 8, text: ' ' },
+        {
+          type: 'italic',
+          start: 9,
+          children: [{ type: 'text', start: 10, text: 'it' }],
+        },
+        { type: 'text', start: 13, text: ' ' },
+        { type: 'code', start: 14, text: 'x' },
+      ]);
+    });
+
+    it('should not format inside inline code', () => {
+      expect(parseInline('`**not bold**`')).toEqual([
+        { type: 'code', start: 0, text: '**not bold**' },
+      ]);
+    });
+
+    it('should leave unmatched delimiters and snake_case as text', () => {
+      expect(parseInline('2 * 3 = 6, **open')).toEqual([
+        { type: 'text', start: 0, text: '2 * 3 = 6, **open' },
+      ]);
+      expect(parseInline('use snake_case_names')).toEqual([
+        { type: 'text', start: 0, text: 'use snake_case_names' },
+      ]);
+    });
+
+    it('should parse links with safe URLs', () => {
+      expect(parseInline('see [the docs](https://example.com/docs)')).toEqual([
+        { type: 'text', start: 0, text: 'see ' },
+        {
+          type: 'link',
+          start: 4,
+          href: 'https://example.com/docs',
+          children: [{ type: 'text', start: 5, text: 'the docs' }],
+        },
+      ]);
+    });
+
+    it('should keep links with unsafe URLs as text', () => {
+      expect(parseInline('[click](javascript:alert)')).toEqual([
+        { type: 'text', start: 0, text: '[click](javascript:alert)' },
+      ]);
+    });
+
+    it('should autolink bare URLs without trailing punctuation', () => {
+      expect(parseInline('go to https://example.com.')).toEqual([
+        { type: 'text', start: 0, text: 'go to ' },
+        {
+          type: 'link',
+          start: 6,
+          href: 'https://example.com',
+          children: [{ type: 'text', start: 6, text: 'https://example.com' }],
+        },
+        { type: 'text', start: 25, text: '.' },
+      ]);
+    });
+
+    it('should offset node positions', () => {
+      expect(parseInline('*a*', 10)).toEqual([
+        {
+          type: 'italic',
+          start: 10,
+          children: [{ type: 'text', start: 11, text: 'a' }],
+        },
+      ]);
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should split paragraphs on blank lines and keep line breaks', () => {
+      expect(parseMarkdown('one\ntwo\n\nthree')).toEqual([
+        {
+          type: 'paragraph',
+          start: 0,
+          children: [
+            { type: 'text', start: 0, text: 'one' },
+            { type: 'break', start: 3 },
+            { type: 'text', start: 4, text: 'two' },
+          ],
+        },
+        {
+          type: 'paragraph',
+          start: 9,
+          children: [{ type: 'text', start: 9, text: 'three' }],
+        },
+      ]);
+    });
+
+    it('should keep fenced code verbatim', () => {
+      expect(
+        parseMarkdown('Look:\n```ts\nif (a) {\n  **b**;\n}\n```\ndone')
+      ).toEqual([
+        {
+          type: 'paragraph',
+          start: 0,
+          children: [{ type: 'text', start: 0, text: 'Look:' }],
+        },
+        {
+          type: 'code',
+          start: 6,
+          language: 'ts',
+          text: 'if (a) {\n  **b**;\n}',
+        },
+        {
+          type: 'paragraph',
+          start: 36,
+          children: [{ type: 'text', start: 36, text: 'done' }],
+        },
+      ]);
+    });
+
+    it('should run an unclosed fence to the end', () => {
+      expect(parseMarkdown('```\ncode')).toEqual([
+        { type: 'code', start: 0, language: undefined, text: 'code' },
+      ]);
+    });
+
+    it('should parse unordered and ordered lists', () => {
+      expect(parseMarkdown('- a\n- *b*\n\n3. c\n4) d')).toEqual([
+        {
+          type: 'list',
+          start: 0,
+          ordered: false,
+          firstNumber: undefined,
+          items: [
+            { start: 0, children: [{ type: 'text', start: 2, text: 'a' }] },
+            {
+              start: 4,
+              children: [
+                {
+                  type: 'italic',
+                  start: 6,
+                  children: [{ type: 'text', start: 7, text: 'b' }],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          type: 'list',
+          start: 11,
+          ordered: true,
+          firstNumber: 3,
+          items: [
+            { start: 11, children: [{ type: 'text', start: 14, text: 'c' }] },
+            { start: 16, children: [{ type: 'text', start: 19, text: 'd' }] },
+          ],
+        },
+      ]);
+    });
+
+    it('should return no blocks for empty content', () => {
+      expect(parseMarkdown('')).toEqual([]);
+    });
+  });
+});
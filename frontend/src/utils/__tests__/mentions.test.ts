@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { splitMentions, findMentionQuery } from '../mentions';
+
+describe('Mention Utils', () => {
+  describe('splitMentions', () => {
+    it('should split content into text and mention segments', () => {
+      const content = 'hi @Alice and @Bob!';
+
+      expect(
+        splitMentions(content, [
+          { userId: 'user-2', start: 14, length: 4 },
+          { userId: 'user-1', start: 3, length: 6 },
+        ])
+      ).toEqual([
+        { start: 0, text: 'hi ' },
+        { start: 3, text: '@Alice', userId: 'user-1' },
+        { start: 9, text: ' and ' },
+        { start: 14, text: '@Bob', userId: 'user-2' },
+        { start: 18, text: '!' },
+      ]);
+    });
+
+    it('should return the whole content without mentions', () => {
+      expect(splitMentions('plain text')).toEqual([
+        { start: 0, text: 'plain text' },
+      ]);
+    });
+
+    it('should ignore ranges outside the content', () => {
+      expect(
+        splitMentions('@Al', [{ userId: 'user-1', start: 0, length: 6 }])
+      ).toEqual([{ start: 0, text: '@Al' }]);
+    });
+  });
+
+  describe('findMentionQuery', () => {
+    it('should find the mention being typed before the caret', () => {
+      expect(findMentionQuery('hey @Bo', 7)).toEqual({ start: 4, query: 'Bo' });
+      expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    });
+
+    it('should allow spaces for nicknames that contain them', () => {
+      expect(findMentionQuery('@Bob S', 6)).toEqual({
+        start: 0,
+        query: 'Bob S',
+      });
+    });
+
+    it('should ignore an @ inside a word', () => {
+      expect(findMentionQuery('mail bob@ali', 12)).toBeNull();
+      expect(findMentionQuery('no mention', 10)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  notifyIfHidden,
+  requestNotificationPermission,
+} from '../notifications';
+
+describe('Notification Utils', () => {
+  const NotificationMock = vi.fn() as unknown as typeof Notification & {
+    permission: NotificationPermission;
+    requestPermission: ReturnType<typeof vi.fn>;
+  };
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    Object.defineProperty(document, 'visibilityState', {
+      value: state,
+      configurable: true,
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    NotificationMock.permission = 'granted';
+    NotificationMock.requestPermission = vi.fn().mockResolvedValue('granted');
+    vi.stubGlobal('Notification', NotificationMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setVisibility('visible');
+  });
+
+  it('should notify when the tab is hidden and permission is granted', () => {
+    setVisibility('hidden');
+
+    expect(notifyIfHidden('Bob mentioned you', 'hi @Alice')).toBe(true);
+    expect(NotificationMock).toHaveBeenCalledWith('Bob mentioned you', {
+      body: 'hi @Alice',
+    });
+  });
+
+  it('should not notify while the tab is visible', () => {
+    setVisibility('visible');
+
+    expect(notifyIfHidden('Bob mentioned you', 'hi')).toBe(false);
+    expect(NotificationMock).not.toHaveBeenCalled();
+  });
+
+  it('should not notify without permission', () => {
+    setVisibility('hidden');
+    NotificationMock.permission = 'denied';
+
+    expect(notifyIfHidden('Bob mentioned you', 'hi')).toBe(false);
+  });
+
+  it('should only request permission when it has not been decided', () => {
+    NotificationMock.permission = 'default';
+    requestNotificationPermission();
+    expect(NotificationMock.requestPermission).toHaveBeenCalledTimes(1);
+
+    NotificationMock.permission = 'denied';
+    requestNotificationPermission();
+    expect(NotificationMock.requestPermission).toHaveBeenCalledTimes(1);
+  });
+});
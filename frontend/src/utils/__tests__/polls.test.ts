@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { isPollOpen } from '../polls';
+import type { Poll } from '../../types';
+
+describe('Poll Utils', () => {
+  const poll: Poll = {
+    question: 'Where to?',
+    options: [
+      { id: 'pizza', text: 'Pizza', votes: 0 },
+      { id: 'sushi', text: 'Sushi', votes: 0 },
+    ],
+    multipleChoice: false,
+    anonymous: false,
+    voterCount: 0,
+  };
+  const now = new Date('2025-10-26T10:00:00Z');
+
+  it('should be open without a close time', () => {
+    expect(isPollOpen(poll, now)).toBe(true);
+  });
+
+  it('should close at its close time, also given as a string', () => {
+    const closesAt = '2025-10-26T10:05:00Z' as unknown as Date;
+
+    expect(isPollOpen({ ...poll, closesAt }, now)).toBe(true);
+    expect(
+      isPollOpen({ ...poll, closesAt }, new Date('2025-10-26T10:05:00Z'))
+    ).toBe(false);
+  });
+
+  it('should be closed once closed early', () => {
+    expect(isPollOpen({ ...poll, closedAt: now }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findSlashCommand,
+  getSlashCommandSuggestions,
+  parseSlashCommand,
+  unescapeSlash,
+} from '../slashCommands';
+
+describe('Slash Command Utils', () => {
+  it('should parse commands and their arguments', () => {
+    expect(parseSlashCommand('/timer 5m  Coffee break ')).toEqual({
+      command: 'timer',
+      args: '5m  Coffee break',
+    });
+    expect(parseSlashCommand('/CLEAR')).toEqual({ command: 'clear', args: '' });
+    expect(parseSlashCommand('/me waves\nhello')).toEqual({
+      command: 'me',
+      args: 'waves\nhello',
+    });
+  });
+
+  it('should leave ordinary and escaped messages alone', () => {
+    expect(parseSlashCommand('hello /me')).toBeNull();
+    expect(parseSlashCommand('//usr/bin')).toBeNull();
+    expect(parseSlashCommand('/')).toBeNull();
+    expect(unescapeSlash('//usr/bin')).toBe('/usr/bin');
+    expect(unescapeSlash('hello')).toBe('hello');
+  });
+
+  it('should find registered commands', () => {
+    expect(findSlashCommand('Clear')?.local).toBe(true);
+    expect(findSlashCommand('dance')).toBeUndefined();
+  });
+
+  it('should suggest commands while the name is typed', () => {
+    expect(getSlashCommandSuggestions('/')).toHaveLength(6);
+    expect(getSlashCommandSuggestions('/t').map(c => c.name)).toEqual([
+      'topic',
+      'timer',
+    ]);
+    expect(getSlashCommandSuggestions('/timer 5m')).toEqual([]);
+    expect(getSlashCommandSuggestions('hi')).toEqual([]);
+  });
+
+  it('should suggest from a custom registry', () => {
+    const commands = [{ name: 'shrug', description: 'Append ¯\\_(ツ)_/¯' }];
+
+    expect(getSlashCommandSuggestions('/sh', commands)).toEqual(commands);
+    expect(findSlashCommand('shrug', commands)).toBe(commands[0]);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FALLBACK_USER_COLOR,
+  getUserColor,
+  getUserInitials,
+} from '../userAppearance';
+
+describe('User Appearance Utils', () => {
+  it('should use the color assigned by the server', () => {
+    expect(getUserColor({ color: '#2563EB' })).toBe('#2563EB');
+    expect(getUserColor({})).toBe(FALLBACK_USER_COLOR);
+    expect(getUserColor(undefined)).toBe(FALLBACK_USER_COLOR);
+  });
+
+  it('should take up to two initials', () => {
+    expect(getUserInitials('alice')).toBe('A');
+    expect(getUserInitials('Alice Smith')).toBe('AS');
+    expect(getUserInitials('Alice B Smith')).toBe('AB');
+  });
+});
@@ -3,6 +3,14 @@ import {
   validateNickname,
   validateRoomId,
   validateMessage,
+  validateModerationReason,
+  validateReaction,
+  validateAnnouncement,
+  validatePoll,
+  validateSearchQuery,
+  validatePasscode,
+  sanitizeMessage,
+  isSafeLinkUrl,
   VALIDATION_RULES,
 } from '../validation';
 
@@ -136,6 +144,177 @@ describe('Validation Utils', () => {
       const result = validateMessage(maxMessage);
       expect(result.isValid).toBe(true);
     });
+
+    it('should limit the number of lines', () => {
+      const lines = (count: number) => Array(count).fill('line').join('\n');
+      expect(
+        validateMessage(lines(VALIDATION_RULES.message.maxLines)).isValid
+      ).toBe(true);
+      expect(
+        validateMessage(lines(VALIDATION_RULES.message.maxLines + 1)).error
+      ).toBe(
+        `Message must be no more than ${VALIDATION_RULES.message.maxLines} lines`
+      );
+    });
+  });
+
+  describe('sanitizeMessage', () => {
+    it('should keep newlines, indentation and markup characters', () => {
+      const code = '```\nif (a < b) {\n  return <div />;\n}\n```';
+      expect(sanitizeMessage(code)).toBe(code);
+      expect(sanitizeMessage('**bold** and `x <= y`')).toBe(
+        '**bold** and `x <= y`'
+      );
+    });
+
+    it('should normalize line endings and strip trailing whitespace', () => {
+      expect(sanitizeMessage('one  \r\ntwo\t\r\n\n  ')).toBe('one\ntwo');
+    });
+
+    it('should keep the indentation of the first line', () => {
+      expect(sanitizeMessage('\n\n    const a = 1;\n    a++;\n')).toBe(
+        '    const a = 1;\n    a++;'
+      );
+    });
+
+    it('should collapse long runs of blank lines', () => {
+      expect(sanitizeMessage('a\n\n\n\n\n\nb')).toBe('a\n\n\nb');
+    });
+
+    it('should drop control characters', () => {
+      expect(sanitizeMessage('a\u0000b\u0007c\u007f\td')).toBe('abc\td');
+    });
+
+    it('should handle non-string input', () => {
+      expect(sanitizeMessage(null as unknown as string)).toBe('');
+      expect(sanitizeMessage(undefined as unknown as string)).toBe('');
+    });
+  });
+
+  describe('isSafeLinkUrl', () => {
+    it('should accept http, https and mailto links', () => {
+      expect(isSafeLinkUrl('https://example.com/a?b=c')).toBe(true);
+      expect(isSafeLinkUrl('http://example.com')).toBe(true);
+      expect(isSafeLinkUrl('mailto:team@example.com')).toBe(true);
+    });
+
+    it('should reject other schemes and relative or malformed URLs', () => {
+      expect(isSafeLinkUrl('javascript:alert(1)')).toBe(false);
+      expect(isSafeLinkUrl('data:text/html,hi')).toBe(false);
+      expect(isSafeLinkUrl('/room/abc')).toBe(false);
+      expect(isSafeLinkUrl('not a url')).toBe(false);
+    });
+  });
+
+  describe('validatePasscode', () => {
+    it('should accept passcodes within the length limits', () => {
+      expect(validatePasscode('1234').isValid).toBe(true);
+      expect(validatePasscode('a'.repeat(64)).isValid).toBe(true);
+    });
+
+    it('should reject missing, short and long passcodes', () => {
+      expect(validatePasscode('').error).toBe('Passcode is required');
+      expect(validatePasscode('123').isValid).toBe(false);
+      expect(validatePasscode('a'.repeat(65)).isValid).toBe(false);
+    });
+  });
+
+  describe('validateReaction', () => {
+    it('should accept emoji from the palette', () => {
+      for (const emoji of VALIDATION_RULES.reaction.allowed) {
+        expect(validateReaction(emoji).isValid).toBe(true);
+      }
+    });
+
+    it('should reject anything else', () => {
+      expect(validateReaction('').isValid).toBe(false);
+      expect(validateReaction('hello').isValid).toBe(false);
+      expect(validateReaction('👍👍').error).toBe(
+        VALIDATION_RULES.reaction.description
+      );
+    });
+  });
+
+  describe('validateModerationReason', () => {
+    it('should accept an empty or short reason', () => {
+      expect(validateModerationReason('').isValid).toBe(true);
+      expect(validateModerationReason('Off topic').isValid).toBe(true);
+    });
+
+    it('should reject reasons over the max length', () => {
+      const result = validateModerationReason(
+        'a'.repeat(VALIDATION_RULES.moderationReason.maxLength + 1)
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('200 characters');
+    });
+  });
+
+  describe('validateAnnouncement', () => {
+    it('should accept an empty or short announcement', () => {
+      expect(validateAnnouncement('').isValid).toBe(true);
+      expect(validateAnnouncement('Standup at 10:00').isValid).toBe(true);
+    });
+
+    it('should reject overly long announcements', () => {
+      const result = validateAnnouncement(
+        'a'.repeat(VALIDATION_RULES.announcement.maxLength + 1)
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(VALIDATION_RULES.announcement.description);
+    });
+  });
+
+  describe('validatePoll', () => {
+    it('should accept a question with distinct options', () => {
+      expect(validatePoll('Where to?', ['Pizza', 'Sushi']).isValid).toBe(true);
+    });
+
+    it('should require a question of limited length', () => {
+      expect(validatePoll('  ', ['Pizza', 'Sushi']).error).toBe(
+        'Poll question is required'
+      );
+      expect(validatePoll('a'.repeat(201), ['Pizza', 'Sushi']).error).toBe(
+        'Poll question must be no more than 200 characters'
+      );
+    });
+
+    it('should require 2-10 options', () => {
+      expect(validatePoll('Where to?', ['Pizza']).error).toBe(
+        'Polls need 2-10 options'
+      );
+      const tooMany = Array.from({ length: 11 }, (_, i) => `Option ${i}`);
+      expect(validatePoll('Where to?', tooMany).error).toBe(
+        'Polls need 2-10 options'
+      );
+    });
+
+    it('should reject empty, overly long and duplicate options', () => {
+      expect(validatePoll('Where to?', ['Pizza', ' ']).error).toBe(
+        'Poll options cannot be empty'
+      );
+      expect(validatePoll('Where to?', ['Pizza', 'a'.repeat(81)]).error).toBe(
+        'Poll options must be no more than 80 characters'
+      );
+      expect(validatePoll('Where to?', ['Pizza', ' pizza ']).error).toBe(
+        'Poll options must be different'
+      );
+    });
+  });
+
+  describe('validateSearchQuery', () => {
+    it('should accept a short query', () => {
+      expect(validateSearchQuery('deploy link').isValid).toBe(true);
+    });
+
+    it('should reject empty and overly long queries', () => {
+      expect(validateSearchQuery('   ').error).toBe('Search query is required');
+      const result = validateSearchQuery(
+        'a'.repeat(VALIDATION_RULES.searchQuery.maxLength + 1)
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(VALIDATION_RULES.searchQuery.description);
+    });
   });
 
   describe('VALIDATION_RULES', () => {
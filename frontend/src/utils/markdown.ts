@@ -0,0 +1,296 @@
+// Parser for the Markdown subset supported in chat: paragraphs, fenced code
+// blocks, lists and inline bold, italic, code and links. Messages are parsed
+// into plain data and rendered as React elements, so nothing in the content
+// is ever interpreted as HTML.
+//
+// Every node records `start`, its offset in the source. Offsets are unique
+// among siblings (usable as React keys), and text nodes use them to map
+// server-side mention ranges onto the rendered text.
+
+import { isSafeLinkUrl } from './validation';
+
+export type InlineNode =
+  | { type: 'text'; start: number; text: string }
+  | { type: 'bold' | 'italic'; start: number; children: InlineNode[] }
+  | { type: 'code'; start: number; text: string }
+  | { type: 'link'; start: number; href: string; children: InlineNode[] }
+  | { type: 'break'; start: number };
+
+export interface ListItem {
+  start: number;
+  children: InlineNode[];
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; start: number; children: InlineNode[] }
+  | { type: 'code'; start: number; language?: string; text: string }
+  | {
+      type: 'list';
+      start: number;
+      ordered: boolean;
+      firstNumber?: number; // Number of the first item of an ordered list
+      items: ListItem[];
+    };
+
+const FENCE = /^```\s*([\w+#-]*)\s*$/;
+const UNORDERED_ITEM = /^[-*+] +/;
+const ORDERED_ITEM = /^(\d{1,9})[.)] +/;
+const LINK = /^\[([^\]\n]+)\]\(([^)\s]+)\)/;
+const AUTOLINK = /^https?:\/\/[^\s<>]+/;
+// Left out of autolinks when they end one, as in "see https://example.com."
+const AUTOLINK_TRAILING = /[.,:;!?'")\]]+$/;
+
+interface Line {
+  start: number;
+  text: string;
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ start, text });
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Find the delimiter closing an emphasis opened at `from`. The content must
+ * be non-empty and not padded with spaces. Like CommonMark, `_` only counts
+ * at word boundaries so snake_case names stay intact.
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  const contentStart = from + delimiter.length;
+  if (/\s/.test(text.charAt(contentStart))) {
+    return -1;
+  }
+  if (delimiter.startsWith('_') && isWordChar(text[from - 1])) {
+    return -1;
+  }
+
+  let close = text.indexOf(delimiter, contentStart + 1);
+  while (close !== -1) {
+    const after = text[close + delimiter.length];
+    const valid =
+      !/\s/.test(text.charAt(close - 1)) &&
+      // A single delimiter must not be half of a double one
+      (delimiter.length === 2 || after !== delimiter) &&
+      !(delimiter.startsWith('_') && isWordChar(after));
+    if (valid) {
+      return close;
+    }
+    close = text.indexOf(delimiter, close + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parse inline formatting in one line of text. `offset` is the position of
+ * `text` in the message, used for the `start` of every node. Links are not
+ * parsed inside link text.
+ */
+export function parseInline(
+  text: string,
+  offset = 0,
+  allowLinks = true
+): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let textStart = 0;
+  let i = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      nodes.push({
+        type: 'text',
+        start: offset + textStart,
+        text: text.slice(textStart, end),
+      });
+    }
+  };
+  const pushNode = (node: InlineNode, end: number) => {
+    pushText(i);
+    nodes.push(node);
+    i = end;
+    textStart = end;
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text.charAt(i);
+
+    if (char === '`') {
+      const close = text.indexOf('`', i + 1);
+      if (close > i + 1) {
+        pushNode(
+          { type: 'code', start: offset + i, text: text.slice(i + 1, close) },
+          close + 1
+        );
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const double = text.charAt(i + 1) === char;
+      const delimiter = double ? char + char : char;
+      const close = findClosing(text, delimiter, i);
+      if (close !== -1) {
+        const contentStart = i + delimiter.length;
+        pushNode(
+          {
+            type: double ? 'bold' : 'italic',
+            start: offset + i,
+            children: parseInline(
+              text.slice(contentStart, close),
+              offset + contentStart,
+              allowLinks
+            ),
+          },
+          close + delimiter.length
+        );
+        continue;
+      }
+      // Skip the whole run so `**` is not retried as `*`
+      i += delimiter.length;
+      continue;
+    }
+
+    if (allowLinks && char === '[') {
+      const match = LINK.exec(rest);
+      if (match && isSafeLinkUrl(match[2])) {
+        pushNode(
+          {
+            type: 'link',
+            start: offset + i,
+            href: match[2],
+            children: parseInline(match[1], offset + i + 1, false),
+          },
+          i + match[0].length
+        );
+        continue;
+      }
+    }
+
+    if (allowLinks && char === 'h' && !isWordChar(text[i - 1])) {
+      const match = AUTOLINK.exec(rest);
+      if (match) {
+        const url = match[0].replace(AUTOLINK_TRAILING, '');
+        if (isSafeLinkUrl(url)) {
+          pushNode(
+            {
+              type: 'link',
+              start: offset + i,
+              href: url,
+              children: [{ type: 'text', start: offset + i, text: url }],
+            },
+            i + url.length
+          );
+          continue;
+        }
+      }
+    }
+
+    i++;
+  }
+
+  pushText(text.length);
+  return nodes;
+}
+
+function listItemMatch(line: string, ordered: boolean): RegExpExecArray | null {
+  return (ordered ? ORDERED_ITEM : UNORDERED_ITEM).exec(line);
+}
+
+/**
+ * Parse chat message content into blocks. Anything that isn't valid syntax
+ * (an unknown link scheme, an unclosed `**`) is kept as plain text.
+ */
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = splitLines(content);
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.text.trim() === '') {
+      index++;
+      continue;
+    }
+
+    // Fenced code block; an unclosed fence runs to the end of the message
+    const fence = FENCE.exec(line.text);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && lines[index].text.trim() !== '```') {
+        codeLines.push(lines[index].text);
+        index++;
+      }
+      index++; // Closing fence
+      blocks.push({
+        type: 'code',
+        start: line.start,
+        language: fence[1] || undefined,
+        text: codeLines.join('\n'),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line.text);
+    if (ordered || UNORDERED_ITEM.test(line.text)) {
+      const items: ListItem[] = [];
+      const firstNumber = ordered
+        ? Number(ORDERED_ITEM.exec(line.text)?.[1])
+        : undefined;
+      let match = listItemMatch(line.text, ordered);
+      while (match) {
+        const item = lines[index];
+        const contentStart = item.start + match[0].length;
+        items.push({
+          start: item.start,
+          children: parseInline(item.text.slice(match[0].length), contentStart),
+        });
+        index++;
+        match =
+          index < lines.length
+            ? listItemMatch(lines[index].text, ordered)
+            : null;
+      }
+      blocks.push({
+        type: 'list',
+        start: line.start,
+        ordered,
+        firstNumber,
+        items,
+      });
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block
+    const children: InlineNode[] = [];
+    while (index < lines.length) {
+      const current = lines[index];
+      if (
+        current.text.trim() === '' ||
+        FENCE.test(current.text) ||
+        UNORDERED_ITEM.test(current.text) ||
+        ORDERED_ITEM.test(current.text)
+      ) {
+        break;
+      }
+      if (children.length > 0) {
+        children.push({ type: 'break', start: current.start - 1 });
+      }
+      children.push(...parseInline(current.text, current.start));
+      index++;
+    }
+    blocks.push({ type: 'paragraph', start: line.start, children });
+  }
+
+  return blocks;
+}
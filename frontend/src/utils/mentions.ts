@@ -0,0 +1,68 @@
+// Helpers for rendering and typing `@nickname` mentions. Mentions themselves
+// are parsed by the server and arrive as ranges on ChatMessage.
+
+import { MessageMention } from '../types/index';
+
+export interface ContentSegment {
+  start: number; // Offset in the content, unique per segment
+  text: string;
+  userId?: string; // Set when the segment is a mention of this user
+}
+
+/**
+ * Split message content into plain text and mention segments. Ranges that
+ * overlap or fall outside the content are ignored.
+ */
+export function splitMentions(
+  content: string,
+  mentions: MessageMention[] = []
+): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let position = 0;
+
+  for (const mention of [...mentions].sort((a, b) => a.start - b.start)) {
+    const end = mention.start + mention.length;
+    if (mention.start < position || end > content.length) {
+      continue;
+    }
+    if (mention.start > position) {
+      segments.push({
+        start: position,
+        text: content.slice(position, mention.start),
+      });
+    }
+    segments.push({
+      start: mention.start,
+      text: content.slice(mention.start, end),
+      userId: mention.userId,
+    });
+    position = end;
+  }
+
+  if (position < content.length) {
+    segments.push({ start: position, text: content.slice(position) });
+  }
+  return segments;
+}
+
+export interface MentionQuery {
+  start: number; // Index of the `@`
+  query: string; // Text typed after it so far
+}
+
+/**
+ * The mention being typed just before the caret, if any. Like on the server,
+ * the `@` must start the input or follow whitespace.
+ */
+export function findMentionQuery(
+  value: string,
+  caret: number
+): MentionQuery | null {
+  const match = /(^|\s)@([^@]*)$/.exec(value.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+
+  const query = match[2];
+  return { start: caret - query.length - 1, query };
+}
@@ -0,0 +1,43 @@
+// Browser notifications for events the user would otherwise miss while the
+// tab is in the background
+
+import logger from './logger';
+
+const isSupported = (): boolean => typeof Notification !== 'undefined';
+
+/**
+ * Ask for permission once. Browsers only show the prompt in response to a
+ * user action, so call this from e.g. a click handler.
+ */
+export function requestNotificationPermission(): void {
+  if (!isSupported() || Notification.permission !== 'default') {
+    return;
+  }
+
+  // Older Safari versions take a callback and return undefined
+  Promise.resolve(Notification.requestPermission()).catch((error: unknown) => {
+    logger.warn('Notification permission request failed', { error });
+  });
+}
+
+/**
+ * Show a notification if the tab is hidden and permission was granted.
+ * Returns whether one was shown, so callers can fall back to in-page notices.
+ */
+export function notifyIfHidden(title: string, body: string): boolean {
+  if (
+    document.visibilityState !== 'hidden' ||
+    !isSupported() ||
+    Notification.permission !== 'granted'
+  ) {
+    return false;
+  }
+
+  try {
+    new Notification(title, { body });
+    return true;
+  } catch (error) {
+    logger.warn('Failed to show notification', { error });
+    return false;
+  }
+}
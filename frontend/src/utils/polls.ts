@@ -0,0 +1,10 @@
+import { Poll } from '../types/index';
+
+// Polls stop accepting votes once closed early or past their close time.
+// Dates arrive from the server as strings.
+export function isPollOpen(poll: Poll, now: Date = new Date()): boolean {
+  return (
+    !poll.closedAt &&
+    (!poll.closesAt || new Date(poll.closesAt).getTime() > now.getTime())
+  );
+}
@@ -0,0 +1,33 @@
+import { PresenceStatus, User } from '../types/index';
+
+// Mirrors the backend: how often to send heartbeats, and how long without
+// input before the server counts the user as idle
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+export const IDLE_AFTER_MS = 60 * 1000;
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  away: 'Away',
+  offline: 'Offline',
+};
+
+// Background classes for status dots
+export const PRESENCE_DOT_CLASSES: Record<PresenceStatus, string> = {
+  active: 'bg-green-500',
+  idle: 'bg-yellow-400',
+  away: 'bg-orange-400',
+  offline: 'bg-gray-400',
+};
+
+// Online users from servers that don't track presence count as active
+export function getPresence(
+  user: Pick<User, 'isOnline' | 'presence'>
+): PresenceStatus {
+  if (!user.isOnline) {
+    return 'offline';
+  }
+  return user.presence && user.presence !== 'offline'
+    ? user.presence
+    : 'active';
+}
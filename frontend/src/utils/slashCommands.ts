@@ -0,0 +1,75 @@
+// Slash commands typed in the chat input. The server runs all of them except
+// local ones; add a command here (and a handler in the backend's
+// socketService) to make it available with autocomplete help.
+
+export interface SlashCommand {
+  name: string; // Typed after the slash
+  args?: string; // Argument hint, e.g. `<nickname>`
+  description: string;
+  local?: boolean; // Handled in the browser without a round trip
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'nick', args: '<nickname>', description: 'Change your nickname' },
+  { name: 'me', args: '<action>', description: 'Describe what you are doing' },
+  {
+    name: 'poll',
+    args: '<question> | <option> | <option>',
+    description: 'Start a poll',
+  },
+  { name: 'clear', description: 'Clear the chat on your screen', local: true },
+  {
+    name: 'topic',
+    args: '[text]',
+    description: 'Set the room announcement, or remove it',
+  },
+  {
+    name: 'timer',
+    args: '<duration> [label]',
+    description: 'Start a countdown, e.g. 90s, 5m or 1h30m',
+  },
+];
+
+export interface ParsedSlashCommand {
+  command: string; // Lowercased, without the slash
+  args: string;
+}
+
+/**
+ * The command in chat input such as `/timer 5m Break`, or null for ordinary
+ * messages. A leading `//` escapes the slash, see unescapeSlash.
+ */
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+  // The arguments group is undefined when there are none
+  const [, name, args = ''] = match;
+  return { command: name.toLowerCase(), args: args.trim() };
+}
+
+// `//path` is sent as the message `/path`
+export function unescapeSlash(input: string): string {
+  return input.startsWith('//') ? input.slice(1) : input;
+}
+
+export function findSlashCommand(
+  name: string,
+  commands: SlashCommand[] = SLASH_COMMANDS
+): SlashCommand | undefined {
+  return commands.find(command => command.name === name.toLowerCase());
+}
+
+// Commands matching the name typed so far, while no arguments are typed
+export function getSlashCommandSuggestions(
+  input: string,
+  commands: SlashCommand[] = SLASH_COMMANDS
+): SlashCommand[] {
+  const match = /^\/([a-z]*)$/i.exec(input);
+  if (!match) {
+    return [];
+  }
+  const typed = match[1].toLowerCase();
+  return commands.filter(command => command.name.startsWith(typed));
+}
@@ -0,0 +1,21 @@
+import { User } from '../types/index';
+
+// For users the server hasn't given a color, such as chat authors who have
+// since left the room
+export const FALLBACK_USER_COLOR = '#6B7280';
+
+// The server assigns each user a color, distinct within the room where
+// possible; editor cursors, avatars and chat all use it
+export function getUserColor(user?: Pick<User, 'color'>): string {
+  return user?.color ?? FALLBACK_USER_COLOR;
+}
+
+// e.g. `AS` for "Alice Smith"
+export function getUserInitials(nickname: string): string {
+  return nickname
+    .split(' ')
+    .map(word => word.charAt(0))
+    .join('')
+    .toUpperCase()
+    .substring(0, 2);
+}
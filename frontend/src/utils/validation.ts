@@ -12,15 +12,65 @@ export const VALIDATION_RULES = {
   message: {
     minLength: 1,
     maxLength: 1000,
+    maxLines: 50,
+    maxAttachments: 5,
     description: 'Message must be 1-1000 characters long',
   },
+  link: {
+    // Markdown links and autolinks with any other scheme render as text
+    allowedProtocols: ['http:', 'https:', 'mailto:'],
+  },
+  passcode: {
+    minLength: 4,
+    maxLength: 64,
+    description: 'Passcode must be 4-64 characters long',
+  },
+  moderationReason: {
+    maxLength: 200,
+    description: 'Reason must be no more than 200 characters',
+  },
+  announcement: {
+    maxLength: 280,
+    description: 'Announcement must be no more than 280 characters',
+  },
+  poll: {
+    questionMaxLength: 200,
+    optionMaxLength: 80,
+    minOptions: 2,
+    maxOptions: 10,
+    description: 'Polls need 2-10 options',
+  },
+  searchQuery: {
+    maxLength: 100,
+    description: 'Search must be no more than 100 characters',
+  },
+  reaction: {
+    allowed: ['👍', '👎', '❤️', '😂', '🎉', '🤔', '👀', '🚀'],
+    description: 'Reaction must be one of the supported emoji',
+  },
   roomId: {
     pattern:
       /^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-[89ab][a-f0-9]{3}-[a-f0-9]{12}$/i,
     description: 'Invalid room ID format',
   },
+  roomName: {
+    minLength: 1,
+    maxLength: 60,
+    description: 'Room name must be 1-60 characters long',
+  },
+  roomSlug: {
+    minLength: 3,
+    maxLength: 50,
+    pattern: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    description:
+      'Room URL must be 3-50 characters: lowercase letters, numbers and single hyphens',
+  },
 } as const;
 
+// Any UUID-shaped string is reserved for room IDs so slugs never shadow them
+const UUID_SHAPE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -77,15 +127,17 @@ export function validateMessage(message: string): ValidationResult {
     };
   }
 
-  const trimmed = message.trim();
-
-  if (trimmed.length < VALIDATION_RULES.message.minLength) {
+  if (message.trim().length < VALIDATION_RULES.message.minLength) {
     return {
       isValid: false,
       error: 'Message cannot be empty',
     };
   }
 
+  // Leading indentation is content (an indented code block), so only the
+  // trailing whitespace sanitizeMessage drops is left out of the limits
+  const trimmed = message.trimEnd();
+
   if (trimmed.length > VALIDATION_RULES.message.maxLength) {
     return {
       isValid: false,
@@ -93,6 +145,13 @@ export function validateMessage(message: string): ValidationResult {
     };
   }
 
+  if (trimmed.split('\n').length > VALIDATION_RULES.message.maxLines) {
+    return {
+      isValid: false,
+      error: `Message must be no more than ${VALIDATION_RULES.message.maxLines} lines`,
+    };
+  }
+
   // Check for prohibited content patterns
   const prohibitedPatterns = [
     /\b(?:spam|scam|phishing)\b/i,
@@ -113,6 +172,161 @@ export function validateMessage(message: string): ValidationResult {
   return { isValid: true };
 }
 
+// Room passcode validation
+export function validatePasscode(passcode: string): ValidationResult {
+  if (!passcode || typeof passcode !== 'string') {
+    return {
+      isValid: false,
+      error: 'Passcode is required',
+    };
+  }
+
+  if (
+    passcode.length < VALIDATION_RULES.passcode.minLength ||
+    passcode.length > VALIDATION_RULES.passcode.maxLength
+  ) {
+    return {
+      isValid: false,
+      error: VALIDATION_RULES.passcode.description,
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Kick/ban reason validation (the reason is optional)
+export function validateModerationReason(reason: string): ValidationResult {
+  if (typeof reason !== 'string') {
+    return {
+      isValid: false,
+      error: 'Reason must be text',
+    };
+  }
+
+  if (reason.trim().length > VALIDATION_RULES.moderationReason.maxLength) {
+    return {
+      isValid: false,
+      error: VALIDATION_RULES.moderationReason.description,
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Room announcement validation (empty removes the announcement)
+export function validateAnnouncement(announcement: string): ValidationResult {
+  if (typeof announcement !== 'string') {
+    return {
+      isValid: false,
+      error: 'Announcement must be text',
+    };
+  }
+
+  if (announcement.trim().length > VALIDATION_RULES.announcement.maxLength) {
+    return {
+      isValid: false,
+      error: VALIDATION_RULES.announcement.description,
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Poll validation; options are compared ignoring case and surrounding spaces
+export function validatePoll(
+  question: string,
+  options: string[]
+): ValidationResult {
+  if (typeof question !== 'string' || question.trim().length === 0) {
+    return {
+      isValid: false,
+      error: 'Poll question is required',
+    };
+  }
+
+  if (question.trim().length > VALIDATION_RULES.poll.questionMaxLength) {
+    return {
+      isValid: false,
+      error: `Poll question must be no more than ${VALIDATION_RULES.poll.questionMaxLength} characters`,
+    };
+  }
+
+  if (
+    !Array.isArray(options) ||
+    options.length < VALIDATION_RULES.poll.minOptions ||
+    options.length > VALIDATION_RULES.poll.maxOptions
+  ) {
+    return {
+      isValid: false,
+      error: VALIDATION_RULES.poll.description,
+    };
+  }
+
+  const trimmed = options.map(option =>
+    typeof option === 'string' ? option.trim() : ''
+  );
+  if (trimmed.some(option => option.length === 0)) {
+    return {
+      isValid: false,
+      error: 'Poll options cannot be empty',
+    };
+  }
+
+  if (
+    trimmed.some(
+      option => option.length > VALIDATION_RULES.poll.optionMaxLength
+    )
+  ) {
+    return {
+      isValid: false,
+      error: `Poll options must be no more than ${VALIDATION_RULES.poll.optionMaxLength} characters`,
+    };
+  }
+
+  if (
+    new Set(trimmed.map(option => option.toLowerCase())).size < trimmed.length
+  ) {
+    return {
+      isValid: false,
+      error: 'Poll options must be different',
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Chat search query validation
+export function validateSearchQuery(query: string): ValidationResult {
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    return {
+      isValid: false,
+      error: 'Search query is required',
+    };
+  }
+
+  if (query.trim().length > VALIDATION_RULES.searchQuery.maxLength) {
+    return {
+      isValid: false,
+      error: VALIDATION_RULES.searchQuery.description,
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Reactions are limited to a fixed palette
+export function validateReaction(emoji: string): ValidationResult {
+  const allowed: readonly string[] = VALIDATION_RULES.reaction.allowed;
+  if (typeof emoji !== 'string' || !allowed.includes(emoji)) {
+    return {
+      isValid: false,
+      error: VALIDATION_RULES.reaction.description,
+    };
+  }
+
+  return { isValid: true };
+}
+
 // Room ID validation
 export function validateRoomId(roomId: string): ValidationResult {
   if (!roomId || typeof roomId !== 'string') {
@@ -132,6 +346,135 @@ export function validateRoomId(roomId: string): ValidationResult {
   return { isValid: true };
 }
 
+// Room display name validation
+export function validateRoomName(name: string): ValidationResult {
+  if (typeof name !== 'string') {
+    return {
+      isValid: false,
+      error: 'Room name is required',
+    };
+  }
+
+  const trimmed = name.trim();
+
+  if (trimmed.length < VALIDATION_RULES.roomName.minLength) {
+    return {
+      isValid: false,
+      error: 'Room name cannot be empty',
+    };
+  }
+
+  if (trimmed.length > VALIDATION_RULES.roomName.maxLength) {
+    return {
+      isValid: false,
+      error: `Room name must be no more than ${VALIDATION_RULES.roomName.maxLength} characters`,
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Room slug validation (the human-readable part of /room/:slug links)
+export function validateRoomSlug(slug: string): ValidationResult {
+  if (!slug || typeof slug !== 'string') {
+    return {
+      isValid: false,
+      error: 'Room URL is required',
+    };
+  }
+
+  const { minLength, maxLength, pattern, description } =
+    VALIDATION_RULES.roomSlug;
+  if (
+    slug.length < minLength ||
+    slug.length > maxLength ||
+    !pattern.test(slug) ||
+    UUID_SHAPE.test(slug)
+  ) {
+    return {
+      isValid: false,
+      error: description,
+    };
+  }
+
+  return { isValid: true };
+}
+
+// Rooms can be addressed by their UUID or by their slug
+export function validateRoomIdOrSlug(value: string): ValidationResult {
+  if (!value || typeof value !== 'string') {
+    return {
+      isValid: false,
+      error: 'Room ID is required',
+    };
+  }
+
+  const trimmed = value.trim();
+  if (
+    validateRoomId(trimmed).isValid ||
+    validateRoomSlug(trimmed.toLowerCase()).isValid
+  ) {
+    return { isValid: true };
+  }
+
+  return {
+    isValid: false,
+    error: VALIDATION_RULES.roomId.description,
+  };
+}
+
+// Suggest a slug from a room name ("Sprint 42 Retro" -> "sprint-42-retro")
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, VALIDATION_RULES.roomSlug.maxLength)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Sanitize chat message content, which is Markdown source. Unlike
+ * sanitizeInput, newlines and indentation are kept (for code blocks and
+ * lists) and nothing is stripped as HTML: clients render messages from a
+ * parsed representation, never as HTML, so `<` is just text.
+ */
+export function sanitizeMessage(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  // Drop control characters other than tab and newline
+  const printable = Array.from(input.replace(/\r\n?/g, '\n'))
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return char === '\n' || char === '\t' || (code >= 0x20 && code !== 0x7f);
+    })
+    .join('');
+
+  return (
+    printable
+      // Trailing whitespace on each line
+      .replace(/[ \t]+$/gm, '')
+      // At most two blank lines in a row
+      .replace(/\n{4,}/g, '\n\n\n')
+      // Blank lines around the message, keeping the first line's indentation
+      .replace(/^\n+|\n+$/g, '')
+  );
+}
+
+// Whether a link target may be rendered as a link
+export function isSafeLinkUrl(url: string): boolean {
+  try {
+    const allowed: readonly string[] = VALIDATION_RULES.link.allowedProtocols;
+    return allowed.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
 // Sanitize input by removing or escaping potentially harmful content
 export function sanitizeInput(input: string): string {
   if (!input || typeof input !== 'string') {
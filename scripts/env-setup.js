@@ -48,7 +48,21 @@ function createBackendEnv(rootEnv) {
     WEBSOCKET_URL: rootEnv.WEBSOCKET_URL || 'http://localhost:3001',
     CORS_ORIGIN: rootEnv.CORS_ORIGIN || 'http://localhost:5173',
     ROOM_EXPIRY_HOURS: rootEnv.ROOM_EXPIRY_HOURS || '24',
-    ROOM_CAPACITY: rootEnv.ROOM_CAPACITY || '150'
+    ROOM_CAPACITY: rootEnv.ROOM_CAPACITY || '150',
+    DISCONNECT_GRACE_SECONDS: rootEnv.DISCONNECT_GRACE_SECONDS || '60',
+    MESSAGE_HISTORY_LIMIT: rootEnv.MESSAGE_HISTORY_LIMIT || '1000',
+    SESSION_SECRET: rootEnv.SESSION_SECRET || '',
+    ROOM_STORE: rootEnv.ROOM_STORE || 'memory',
+    ROOM_STORE_PATH: rootEnv.ROOM_STORE_PATH || 'data/rooms.json',
+    ATTACHMENT_STORE_PATH: rootEnv.ATTACHMENT_STORE_PATH || 'data/attachments',
+    ATTACHMENT_MAX_BYTES: rootEnv.ATTACHMENT_MAX_BYTES || '10485760',
+    ATTACHMENT_ALLOWED_TYPES:
+      rootEnv.ATTACHMENT_ALLOWED_TYPES ||
+      'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain',
+    ATTACHMENT_QUOTA_BYTES: rootEnv.ATTACHMENT_QUOTA_BYTES || '52428800',
+    ATTACHMENT_UNSENT_EXPIRY_HOURS:
+      rootEnv.ATTACHMENT_UNSENT_EXPIRY_HOURS || '1',
+    USER_AVATARS: rootEnv.USER_AVATARS || 'identicon'
   };
 
   const header = '# Backend Environment Configuration for kuikui\n# Generated from root .env file by env-setup.js';